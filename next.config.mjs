@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   allowedDevOrigins: ['172.30.55.154'],
+  // pdf.js loads its worker from disk at runtime and onnxruntime-node is a
+  // native addon, so keep both out of the server bundle
+  serverExternalPackages: ['pdfjs-dist', 'onnxruntime-node'],
   images: {
     remotePatterns: [],
     dangerouslyAllowSVG: true,
@@ -12,7 +12,8 @@ import {
   createPortfolioPhoto,
   canUploadMorePhotos
 } from '../src/lib/db/services';
-import { generatePortfolioContent, generateGradientTheme } from '../src/lib/ai/portfolio-generator';
+import { generatePortfolioContent } from '../src/lib/ai/portfolio-generator';
+import { generateTheme, themeBackgroundCss } from '../src/lib/portfolio/themes';
 
 async function testPortfolioGeneration() {
   console.log('🚀 Starting AI Portfolio Generation Test\n');
@@ -82,10 +83,10 @@ async function testPortfolioGeneration() {
     console.log(`   - Portfolio: ${portfolioContent.portfolio.title}`);
     console.log(`   - Contact: ${portfolioContent.contact.title}\n`);
 
-    // Test 7: Generate gradient theme
-    console.log('7️⃣ Generating gradient theme...');
-    const gradientCss = generateGradientTheme();
-    console.log(`✅ Theme generated: ${gradientCss}\n`);
+    // Test 7: Generate theme
+    console.log('7️⃣ Generating theme...');
+    const theme = generateTheme();
+    console.log(`✅ Theme generated: ${theme.name} (${themeBackgroundCss(theme.palettes.light)})\n`);
 
     // Test 8: Get user statistics
     console.log('8️⃣ Getting user statistics...');
@@ -0,0 +1,81 @@
+/**
+ * Disable Two-Factor API Route
+ * POST /api/auth/2fa/disable
+ * 
+ * Removes the user's authenticator and recovery codes after checking a code
+ * from the authenticator or a recovery code. Not allowed for roles that
+ * require two-factor authentication.
+ * Requires authentication; rate limited per user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteUserTwoFactor } from '@/lib/db/services';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import {
+  authenticateTwoFactorRequest,
+  isTwoFactorRequired,
+  twoFactorRateLimitUserId,
+  verifySecondFactor,
+} from '@/lib/security/two-factor';
+
+interface DisableRequest {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const limitCodeAttempts = createRateLimiter('auth', twoFactorRateLimitUserId);
+
+export async function POST(request: NextRequest) {
+  return limitCodeAttempts(request, async () => {
+    try {
+      const auth = await authenticateTwoFactorRequest(request);
+      if (auth.error !== undefined) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: auth.status }
+        );
+      }
+      
+      if (isTwoFactorRequired(auth.user)) {
+        return NextResponse.json(
+          { error: 'Two-factor authentication is required for your role' },
+          { status: 403 }
+        );
+      }
+      
+      const body: DisableRequest = await request.json();
+      const code = typeof body?.code === 'string' ? body.code : undefined;
+      const recoveryCode = typeof body?.recoveryCode === 'string' ? body.recoveryCode : undefined;
+      if (!code && !recoveryCode) {
+        return NextResponse.json(
+          { error: 'Code or recovery code is required' },
+          { status: 400 }
+        );
+      }
+      
+      if (!(await verifySecondFactor(auth.user.id, { code, recoveryCode }))) {
+        return NextResponse.json(
+          { error: recoveryCode ? 'Invalid or used recovery code' : 'Invalid code' },
+          { status: 400 }
+        );
+      }
+      
+      await deleteUserTwoFactor(auth.user.id);
+      
+      return NextResponse.json(
+        { message: 'Two-factor authentication disabled' },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Disable two-factor error:', error);
+      
+      return NextResponse.json(
+        { 
+          error: 'Failed to disable two-factor authentication',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
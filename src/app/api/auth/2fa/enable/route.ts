@@ -0,0 +1,85 @@
+/**
+ * Enable Two-Factor API Route
+ * POST /api/auth/2fa/enable
+ * 
+ * Confirms the authenticator set up with POST /api/auth/2fa/setup with a
+ * code from it, enables two-factor authentication and returns the recovery
+ * codes; they are only shown this once. During a sign-in that required the
+ * setup, this also finishes the sign-in and sets the token cookies.
+ * Requires authentication or the pre-auth cookie; rate limited per user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateUserLastLogin } from '@/lib/db/services';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { setSessionCookies, startSession } from '@/lib/security/sessions';
+import {
+  authenticateTwoFactorRequest,
+  clearPreAuthCookie,
+  confirmEnrollment,
+  twoFactorRateLimitUserId,
+} from '@/lib/security/two-factor';
+
+interface EnableRequest {
+  code: string;
+}
+
+const limitCodeAttempts = createRateLimiter('auth', twoFactorRateLimitUserId);
+
+export async function POST(request: NextRequest) {
+  return limitCodeAttempts(request, async () => {
+    try {
+      const auth = await authenticateTwoFactorRequest(request, 'enroll');
+      if (auth.error !== undefined) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: auth.status }
+        );
+      }
+      
+      const body: EnableRequest = await request.json();
+      if (!body?.code || typeof body.code !== 'string') {
+        return NextResponse.json(
+          { error: 'Code is required' },
+          { status: 400 }
+        );
+      }
+      
+      const recoveryCodes = await confirmEnrollment(auth.user, body.code);
+      if (!recoveryCodes) {
+        return NextResponse.json(
+          { error: 'Invalid code. Check the time on your device and try again.' },
+          { status: 400 }
+        );
+      }
+      
+      const response = NextResponse.json(
+        {
+          message: 'Two-factor authentication enabled',
+          recoveryCodes,
+        },
+        { status: 200 }
+      );
+      
+      // The setup was the second step of a sign-in
+      if (auth.preAuth) {
+        const tokens = await startSession(auth.user, request);
+        await updateUserLastLogin(auth.user.id);
+        setSessionCookies(response, tokens);
+        clearPreAuthCookie(response);
+      }
+      
+      return response;
+    } catch (error) {
+      console.error('Enable two-factor error:', error);
+      
+      return NextResponse.json(
+        { 
+          error: 'Failed to enable two-factor authentication',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
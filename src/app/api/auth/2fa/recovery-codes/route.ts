@@ -0,0 +1,72 @@
+/**
+ * Recovery Codes API Route
+ * POST /api/auth/2fa/recovery-codes
+ * 
+ * Replaces the user's recovery codes with new ones after checking a code
+ * from the authenticator; the old codes stop working.
+ * Requires authentication; rate limited per user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import {
+  authenticateTwoFactorRequest,
+  regenerateRecoveryCodes,
+  twoFactorRateLimitUserId,
+  verifySecondFactor,
+} from '@/lib/security/two-factor';
+
+interface RecoveryCodesRequest {
+  code: string;
+}
+
+const limitCodeAttempts = createRateLimiter('auth', twoFactorRateLimitUserId);
+
+export async function POST(request: NextRequest) {
+  return limitCodeAttempts(request, async () => {
+    try {
+      const auth = await authenticateTwoFactorRequest(request);
+      if (auth.error !== undefined) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: auth.status }
+        );
+      }
+      
+      const body: RecoveryCodesRequest = await request.json();
+      if (!body?.code || typeof body.code !== 'string') {
+        return NextResponse.json(
+          { error: 'Code is required' },
+          { status: 400 }
+        );
+      }
+      
+      if (!(await verifySecondFactor(auth.user.id, { code: body.code }))) {
+        return NextResponse.json(
+          { error: 'Invalid code' },
+          { status: 400 }
+        );
+      }
+      
+      const recoveryCodes = await regenerateRecoveryCodes(auth.user.id);
+      
+      return NextResponse.json(
+        {
+          message: 'New recovery codes created',
+          recoveryCodes,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      
+      return NextResponse.json(
+        { 
+          error: 'Failed to create recovery codes',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  });
+}
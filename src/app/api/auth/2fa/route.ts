@@ -0,0 +1,35 @@
+/**
+ * Two-Factor Status API Route
+ * GET /api/auth/2fa
+ * 
+ * Whether the current user has two-factor authentication enabled, whether
+ * their role requires it and how many recovery codes they have left.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateTwoFactorRequest, twoFactorStatus } from '@/lib/security/two-factor';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateTwoFactorRequest(request);
+    if (auth.error !== undefined) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+    
+    return NextResponse.json(await twoFactorStatus(auth.user), { status: 200 });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to get two-factor status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Two-Factor Setup API Route
+ * POST /api/auth/2fa/setup
+ * 
+ * Starts adding an authenticator app: creates a new TOTP secret and returns
+ * it with its otpauth:// URL and a QR code to scan. Nothing changes for the
+ * user until POST /api/auth/2fa/enable confirms a code; starting again
+ * replaces the secret.
+ * Requires authentication, or the pre-auth cookie of a sign-in that must
+ * set up two-factor authentication first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateTwoFactorRequest, startEnrollment } from '@/lib/security/two-factor';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateTwoFactorRequest(request, 'enroll');
+    if (auth.error !== undefined) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+    
+    const enrollment = await startEnrollment(auth.user);
+    if (!enrollment) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(enrollment, { status: 200 });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to set up two-factor authentication',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
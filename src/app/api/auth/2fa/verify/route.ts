@@ -0,0 +1,96 @@
+/**
+ * Two-Factor Sign-In API Route
+ * POST /api/auth/2fa/verify
+ * 
+ * Second step of signing in for users with two-factor authentication:
+ * trades the pre-auth cookie set by the password or OAuth step and a code
+ * from the authenticator, or a recovery code, for the token cookies.
+ * Requires the pre-auth cookie; rate limited per user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { countUnusedRecoveryCodes, updateUserLastLogin } from '@/lib/db/services';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { setSessionCookies, startSession } from '@/lib/security/sessions';
+import {
+  authenticateTwoFactorRequest,
+  clearPreAuthCookie,
+  twoFactorRateLimitUserId,
+  verifySecondFactor,
+} from '@/lib/security/two-factor';
+
+interface VerifyRequest {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const limitCodeAttempts = createRateLimiter('auth', twoFactorRateLimitUserId);
+
+export async function POST(request: NextRequest) {
+  return limitCodeAttempts(request, async () => {
+    try {
+      const auth = await authenticateTwoFactorRequest(request, 'verify');
+      if (auth.error !== undefined) {
+        return NextResponse.json(
+          { error: 'Your sign-in expired, please sign in again' },
+          { status: 401 }
+        );
+      }
+      if (!auth.preAuth) {
+        return NextResponse.json(
+          { error: 'Already signed in' },
+          { status: 400 }
+        );
+      }
+      
+      const body: VerifyRequest = await request.json();
+      const code = typeof body?.code === 'string' ? body.code : undefined;
+      const recoveryCode = typeof body?.recoveryCode === 'string' ? body.recoveryCode : undefined;
+      if (!code && !recoveryCode) {
+        return NextResponse.json(
+          { error: 'Code or recovery code is required' },
+          { status: 400 }
+        );
+      }
+      
+      const { user } = auth;
+      if (!(await verifySecondFactor(user.id, { code, recoveryCode }))) {
+        return NextResponse.json(
+          { error: recoveryCode ? 'Invalid or used recovery code' : 'Invalid code' },
+          { status: 401 }
+        );
+      }
+      
+      // Start a session; only the hash of its refresh token is stored
+      const tokens = await startSession(user, request);
+      await updateUserLastLogin(user.id);
+      
+      const response = NextResponse.json(
+        {
+          message: 'Login successful',
+          user: {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            role: user.role,
+            emailVerified: user.emailVerified,
+          },
+          // Signing in with a recovery code is a hint to set up new ones
+          recoveryCodesLeft: recoveryCode ? await countUnusedRecoveryCodes(user.id) : undefined,
+        },
+        { status: 200 }
+      );
+      setSessionCookies(response, tokens);
+      clearPreAuthCookie(response);
+      
+      return response;
+    } catch (error) {
+      console.error('Two-factor sign-in error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * OAuth Callback API Route
+ * GET /api/auth/callback/{provider}?code={code}&state={state}
+ * 
+ * Finishes signing in with GitHub or Google. Checks the state against the
+ * cookie set by GET /api/auth/oauth/{provider}, exchanges the code with the
+ * PKCE verifier and signs in the user of the provider account, linking it
+ * to an existing account with the same verified email or creating one.
+ * Sets the usual access and refresh token cookies and redirects to the page
+ * the sign-in started from; failures redirect to /login?error={code}.
+ * Users with two-factor authentication go to /login?two_factor={stage}
+ * with the pre-auth cookie instead, for the second step.
+ * Public (no auth required)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyOAuthStateToken } from '@/lib/security/jwt';
+import {
+  OAUTH_STATE_COOKIE,
+  OAuthError,
+  exchangeAuthorizationCode,
+  fetchOAuthProfile,
+  isOAuthProvider,
+  isSameState,
+  resolveOAuthUser,
+} from '@/lib/security/oauth';
+import { setSessionCookies, startSession } from '@/lib/security/sessions';
+import { secondFactorStage, setPreAuthCookie } from '@/lib/security/two-factor';
+import { updateUserLastLogin } from '@/lib/db/services';
+
+/**
+ * Redirect to the login page with an error code, dropping the state cookie
+ */
+function failSignIn(request: NextRequest, error: string): NextResponse {
+  const response = NextResponse.redirect(new URL(`/login?error=${error}`, request.url));
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/callback' });
+  return response;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider } = await params;
+    if (!isOAuthProvider(provider)) {
+      return NextResponse.json(
+        { error: 'Unknown sign-in provider' },
+        { status: 404 }
+      );
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    // The user cancelled at the provider
+    if (searchParams.get('error')) {
+      return failSignIn(request, 'oauth_denied');
+    }
+    
+    // The state has to match the one of this browser's sign-in
+    const stateToken = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+    const expected = stateToken ? verifyOAuthStateToken(stateToken) : null;
+    const state = searchParams.get('state');
+    if (!expected || expected.provider !== provider || !state || !isSameState(expected.state, state)) {
+      return failSignIn(request, 'oauth_state');
+    }
+    
+    const code = searchParams.get('code');
+    if (!code) {
+      return failSignIn(request, 'oauth_failed');
+    }
+    
+    let profile;
+    try {
+      const accessToken = await exchangeAuthorizationCode(provider, code, expected.codeVerifier);
+      profile = await fetchOAuthProfile(provider, accessToken);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        console.error('OAuth provider error:', error.message);
+        return failSignIn(request, 'oauth_failed');
+      }
+      throw error;
+    }
+    
+    const resolved = await resolveOAuthUser(provider, profile);
+    if (resolved.error !== undefined) {
+      const codes: Record<number, string> = { 403: 'account_deactivated', 409: 'oauth_already_linked' };
+      return failSignIn(request, codes[resolved.status] || 'oauth_no_email');
+    }
+    
+    const { user } = resolved;
+    
+    // With two-factor authentication the session starts after the second step
+    const stage = await secondFactorStage(user);
+    if (stage) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('two_factor', stage);
+      loginUrl.searchParams.set('from', expected.from);
+      const response = NextResponse.redirect(loginUrl);
+      response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/callback' });
+      setPreAuthCookie(response, user.id, stage);
+      return response;
+    }
+    
+    const tokens = await startSession(user, request);
+    await updateUserLastLogin(user.id);
+    
+    // TODO: Log successful login
+    // await db.auditLogs.create({
+    //   userId: user.id,
+    //   action: 'login_success',
+    //   resource: 'user',
+    //   resourceId: user.id,
+    //   metadata: { provider },
+    // });
+    
+    const response = NextResponse.redirect(new URL(expected.from, request.url));
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/callback' });
+    setSessionCookies(response, tokens);
+    
+    return response;
+  } catch (error) {
+    console.error('OAuth callback error:', error);
+    
+    return failSignIn(request, 'server_error');
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Forgot Password API Route
+ * POST /api/auth/forgot-password
+ * 
+ * Emails a link to choose a new password. The answer is the same whether
+ * or not an account exists for the email, and so is the response time:
+ * the email is sent after responding.
+ * Public (no auth required); rate limited
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { findUserByEmail } from '@/lib/db/services';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { sendPasswordResetEmail } from '@/lib/security/email-tokens';
+
+interface ForgotPasswordRequest {
+  email: string;
+}
+
+const limitResetRequests = createRateLimiter('auth');
+
+export async function POST(request: NextRequest) {
+  return limitResetRequests(request, async () => {
+    try {
+      const body: ForgotPasswordRequest = await request.json();
+      if (!body?.email || typeof body.email !== 'string') {
+        return NextResponse.json(
+          { error: 'Email is required' },
+          { status: 400 }
+        );
+      }
+      
+      const user = await findUserByEmail(body.email.trim().toLowerCase());
+      if (user && user.isActive) {
+        // Not awaited, so the response time does not reveal accounts either
+        after(() =>
+          sendPasswordResetEmail(user).catch((error) => {
+            console.error('Failed to send password reset email:', error);
+          })
+        );
+      }
+      
+      return NextResponse.json(
+        { message: 'If an account exists for this email, a link to reset the password is on its way.' },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
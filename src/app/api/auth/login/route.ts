@@ -7,7 +7,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAccessToken, createRefreshToken } from '@/lib/security/jwt';
+import { setSessionCookies, startSession } from '@/lib/security/sessions';
+import { verifyPassword } from '@/lib/security/auth';
+import { isEmailVerificationRequired } from '@/lib/security/email-tokens';
+import { secondFactorStage, setPreAuthCookie } from '@/lib/security/two-factor';
+import { findUserByEmail, updateUserLastLogin } from '@/lib/db/services';
 
 // Rate limit: 5 requests per 15 minutes
 // TODO: Apply rate limiting middleware
@@ -38,109 +42,98 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // TODO: Fetch user from database
-    // const user = await db.users.findByEmail(body.email);
-    // if (!user || !user.passwordHash) {
-    //   return NextResponse.json(
-    //     { error: 'Invalid credentials' },
-    //     { status: 401 }
-    //   );
-    // }
-    
-    // TODO: Verify password
-    // const isValidPassword = await verifyPassword(body.password, user.passwordHash);
-    // if (!isValidPassword) {
-    //   // Log failed login attempt
-    //   await db.auditLogs.create({
-    //     action: 'login_failed',
-    //     resource: 'user',
-    //     resourceId: user.id,
-    //     ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
-    //     userAgent: request.headers.get('user-agent') || 'unknown',
-    //   });
-    //   
-    //   return NextResponse.json(
-    //     { error: 'Invalid credentials' },
-    //     { status: 401 }
-    //   );
-    // }
+    // Fetch user from database; emails are stored lowercase
+    const user = await findUserByEmail(body.email.trim().toLowerCase());
+    if (!user || !user.passwordHash) {
+      return NextResponse.json(
+        { error: 'Invalid credentials' },
+        { status: 401 }
+      );
+    }
     
-    // TODO: Check if user is active
-    // if (!user.isActive) {
-    //   return NextResponse.json(
-    //     { error: 'Account is deactivated' },
-    //     { status: 403 }
-    //   );
-    // }
+    // Verify password
+    const isValidPassword = await verifyPassword(body.password, user.passwordHash);
+    if (!isValidPassword) {
+      // TODO: Log failed login attempt
+      // await db.auditLogs.create({
+      //   action: 'login_failed',
+      //   resource: 'user',
+      //   resourceId: user.id,
+      //   ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
+      //   userAgent: request.headers.get('user-agent') || 'unknown',
+      // });
+      
+      return NextResponse.json(
+        { error: 'Invalid credentials' },
+        { status: 401 }
+      );
+    }
     
-    // TODO: Check if email is verified (if required)
-    // if (process.env.REQUIRE_EMAIL_VERIFICATION === 'true' && !user.emailVerified) {
-    //   return NextResponse.json(
-    //     { error: 'Email not verified. Please check your email.' },
-    //     { status: 403 }
-    //   );
-    // }
+    // Check if user is active
+    if (!user.isActive) {
+      return NextResponse.json(
+        { error: 'Account is deactivated' },
+        { status: 403 }
+      );
+    }
     
-    // For demo purposes - accept any email/password combination
-    const userId = 'demo-user-id'; // TODO: Use actual user ID
-    const email = body.email;
-    const role = 'superuser'; // For demo, all users get superuser role
+    // Check if email is verified (if required)
+    if (isEmailVerificationRequired() && !user.emailVerified) {
+      return NextResponse.json(
+        {
+          error: 'Email not verified. Please check your email for the verification link.',
+          emailVerified: false,
+        },
+        { status: 403 }
+      );
+    }
     
-    // Generate tokens
-    const accessToken = createAccessToken(userId, email, role);
-    const refreshToken = createRefreshToken(userId);
+    // With two-factor authentication the session starts after the second step
+    const stage = await secondFactorStage(user);
+    if (stage) {
+      const response = NextResponse.json(
+        {
+          message: stage === 'verify'
+            ? 'Enter the code from your authenticator app'
+            : 'Set up two-factor authentication to continue',
+          twoFactor: stage,
+        },
+        { status: 200 }
+      );
+      setPreAuthCookie(response, user.id, stage);
+      return response;
+    }
     
-    // TODO: Store refresh token in database
-    // await db.sessions.create({
-    //   userId,
-    //   token: hashToken(refreshToken),
-    //   expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-    //   ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
-    //   userAgent: request.headers.get('user-agent') || 'unknown',
-    // });
+    // Start a session; only the hash of its refresh token is stored
+    const tokens = await startSession(user, request);
     
-    // TODO: Update last login timestamp
-    // await db.users.update(userId, {
-    //   lastLoginAt: new Date(),
-    // });
+    // Update last login timestamp
+    await updateUserLastLogin(user.id);
     
     // Set HTTP-only cookies
     const response = NextResponse.json(
       {
         message: 'Login successful',
         user: {
-          id: userId,
-          email: email,
-          // name: user.name,
-          // emailVerified: user.emailVerified,
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerified: user.emailVerified,
         },
       },
       { status: 200 }
     );
     
     // Set secure cookies
-    response.cookies.set('accessToken', accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 3600, // 1 hour
-      path: '/',
-    });
-    
-    response.cookies.set('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 604800, // 7 days
-      path: '/',
-    });
+    setSessionCookies(response, tokens);
     
     // TODO: Log successful login
     // await db.auditLogs.create({
-    //   userId,
+    //   userId: user.id,
     //   action: 'login_success',
     //   resource: 'user',
-    //   resourceId: userId,
+    //   resourceId: user.id,
     //   ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
     //   userAgent: request.headers.get('user-agent') || 'unknown',
     // });
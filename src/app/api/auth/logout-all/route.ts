@@ -0,0 +1,58 @@
+/**
+ * Sign Out Everywhere API Route
+ * POST /api/auth/logout-all
+ * 
+ * Revokes every session of the current user, on all devices, and clears
+ * the token cookies. Access tokens already issued stay valid until they
+ * expire (at most 1 hour).
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { revokeUserSessions } from '@/lib/db/services';
+import { clearSessionCookies } from '@/lib/security/sessions';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const revoked = await revokeUserSessions(userId, 'logout_all');
+    
+    const response = NextResponse.json(
+      {
+        message: 'Signed out on all devices',
+        revokedSessions: revoked,
+      },
+      { status: 200 }
+    );
+    clearSessionCookies(response);
+    
+    return response;
+  } catch (error) {
+    console.error('Sign out everywhere error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to sign out everywhere',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
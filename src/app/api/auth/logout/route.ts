@@ -2,14 +2,21 @@
  * User Logout API Route
  * POST /api/auth/logout
  * 
- * Logs out the current user by invalidating tokens
+ * Logs out the current user by revoking their session and clearing the token cookies
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAccessToken } from '@/lib/security/jwt';
+import { clearSessionCookies, endSession } from '@/lib/security/sessions';
 
 export async function POST(request: NextRequest) {
   try {
+    // Revoke the session, so its refresh token stops working
+    const refreshToken = request.cookies.get('refreshToken')?.value;
+    if (refreshToken) {
+      await endSession(refreshToken);
+    }
+    
     // Get access token from cookie
     const accessToken = request.cookies.get('accessToken')?.value;
     
@@ -18,9 +25,6 @@ export async function POST(request: NextRequest) {
       const userId = verifyAccessToken(accessToken);
       
       if (userId) {
-        // TODO: Invalidate refresh token in database
-        // await db.sessions.deleteByUserId(userId);
-        
         // TODO: Log logout event
         // await db.auditLogs.create({
         //   userId,
@@ -39,8 +43,7 @@ export async function POST(request: NextRequest) {
       { status: 200 }
     );
     
-    response.cookies.delete('accessToken');
-    response.cookies.delete('refreshToken');
+    clearSessionCookies(response);
     
     return response;
   } catch (error) {
@@ -52,8 +55,7 @@ export async function POST(request: NextRequest) {
       { status: 200 }
     );
     
-    response.cookies.delete('accessToken');
-    response.cookies.delete('refreshToken');
+    clearSessionCookies(response);
     
     return response;
   }
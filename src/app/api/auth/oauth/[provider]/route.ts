@@ -0,0 +1,64 @@
+/**
+ * OAuth Sign-in API Route
+ * GET /api/auth/oauth/{provider}?from={path}
+ * 
+ * Starts signing in with GitHub or Google: redirects to the provider with a
+ * random state and a PKCE code challenge. The state and code verifier wait
+ * in a signed cookie for the callback (10 minutes); `from` is the page to
+ * return to after signing in.
+ * Public (no auth required)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createOAuthStateToken } from '@/lib/security/jwt';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE,
+  createAuthorizationRequest,
+  isOAuthProvider,
+  isOAuthProviderConfigured,
+} from '@/lib/security/oauth';
+import { safeReturnPath } from '@/lib/security/sessions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider } = await params;
+    if (!isOAuthProvider(provider)) {
+      return NextResponse.json(
+        { error: 'Unknown sign-in provider' },
+        { status: 404 }
+      );
+    }
+    
+    if (!isOAuthProviderConfigured(provider)) {
+      console.error(`OAuth provider ${provider} is not configured`);
+      return NextResponse.redirect(new URL('/login?error=oauth_unavailable', request.url));
+    }
+    
+    const { url, state, codeVerifier } = createAuthorizationRequest(provider);
+    const from = safeReturnPath(request.nextUrl.searchParams.get('from'));
+    
+    const response = NextResponse.redirect(url);
+    // Lax, so the cookie comes along when the provider redirects back
+    response.cookies.set(
+      OAUTH_STATE_COOKIE,
+      createOAuthStateToken(provider, { state, codeVerifier, from }, OAUTH_STATE_MAX_AGE),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: OAUTH_STATE_MAX_AGE,
+        path: '/api/auth/callback',
+      }
+    );
+    
+    return response;
+  } catch (error) {
+    console.error('OAuth sign-in error:', error);
+    
+    return NextResponse.redirect(new URL('/login?error=server_error', request.url));
+  }
+}
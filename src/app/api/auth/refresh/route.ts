@@ -0,0 +1,88 @@
+/**
+ * Token Refresh API Route
+ * POST /api/auth/refresh
+ * GET /api/auth/refresh?from={path}
+ * 
+ * Exchanges the refresh token cookie for a new access token and a new
+ * refresh token; the old refresh token stops working. Using a refresh token
+ * that was already exchanged signs the session out.
+ * GET does the same for page navigations and redirects back to `from`, or
+ * to the login page when the session has ended. The middleware sends
+ * visitors with an expired access token here.
+ * Public (authenticated by the refresh token cookie)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, refreshSession, safeReturnPath, setSessionCookies } from '@/lib/security/sessions';
+
+export async function GET(request: NextRequest) {
+  const from = safeReturnPath(request.nextUrl.searchParams.get('from'));
+  
+  try {
+    const refreshToken = request.cookies.get('refreshToken')?.value;
+    const result = refreshToken ? await refreshSession(refreshToken, request) : null;
+    
+    if (!result || result.error !== undefined) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('from', from);
+      const response = NextResponse.redirect(loginUrl);
+      clearSessionCookies(response);
+      return response;
+    }
+    
+    const response = NextResponse.redirect(new URL(from, request.url));
+    setSessionCookies(response, result.tokens);
+    
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    
+    return NextResponse.redirect(new URL('/login?error=server_error', request.url));
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get('refreshToken')?.value;
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token required' },
+        { status: 401 }
+      );
+    }
+    
+    const result = await refreshSession(refreshToken, request);
+    if (result.error !== undefined) {
+      const response = NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+      clearSessionCookies(response);
+      return response;
+    }
+    
+    const response = NextResponse.json(
+      {
+        message: 'Tokens refreshed successfully',
+        user: {
+          id: result.user.id,
+          email: result.user.email,
+          name: result.user.name,
+          role: result.user.role,
+          emailVerified: result.user.emailVerified,
+        },
+      },
+      { status: 200 }
+    );
+    setSessionCookies(response, result.tokens);
+    
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,16 @@
  * User Registration API Route
  * POST /api/auth/register
  * 
- * Registers a new user with email and password
- * Requires email verification before account activation
+ * Registers a new user with email and password and emails a verification
+ * link. Signs the user in, unless REQUIRE_EMAIL_VERIFICATION asks for the
+ * email to be verified first.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAccessToken, createRefreshToken } from '@/lib/security/jwt';
+import { setSessionCookies, startSession } from '@/lib/security/sessions';
+import { hashPassword } from '@/lib/security/auth';
+import { isEmailVerificationRequired, sendVerificationEmail } from '@/lib/security/email-tokens';
+import { createUser, findUserByEmail } from '@/lib/db/services';
 
 // Rate limit: 5 requests per 15 minutes
 // TODO: Apply rate limiting middleware
@@ -39,18 +43,12 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Check if JWT_SECRET is configured
-    if (!process.env.JWT_SECRET) {
-      console.error('JWT_SECRET is not configured');
-      return NextResponse.json(
-        { error: 'Server configuration error. Please contact administrator.' },
-        { status: 500 }
-      );
-    }
+    // Emails are stored lowercase, so the same address cannot register twice
+    const email = body.email.trim().toLowerCase();
     
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(body.email)) {
+    if (!emailRegex.test(email)) {
       return NextResponse.json(
         { error: 'Invalid email format' },
         { status: 400 }
@@ -67,90 +65,86 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // TODO: Check if user already exists in database
-    // const existingUser = await db.users.findByEmail(body.email);
-    // if (existingUser) {
-    //   return NextResponse.json(
-    //     { error: 'User already exists' },
-    //     { status: 409 }
-    //   );
-    // }
-    
-    // TODO: Hash password for production use
-    // const passwordHash = await hashPassword(body.password);
-    
-    // TODO: Create user in database
-    // const user = await db.users.create({
-    //   email: body.email,
-    //   passwordHash,
-    //   name: body.name,
-    //   provider: 'email',
-    //   emailVerified: false,
-    //   isActive: true,
-    // });
+    // Check if user already exists
+    const existingUser = await findUserByEmail(email);
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
     
-    // TODO: Generate email verification token
-    // const verificationToken = generateVerificationToken();
-    // await db.verificationTokens.create({
-    //   userId: user.id,
-    //   token: hashToken(verificationToken),
-    //   expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-    // });
+    // Create user; new accounts get the regular user role
+    const passwordHash = await hashPassword(body.password);
+    let user;
+    try {
+      user = await createUser({
+        email,
+        passwordHash,
+        name: body.name?.trim() || undefined,
+        role: 'user',
+        emailVerified: false,
+        isActive: true,
+      });
+    } catch (error) {
+      // Another request registered the same email in the meantime
+      if ((error as { code?: string }).code === '23505') {
+        return NextResponse.json(
+          { error: 'An account with this email already exists' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
     
-    // TODO: Send verification email
-    // await sendVerificationEmail(body.email, verificationToken);
+    // Send the verification link; the user can ask for a new one if this fails
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
     
-    // For demo purposes, create tokens (in production, only after email verification)
-    const userId = 'demo-user-id'; // TODO: Use actual user ID from database
-    const role = 'superuser'; // For demo, all users get superuser role
-    const accessToken = createAccessToken(userId, body.email, role);
-    const refreshToken = createRefreshToken(userId);
+    const userSummary = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      emailVerified: user.emailVerified,
+    };
     
-    // TODO: Store refresh token in database
-    // await db.sessions.create({
-    //   userId,
-    //   token: hashToken(refreshToken),
-    //   expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-    //   ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
-    //   userAgent: request.headers.get('user-agent') || 'unknown',
-    // });
+    // Users sign in once their email is verified
+    if (isEmailVerificationRequired()) {
+      return NextResponse.json(
+        {
+          message: 'User registered successfully. Please check your email to verify your account before signing in.',
+          user: userSummary,
+          verificationRequired: true,
+        },
+        { status: 201 }
+      );
+    }
+    
+    // Start a session; only the hash of its refresh token is stored
+    const tokens = await startSession(user, request);
     
     // Set HTTP-only cookies
     const response = NextResponse.json(
       {
         message: 'User registered successfully. Please check your email to verify your account.',
-        user: {
-          id: userId,
-          email: body.email,
-          name: body.name,
-          emailVerified: false,
-        },
+        user: userSummary,
+        verificationRequired: false,
       },
       { status: 201 }
     );
     
     // Set secure cookies
-    response.cookies.set('accessToken', accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 3600, // 1 hour
-      path: '/',
-    });
-    
-    response.cookies.set('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 604800, // 7 days
-      path: '/',
-    });
+    setSessionCookies(response, tokens);
     
     // TODO: Log audit event
     // await db.auditLogs.create({
     //   action: 'user_registered',
     //   resource: 'user',
-    //   resourceId: userId,
+    //   resourceId: user.id,
     //   ipAddress: request.headers.get('x-forwarded-for') || 'unknown',
     //   userAgent: request.headers.get('user-agent') || 'unknown',
     // });
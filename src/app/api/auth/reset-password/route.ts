@@ -0,0 +1,66 @@
+/**
+ * Reset Password API Route
+ * POST /api/auth/reset-password
+ * 
+ * Sets a new password with the token of a reset link. Every session of
+ * the user is signed out, including this browser's; the user signs in
+ * again with the new password.
+ * Public (no auth required); rate limited
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { resetPassword } from '@/lib/security/email-tokens';
+import { clearSessionCookies } from '@/lib/security/sessions';
+
+interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+const limitResetAttempts = createRateLimiter('auth');
+
+export async function POST(request: NextRequest) {
+  return limitResetAttempts(request, async () => {
+    try {
+      const body: ResetPasswordRequest = await request.json();
+      if (!body?.token || typeof body.token !== 'string' || typeof body.password !== 'string') {
+        return NextResponse.json(
+          { error: 'Token and password are required' },
+          { status: 400 }
+        );
+      }
+      
+      // Same rule as at registration
+      if (body.password.length < 5) {
+        return NextResponse.json(
+          { error: 'Password must be at least 5 characters' },
+          { status: 400 }
+        );
+      }
+      
+      const user = await resetPassword(body.token, body.password);
+      if (!user) {
+        return NextResponse.json(
+          { error: 'This reset link is invalid or has expired' },
+          { status: 400 }
+        );
+      }
+      
+      const response = NextResponse.json(
+        { message: 'Password reset successfully. Please sign in with your new password.' },
+        { status: 200 }
+      );
+      clearSessionCookies(response);
+      
+      return response;
+    } catch (error) {
+      console.error('Reset password error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
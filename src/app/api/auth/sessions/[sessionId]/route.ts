@@ -0,0 +1,73 @@
+/**
+ * Session API Route
+ * DELETE /api/auth/sessions/{sessionId}
+ * 
+ * Signs one of the current user's sessions out; its refresh token stops
+ * working. Revoking the session of this request also clears its cookies.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionAccessTokenPayload } from '@/lib/middleware/auth';
+import { findSessionById, revokeSession } from '@/lib/db/services';
+import { clearSessionCookies } from '@/lib/security/sessions';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const payload = await getSessionAccessTokenPayload(accessToken);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Other users' sessions look like missing ones
+    const { sessionId } = await params;
+    const session = await findSessionById(sessionId);
+    if (!session || session.userId !== payload.sub || session.revokedAt) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    await revokeSession(sessionId, 'logout');
+    
+    const current = sessionId === payload.sid;
+    const response = NextResponse.json(
+      {
+        message: 'Session revoked successfully',
+        current,
+      },
+      { status: 200 }
+    );
+    if (current) {
+      clearSessionCookies(response);
+    }
+    
+    return response;
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to revoke session',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
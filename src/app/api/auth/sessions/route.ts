@@ -0,0 +1,59 @@
+/**
+ * Active Sessions API Route
+ * GET /api/auth/sessions
+ * 
+ * Lists where the current user is signed in: every session that is neither
+ * revoked nor expired, with the IP address and user agent it was last used
+ * from. `current` marks the session of this request. Last use is updated
+ * whenever the session refreshes its tokens (about hourly while active).
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionAccessTokenPayload } from '@/lib/middleware/auth';
+import { listActiveUserSessions } from '@/lib/db/services';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const payload = await getSessionAccessTokenPayload(accessToken);
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const sessions = await listActiveUserSessions(payload.sub);
+    
+    return NextResponse.json(
+      {
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          ipAddress: session.ipAddress || null,
+          userAgent: session.userAgent || null,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          current: session.id === payload.sid,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('List sessions error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Resend Verification Email API Route
+ * POST /api/auth/verify-email/resend
+ * 
+ * Sends a new verification link, replacing the previous one. Signed-in
+ * users get it for their own address; otherwise the request names the
+ * email. The answer is the same whether or not an unverified account
+ * exists for it, and so is the response time: the email is sent after
+ * responding.
+ * Public (no auth required); rate limited
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { findUserByEmail, findUserById } from '@/lib/db/services';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { sendVerificationEmail } from '@/lib/security/email-tokens';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+
+interface ResendRequest {
+  email?: string;
+}
+
+const limitResends = createRateLimiter('auth');
+
+export async function POST(request: NextRequest) {
+  return limitResends(request, async () => {
+    try {
+      const accessToken = request.cookies.get('accessToken')?.value;
+      const userId = accessToken ? await verifySessionAccessToken(accessToken) : null;
+      
+      let user;
+      if (userId) {
+        user = await findUserById(userId);
+      } else {
+        const body: ResendRequest = await request.json().catch(() => ({}));
+        if (!body?.email || typeof body.email !== 'string') {
+          return NextResponse.json(
+            { error: 'Email is required' },
+            { status: 400 }
+          );
+        }
+        user = await findUserByEmail(body.email.trim().toLowerCase());
+      }
+      
+      if (user && user.isActive && !user.emailVerified) {
+        // Not awaited, so the response time does not reveal accounts either
+        after(() =>
+          sendVerificationEmail(user).catch((error) => {
+            console.error('Failed to send verification email:', error);
+          })
+        );
+      }
+      
+      return NextResponse.json(
+        { message: 'If the account exists and is not verified yet, a new verification link is on its way.' },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Resend verification email error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Verify Email API Route
+ * POST /api/auth/verify-email
+ * 
+ * Verifies the user's email address with the token of a verification link.
+ * The page the link opens posts the token, so link scanners that only
+ * fetch the page do not use it up.
+ * Public (no auth required); rate limited
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { verifyEmail } from '@/lib/security/email-tokens';
+
+interface VerifyEmailRequest {
+  token: string;
+}
+
+const limitVerifyAttempts = createRateLimiter('auth');
+
+export async function POST(request: NextRequest) {
+  return limitVerifyAttempts(request, async () => {
+    try {
+      const body: VerifyEmailRequest = await request.json();
+      if (!body?.token || typeof body.token !== 'string') {
+        return NextResponse.json(
+          { error: 'Verification token is required' },
+          { status: 400 }
+        );
+      }
+      
+      const user = await verifyEmail(body.token);
+      if (!user) {
+        return NextResponse.json(
+          { error: 'This verification link is invalid or has expired' },
+          { status: 400 }
+        );
+      }
+      
+      return NextResponse.json(
+        {
+          message: 'Email verified successfully',
+          email: user.email,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Verify email error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
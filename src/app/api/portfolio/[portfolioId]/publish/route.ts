@@ -0,0 +1,110 @@
+/**
+ * Publish Portfolio API Route
+ * POST /api/portfolio/{portfolioId}/publish
+ * 
+ * Makes a portfolio public, or unlisted: reachable by its URL but kept out
+ * of search engines. Generated portfolios are drafts until published.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { ensurePortfolioSlug, setPortfolioVisibility } from '@/lib/db/services';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import { portfolioPageUrl } from '@/lib/portfolio/urls';
+import { isHumanApprovalRequired } from '@/lib/portfolio/visibility';
+
+interface PublishRequest {
+  // The owner agrees to make the portfolio content public
+  consent?: boolean;
+  // The owner reviewed the AI-generated content (see REQUIRE_HUMAN_APPROVAL)
+  approvalConfirmed?: boolean;
+  visibility?: 'published' | 'unlisted';
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ portfolioId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: PublishRequest = await request.json().catch(() => ({}));
+    const visibility = body?.visibility ?? 'published';
+    if (visibility !== 'published' && visibility !== 'unlisted') {
+      return NextResponse.json(
+        { error: 'Visibility must be published or unlisted' },
+        { status: 400 }
+      );
+    }
+    if (body?.consent !== true) {
+      return NextResponse.json(
+        { error: 'Consent is required to publish a portfolio' },
+        { status: 403 }
+      );
+    }
+    if (isHumanApprovalRequired() && body.approvalConfirmed !== true) {
+      return NextResponse.json(
+        { error: 'Confirm that you reviewed the generated content before publishing' },
+        { status: 403 }
+      );
+    }
+    
+    const { portfolioId } = await params;
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const portfolio = await setPortfolioVisibility(portfolioId, visibility);
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+    const slug = await ensurePortfolioSlug(portfolio);
+    
+    return NextResponse.json(
+      {
+        message: 'Portfolio published successfully',
+        portfolio: {
+          id: portfolio.id,
+          visibility: portfolio.visibility,
+          publishedUrl: portfolioPageUrl(slug),
+          publishedAt: portfolio.publishedAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Publish portfolio error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to publish portfolio',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Unpublish Portfolio API Route
+ * POST /api/portfolio/{portfolioId}/unpublish
+ * 
+ * Turns a portfolio back into a draft: its pages, share image and domains
+ * answer 404 to everyone but the owner and preview links.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { setPortfolioVisibility } from '@/lib/db/services';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ portfolioId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const { portfolioId } = await params;
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const portfolio = await setPortfolioVisibility(portfolioId, 'draft');
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        message: 'Portfolio unpublished successfully',
+        portfolio: {
+          id: portfolio.id,
+          visibility: portfolio.visibility,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unpublish portfolio error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to unpublish portfolio',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
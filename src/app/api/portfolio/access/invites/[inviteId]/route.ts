@@ -0,0 +1,63 @@
+/**
+ * Portfolio Invite API Route
+ * DELETE /api/portfolio/access/invites/{inviteId}
+ * 
+ * Revokes an invite. Its link stops working, and everyone who unlocked the
+ * portfolio before has to open their invite link again.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { deletePortfolioInvite } from '@/lib/db/services';
+import { loadOwnedInvite } from '@/lib/portfolio/access';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ inviteId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const { inviteId } = await params;
+    const owned = await loadOwnedInvite(inviteId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    await deletePortfolioInvite(owned.invite);
+    
+    return NextResponse.json(
+      { message: 'Invite revoked successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Revoke portfolio invite error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to revoke invite',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
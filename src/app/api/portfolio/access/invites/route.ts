@@ -0,0 +1,103 @@
+/**
+ * Portfolio Invites API Route
+ * POST /api/portfolio/access/invites
+ * 
+ * Invites an email address to an invite-only portfolio and returns the
+ * invite link to send to that person. The link is only shown once; inviting
+ * the same address again replaces it.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { listPortfolioInvites } from '@/lib/db/services';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import { MAX_INVITES_PER_PORTFOLIO, createInviteLink } from '@/lib/portfolio/access';
+
+interface CreateInviteRequest {
+  portfolioId: string;
+  email: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: CreateInviteRequest = await request.json();
+    if (!body?.portfolioId || typeof body.email !== 'string') {
+      return NextResponse.json(
+        { error: 'Portfolio ID and email are required' },
+        { status: 400 }
+      );
+    }
+    
+    // Validate email format
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(body.email.trim())) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(body.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const email = body.email.trim().toLowerCase();
+    const invites = await listPortfolioInvites(body.portfolioId);
+    if (invites.length >= MAX_INVITES_PER_PORTFOLIO && !invites.some((invite) => invite.email === email)) {
+      return NextResponse.json(
+        { error: `A portfolio can have at most ${MAX_INVITES_PER_PORTFOLIO} invites` },
+        { status: 400 }
+      );
+    }
+    
+    const { invite, url } = await createInviteLink(body.portfolioId, email);
+    
+    return NextResponse.json(
+      {
+        message: 'Invite created successfully',
+        invite: {
+          id: invite.id,
+          email: invite.email,
+          lastUsedAt: null,
+          createdAt: invite.createdAt,
+        },
+        url,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create portfolio invite error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to create invite',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
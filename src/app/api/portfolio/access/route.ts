@@ -0,0 +1,170 @@
+/**
+ * Portfolio Access API Route
+ * GET /api/portfolio/access?portfolioId={id}
+ * PUT /api/portfolio/access
+ * 
+ * Reads and changes who can open a portfolio: everyone (`public`), visitors
+ * with the password (`password`) or invited email addresses (`invite`).
+ * A password is required when switching to password mode the first time;
+ * every change locks out viewers who unlocked the portfolio before.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { hashPassword } from '@/lib/security/auth';
+import { listPortfolioInvites, setPortfolioAccess } from '@/lib/db/services';
+import type { GeneratedPortfolio, PortfolioAccessMode } from '@/lib/db/schema';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import { MIN_ACCESS_PASSWORD_LENGTH, PORTFOLIO_ACCESS_MODES } from '@/lib/portfolio/access';
+
+interface UpdateAccessRequest {
+  portfolioId: string;
+  accessMode: PortfolioAccessMode;
+  // Required for password mode unless the portfolio already has a password
+  password?: string;
+}
+
+/**
+ * Access settings of a portfolio; the password itself is never returned
+ */
+async function accessResponse(portfolio: GeneratedPortfolio) {
+  const invites = await listPortfolioInvites(portfolio.id);
+  return {
+    accessMode: portfolio.accessMode,
+    hasPassword: Boolean(portfolio.accessPasswordHash),
+    invites: invites.map((invite) => ({
+      id: invite.id,
+      email: invite.email,
+      lastUsedAt: invite.lastUsedAt || null,
+      createdAt: invite.createdAt,
+    })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const portfolioId = request.nextUrl.searchParams.get('portfolioId');
+    if (!portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    return NextResponse.json(await accessResponse(owned.portfolio), { status: 200 });
+  } catch (error) {
+    console.error('Get portfolio access error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: UpdateAccessRequest = await request.json();
+    if (!body?.portfolioId || !PORTFOLIO_ACCESS_MODES.includes(body.accessMode)) {
+      return NextResponse.json(
+        { error: 'Portfolio ID and accessMode (public, password or invite) are required' },
+        { status: 400 }
+      );
+    }
+    if (body.password !== undefined) {
+      if (typeof body.password !== 'string' || body.password.length < MIN_ACCESS_PASSWORD_LENGTH) {
+        return NextResponse.json(
+          { error: `Password must be at least ${MIN_ACCESS_PASSWORD_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(body.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    if (body.accessMode === 'password' && !body.password && !owned.portfolio.accessPasswordHash) {
+      return NextResponse.json(
+        { error: 'A password is required to protect this portfolio' },
+        { status: 400 }
+      );
+    }
+    
+    const passwordHash = body.password ? await hashPassword(body.password) : undefined;
+    const portfolio = await setPortfolioAccess(body.portfolioId, body.accessMode, passwordHash);
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        message: 'Portfolio access updated successfully',
+        ...(await accessResponse(portfolio)),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update portfolio access error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to update portfolio access',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Portfolio Unlock API Route
+ * POST /api/portfolio/access/unlock
+ * GET /api/portfolio/access/unlock?invite={token}
+ * 
+ * POST unlocks a password-protected portfolio with its password.
+ * GET opens an invite link of an invite-only portfolio and redirects to it.
+ * Both set a viewer cookie for the portfolio that lasts 12 hours.
+ * Public (no auth required); POST is rate limited
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ensurePortfolioSlug, findGeneratedPortfolioById } from '@/lib/db/services';
+import { createRateLimiter } from '@/lib/middleware/rateLimit';
+import { checkAccessPassword, openInviteLink, setAccessCookie } from '@/lib/portfolio/access';
+import { portfolioPath } from '@/lib/portfolio/urls';
+
+interface UnlockRequest {
+  portfolioId: string;
+  password: string;
+}
+
+// Password guesses count against the strict auth limits
+const limitUnlockAttempts = createRateLimiter('auth');
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('invite');
+    const portfolio = token ? await openInviteLink(token) : null;
+    if (!portfolio || portfolio.accessMode !== 'invite') {
+      return NextResponse.json(
+        { error: 'This invite link is invalid or has been revoked' },
+        { status: 404 }
+      );
+    }
+    
+    const slug = await ensurePortfolioSlug(portfolio);
+    
+    const response = NextResponse.redirect(new URL(portfolioPath(slug), request.url));
+    setAccessCookie(response, portfolio);
+    
+    return response;
+  } catch (error) {
+    console.error('Open portfolio invite error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return limitUnlockAttempts(request, async () => {
+    try {
+      // Parse request body
+      const body: UnlockRequest = await request.json();
+      if (!body?.portfolioId || typeof body.password !== 'string') {
+        return NextResponse.json(
+          { error: 'Portfolio ID and password are required' },
+          { status: 400 }
+        );
+      }
+      
+      const portfolio = await findGeneratedPortfolioById(body.portfolioId);
+      if (!portfolio || !(await checkAccessPassword(portfolio, body.password))) {
+        return NextResponse.json(
+          { error: 'Incorrect password' },
+          { status: 401 }
+        );
+      }
+      
+      const response = NextResponse.json(
+        { message: 'Portfolio unlocked successfully' },
+        { status: 200 }
+      );
+      setAccessCookie(response, portfolio);
+      
+      return response;
+    } catch (error) {
+      console.error('Unlock portfolio error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
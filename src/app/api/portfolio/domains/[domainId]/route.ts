@@ -0,0 +1,63 @@
+/**
+ * Portfolio Domain API Route
+ * DELETE /api/portfolio/domains/{domainId}
+ * 
+ * Removes a subdomain or custom domain from a portfolio; the portfolio stops
+ * being served on it right away.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { deletePortfolioDomain } from '@/lib/db/services';
+import { loadOwnedDomain } from '@/lib/portfolio/domains';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ domainId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const { domainId } = await params;
+    const owned = await loadOwnedDomain(domainId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    await deletePortfolioDomain(domainId);
+    
+    return NextResponse.json(
+      { message: 'Domain removed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Remove portfolio domain error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to remove domain',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
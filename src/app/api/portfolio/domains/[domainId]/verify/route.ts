@@ -0,0 +1,66 @@
+/**
+ * Portfolio Domain Verification API Route
+ * POST /api/portfolio/domains/{domainId}/verify
+ * 
+ * Looks up the DNS TXT record of a custom domain and marks the domain
+ * verified or failed. Verified domains can be re-checked; a missing record
+ * takes them offline.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { describePortfolioDomain, loadOwnedDomain, verifyPortfolioDomain } from '@/lib/portfolio/domains';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ domainId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const { domainId } = await params;
+    const owned = await loadOwnedDomain(domainId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const domain = await verifyPortfolioDomain(owned.domain);
+    
+    return NextResponse.json(
+      {
+        verified: domain.status === 'verified',
+        domain: describePortfolioDomain(domain),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Verify portfolio domain error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to verify domain',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
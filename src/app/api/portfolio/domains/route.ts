@@ -0,0 +1,151 @@
+/**
+ * Portfolio Domains API Route
+ * GET /api/portfolio/domains?portfolioId={id}
+ * POST /api/portfolio/domains
+ * 
+ * Lists and adds the subdomains and custom domains a portfolio is served on.
+ * Subdomains work right away; custom domains are verified with a DNS TXT
+ * record (see POST /api/portfolio/domains/{domainId}/verify).
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { listPortfolioDomains } from '@/lib/db/services';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import { addPortfolioDomain, describePortfolioDomain } from '@/lib/portfolio/domains';
+import { getRootDomain } from '@/lib/portfolio/hosts';
+
+interface AddDomainRequest {
+  portfolioId: string;
+  // Either a name under the root domain, e.g. "jane-doe"
+  subdomain?: string;
+  // or a domain of the owner, e.g. "janedoe.com"
+  domain?: string;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const portfolioId = request.nextUrl.searchParams.get('portfolioId');
+    if (!portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const domains = await listPortfolioDomains(portfolioId);
+    
+    return NextResponse.json(
+      {
+        rootDomain: getRootDomain(),
+        domains: domains.map(describePortfolioDomain),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('List portfolio domains error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: AddDomainRequest = await request.json();
+    const hasSubdomain = typeof body?.subdomain === 'string';
+    const hasDomain = typeof body?.domain === 'string';
+    if (!body?.portfolioId || hasSubdomain === hasDomain) {
+      return NextResponse.json(
+        { error: 'Portfolio ID and either a subdomain or a domain are required' },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(body.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const result = await addPortfolioDomain(
+      body.portfolioId,
+      hasSubdomain ? { subdomain: body.subdomain } : { domain: body.domain }
+    );
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        message: result.domain.status === 'verified'
+          ? 'Domain added successfully'
+          : 'Domain added. Create the DNS records, then verify the domain',
+        domain: describePortfolioDomain(result.domain),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Add portfolio domain error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to add domain',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,19 +7,24 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/security/jwt';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
 import {
   findResumeById,
   findUserById,
-  listUserPortfolioPhotos,
   findGeneratedPortfolioByResumeId,
   generateCompletePortfolio,
+  createPortfolioGeneration,
 } from '@/lib/db/services';
-import { generatePortfolioContent, generateGradientTheme } from '@/lib/ai/portfolio-generator';
+import { generatePortfolioContent } from '@/lib/ai/portfolio-generator';
+import { getGenerationPhotos, toResumeData } from '@/lib/portfolio/regenerate';
+import { generateTheme, themeBackgroundCss } from '@/lib/portfolio/themes';
+import { getPhotoTheme } from '@/lib/portfolio/photo-palette';
 import { PageType } from '@/lib/db/schema';
 
 interface GenerateRequest {
   resumeId: string;
+  // Build the theme from the colors of the user's portfolio photos
+  matchPhotos?: boolean;
 }
 
 export async function POST(request: NextRequest) {
@@ -33,7 +38,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -71,7 +76,7 @@ export async function POST(request: NextRequest) {
     const existingPortfolio = await findGeneratedPortfolioByResumeId(body.resumeId);
     if (existingPortfolio) {
       return NextResponse.json(
-        { error: 'Portfolio already generated for this resume' },
+        { error: 'Portfolio already generated for this resume. Use /api/portfolio/regenerate to update it.' },
         { status: 409 }
       );
     }
@@ -85,53 +90,42 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Get user photos (profile + portfolio photos)
-    const portfolioPhotos = await listUserPortfolioPhotos(userId);
-    const photos = {
-      profilePhoto: user.profilePhotoUrl || undefined,
-      portfolioPhotos: portfolioPhotos.slice(0, 3).map((p: { photoUrl: string }) => p.photoUrl),
-    };
+    // Match the photos, or pick a random built-in theme
+    const theme = body.matchPhotos === true ? await getPhotoTheme(userId) : generateTheme();
+    if (!theme) {
+      return NextResponse.json(
+        { error: 'Upload at least one portfolio photo to match the theme to your photos' },
+        { status: 400 }
+      );
+    }
     
-    // Prepare resume data for AI generation
-    const resumeData = {
-      resumeUrl: resume.resumeUrl,
-      aiNotes: resume.aiNotes,
-    };
+    // Get user photos (profile + portfolio photos)
+    const photos = await getGenerationPhotos(user);
     
     // Generate AI content for all pages
-    const aiContent = await generatePortfolioContent(resumeData, photos);
-    
-    // Generate random gradient theme
-    const gradientCss = generateGradientTheme();
-    
-    // Create portfolio pages data
-    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
-    const portfolioSlug = `portfolio-${Date.now()}`;
+    const aiContent = await generatePortfolioContent(toResumeData(resume), photos);
     
+    // Create portfolio pages data (public URLs are built from the portfolio's slug)
     const pages = [
       {
         pageType: 'home' as PageType,
         title: aiContent.home.title,
         content: aiContent.home.content,
-        publicUrl: `${baseUrl}/portfolio/${portfolioSlug}`,
       },
       {
         pageType: 'about' as PageType,
         title: aiContent.about.title,
         content: aiContent.about.content,
-        publicUrl: `${baseUrl}/portfolio/${portfolioSlug}/about`,
       },
       {
         pageType: 'portfolio' as PageType,
         title: aiContent.portfolio.title,
         content: aiContent.portfolio.content,
-        publicUrl: `${baseUrl}/portfolio/${portfolioSlug}/portfolio`,
       },
       {
         pageType: 'contact' as PageType,
         title: aiContent.contact.title,
         content: aiContent.contact.content,
-        publicUrl: `${baseUrl}/portfolio/${portfolioSlug}/contact`,
       },
     ];
     
@@ -139,10 +133,20 @@ export async function POST(request: NextRequest) {
     const result = await generateCompletePortfolio({
       resumeId: body.resumeId,
       userId,
-      gradientCss,
+      gradientCss: themeBackgroundCss(theme.palettes.light, theme.gradientAngle),
+      themeTokens: theme,
       pages,
     });
     
+    // Record the prompt used for this generation
+    await createPortfolioGeneration({
+      portfolioId: result.portfolio.id,
+      instructions: aiContent.generation.instructions,
+      prompt: aiContent.generation.prompt,
+      provider: aiContent.generation.provider,
+      model: aiContent.generation.model,
+    });
+    
     // Return success response
     return NextResponse.json(
       {
@@ -150,6 +154,9 @@ export async function POST(request: NextRequest) {
         portfolio: {
           id: result.portfolio.id,
           resumeId: result.portfolio.resumeId,
+          slug: result.portfolio.slug,
+          // New portfolios are drafts until published
+          visibility: result.portfolio.visibility,
           theme: result.theme.gradientCss,
           generatedAt: result.portfolio.generatedAt,
           pages: result.pages.map((page: { id: string; pageType: string; title: string; publicUrl: string }) => ({
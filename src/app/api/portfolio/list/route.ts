@@ -7,8 +7,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/security/jwt';
-import { getUserCompletePortfolios } from '@/lib/db/services';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { ensurePortfolioSlug, getUserCompletePortfolios } from '@/lib/db/services';
+import { portfolioPageUrl } from '@/lib/portfolio/urls';
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,7 +22,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -32,27 +33,35 @@ export async function GET(request: NextRequest) {
     // Get all portfolios with complete data for the user
     const portfolios = await getUserCompletePortfolios(userId);
     
-    // Format response
-    const formattedPortfolios = portfolios.map((item: any) => ({
-      id: item.portfolio.id,
-      resumeId: item.portfolio.resumeId,
-      generatedAt: item.portfolio.generatedAt,
-      theme: item.theme ? {
-        id: item.theme.id,
-        gradientCss: item.theme.gradientCss,
-      } : null,
-      resume: item.resume ? {
-        id: item.resume.id,
-        originalFilename: item.resume.originalFilename,
-        uploadedAt: item.resume.uploadedAt,
-      } : null,
-      pages: item.pages.map((page: any) => ({
-        id: page.id,
-        pageType: page.pageType,
-        title: page.title,
-        publicUrl: page.publicUrl,
-        createdAt: page.createdAt,
-      })),
+    // Format response; portfolios from before slugs existed get one now
+    const formattedPortfolios = await Promise.all(portfolios.map(async (item: any) => {
+      const slug = await ensurePortfolioSlug(item.portfolio);
+      return {
+        id: item.portfolio.id,
+        resumeId: item.portfolio.resumeId,
+        slug,
+        url: portfolioPageUrl(slug),
+        visibility: item.portfolio.visibility,
+        publishedAt: item.portfolio.publishedAt,
+        accessMode: item.portfolio.accessMode,
+        generatedAt: item.portfolio.generatedAt,
+        theme: item.theme ? {
+          id: item.theme.id,
+          gradientCss: item.theme.gradientCss,
+        } : null,
+        resume: item.resume ? {
+          id: item.resume.id,
+          originalFilename: item.resume.originalFilename,
+          uploadedAt: item.resume.uploadedAt,
+        } : null,
+        pages: item.pages.map((page: any) => ({
+          id: page.id,
+          pageType: page.pageType,
+          title: page.title,
+          publicUrl: page.publicUrl,
+          createdAt: page.createdAt,
+        })),
+      };
     }));
     
     return NextResponse.json(
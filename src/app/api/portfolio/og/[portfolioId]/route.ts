@@ -0,0 +1,61 @@
+/**
+ * Portfolio Share Image API Route
+ * GET /api/portfolio/og/{portfolioId}?v={version}
+ *
+ * Returns the Open Graph image of a portfolio as PNG. Page metadata links
+ * to it with the current version; versioned URLs are cached for a year
+ * since a content or theme change produces a new version.
+ * Public (no auth required) so link previews can fetch it; 404 for drafts
+ * and password-protected or invite-only portfolios
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findGeneratedPortfolioById } from '@/lib/db/services';
+import { getPortfolioOgImage, loadOgImageData } from '@/lib/portfolio/og-image';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ portfolioId: string }> }
+) {
+  try {
+    const { portfolioId } = await params;
+
+    // Drafts and protected portfolios have no share image; link previews only ever see public pages
+    const portfolio = await findGeneratedPortfolioById(portfolioId);
+    if (!portfolio || portfolio.visibility === 'draft' || portfolio.accessMode !== 'public') {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    const { image, version } = await getPortfolioOgImage(portfolio, await loadOgImageData(portfolio));
+    const etag = `"${version}"`;
+    // Outdated or missing versions get the current image, but only briefly cached
+    const cacheControl = request.nextUrl.searchParams.get('v') === version
+      ? 'public, max-age=31536000, immutable'
+      : 'public, max-age=300';
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: { ETag: etag, 'Cache-Control': cacheControl },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': String(image.length),
+        ETag: etag,
+        'Cache-Control': cacheControl,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering portfolio share image:', error);
+    return NextResponse.json(
+      { error: 'Failed to render share image', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Page Revision Diff API Route
+ * GET /api/portfolio/pages/{pageId}/revisions/diff?from={n}&to={n}
+ * 
+ * Compares two revisions of a portfolio page field by field on the
+ * structured content. `to` defaults to the latest revision.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { findPageRevision, listPageRevisions } from '@/lib/db/services';
+import { diffPageRevisions, loadOwnedPage } from '@/lib/portfolio/revisions';
+
+function parseRevisionNumber(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    const from = parseRevisionNumber(searchParams.get('from'));
+    const toParam = searchParams.get('to');
+    const to = toParam === null ? null : parseRevisionNumber(toParam);
+    if (from === null || (toParam !== null && to === null)) {
+      return NextResponse.json(
+        { error: 'from (and optional to) must be revision numbers' },
+        { status: 400 }
+      );
+    }
+    
+    // Find page and verify ownership
+    const { pageId } = await params;
+    const owned = await loadOwnedPage(pageId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const fromRevision = await findPageRevision(pageId, from);
+    const toRevision = to === null
+      ? (await listPageRevisions(pageId))[0] || null
+      : await findPageRevision(pageId, to);
+    if (!fromRevision || !toRevision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        pageId,
+        from: fromRevision.revisionNumber,
+        to: toRevision.revisionNumber,
+        changes: diffPageRevisions(owned.page, fromRevision, toRevision),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Page revision diff error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to compare page revisions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Page Revision Restore API Route
+ * POST /api/portfolio/pages/{pageId}/revisions/restore
+ * 
+ * Restores a portfolio page to an older revision. The restore is recorded
+ * as a new revision, so it can itself be undone.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { restorePageRevision } from '@/lib/db/services';
+import { PageContentError } from '@/lib/portfolio/page-content';
+import { loadOwnedPage } from '@/lib/portfolio/revisions';
+
+interface RestoreRequest {
+  revision: number;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: RestoreRequest = await request.json();
+    if (!Number.isInteger(body?.revision) || body.revision < 1) {
+      return NextResponse.json(
+        { error: 'revision must be a positive revision number' },
+        { status: 400 }
+      );
+    }
+    
+    // Find page and verify ownership
+    const { pageId } = await params;
+    const owned = await loadOwnedPage(pageId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const page = await restorePageRevision(pageId, body.revision, userId);
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        message: `Page restored to revision ${body.revision}`,
+        page: {
+          id: page.id,
+          pageType: page.pageType,
+          title: page.title,
+          content: page.content,
+          publicUrl: page.publicUrl,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof PageContentError) {
+      return NextResponse.json(
+        { error: 'Revision content cannot be restored', details: error.errors },
+        { status: 422 }
+      );
+    }
+    
+    console.error('Restore page revision error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to restore page revision',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
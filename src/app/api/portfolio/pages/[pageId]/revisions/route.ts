@@ -0,0 +1,75 @@
+/**
+ * Page Revisions API Route
+ * GET /api/portfolio/pages/{pageId}/revisions
+ * 
+ * Lists the revisions of a portfolio page, newest first. Content is left
+ * out; use the diff route to compare revisions.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { listPageRevisions } from '@/lib/db/services';
+import { loadOwnedPage } from '@/lib/portfolio/revisions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Find page and verify ownership
+    const { pageId } = await params;
+    const owned = await loadOwnedPage(pageId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const revisions = await listPageRevisions(pageId);
+    
+    return NextResponse.json(
+      {
+        pageId,
+        revisions: revisions.map((revision) => ({
+          id: revision.id,
+          revisionNumber: revision.revisionNumber,
+          title: revision.title,
+          source: revision.source,
+          createdBy: revision.createdBy || null,
+          restoredFrom: revision.restoredFrom || null,
+          createdAt: revision.createdAt,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('List page revisions error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to list page revisions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
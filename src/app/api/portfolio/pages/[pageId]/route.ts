@@ -0,0 +1,118 @@
+/**
+ * Portfolio Page API Route
+ * PATCH /api/portfolio/pages/{pageId}
+ * 
+ * Saves owner edits to a page's title and structured content. The content
+ * must match the current schema for the page type; every save is recorded
+ * as a page revision.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { updatePortfolioPage } from '@/lib/db/services';
+import { validatePageContent } from '@/lib/portfolio/page-content';
+import { loadOwnedPage } from '@/lib/portfolio/revisions';
+
+interface UpdatePageRequest {
+  title?: string;
+  // Full page content object in the current schema version
+  content?: unknown;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageId: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: UpdatePageRequest = await request.json();
+    const { title, content } = body || {};
+    if (title === undefined && content === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update. Provide title and/or content' },
+        { status: 400 }
+      );
+    }
+    if (title !== undefined && (typeof title !== 'string' || !title.trim() || title.length > 255)) {
+      return NextResponse.json(
+        { error: 'Title must be a non-empty string of at most 255 characters' },
+        { status: 400 }
+      );
+    }
+    
+    // Find page and verify ownership
+    const { pageId } = await params;
+    const owned = await loadOwnedPage(pageId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const updates: { title?: string; content?: string } = {};
+    if (title !== undefined) {
+      updates.title = title.trim();
+    }
+    if (content !== undefined) {
+      const validation = validatePageContent(owned.page.pageType, content);
+      if (validation.errors) {
+        return NextResponse.json(
+          { error: 'Content does not match the page schema', details: validation.errors },
+          { status: 422 }
+        );
+      }
+      updates.content = JSON.stringify(validation.content);
+    }
+    
+    const page = await updatePortfolioPage(pageId, updates, { source: 'edit', createdBy: userId });
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Page not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        message: 'Page updated successfully',
+        page: {
+          id: page.id,
+          pageType: page.pageType,
+          title: page.title,
+          content: page.content,
+          publicUrl: page.publicUrl,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update portfolio page error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to update page',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/security/jwt';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
 import {
   canUploadMorePhotos,
   createPortfolioPhoto,
@@ -16,6 +16,7 @@ import {
   deletePortfolioPhoto,
   getUserPhotoCount,
 } from '@/lib/db/services';
+import { extractDominantColors } from '@/lib/portfolio/photo-palette';
 
 const ALLOWED_TYPES = [
   'image/jpeg',
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -87,6 +88,18 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Dominant colors feed the "match my photos" theme option
+    let dominantColors;
+    try {
+      dominantColors = await extractDominantColors(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      console.warn('Could not read portfolio photo:', error);
+      return NextResponse.json(
+        { error: 'Invalid image file' },
+        { status: 400 }
+      );
+    }
+    
     // For demo purposes, create a placeholder URL
     // In production, upload to storage (S3/GCS) with encryption
     const timestamp = Date.now();
@@ -97,6 +110,7 @@ export async function POST(request: NextRequest) {
     const photo = await createPortfolioPhoto({
       userId,
       photoUrl,
+      dominantColors,
     });
     
     return NextResponse.json(
@@ -105,6 +119,7 @@ export async function POST(request: NextRequest) {
         photo: {
           id: photo.id,
           photoUrl: photo.photoUrl,
+          dominantColors: photo.dominantColors || null,
           uploadedAt: photo.uploadedAt,
         },
       },
@@ -137,7 +152,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -189,7 +204,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
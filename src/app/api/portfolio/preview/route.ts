@@ -0,0 +1,147 @@
+/**
+ * Portfolio Preview API Route
+ * POST /api/portfolio/preview
+ * GET /api/portfolio/preview?token={token}
+ * 
+ * POST creates a preview link for a portfolio, so the owner can share a
+ * draft before publishing it (requires authentication). The link expires
+ * after `expiresInHours` (default 72, at most 720).
+ * GET opens a preview link: it stores the token in a cookie and redirects
+ * to the portfolio. Public (no auth required)
+ * Disabled with ENABLE_STAGING_PREVIEW=false.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeJWT, verifyPreviewToken } from '@/lib/security/jwt';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { ensurePortfolioSlug, findGeneratedPortfolioById } from '@/lib/db/services';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import { portfolioPath } from '@/lib/portfolio/urls';
+import {
+  DEFAULT_PREVIEW_HOURS,
+  MAX_PREVIEW_HOURS,
+  PREVIEW_COOKIE,
+  createPreviewLink,
+  isStagingPreviewEnabled,
+} from '@/lib/portfolio/visibility';
+
+interface CreatePreviewRequest {
+  portfolioId: string;
+  expiresInHours?: number;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isStagingPreviewEnabled()) {
+      return NextResponse.json(
+        { error: 'Preview links are disabled' },
+        { status: 403 }
+      );
+    }
+    
+    const token = request.nextUrl.searchParams.get('token');
+    const portfolioId = token ? verifyPreviewToken(token) : null;
+    const portfolio = portfolioId ? await findGeneratedPortfolioById(portfolioId) : null;
+    if (!token || !portfolio) {
+      return NextResponse.json(
+        { error: 'This preview link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+    
+    const slug = await ensurePortfolioSlug(portfolio);
+    const expiresAt = decodeJWT(token)?.exp ?? 0;
+    
+    const response = NextResponse.redirect(new URL(portfolioPath(slug), request.url));
+    response.cookies.set(PREVIEW_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: Math.max(expiresAt - Math.floor(Date.now() / 1000), 0),
+      path: '/',
+    });
+    
+    return response;
+  } catch (error) {
+    console.error('Open portfolio preview error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    if (!isStagingPreviewEnabled()) {
+      return NextResponse.json(
+        { error: 'Preview links are disabled' },
+        { status: 403 }
+      );
+    }
+    
+    // Parse request body
+    const body: CreatePreviewRequest = await request.json();
+    if (!body?.portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    const hours = body.expiresInHours ?? DEFAULT_PREVIEW_HOURS;
+    if (typeof hours !== 'number' || !(hours >= 1) || hours > MAX_PREVIEW_HOURS) {
+      return NextResponse.json(
+        { error: `expiresInHours must be a number between 1 and ${MAX_PREVIEW_HOURS}` },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(body.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const link = createPreviewLink(body.portfolioId, hours);
+    
+    return NextResponse.json(
+      {
+        message: 'Preview link created successfully',
+        url: link.url,
+        expiresAt: link.expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create portfolio preview error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to create preview link',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,13 +6,21 @@ import {
   isValidPageType,
 } from '@/lib/db/services';
 import type { PageType } from '@/lib/db/schema';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { PREVIEW_COOKIE, canViewPortfolio } from '@/lib/portfolio/visibility';
+import { accessCookieName, canAccessPortfolio } from '@/lib/portfolio/access';
 
 /**
  * GET /api/portfolio/public
  * Fetch public portfolio page content
  * Query params: userId, resumeId, pageType
  * 
- * This endpoint is public (no auth required) to allow viewing of generated portfolios
+ * This endpoint is public (no auth required) to allow viewing of generated portfolios.
+ * Drafts are only returned to their owner and to viewers with a preview cookie.
+ * Password-protected and invite-only portfolios return 401 with `accessMode`
+ * until the viewer unlocks them (POST /api/portfolio/access/unlock).
+ * When the viewer is signed in as the owner, `canEdit` is true and `id` can be
+ * used with PATCH /api/portfolio/pages/{pageId}.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -55,6 +63,26 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Owners get an edit mode on the public pages
+    const accessToken = request.cookies.get('accessToken')?.value;
+    const viewerId = accessToken ? await verifySessionAccessToken(accessToken) : null;
+
+    // Drafts look like missing portfolios to everyone else
+    if (!canViewPortfolio(portfolio, viewerId, request.cookies.get(PREVIEW_COOKIE)?.value)) {
+      return NextResponse.json(
+        { error: 'Portfolio not found' },
+        { status: 404 }
+      );
+    }
+
+    // Protected portfolios need the viewer cookie set by unlocking them
+    if (!canAccessPortfolio(portfolio, viewerId, request.cookies.get(accessCookieName(portfolio.id))?.value)) {
+      return NextResponse.json(
+        { error: 'This portfolio is private', accessMode: portfolio.accessMode },
+        { status: 401 }
+      );
+    }
+
     // Fetch the specific page content
     const page = await findPortfolioPageByType(portfolio.id, pageType as PageType);
 
@@ -71,11 +99,13 @@ export async function GET(request: NextRequest) {
 
     // Return the page content with photos
     return NextResponse.json({
+      id: page.id,
       pageType: page.pageType,
       title: page.title,
       content: page.content,
       photos: photoUrls,
       publicUrl: page.publicUrl,
+      canEdit: viewerId === portfolio.userId,
     });
 
   } catch (error) {
@@ -0,0 +1,111 @@
+/**
+ * Page Regeneration API Route
+ * POST /api/portfolio/regenerate/{pageType}
+ * 
+ * Regenerates a single page (home, about, portfolio or contact) of an
+ * existing portfolio, optionally with extra instructions.
+ * Keeps the theme unless newTheme is set.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { isValidPageType } from '@/lib/db/services';
+import {
+  loadOwnedPortfolio,
+  parseRegenerateRequest,
+  regeneratePortfolio,
+} from '@/lib/portfolio/regenerate';
+
+interface RegenerateRequest {
+  portfolioId: string;
+  // Extra instructions, e.g. "more formal" or "focus on cloud work"
+  instructions?: string;
+  // Replace the theme with a new random gradient
+  newTheme?: boolean;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pageType: string }> }
+) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const { pageType } = await params;
+    if (!isValidPageType(pageType)) {
+      return NextResponse.json(
+        { error: 'Invalid page type. Must be: home, about, portfolio, or contact' },
+        { status: 400 }
+      );
+    }
+    
+    // Parse request body
+    const body: RegenerateRequest = await request.json();
+    const options = parseRegenerateRequest(body);
+    if (options.error !== undefined) {
+      return NextResponse.json(
+        { error: options.error },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(options.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const result = await regeneratePortfolio({
+      ...owned,
+      pageType,
+      instructions: options.instructions,
+      newTheme: options.newTheme,
+    });
+    const [page] = result.pages;
+    
+    return NextResponse.json(
+      {
+        message: 'Page regenerated successfully',
+        page: {
+          id: page.id,
+          pageType: page.pageType,
+          title: page.title,
+          content: page.content,
+          publicUrl: page.publicUrl,
+        },
+        theme: result.theme?.gradientCss || null,
+        generation: result.generation,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Page regeneration error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to regenerate page',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
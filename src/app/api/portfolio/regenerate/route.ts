@@ -0,0 +1,154 @@
+/**
+ * Portfolio Regeneration API Route
+ * POST /api/portfolio/regenerate
+ * 
+ * Regenerates all pages of an existing portfolio from its resume,
+ * optionally with extra instructions. Keeps the theme unless newTheme is set.
+ * 
+ * GET /api/portfolio/regenerate?portfolioId=...
+ * Lists previous generations and the prompts they used
+ * 
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { listPortfolioGenerations } from '@/lib/db/services';
+import {
+  loadOwnedPortfolio,
+  parseRegenerateRequest,
+  regeneratePortfolio,
+} from '@/lib/portfolio/regenerate';
+
+interface RegenerateRequest {
+  portfolioId: string;
+  // Extra instructions, e.g. "more formal" or "focus on cloud work"
+  instructions?: string;
+  // Replace the theme with a randomly picked built-in preset
+  newTheme?: boolean;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: RegenerateRequest = await request.json();
+    const options = parseRegenerateRequest(body);
+    if (options.error !== undefined) {
+      return NextResponse.json(
+        { error: options.error },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(options.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const result = await regeneratePortfolio({
+      ...owned,
+      instructions: options.instructions,
+      newTheme: options.newTheme,
+    });
+    
+    return NextResponse.json(
+      {
+        message: 'Portfolio regenerated successfully',
+        portfolio: {
+          id: owned.portfolio.id,
+          theme: result.theme?.gradientCss || null,
+          pages: result.pages.map((page) => ({
+            id: page.id,
+            pageType: page.pageType,
+            title: page.title,
+            publicUrl: page.publicUrl,
+          })),
+        },
+        generation: result.generation,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Portfolio regeneration error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to regenerate portfolio',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const portfolioId = request.nextUrl.searchParams.get('portfolioId');
+    if (!portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const generations = await listPortfolioGenerations(portfolioId);
+    
+    return NextResponse.json(
+      { generations },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Portfolio generation history error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Portfolio Slug API Route
+ * GET /api/portfolio/slug?portfolioId={id}
+ * PUT /api/portfolio/slug
+ * 
+ * Reads and changes the vanity slug of a portfolio (its /p/{slug} URL).
+ * Earlier slugs keep redirecting to the portfolio.
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import {
+  ensurePortfolioSlug,
+  listPortfolioSlugRedirects,
+  setPortfolioSlug,
+} from '@/lib/db/services';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import { normalizeSlug, portfolioPageUrl, validatePortfolioSlug } from '@/lib/portfolio/urls';
+
+interface UpdateSlugRequest {
+  portfolioId: string;
+  // e.g. "jane-doe" or "jane-doe/backend"
+  slug: string;
+}
+
+/**
+ * Current slug, URL and earlier slugs of a portfolio
+ */
+async function slugResponse(portfolioId: string, slug: string) {
+  const redirects = await listPortfolioSlugRedirects(portfolioId);
+  return {
+    slug,
+    url: portfolioPageUrl(slug),
+    previousSlugs: redirects.map((redirect) => ({
+      slug: redirect.slug,
+      changedAt: redirect.createdAt,
+    })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const portfolioId = request.nextUrl.searchParams.get('portfolioId');
+    if (!portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const slug = await ensurePortfolioSlug(owned.portfolio);
+    
+    return NextResponse.json(await slugResponse(portfolioId, slug), { status: 200 });
+  } catch (error) {
+    console.error('Get portfolio slug error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: UpdateSlugRequest = await request.json();
+    if (!body?.portfolioId || typeof body.slug !== 'string') {
+      return NextResponse.json(
+        { error: 'Portfolio ID and slug are required' },
+        { status: 400 }
+      );
+    }
+    
+    const slug = normalizeSlug(body.slug);
+    const invalid = validatePortfolioSlug(slug);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(body.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const portfolio = await setPortfolioSlug(body.portfolioId, slug);
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: 'This URL is already taken' },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        message: 'Portfolio URL updated successfully',
+        ...(await slugResponse(body.portfolioId, slug)),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update portfolio slug error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to update portfolio URL',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
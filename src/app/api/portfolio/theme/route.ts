@@ -0,0 +1,187 @@
+/**
+ * Portfolio Theme API Route
+ * GET /api/portfolio/theme?portfolioId={id}
+ * PUT /api/portfolio/theme
+ * 
+ * Reads and switches the theme of a portfolio. A theme is one of the
+ * built-in presets, a theme matched to the owner's portfolio photos, or a
+ * full set of theme tokens (e.g. a preset with a different typography or
+ * layout chosen in the theme picker).
+ * Requires authentication
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { findPortfolioThemeByPortfolioId, setPortfolioTheme } from '@/lib/db/services';
+import { getPhotoTheme } from '@/lib/portfolio/photo-palette';
+import { loadOwnedPortfolio } from '@/lib/portfolio/regenerate';
+import {
+  THEME_PRESETS,
+  findThemePreset,
+  resolveTheme,
+  validateThemeTokens,
+  type ThemeTokens,
+} from '@/lib/portfolio/themes';
+
+interface UpdateThemeRequest {
+  portfolioId: string;
+  // ID of a built-in theme
+  preset?: string;
+  // Build the theme from the colors of the owner's portfolio photos
+  matchPhotos?: boolean;
+  // Full theme tokens; takes precedence over preset
+  theme?: unknown;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    const portfolioId = request.nextUrl.searchParams.get('portfolioId');
+    if (!portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const owned = await loadOwnedPortfolio(portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const [theme, photoTheme] = await Promise.all([
+      findPortfolioThemeByPortfolioId(portfolioId),
+      getPhotoTheme(userId),
+    ]);
+    
+    return NextResponse.json(
+      {
+        theme: resolveTheme(theme),
+        presets: THEME_PRESETS,
+        // null until the owner has uploaded photos
+        photoTheme,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get portfolio theme error:', error);
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const userId = await verifySessionAccessToken(accessToken);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body: UpdateThemeRequest = await request.json();
+    if (!body?.portfolioId) {
+      return NextResponse.json(
+        { error: 'Portfolio ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    let tokens: ThemeTokens | null;
+    if (body.theme !== undefined) {
+      const validation = validateThemeTokens(body.theme);
+      if (validation.errors) {
+        return NextResponse.json(
+          { error: 'Invalid theme', details: validation.errors },
+          { status: 422 }
+        );
+      }
+      tokens = validation.theme;
+    } else if (body.preset) {
+      const preset = findThemePreset(body.preset);
+      if (!preset) {
+        return NextResponse.json(
+          { error: `Unknown theme preset '${body.preset}'` },
+          { status: 400 }
+        );
+      }
+      tokens = preset.tokens;
+    } else if (body.matchPhotos === true) {
+      tokens = await getPhotoTheme(userId);
+      if (!tokens) {
+        return NextResponse.json(
+          { error: 'Upload at least one portfolio photo to match the theme to your photos' },
+          { status: 400 }
+        );
+      }
+    } else {
+      return NextResponse.json(
+        { error: 'Provide a theme, a preset or matchPhotos' },
+        { status: 400 }
+      );
+    }
+    
+    // Find portfolio and verify ownership
+    const owned = await loadOwnedPortfolio(body.portfolioId, userId);
+    if (owned.error !== undefined) {
+      return NextResponse.json(
+        { error: owned.error },
+        { status: owned.status }
+      );
+    }
+    
+    const theme = await setPortfolioTheme(body.portfolioId, tokens);
+    
+    return NextResponse.json(
+      {
+        message: 'Theme updated successfully',
+        theme: resolveTheme(theme),
+        gradientCss: theme.gradientCss,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update portfolio theme error:', error);
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to update theme',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/security/jwt';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
 import { encryptFile } from '@/lib/security/encryption';
 import { uploadEncryptedFile } from '@/lib/storage';
 
@@ -32,7 +32,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -157,7 +157,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
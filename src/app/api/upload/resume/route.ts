@@ -7,10 +7,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/security/jwt';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
 import { encryptFile } from '@/lib/security/encryption';
 import { uploadEncryptedFile } from '@/lib/storage';
-import { Resume } from '@/lib/db/schema';
 import { canUploadMoreResumes, createResume, listUserResumes } from '@/lib/db/services';
 
 // Rate limit: 10 uploads per hour
@@ -35,7 +34,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -89,23 +88,26 @@ export async function POST(request: NextRequest) {
     
     // Generate unique filename
     const timestamp = Date.now();
-    const extension = file.name.split('.').pop() || 'bin';
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'bin';
     const fileName = `resume_${timestamp}.${extension}.enc`;
     
-    // TODO: Upload to storage (currently using mock path)
-    // const storageLocation = await uploadEncryptedFile(
-    //   encryptedData,
-    //   fileName,
-    //   userId
-    // );
-    const storageLocation = `s3://demo-bucket/users/${userId}/files/${fileName}`;
+    const storageLocation = await uploadEncryptedFile(
+      encryptedData,
+      fileName,
+      userId
+    );
     
     // Save to database using new services
+    // The IV and auth tag are needed to decrypt the file for portfolio generation
     const resume = await createResume({
       userId,
       resumeUrl: storageLocation,
       originalFilename: file.name,
       aiNotes: aiNotes || undefined,
+      format: extension,
+      storedLocation: storageLocation,
+      encryptionIv: iv,
+      authTag,
     });
     
     return NextResponse.json(
@@ -145,7 +147,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    const userId = verifyAccessToken(accessToken);
+    const userId = await verifySessionAccessToken(accessToken);
     if (!userId) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
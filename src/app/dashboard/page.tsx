@@ -7,6 +7,12 @@ import { motion } from 'framer-motion';
 import Link from 'next/link';
 import { FaUsers, FaUserShield, FaSignOutAlt, FaFileUpload, FaImage, FaEye, FaMagic, FaTrash } from 'react-icons/fa';
 import { useState, useEffect } from 'react';
+import PortfolioSlugEditor from '@/components/portfolio/PortfolioSlugEditor';
+import PortfolioVisibilityControls from '@/components/portfolio/PortfolioVisibilityControls';
+import PortfolioAccessControls from '@/components/portfolio/PortfolioAccessControls';
+import ActiveSessions from '@/components/account/ActiveSessions';
+import TwoFactorSettings from '@/components/account/TwoFactorSettings';
+import type { PortfolioAccessMode, PortfolioVisibility } from '@/lib/db/schema';
 
 interface Resume {
   id: string;
@@ -21,6 +27,14 @@ interface PortfolioPhoto {
   uploadedAt: string;
 }
 
+interface PortfolioSummary {
+  id: string;
+  resumeId: string;
+  slug: string;
+  visibility: PortfolioVisibility;
+  accessMode: PortfolioAccessMode;
+}
+
 interface UserStats {
   photoCount: number;
   resumeCount: number;
@@ -32,6 +46,8 @@ export default function DashboardPage() {
   const router = useRouter();
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [portfolioPhotos, setPortfolioPhotos] = useState<PortfolioPhoto[]>([]);
+  // Generated portfolios by resume id
+  const [portfolios, setPortfolios] = useState<Record<string, PortfolioSummary>>({});
   const [stats, setStats] = useState<UserStats | null>(null);
   const [aiNotes, setAiNotes] = useState('');
   const [isUploading, setIsUploading] = useState(false);
@@ -41,6 +57,7 @@ export default function DashboardPage() {
 
   useEffect(() => {
     fetchResumes();
+    fetchPortfolios();
     fetchPortfolioPhotos();
     fetchStats();
   }, []);
@@ -57,6 +74,22 @@ export default function DashboardPage() {
     }
   };
 
+  const fetchPortfolios = async () => {
+    try {
+      const response = await fetch('/api/portfolio/list');
+      if (response.ok) {
+        const data = await response.json();
+        const byResume: Record<string, PortfolioSummary> = {};
+        for (const portfolio of (data.portfolios || []) as PortfolioSummary[]) {
+          byResume[portfolio.resumeId] = portfolio;
+        }
+        setPortfolios(byResume);
+      }
+    } catch (err) {
+      console.error('Failed to fetch portfolios:', err);
+    }
+  };
+
   const fetchPortfolioPhotos = async () => {
     try {
       const response = await fetch('/api/portfolio/photos');
@@ -222,8 +255,8 @@ export default function DashboardPage() {
 
       if (response.ok) {
         const data = await response.json();
-        setSuccess('Portfolio generated successfully!');
-        await fetchResumes();
+        setSuccess('Portfolio generated as a draft. Review it, then publish it to share it.');
+        await Promise.all([fetchResumes(), fetchPortfolios()]);
       } else {
         const data = await response.json();
         setError(data.error || 'Failed to generate portfolio');
@@ -452,13 +485,47 @@ export default function DashboardPage() {
                     key={resume.id}
                     className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
                   >
-                    <div className="flex-1">
+                    <div className="flex-1 min-w-0 mr-4">
                       <h3 className="font-semibold text-gray-800 dark:text-white">
                         {resume.originalFilename}
                       </h3>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         Uploaded: {new Date(resume.uploadedAt).toLocaleDateString()}
                       </p>
+                      {portfolios[resume.id] && (
+                        <div className="mt-2 space-y-2">
+                          <PortfolioVisibilityControls
+                            portfolioId={portfolios[resume.id].id}
+                            visibility={portfolios[resume.id].visibility}
+                            onChange={(visibility) =>
+                              setPortfolios((current) => ({
+                                ...current,
+                                [resume.id]: { ...current[resume.id], visibility },
+                              }))
+                            }
+                          />
+                          <PortfolioAccessControls
+                            portfolioId={portfolios[resume.id].id}
+                            accessMode={portfolios[resume.id].accessMode}
+                            onChange={(accessMode) =>
+                              setPortfolios((current) => ({
+                                ...current,
+                                [resume.id]: { ...current[resume.id], accessMode },
+                              }))
+                            }
+                          />
+                          <PortfolioSlugEditor
+                            portfolioId={portfolios[resume.id].id}
+                            slug={portfolios[resume.id].slug}
+                            onSaved={(slug) =>
+                              setPortfolios((current) => ({
+                                ...current,
+                                [resume.id]: { ...current[resume.id], slug },
+                              }))
+                            }
+                          />
+                        </div>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       {!resume.portfolioGenerated ? (
@@ -470,13 +537,14 @@ export default function DashboardPage() {
                           <FaMagic className="w-4 h-4" />
                           {isGenerating === resume.id ? 'Generating...' : 'Generate Portfolio'}
                         </button>
-                      ) : (
-                        <button
+                      ) : portfolios[resume.id] && (
+                        <Link
+                          href={`/p/${portfolios[resume.id].slug}`}
                           className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-700 hover:to-teal-700 text-white rounded-lg transition-all"
                         >
                           <FaEye className="w-4 h-4" />
                           View Portfolio
-                        </button>
+                        </Link>
                       )}
                     </div>
                   </div>
@@ -485,6 +553,26 @@ export default function DashboardPage() {
             )}
           </motion.div>
 
+          {/* Active Sessions */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.45 }}
+            className="bg-white/80 dark:bg-gray-800/50 p-6 rounded-xl shadow-lg backdrop-blur-sm border border-indigo-100/20 dark:border-indigo-700/20 mb-8"
+          >
+            <ActiveSessions />
+          </motion.div>
+
+          {/* Two-Factor Authentication */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.475 }}
+            className="bg-white/80 dark:bg-gray-800/50 p-6 rounded-xl shadow-lg backdrop-blur-sm border border-indigo-100/20 dark:border-indigo-700/20 mb-8"
+          >
+            <TwoFactorSettings />
+          </motion.div>
+
           {/* Quick Links */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <Link href="/family">
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import AuthCard, { authButtonClass, authErrorClass, authInputClass, authNoticeClass } from '@/components/account/AuthCard';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return;
+      }
+      setSent(data.message);
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard title="Forgot Password">
+      {sent ? (
+        <div className={authNoticeClass}>{sent}</div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <div className={authErrorClass}>{error}</div>}
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Enter the email address of your account and we will send you a link to choose a new password.
+          </p>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Email Address
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className={authInputClass}
+              placeholder="you@example.com"
+            />
+          </div>
+          <button type="submit" disabled={loading} className={authButtonClass}>
+            {loading ? 'Sending...' : 'Send Reset Link'}
+          </button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
@@ -1,22 +1,61 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, FormEvent, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Section from '@/components/ui/Section';
 import Container from '@/components/ui/Container';
 import { motion } from 'framer-motion';
+import OAuthButtons from '@/components/account/OAuthButtons';
+import TwoFactorSignIn from '@/components/account/TwoFactorSignIn';
 
-export default function LoginPage() {
+// Errors the OAuth callback and the middleware redirect here with
+const ERROR_MESSAGES: Record<string, string> = {
+  oauth_denied: 'Sign-in was cancelled.',
+  oauth_state: 'Your sign-in expired or was started in another window. Please try again.',
+  oauth_failed: 'Signing in with the provider failed. Please try again.',
+  oauth_unavailable: 'This sign-in option is not available.',
+  oauth_no_email: 'Your GitHub or Google account needs a verified email address.',
+  oauth_already_linked: 'Your account is already linked to another GitHub or Google login. Sign in with that one instead.',
+  account_deactivated: 'Account is deactivated.',
+  insufficient_permissions: 'You do not have access to that page.',
+  server_error: 'An error occurred. Please try again.',
+};
+
+// Confirmations other pages redirect here with
+const NOTICES: Record<string, string> = {
+  password_reset: 'Your password was changed. Please sign in with your new password.',
+};
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const errorCode = searchParams.get('error');
+  const from = searchParams.get('from') || undefined;
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState(errorCode ? ERROR_MESSAGES[errorCode] || ERROR_MESSAGES.server_error : '');
+  const notice = NOTICES[searchParams.get('notice') || ''];
+  const [unverified, setUnverified] = useState(false);
+  const [resent, setResent] = useState('');
   const [loading, setLoading] = useState(false);
+  // Second sign-in step; the OAuth callback redirects here with it
+  const twoFactorParam = searchParams.get('two_factor');
+  const [twoFactor, setTwoFactor] = useState<'verify' | 'enroll' | null>(
+    twoFactorParam === 'verify' || twoFactorParam === 'enroll' ? twoFactorParam : null
+  );
+
+  const finishSignIn = () => {
+    // Back to the page that asked for login, or to the dashboard
+    router.push(from?.startsWith('/') && !from.startsWith('//') ? from : '/dashboard');
+    router.refresh();
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
+    setUnverified(false);
+    setResent('');
     setLoading(true);
 
     try {
@@ -32,19 +71,40 @@ export default function LoginPage() {
 
       if (!response.ok) {
         setError(data.error || 'Login failed');
+        setUnverified(data.emailVerified === false);
         setLoading(false);
         return;
       }
 
-      // Redirect to dashboard or family page on success
-      router.push('/family');
-      router.refresh();
+      if (data.twoFactor) {
+        setTwoFactor(data.twoFactor);
+        setLoading(false);
+        return;
+      }
+
+      finishSignIn();
     } catch (err) {
       setError('An error occurred. Please try again.');
       setLoading(false);
     }
   };
 
+  const handleResend = async () => {
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      setResent(data.message || data.error);
+    } catch {
+      setResent('An error occurred. Please try again.');
+    }
+  };
+
   return (
     <Section className="bg-gradient-to-br from-blue-50/50 via-indigo-50/30 to-purple-50/50 dark:from-blue-950 dark:via-indigo-950/30 dark:to-purple-950/50 min-h-screen flex items-center">
       <Container>
@@ -59,60 +119,95 @@ export default function LoginPage() {
               Login
             </h1>
 
+            {notice && !error && (
+              <div className="mb-4 p-3 bg-green-100 dark:bg-green-900/20 border border-green-300 dark:border-green-700 text-green-700 dark:text-green-400 rounded-lg text-sm">
+                {notice}
+              </div>
+            )}
+
             {error && (
               <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-400 rounded-lg text-sm">
                 {error}
+                {unverified && (
+                  <div className="mt-2">
+                    {resent || (
+                      <button type="button" onClick={handleResend} className="underline font-medium">
+                        Send a new verification link
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Email Address
-                </label>
-                <input
-                  type="email"
-                  id="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="you@example.com"
-                />
-              </div>
+            {twoFactor ? (
+              <TwoFactorSignIn
+                stage={twoFactor}
+                onSignedIn={finishSignIn}
+                onRestart={() => {
+                  setTwoFactor(null);
+                  setPassword('');
+                }}
+              />
+            ) : (
+              <>
+                <OAuthButtons from={from} />
 
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  id="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="Enter your password"
-                />
-              </div>
+                <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+                  <div>
+                    <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Email Address
+                    </label>
+                    <input
+                      type="email"
+                      id="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      placeholder="you@example.com"
+                    />
+                  </div>
 
-              <button
-                type="submit"
-                disabled={loading}
-                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-              >
-                {loading ? 'Logging in...' : 'Login'}
-              </button>
-            </form>
-
-            <div className="mt-6 text-center">
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                Don't have an account?{' '}
-                <Link href="/register" className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium">
-                  Register here
-                </Link>
-              </p>
-            </div>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Password
+                      </label>
+                      <Link href="/forgot-password" className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <input
+                      type="password"
+                      id="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      placeholder="Enter your password"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    {loading ? 'Logging in...' : 'Login'}
+                  </button>
+                </form>
+
+                <div className="mt-6 text-center">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Don't have an account?{' '}
+                    <Link href="/register" className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium">
+                      Register here
+                    </Link>
+                  </p>
+                </div>
+              </>
+            )}
 
             <div className="mt-4 text-center">
               <Link href="/" className="text-sm text-gray-600 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400">
@@ -125,3 +220,12 @@ export default function LoginPage() {
     </Section>
   );
 }
+
+export default function LoginPage() {
+  // The form reads the error and return path from the URL
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
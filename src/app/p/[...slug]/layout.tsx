@@ -0,0 +1,129 @@
+import { notFound, permanentRedirect } from 'next/navigation';
+import Link from 'next/link';
+import { findPortfolioThemeByPortfolioId } from '@/lib/db/services';
+import type { PageType } from '@/lib/db/schema';
+import { resolveTheme } from '@/lib/portfolio/themes';
+import { getPhotoTheme } from '@/lib/portfolio/photo-palette';
+import {
+  getViewerId,
+  hasPortfolioAccess,
+  isPortfolioVisible,
+  loadPortfolioPerson,
+  resolvePortfolioRoute,
+  routePagePath,
+  routePageUrl,
+} from '@/lib/portfolio/public-page';
+import { personJsonLd } from '@/lib/portfolio/metadata';
+import ThemedPortfolio from '@/components/portfolio/ThemedPortfolio';
+import PortfolioAccessGate from '@/components/portfolio/PortfolioAccessGate';
+
+interface LayoutProps {
+  children: React.ReactNode;
+  params: Promise<{
+    slug: string[];
+  }>;
+}
+
+const NAV_ITEMS: Array<{ pageType: PageType; label: string }> = [
+  { pageType: 'home', label: 'Home' },
+  { pageType: 'about', label: 'About' },
+  { pageType: 'portfolio', label: 'Projects' },
+  { pageType: 'contact', label: 'Contact' },
+];
+
+export default async function PortfolioLayout({ children, params }: LayoutProps) {
+  const { slug: segments } = await params;
+
+  // Fetch portfolio data
+  const route = await resolvePortfolioRoute(segments.join('/'));
+  
+  // Drafts look like missing pages to everyone but the owner and preview links
+  if (!route || !(await isPortfolioVisible(route.portfolio))) {
+    notFound();
+  }
+
+  // Earlier slugs and other spellings point to the current URL
+  if (route.redirectTo) {
+    permanentRedirect(route.redirectTo);
+  }
+
+  const { portfolio } = route;
+
+  // Fetch theme
+  const theme = resolveTheme(await findPortfolioThemeByPortfolioId(portfolio.id));
+
+  // Password-protected and invite-only portfolios show nothing but the gate until unlocked
+  if (portfolio.accessMode !== 'public' && !(await hasPortfolioAccess(portfolio))) {
+    return (
+      <ThemedPortfolio portfolioId={portfolio.id} theme={theme} canEdit={false}>
+        <PortfolioAccessGate portfolioId={portfolio.id} accessMode={portfolio.accessMode} />
+      </ThemedPortfolio>
+    );
+  }
+
+  // Check if user is logged in
+  const viewerId = await getViewerId();
+  const isLoggedIn = viewerId !== null;
+  const isOwner = viewerId === portfolio.userId;
+
+  // Structured data for search engines
+  const person = await loadPortfolioPerson(portfolio);
+
+  return (
+    <ThemedPortfolio
+      portfolioId={portfolio.id}
+      theme={theme}
+      canEdit={isOwner}
+      photoTheme={isOwner ? await getPhotoTheme(portfolio.userId) : null}
+    >
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: personJsonLd(person, routePageUrl(route)) }}
+      />
+
+      {portfolio.visibility === 'draft' && (
+        <div className="bg-yellow-400 text-gray-900 text-center text-sm font-medium px-4 py-2 print:hidden">
+          Draft preview – this portfolio is not published yet
+        </div>
+      )}
+
+      {/* Navigation */}
+      <nav className="bg-theme-surface/10 backdrop-blur-md border-b border-theme-surface/20">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-6">
+              {NAV_ITEMS.map((item) => (
+                <Link
+                  key={item.pageType}
+                  href={routePagePath(route, item.pageType)}
+                  className="text-theme-text hover:text-theme-text/80 transition-colors font-medium"
+                >
+                  {item.label}
+                </Link>
+              ))}
+            </div>
+
+            {isLoggedIn && isOwner && (
+              <Link
+                href="/dashboard"
+                className="px-4 py-2 bg-theme-surface/20 hover:bg-theme-surface/30 backdrop-blur-sm text-theme-text rounded-lg transition-all border border-theme-surface/30"
+              >
+                Back to Dashboard
+              </Link>
+            )}
+          </div>
+        </div>
+      </nav>
+
+      {/* Page Content */}
+      <main>{children}</main>
+
+      {/* Footer */}
+      <footer className="bg-theme-surface/10 backdrop-blur-md border-t border-theme-surface/20 py-8 mt-16">
+        <div className="container mx-auto px-4 text-center text-theme-text/80">
+          <p>© {new Date().getFullYear()} Portfolio. All rights reserved.</p>
+        </div>
+      </footer>
+    </ThemedPortfolio>
+  );
+}
@@ -0,0 +1,80 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import HomePageView from '@/components/portfolio/HomePageView';
+import AboutPageView from '@/components/portfolio/AboutPageView';
+import ProjectsPageView from '@/components/portfolio/ProjectsPageView';
+import ContactPageView from '@/components/portfolio/ContactPageView';
+import { buildPageMetadata, lockedPageMetadata } from '@/lib/portfolio/metadata';
+import {
+  getViewerId,
+  hasPortfolioAccess,
+  isPortfolioVisible,
+  loadPublicPage,
+  resolvePortfolioRoute,
+} from '@/lib/portfolio/public-page';
+
+interface PageProps {
+  params: Promise<{
+    slug: string[];
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const route = await resolvePortfolioRoute(slug.join('/'));
+  if (!route || route.redirectTo || !(await isPortfolioVisible(route.portfolio))) {
+    return {};
+  }
+  if (!(await hasPortfolioAccess(route.portfolio))) {
+    return lockedPageMetadata();
+  }
+  return buildPageMetadata(route);
+}
+
+export default async function PortfolioPage({ params }: PageProps) {
+  const { slug } = await params;
+
+  // The layout handles unknown slugs and redirects
+  const route = await resolvePortfolioRoute(slug.join('/'));
+  if (!route || !(await isPortfolioVisible(route.portfolio))) {
+    notFound();
+  }
+  // The layout shows the unlock form instead
+  if (!(await hasPortfolioAccess(route.portfolio))) {
+    return null;
+  }
+
+  const { portfolio, pageType } = route;
+  // Owners get an edit mode on their pages
+  const canEdit = (await getViewerId()) === portfolio.userId;
+
+  switch (pageType) {
+    case 'home': {
+      const page = await loadPublicPage(portfolio, 'home');
+      if (!page) notFound();
+      return <HomePageView content={page.content} photos={page.photos} editablePageId={canEdit ? page.id : null} />;
+    }
+    case 'about': {
+      const page = await loadPublicPage(portfolio, 'about');
+      if (!page) notFound();
+      return <AboutPageView content={page.content} photos={page.photos} editablePageId={canEdit ? page.id : null} />;
+    }
+    case 'portfolio': {
+      const page = await loadPublicPage(portfolio, 'portfolio');
+      if (!page) notFound();
+      return <ProjectsPageView content={page.content} editablePageId={canEdit ? page.id : null} />;
+    }
+    case 'contact': {
+      const page = await loadPublicPage(portfolio, 'contact');
+      if (!page) notFound();
+      return (
+        <ContactPageView
+          userId={portfolio.userId}
+          resumeId={portfolio.resumeId}
+          content={page.content}
+          editablePageId={canEdit ? page.id : null}
+        />
+      );
+    }
+  }
+}
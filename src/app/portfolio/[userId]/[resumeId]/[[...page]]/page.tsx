@@ -0,0 +1,27 @@
+import { notFound, permanentRedirect } from 'next/navigation';
+import { ensurePortfolioSlug, findGeneratedPortfolioByResumeId } from '@/lib/db/services';
+import { pageTypeFromSegment, portfolioPath } from '@/lib/portfolio/urls';
+
+interface PageProps {
+  params: Promise<{
+    userId: string;
+    resumeId: string;
+    page?: string[];
+  }>;
+}
+
+/**
+ * Portfolio URLs from before vanity slugs, e.g. /portfolio/{userId}/{resumeId}/about
+ * Redirects to the portfolio's /p/{slug} URL.
+ */
+export default async function LegacyPortfolioPage({ params }: PageProps) {
+  const { userId, resumeId, page = [] } = await params;
+
+  const portfolio = await findGeneratedPortfolioByResumeId(resumeId);
+  const pageType = page.length === 0 ? 'home' : page.length === 1 ? pageTypeFromSegment(page[0]) : undefined;
+  if (!portfolio || portfolio.userId !== userId || !pageType) {
+    notFound();
+  }
+
+  permanentRedirect(portfolioPath(await ensurePortfolioSlug(portfolio), pageType));
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, FormEvent, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import AuthCard, { authButtonClass, authErrorClass, authInputClass } from '@/components/account/AuthCard';
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 5) {
+      setError('Password must be at least 5 characters');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Password reset failed');
+        setLoading(false);
+        return;
+      }
+
+      router.push('/login?notice=password_reset');
+    } catch {
+      setError('An error occurred. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthCard title="Reset Password">
+        <div className={authErrorClass}>This reset link is incomplete.</div>
+        <Link href="/forgot-password" className={`${authButtonClass} block text-center`}>
+          Request a New Link
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Reset Password">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && <div className={authErrorClass}>{error}</div>}
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            New Password
+          </label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete="new-password"
+            className={authInputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Confirm New Password
+          </label>
+          <input
+            type="password"
+            id="confirmPassword"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            autoComplete="new-password"
+            className={authInputClass}
+          />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Changing your password signs you out on all devices.
+        </p>
+        <button type="submit" disabled={loading} className={authButtonClass}>
+          {loading ? 'Saving...' : 'Set New Password'}
+        </button>
+        <p className="text-sm text-center text-gray-600 dark:text-gray-400">
+          Link expired?{' '}
+          <Link href="/forgot-password" className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium">
+            Request a new one
+          </Link>
+        </p>
+      </form>
+    </AuthCard>
+  );
+}
+
+export default function ResetPasswordPage() {
+  // The form reads the token from the URL
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
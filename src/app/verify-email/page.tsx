@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, FormEvent, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import AuthCard, { authButtonClass, authErrorClass, authInputClass, authNoticeClass } from '@/components/account/AuthCard';
+
+function VerifyEmailForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'idle' | 'verifying' | 'verified' | 'failed'>(token ? 'idle' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This verification link is incomplete.');
+  const [email, setEmail] = useState('');
+  const [resent, setResent] = useState('');
+
+  // The link only opens this page; verifying takes a click, so link scanners do not use it up
+  const handleVerify = async () => {
+    setStatus('verifying');
+
+    try {
+      const response = await fetch('/api/auth/verify-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStatus('failed');
+        setMessage(data.error || 'Verification failed');
+        return;
+      }
+      setStatus('verified');
+      setMessage(`${data.email} is verified.`);
+    } catch {
+      setStatus('failed');
+      setMessage('An error occurred. Please try again.');
+    }
+  };
+
+  const handleResend = async (e: FormEvent) => {
+    e.preventDefault();
+    setResent('');
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      setResent(data.message || data.error);
+    } catch {
+      setResent('An error occurred. Please try again.');
+    }
+  };
+
+  if (status === 'verified') {
+    return (
+      <AuthCard title="Email Verified">
+        <div className={authNoticeClass}>{message}</div>
+        <Link href="/dashboard" className={`${authButtonClass} block text-center`}>
+          Continue to Dashboard
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <AuthCard title="Verify Email">
+        <div className={authErrorClass}>{message}</div>
+        <form onSubmit={handleResend} className="space-y-4">
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Enter your email address to get a new link
+          </label>
+          <input
+            type="email"
+            id="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className={authInputClass}
+            placeholder="you@example.com"
+          />
+          <button type="submit" className={authButtonClass}>
+            Send New Link
+          </button>
+          {resent && <p className="text-sm text-gray-600 dark:text-gray-400">{resent}</p>}
+        </form>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Verify Email">
+      <p className="mb-6 text-gray-600 dark:text-gray-400 text-center">
+        Confirm that this email address belongs to you.
+      </p>
+      <button onClick={handleVerify} disabled={status === 'verifying'} className={authButtonClass}>
+        {status === 'verifying' ? 'Verifying...' : 'Verify My Email'}
+      </button>
+    </AuthCard>
+  );
+}
+
+export default function VerifyEmailPage() {
+  // The form reads the token from the URL
+  return (
+    <Suspense>
+      <VerifyEmailForm />
+    </Suspense>
+  );
+}
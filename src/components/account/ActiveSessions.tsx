@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FaDesktop, FaMobileAlt } from 'react-icons/fa';
+
+interface ActiveSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short description of a user agent, e.g. "Chrome on macOS"
+ */
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent || userAgent === 'unknown') return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || userAgent.slice(0, 60);
+}
+
+/**
+ * Devices the user is signed in on, with actions to sign them out
+ */
+export default function ActiveSessions() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions');
+      if (response.status === 401) {
+        // Expired access token, or this device was signed out: refresh, or go to the login page
+        window.location.assign(`/api/auth/refresh?from=${encodeURIComponent(window.location.pathname)}`);
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load sessions');
+        return;
+      }
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    const question = session.current
+      ? 'Sign out on this device?'
+      : `Sign out ${describeUserAgent(session.userAgent)}?`;
+    if (!confirm(question)) return;
+
+    setBusy(session.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to sign out session');
+        return;
+      }
+      if (data.current) {
+        router.push('/login');
+        router.refresh();
+        return;
+      }
+      setSessions((current) => current.filter((item) => item.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Sign out on all devices, including this one?')) return;
+
+    setBusy('all');
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/logout-all', { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to sign out everywhere');
+        return;
+      }
+      router.push('/login');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out everywhere');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Where You&apos;re Signed In</h2>
+        <button
+          onClick={handleRevokeAll}
+          disabled={busy !== null || sessions.length === 0}
+          className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+        >
+          Sign out everywhere
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {loading ? (
+        <p className="text-gray-600 dark:text-gray-400">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">No active sessions.</p>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map((session) => {
+            const Icon = /Mobile|Android|iPhone/.test(session.userAgent || '') ? FaMobileAlt : FaDesktop;
+            return (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Icon className="w-5 h-5 shrink-0 text-indigo-600 dark:text-indigo-400" />
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-800 dark:text-white truncate" title={session.userAgent || undefined}>
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {session.ipAddress || 'Unknown IP'} • Signed in {new Date(session.createdAt).toLocaleString()} •
+                      Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={busy !== null}
+                  className="shrink-0 px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {busy === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
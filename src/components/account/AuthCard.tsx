@@ -0,0 +1,53 @@
+'use client';
+
+import { ReactNode } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import Section from '@/components/ui/Section';
+import Container from '@/components/ui/Container';
+
+interface AuthCardProps {
+  title: string;
+  children: ReactNode;
+}
+
+export const authInputClass =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+export const authButtonClass =
+  'w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-medium py-2 px-4 rounded-lg transition-colors';
+export const authErrorClass =
+  'mb-4 p-3 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-400 rounded-lg text-sm';
+export const authNoticeClass =
+  'mb-4 p-3 bg-green-100 dark:bg-green-900/20 border border-green-300 dark:border-green-700 text-green-700 dark:text-green-400 rounded-lg text-sm';
+
+/**
+ * Card layout of the account pages (verify email, forgot and reset password)
+ */
+export default function AuthCard({ title, children }: AuthCardProps) {
+  return (
+    <Section className="bg-gradient-to-br from-blue-50/50 via-indigo-50/30 to-purple-50/50 dark:from-blue-950 dark:via-indigo-950/30 dark:to-purple-950/50 min-h-screen flex items-center">
+      <Container>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="max-w-md mx-auto"
+        >
+          <div className="bg-white/80 dark:bg-gray-800/50 p-8 rounded-xl shadow-lg backdrop-blur-sm border border-indigo-100/20 dark:border-indigo-700/20">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 dark:from-blue-400 dark:to-purple-400 bg-clip-text text-transparent mb-6 text-center">
+              {title}
+            </h1>
+
+            {children}
+
+            <div className="mt-6 text-center">
+              <Link href="/login" className="text-sm text-gray-600 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400">
+                ← Back to Login
+              </Link>
+            </div>
+          </div>
+        </motion.div>
+      </Container>
+    </Section>
+  );
+}
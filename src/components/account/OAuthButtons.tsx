@@ -0,0 +1,38 @@
+import { FaGithub, FaGoogle } from 'react-icons/fa';
+
+interface OAuthButtonsProps {
+  // Page to return to after signing in
+  from?: string;
+}
+
+const PROVIDERS = [
+  { id: 'github', label: 'Continue with GitHub', Icon: FaGithub },
+  { id: 'google', label: 'Continue with Google', Icon: FaGoogle },
+];
+
+/**
+ * Sign in with GitHub or Google; the buttons are plain links to the OAuth routes
+ */
+export default function OAuthButtons({ from }: OAuthButtonsProps) {
+  const query = from ? `?from=${encodeURIComponent(from)}` : '';
+
+  return (
+    <div className="space-y-3">
+      {PROVIDERS.map(({ id, label, Icon }) => (
+        <a
+          key={id}
+          href={`/api/auth/oauth/${id}${query}`}
+          className="w-full flex items-center justify-center gap-2 py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-800 dark:text-white font-medium hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+        >
+          <Icon className="w-5 h-5" />
+          {label}
+        </a>
+      ))}
+      <div className="flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+        <div className="flex-1 border-t border-gray-300 dark:border-gray-600" />
+        or
+        <div className="flex-1 border-t border-gray-300 dark:border-gray-600" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { authButtonClass, authErrorClass, authInputClass } from './AuthCard';
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorEnrollmentProps {
+  // Called once the user has seen the recovery codes
+  onComplete: () => void;
+}
+
+/**
+ * Recovery codes, shown once after they were created
+ */
+export function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div>
+      <p className="mb-3 text-sm text-gray-700 dark:text-gray-300">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg font-mono text-sm text-gray-800 dark:text-gray-100">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button type="button" onClick={onDone} className={authButtonClass}>
+        I have saved my recovery codes
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Setting up an authenticator app: QR code, confirmation code, recovery codes
+ */
+export default function TwoFactorEnrollment({ onComplete }: TwoFactorEnrollmentProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleStart = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/2fa/setup', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to set up two-factor authentication');
+        return;
+      }
+      setEnrollment(data);
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/2fa/enable', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to enable two-factor authentication');
+        return;
+      }
+      setRecoveryCodes(data.recoveryCodes);
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onComplete} />;
+  }
+
+  return (
+    <div>
+      {error && <div className={authErrorClass}>{error}</div>}
+
+      {!enrollment ? (
+        <button type="button" onClick={handleStart} disabled={loading} className={authButtonClass}>
+          {loading ? 'Preparing...' : 'Set up authenticator app'}
+        </button>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+          </p>
+          <img
+            src={enrollment.qrCode}
+            alt="QR code for your authenticator app"
+            width={200}
+            height={200}
+            className="mx-auto bg-white rounded-lg"
+          />
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Can&apos;t scan it? Enter this key instead:
+            <code className="block mt-1 p-2 bg-gray-50 dark:bg-gray-700/50 rounded break-all font-mono text-gray-800 dark:text-gray-100">
+              {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+            </code>
+          </p>
+          <div>
+            <label htmlFor="enrollment-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Code from the app
+            </label>
+            <input
+              type="text"
+              id="enrollment-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              className={authInputClass}
+              placeholder="123456"
+            />
+          </div>
+          <button type="submit" disabled={loading} className={authButtonClass}>
+            {loading ? 'Checking...' : 'Turn on two-factor authentication'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
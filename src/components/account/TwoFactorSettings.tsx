@@ -0,0 +1,196 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { FaShieldAlt } from 'react-icons/fa';
+import TwoFactorEnrollment, { RecoveryCodes } from './TwoFactorEnrollment';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+type Action = 'setup' | 'regenerate' | 'disable';
+
+/**
+ * Two-factor authentication settings: set up, new recovery codes, turn off
+ */
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [action, setAction] = useState<Action | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/2fa');
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load two-factor status');
+        return;
+      }
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const chooseAction = (next: Action | null) => {
+    setAction(next);
+    setCode('');
+    setError(null);
+  };
+
+  const handleConfirm = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    try {
+      // Codes that look like recovery codes (xxxxx-xxxxx) can turn it off too
+      const body = action === 'disable' && /[a-z]/i.test(code) ? { recoveryCode: code } : { code };
+      const response = await fetch(
+        action === 'disable' ? '/api/auth/2fa/disable' : '/api/auth/2fa/recovery-codes',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to update two-factor authentication');
+        return;
+      }
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
+      }
+      chooseAction(null);
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const finishSetup = () => {
+    chooseAction(null);
+    fetchStatus();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <FaShieldAlt className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Two-Factor Authentication</h2>
+        {status && (
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+              status.enabled
+                ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200'
+                : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {status.enabled ? 'On' : 'Off'}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {recoveryCodes ? (
+        <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+      ) : !status ? (
+        <p className="text-gray-600 dark:text-gray-400">Loading...</p>
+      ) : action === 'setup' ? (
+        <div className="max-w-md">
+          <TwoFactorEnrollment onComplete={finishSetup} />
+          <button
+            type="button"
+            onClick={() => chooseAction(null)}
+            className="mt-3 text-sm text-gray-600 dark:text-gray-400 hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : action ? (
+        <form onSubmit={handleConfirm} className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="two-factor-settings-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {action === 'disable' ? 'Code from your app, or a recovery code' : 'Code from your app'}
+            </label>
+            <input
+              type="text"
+              id="two-factor-settings-code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busy}
+            className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${
+              action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'
+            }`}
+          >
+            {busy ? 'Checking...' : action === 'disable' ? 'Turn off' : 'Create new codes'}
+          </button>
+          <button
+            type="button"
+            onClick={() => chooseAction(null)}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:underline"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : status.enabled ? (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Signing in asks for a code from your authenticator app. {status.recoveryCodesLeft} recovery
+            {status.recoveryCodesLeft === 1 ? ' code' : ' codes'} left.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => chooseAction('regenerate')}
+              className="px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+            >
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => chooseAction('disable')}
+                className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Protect your account with a code from an authenticator app in addition to your password.
+          </p>
+          <button
+            onClick={() => chooseAction('setup')}
+            className="px-3 py-1 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+          >
+            Set up
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+import { authButtonClass, authErrorClass, authInputClass } from './AuthCard';
+
+interface TwoFactorSignInProps {
+  // 'verify' asks for a code, 'enroll' sets up the authenticator the user's role requires
+  stage: 'verify' | 'enroll';
+  onSignedIn: () => void;
+  onRestart: () => void;
+}
+
+/**
+ * Second step of signing in, after the password or OAuth step
+ */
+export default function TwoFactorSignIn({ stage, onSignedIn, onRestart }: TwoFactorSignInProps) {
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/2fa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(useRecovery ? { recoveryCode: code } : { code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Verification failed');
+        setLoading(false);
+        return;
+      }
+      onSignedIn();
+    } catch {
+      setError('An error occurred. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const restartLink = (
+    <div className="mt-4 text-center">
+      <button type="button" onClick={onRestart} className="text-sm text-gray-600 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400">
+        Sign in with a different account
+      </button>
+    </div>
+  );
+
+  if (stage === 'enroll') {
+    return (
+      <div>
+        <p className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+          Your account requires two-factor authentication. Set up an authenticator app to finish signing in.
+        </p>
+        <TwoFactorEnrollment onComplete={onSignedIn} />
+        {restartLink}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && <div className={authErrorClass}>{error}</div>}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {useRecovery ? 'Recovery code' : 'Code from your authenticator app'}
+          </label>
+          <input
+            type="text"
+            id="two-factor-code"
+            inputMode={useRecovery ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            className={authInputClass}
+            placeholder={useRecovery ? 'xxxxx-xxxxx' : '123456'}
+          />
+        </div>
+
+        <button type="submit" disabled={loading} className={authButtonClass}>
+          {loading ? 'Verifying...' : 'Verify'}
+        </button>
+      </form>
+
+      <div className="mt-4 text-center">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecovery(!useRecovery);
+            setCode('');
+            setError('');
+          }}
+          className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          {useRecovery ? 'Use your authenticator app' : 'Use a recovery code'}
+        </button>
+      </div>
+      {restartLink}
+    </div>
+  );
+}
@@ -1,34 +1,23 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import Container from '@/components/ui/Container';
 import { FaEnvelope, FaPhone, FaLinkedin, FaGithub, FaTwitter, FaMapMarkerAlt, FaClock } from 'react-icons/fa';
+import type { IconType } from 'react-icons';
+import type { ContactPageContent } from '@/lib/portfolio/page-content';
+import PageEditor from '@/components/portfolio/PageEditor';
 
-interface ContactMethod {
-  type: 'email' | 'phone' | 'linkedin' | 'github' | 'twitter' | 'location' | 'other';
-  label: string;
-  value: string;
-  link?: string;
+interface ContactPageViewProps {
+  userId: string;
+  resumeId: string;
+  content: ContactPageContent;
+  // Set when the viewer owns the portfolio
+  editablePageId: string | null;
 }
 
-interface ContactContent {
-  title: string;
-  subtitle: string;
-  contactMethods: ContactMethod[];
-  availability?: string;
-  formEnabled?: boolean;
-}
-
-export default function ContactPage() {
-  const params = useParams();
-  const userId = params.userId as string;
-  const resumeId = params.resumeId as string;
-
-  const [content, setContent] = useState<ContactContent | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+export default function ContactPageView({ userId, resumeId, content: initialContent, editablePageId }: ContactPageViewProps) {
+  const [content, setContent] = useState(initialContent);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -38,38 +27,8 @@ export default function ContactPage() {
   const [formStatus, setFormStatus] = useState<'idle' | 'sending' | 'success' | 'error'>('idle');
   const [formMessage, setFormMessage] = useState('');
 
-  useEffect(() => {
-    fetchContactContent();
-  }, [userId, resumeId]);
-
-  const fetchContactContent = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const response = await fetch(`/api/portfolio/public?userId=${userId}&resumeId=${resumeId}&pageType=contact`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch portfolio content');
-      }
-
-      const data = await response.json();
-      
-      const parsedContent = typeof data.content === 'string' 
-        ? JSON.parse(data.content) 
-        : data.content;
-      
-      setContent(parsedContent);
-    } catch (err) {
-      console.error('Error fetching contact content:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load content');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const getContactIcon = (type: string) => {
-    const icons: { [key: string]: any } = {
+    const icons: Record<string, IconType> = {
       email: FaEnvelope,
       phone: FaPhone,
       linkedin: FaLinkedin,
@@ -113,30 +72,12 @@ export default function ContactPage() {
         setFormStatus('error');
         setFormMessage('Failed to send message. Please try again or use direct contact methods.');
       }
-    } catch (err) {
+    } catch {
       setFormStatus('error');
       setFormMessage('An error occurred. Please try again later.');
     }
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-white text-xl">Loading...</div>
-      </div>
-    );
-  }
-
-  if (error || !content) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-white text-xl">
-          {error || 'Content not found'}
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="py-8">
       <Container>
@@ -147,10 +88,10 @@ export default function ContactPage() {
           transition={{ duration: 0.5 }}
           className="text-center mb-12"
         >
-          <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+          <h1 className="text-4xl md:text-5xl font-bold text-theme-text mb-4">
             {content.title}
           </h1>
-          <p className="text-xl text-white/80">
+          <p className="text-xl text-theme-text/80">
             {content.subtitle}
           </p>
         </motion.div>
@@ -165,18 +106,18 @@ export default function ContactPage() {
           >
             {/* Availability */}
             {content.availability && (
-              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+              <div className="theme-card rounded-2xl p-6 border">
                 <div className="flex items-center gap-3 mb-2">
-                  <FaClock className="w-6 h-6 text-white" />
-                  <h2 className="text-xl font-bold text-white">Availability</h2>
+                  <FaClock className="w-6 h-6 text-theme-text" />
+                  <h2 className="text-xl font-bold text-theme-text">Availability</h2>
                 </div>
-                <p className="text-white/80">{content.availability}</p>
+                <p className="text-theme-text/80">{content.availability}</p>
               </div>
             )}
 
             {/* Contact Methods */}
-            <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
-              <h2 className="text-2xl font-bold text-white mb-6">Get in Touch</h2>
+            <div className="theme-card rounded-2xl p-6 border">
+              <h2 className="text-2xl font-bold text-theme-text mb-6">Get in Touch</h2>
               <div className="space-y-4">
                 {content.contactMethods.map((method, index) => {
                   const IconComponent = getContactIcon(method.type);
@@ -187,22 +128,22 @@ export default function ContactPage() {
                       initial={{ opacity: 0, x: -10 }}
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ duration: 0.4, delay: 0.2 + index * 0.05 }}
-                      className="flex items-center gap-4 p-4 bg-white/5 rounded-lg border border-white/10 hover:bg-white/10 transition-all"
+                      className="flex items-center gap-4 p-4 bg-theme-surface/5 rounded-lg border border-theme-surface/10 hover:bg-theme-surface/10 transition-all"
                     >
-                      <IconComponent className="w-6 h-6 text-white flex-shrink-0" />
+                      <IconComponent className="w-6 h-6 text-theme-text flex-shrink-0" />
                       <div className="flex-1">
-                        <div className="text-white/70 text-sm mb-1">{method.label}</div>
+                        <div className="text-theme-text/70 text-sm mb-1">{method.label}</div>
                         {method.link ? (
                           <a
                             href={method.link}
                             target="_blank"
                             rel="noopener noreferrer"
-                            className="text-white hover:text-white/80 transition-colors"
+                            className="text-theme-text hover:text-theme-text/80 transition-colors"
                           >
                             {method.value}
                           </a>
                         ) : (
-                          <div className="text-white">{method.value}</div>
+                          <div className="text-theme-text">{method.value}</div>
                         )}
                       </div>
                     </motion.div>
@@ -218,25 +159,25 @@ export default function ContactPage() {
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.5, delay: 0.2 }}
-              className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20"
+              className="theme-card rounded-2xl p-6 border"
             >
-              <h2 className="text-2xl font-bold text-white mb-6">Send a Message</h2>
+              <h2 className="text-2xl font-bold text-theme-text mb-6">Send a Message</h2>
               
               {formStatus === 'success' && (
-                <div className="mb-4 p-4 bg-green-500/20 border border-green-500/40 rounded-lg text-white">
+                <div className="mb-4 p-4 bg-green-500/20 border border-green-500/40 rounded-lg text-theme-text">
                   {formMessage}
                 </div>
               )}
               
               {formStatus === 'error' && (
-                <div className="mb-4 p-4 bg-red-500/20 border border-red-500/40 rounded-lg text-white">
+                <div className="mb-4 p-4 bg-red-500/20 border border-red-500/40 rounded-lg text-theme-text">
                   {formMessage}
                 </div>
               )}
 
               <form onSubmit={handleFormSubmit} className="space-y-4">
                 <div>
-                  <label htmlFor="name" className="block text-white mb-2">
+                  <label htmlFor="name" className="block text-theme-text mb-2">
                     Name *
                   </label>
                   <input
@@ -246,13 +187,13 @@ export default function ContactPage() {
                     value={formData.name}
                     onChange={handleFormChange}
                     required
-                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50"
+                    className="w-full px-4 py-3 bg-theme-surface/10 border border-theme-surface/20 rounded-lg text-theme-text placeholder-theme-text/50 focus:outline-none focus:ring-2 focus:ring-theme-surface/50"
                     placeholder="Your name"
                   />
                 </div>
 
                 <div>
-                  <label htmlFor="email" className="block text-white mb-2">
+                  <label htmlFor="email" className="block text-theme-text mb-2">
                     Email *
                   </label>
                   <input
@@ -262,13 +203,13 @@ export default function ContactPage() {
                     value={formData.email}
                     onChange={handleFormChange}
                     required
-                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50"
+                    className="w-full px-4 py-3 bg-theme-surface/10 border border-theme-surface/20 rounded-lg text-theme-text placeholder-theme-text/50 focus:outline-none focus:ring-2 focus:ring-theme-surface/50"
                     placeholder="your.email@example.com"
                   />
                 </div>
 
                 <div>
-                  <label htmlFor="subject" className="block text-white mb-2">
+                  <label htmlFor="subject" className="block text-theme-text mb-2">
                     Subject *
                   </label>
                   <input
@@ -278,13 +219,13 @@ export default function ContactPage() {
                     value={formData.subject}
                     onChange={handleFormChange}
                     required
-                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50"
+                    className="w-full px-4 py-3 bg-theme-surface/10 border border-theme-surface/20 rounded-lg text-theme-text placeholder-theme-text/50 focus:outline-none focus:ring-2 focus:ring-theme-surface/50"
                     placeholder="What's this about?"
                   />
                 </div>
 
                 <div>
-                  <label htmlFor="message" className="block text-white mb-2">
+                  <label htmlFor="message" className="block text-theme-text mb-2">
                     Message *
                   </label>
                   <textarea
@@ -294,7 +235,7 @@ export default function ContactPage() {
                     onChange={handleFormChange}
                     required
                     rows={6}
-                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/50 resize-none"
+                    className="w-full px-4 py-3 bg-theme-surface/10 border border-theme-surface/20 rounded-lg text-theme-text placeholder-theme-text/50 focus:outline-none focus:ring-2 focus:ring-theme-surface/50 resize-none"
                     placeholder="Your message..."
                   />
                 </div>
@@ -302,7 +243,7 @@ export default function ContactPage() {
                 <button
                   type="submit"
                   disabled={formStatus === 'sending'}
-                  className="w-full px-6 py-3 bg-white text-gray-900 font-semibold rounded-lg hover:bg-white/90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  className="w-full px-6 py-3 bg-theme-accent text-theme-accent-text font-semibold rounded-lg hover:bg-theme-accent/90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {formStatus === 'sending' ? 'Sending...' : 'Send Message'}
                 </button>
@@ -311,6 +252,10 @@ export default function ContactPage() {
           )}
         </div>
       </Container>
+
+      {editablePageId && (
+        <PageEditor pageId={editablePageId} pageType="contact" content={content} onSaved={setContent} />
+      )}
     </div>
   );
 }
@@ -1,74 +1,26 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import Section from '@/components/ui/Section';
 import Container from '@/components/ui/Container';
 import { FaStar, FaCode, FaBriefcase, FaGraduationCap } from 'react-icons/fa';
-
-interface HomeContent {
-  heroTitle: string;
-  heroSubtitle: string;
-  heroDescription: string;
-  highlights: Array<{
-    icon: string;
-    title: string;
-    description: string;
-  }>;
-  featuredSkills: string[];
-  photos?: string[];
+import type { IconType } from 'react-icons';
+import type { HomePageContent } from '@/lib/portfolio/page-content';
+import PageEditor from '@/components/portfolio/PageEditor';
+
+interface HomePageViewProps {
+  content: HomePageContent;
+  // Portfolio photos, or the photos stored in the content
+  photos: string[];
+  // Set when the viewer owns the portfolio
+  editablePageId: string | null;
 }
 
-export default function HomePage() {
-  const params = useParams();
-  const userId = params.userId as string;
-  const resumeId = params.resumeId as string;
-
-  const [content, setContent] = useState<HomeContent | null>(null);
-  const [photos, setPhotos] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchHomeContent();
-  }, [userId, resumeId]);
-
-  const fetchHomeContent = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Fetch portfolio page content
-      const response = await fetch(`/api/portfolio/public?userId=${userId}&resumeId=${resumeId}&pageType=home`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch portfolio content');
-      }
-
-      const data = await response.json();
-      
-      // Parse the content JSON
-      const parsedContent = typeof data.content === 'string' 
-        ? JSON.parse(data.content) 
-        : data.content;
-      
-      setContent(parsedContent);
-      
-      // Set photos if available
-      if (data.photos && data.photos.length > 0) {
-        setPhotos(data.photos);
-      }
-    } catch (err) {
-      console.error('Error fetching home content:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load content');
-    } finally {
-      setLoading(false);
-    }
-  };
+export default function HomePageView({ content: initialContent, photos, editablePageId }: HomePageViewProps) {
+  const [content, setContent] = useState(initialContent);
 
   const getIconComponent = (iconName: string) => {
-    const icons: { [key: string]: any } = {
+    const icons: Record<string, IconType> = {
       star: FaStar,
       code: FaCode,
       briefcase: FaBriefcase,
@@ -77,24 +29,6 @@ export default function HomePage() {
     return icons[iconName] || FaStar;
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-white text-xl">Loading...</div>
-      </div>
-    );
-  }
-
-  if (error || !content) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-white text-xl">
-          {error || 'Portfolio not found'}
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="py-8">
       <Container>
@@ -113,22 +47,22 @@ export default function HomePage() {
                 transition={{ duration: 0.5 }}
                 src={photos[0]}
                 alt="Profile"
-                className="w-32 h-32 rounded-full object-cover border-4 border-white shadow-2xl"
+                className="w-32 h-32 rounded-full object-cover border-4 border-theme-surface shadow-2xl"
               />
             ) : (
-              <div className="w-32 h-32 rounded-full bg-white/20 backdrop-blur-sm border-4 border-white shadow-2xl flex items-center justify-center">
-                <FaStar className="w-12 h-12 text-white" />
+              <div className="w-32 h-32 rounded-full bg-theme-surface/20 backdrop-blur-sm border-4 border-theme-surface shadow-2xl flex items-center justify-center">
+                <FaStar className="w-12 h-12 text-theme-text" />
               </div>
             )}
           </div>
 
-          <h1 className="text-5xl md:text-6xl font-bold text-white mb-4">
+          <h1 className="text-5xl md:text-6xl font-bold text-theme-text mb-4">
             {content.heroTitle}
           </h1>
-          <p className="text-2xl md:text-3xl text-white/90 mb-6">
+          <p className="text-2xl md:text-3xl text-theme-text/90 mb-6">
             {content.heroSubtitle}
           </p>
-          <p className="text-lg text-white/80 max-w-3xl mx-auto">
+          <p className="text-lg text-theme-text/80 max-w-3xl mx-auto">
             {content.heroDescription}
           </p>
         </motion.div>
@@ -149,13 +83,13 @@ export default function HomePage() {
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.5, delay: 0.3 + index * 0.1 }}
-                  className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 hover:bg-white/20 transition-all"
+                  className="theme-card rounded-2xl p-6 border hover:bg-theme-surface/20 transition-all"
                 >
-                  <IconComponent className="w-10 h-10 text-white mb-4" />
-                  <h3 className="text-xl font-bold text-white mb-2">
+                  <IconComponent className="w-10 h-10 text-theme-text mb-4" />
+                  <h3 className="text-xl font-bold text-theme-text mb-2">
                     {highlight.title}
                   </h3>
-                  <p className="text-white/80">
+                  <p className="text-theme-text/80">
                     {highlight.description}
                   </p>
                 </motion.div>
@@ -170,9 +104,9 @@ export default function HomePage() {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6, delay: 0.4 }}
-            className="bg-white/10 backdrop-blur-md rounded-2xl p-8 border border-white/20"
+            className="theme-card rounded-2xl p-8 border"
           >
-            <h2 className="text-3xl font-bold text-white mb-6 text-center">
+            <h2 className="text-3xl font-bold text-theme-text mb-6 text-center">
               Featured Skills
             </h2>
             <div className="flex flex-wrap gap-3 justify-center">
@@ -182,7 +116,7 @@ export default function HomePage() {
                   initial={{ opacity: 0, scale: 0.8 }}
                   animate={{ opacity: 1, scale: 1 }}
                   transition={{ duration: 0.3, delay: 0.5 + index * 0.05 }}
-                  className="px-4 py-2 bg-white/20 backdrop-blur-sm rounded-full text-white font-medium border border-white/30"
+                  className="px-4 py-2 bg-theme-surface/20 backdrop-blur-sm rounded-full text-theme-text font-medium border border-theme-surface/30"
                 >
                   {skill}
                 </motion.span>
@@ -199,7 +133,7 @@ export default function HomePage() {
             transition={{ duration: 0.6, delay: 0.6 }}
             className="mt-16"
           >
-            <h2 className="text-3xl font-bold text-white mb-8 text-center">
+            <h2 className="text-3xl font-bold text-theme-text mb-8 text-center">
               Gallery
             </h2>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -211,13 +145,17 @@ export default function HomePage() {
                   transition={{ duration: 0.4, delay: 0.7 + index * 0.1 }}
                   src={photo}
                   alt={`Gallery ${index + 1}`}
-                  className="w-full h-48 object-cover rounded-xl border-2 border-white/30 shadow-lg hover:scale-105 transition-transform"
+                  className="w-full h-48 object-cover rounded-xl border-2 border-theme-surface/30 shadow-lg hover:scale-105 transition-transform"
                 />
               ))}
             </div>
           </motion.div>
         )}
       </Container>
+
+      {editablePageId && (
+        <PageEditor pageId={editablePageId} pageType="home" content={content} onSaved={setContent} />
+      )}
     </div>
   );
 }
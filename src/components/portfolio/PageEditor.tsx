@@ -0,0 +1,303 @@
+'use client';
+
+import { useState } from 'react';
+import { FaArrowDown, FaArrowUp, FaEdit, FaPlus, FaTimes, FaTrash } from 'react-icons/fa';
+import type { PageType } from '@/lib/db/schema';
+import type { JsonSchema } from '@/lib/utils/json-schema';
+import { PAGE_CONTENT_SCHEMAS, type PageContent } from '@/lib/portfolio/page-content';
+
+interface PageEditorProps<T extends PageType> {
+  pageId: string;
+  pageType: T;
+  content: PageContent<T>;
+  onSaved: (content: PageContent<T>) => void;
+}
+
+interface FieldProps {
+  schema: JsonSchema;
+  value: unknown;
+  label: string;
+  onChange: (value: unknown) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/10 border border-white/30 rounded-lg text-white placeholder-white/50 focus:outline-none focus:border-white/60';
+const iconButtonClass =
+  'p-2 text-white/80 hover:text-white hover:bg-white/10 rounded disabled:opacity-30 disabled:hover:bg-transparent';
+
+/**
+ * "heroTitle" -> "Hero title"
+ */
+function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function propertiesOf(schema: JsonSchema): Record<string, JsonSchema> {
+  return (schema.properties || {}) as Record<string, JsonSchema>;
+}
+
+function requiredOf(schema: JsonSchema): string[] {
+  return (schema.required || []) as string[];
+}
+
+/**
+ * Value for a newly added list item
+ */
+function emptyValue(schema: JsonSchema): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (schema.type === 'boolean') return false;
+  if (schema.type === 'array') return [];
+  if (schema.type === 'object') {
+    const value: Record<string, unknown> = {};
+    for (const key of requiredOf(schema)) {
+      value[key] = emptyValue(propertiesOf(schema)[key]);
+    }
+    return value;
+  }
+  return '';
+}
+
+/**
+ * Drop optional fields left empty, so e.g. a blank link does not fail the URL pattern
+ */
+function prune(value: unknown, schema: JsonSchema): unknown {
+  if (schema.type === 'array' && Array.isArray(value)) {
+    return value.map((item) => prune(item, (schema.items || {}) as JsonSchema));
+  }
+  if (schema.type !== 'object') {
+    return value;
+  }
+
+  const required = requiredOf(schema);
+  const result: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(asRecord(value))) {
+    const isEmpty = fieldValue === '' || (Array.isArray(fieldValue) && fieldValue.length === 0);
+    if (isEmpty && !required.includes(key)) continue;
+    result[key] = prune(fieldValue, propertiesOf(schema)[key] || {});
+  }
+  return result;
+}
+
+function ListField({ schema, value, label, onChange }: FieldProps) {
+  const items = Array.isArray(value) ? value : [];
+  const itemSchema = (schema.items || {}) as JsonSchema;
+  const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : Infinity;
+  const isObjectList = itemSchema.type === 'object';
+
+  const move = (from: number, to: number) => {
+    const next = [...items];
+    [next[from], next[to]] = [next[to], next[from]];
+    onChange(next);
+  };
+
+  return (
+    <fieldset className="border border-white/20 rounded-lg p-4 space-y-3">
+      <legend className="px-2 text-white font-medium">{label}</legend>
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className={isObjectList ? 'bg-white/5 rounded-lg p-3 border border-white/10' : 'flex gap-2 items-start'}
+        >
+          <div className={isObjectList ? 'flex justify-end gap-1 mb-2' : 'order-2 flex gap-1'}>
+            <button type="button" className={iconButtonClass} onClick={() => move(index, index - 1)} disabled={index === 0} aria-label="Move up">
+              <FaArrowUp />
+            </button>
+            <button type="button" className={iconButtonClass} onClick={() => move(index, index + 1)} disabled={index === items.length - 1} aria-label="Move down">
+              <FaArrowDown />
+            </button>
+            <button type="button" className={iconButtonClass} onClick={() => onChange(items.filter((_, i) => i !== index))} aria-label="Remove">
+              <FaTrash />
+            </button>
+          </div>
+          <div className="flex-1">
+            <SchemaField
+              schema={itemSchema}
+              value={item}
+              label={isObjectList ? '' : `${label} ${index + 1}`}
+              onChange={(itemValue) => onChange(items.map((current, i) => (i === index ? itemValue : current)))}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...items, emptyValue(itemSchema)])}
+        disabled={items.length >= maxItems}
+        className="flex items-center gap-2 px-3 py-2 text-sm text-white bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 disabled:opacity-40"
+      >
+        <FaPlus className="w-3 h-3" />
+        Add
+      </button>
+    </fieldset>
+  );
+}
+
+/**
+ * Form control for a value, chosen from its JSON schema
+ */
+function SchemaField({ schema, value, label, onChange }: FieldProps) {
+  // Fixed values such as the content version are not editable
+  if (schema.const !== undefined) {
+    return null;
+  }
+
+  if (schema.type === 'array') {
+    return <ListField schema={schema} value={value} label={label} onChange={onChange} />;
+  }
+
+  if (schema.type === 'object') {
+    const record = asRecord(value);
+    return (
+      <div className="space-y-3">
+        {Object.entries(propertiesOf(schema)).map(([key, fieldSchema]) => (
+          <SchemaField
+            key={key}
+            schema={fieldSchema}
+            value={record[key]}
+            label={humanize(key)}
+            onChange={(fieldValue) => onChange({ ...record, [key]: fieldValue })}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  let control: React.ReactNode;
+  if (Array.isArray(schema.enum)) {
+    control = (
+      <select className={inputClass} value={String(value ?? '')} onChange={(e) => onChange(e.target.value)}>
+        {schema.enum.map((option) => (
+          <option key={String(option)} value={String(option)} className="text-gray-900">
+            {humanize(String(option))}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (schema.type === 'boolean') {
+    return (
+      <label className="flex items-center gap-2 text-white/90">
+        <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+        {label}
+      </label>
+    );
+  } else {
+    const maxLength = typeof schema.maxLength === 'number' ? schema.maxLength : undefined;
+    const multiline = maxLength === undefined || maxLength > 500;
+    const props = {
+      className: inputClass,
+      value: typeof value === 'string' ? value : '',
+      maxLength,
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange(e.target.value),
+    };
+    control = multiline ? <textarea rows={3} {...props} /> : <input type="text" {...props} />;
+  }
+
+  return (
+    <label className="block">
+      {label && <span className="block text-sm text-white/80 mb-1">{label}</span>}
+      {control}
+    </label>
+  );
+}
+
+/**
+ * Edit mode for the owner of a portfolio page
+ * Renders an "Edit page" button and a form generated from the page's
+ * content schema; saves through PATCH /api/portfolio/pages/{pageId}.
+ */
+export default function PageEditor<T extends PageType>({ pageId, pageType, content, onSaved }: PageEditorProps<T>) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<unknown>(content);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const schema = PAGE_CONTENT_SCHEMAS[pageType];
+
+  const startEditing = () => {
+    setDraft(structuredClone(content));
+    setErrors([]);
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch(`/api/portfolio/pages/${pageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: prune(draft, schema) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors(Array.isArray(data.details) ? data.details : [data.error || 'Failed to save changes']);
+        return;
+      }
+
+      onSaved(JSON.parse(data.page.content) as PageContent<T>);
+      setOpen(false);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save changes']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={startEditing}
+        className="fixed bottom-6 right-6 z-40 flex items-center gap-2 px-5 py-3 bg-white/20 hover:bg-white/30 backdrop-blur-md text-white rounded-full shadow-lg border border-white/30 print:hidden"
+      >
+        <FaEdit className="w-4 h-4" />
+        Edit page
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40 print:hidden">
+      <div className="w-full max-w-xl h-full overflow-y-auto bg-gray-900/95 backdrop-blur-md border-l border-white/20 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Edit {humanize(pageType)} page</h2>
+          <button onClick={() => setOpen(false)} className={iconButtonClass} aria-label="Close editor">
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        <SchemaField schema={schema} value={draft} label="" onChange={setDraft} />
+
+        {errors.length > 0 && (
+          <ul className="mt-6 p-4 bg-red-500/20 border border-red-400/40 rounded-lg text-red-100 text-sm list-disc list-inside">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="sticky bottom-0 flex justify-end gap-3 mt-6 pt-4 bg-gray-900/95">
+          <button
+            onClick={() => setOpen(false)}
+            className="px-5 py-2 text-white rounded-lg border border-white/30 hover:bg-white/10"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-5 py-2 bg-white text-gray-900 font-medium rounded-lg hover:bg-white/90 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
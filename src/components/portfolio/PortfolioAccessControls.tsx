@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { FaLock, FaTimes } from 'react-icons/fa';
+import type { PortfolioAccessMode } from '@/lib/db/schema';
+
+interface PortfolioAccessControlsProps {
+  portfolioId: string;
+  accessMode: PortfolioAccessMode;
+  onChange: (accessMode: PortfolioAccessMode) => void;
+}
+
+interface InviteSummary {
+  id: string;
+  email: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const ACCESS_LABELS: Record<PortfolioAccessMode, string> = {
+  public: 'Anyone with the link',
+  password: 'Password protected',
+  invite: 'Invited people only',
+};
+
+const inputClass =
+  'flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const linkClass = 'text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50';
+
+/**
+ * Who can open a portfolio: everyone, visitors with a password or invited email addresses
+ * Settings and invites load when the owner opens the controls.
+ */
+export default function PortfolioAccessControls({ portfolioId, accessMode, onChange }: PortfolioAccessControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<PortfolioAccessMode>(accessMode);
+  const [hasPassword, setHasPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [invites, setInvites] = useState<InviteSummary[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteLink, setInviteLink] = useState<{ email: string; url: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = async () => {
+    setOpen(true);
+    const data = await send(`/api/portfolio/access?portfolioId=${portfolioId}`, 'GET');
+    if (data) {
+      setMode(data.accessMode);
+      setHasPassword(data.hasPassword);
+      setInvites(data.invites);
+    }
+  };
+
+  const handleSave = async () => {
+    const data = await send('/api/portfolio/access', 'PUT', {
+      portfolioId,
+      accessMode: mode,
+      password: mode === 'password' && password ? password : undefined,
+    });
+    if (data) {
+      setHasPassword(data.hasPassword);
+      setPassword('');
+      onChange(data.accessMode);
+    }
+  };
+
+  const handleInvite = async () => {
+    const data = await send('/api/portfolio/access/invites', 'POST', { portfolioId, email: inviteEmail });
+    if (data) {
+      setInvites((current) => [...current.filter((invite) => invite.email !== data.invite.email), data.invite]);
+      setInviteLink({ email: data.invite.email, url: data.url });
+      setInviteEmail('');
+    }
+  };
+
+  const handleRevoke = async (invite: InviteSummary) => {
+    if (!confirm(`Revoke the invite of ${invite.email}?`)) return;
+
+    const data = await send(`/api/portfolio/access/invites/${invite.id}`, 'DELETE');
+    if (data) {
+      setInvites((current) => current.filter((item) => item.id !== invite.id));
+      if (inviteLink?.email === invite.email) setInviteLink(null);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <FaLock className="w-3 h-3 shrink-0" />
+        <span>{ACCESS_LABELS[accessMode]}</span>
+        <button onClick={handleOpen} className={linkClass}>
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as PortfolioAccessMode)}
+          aria-label="Who can open this portfolio"
+          className={inputClass}
+        >
+          {(Object.keys(ACCESS_LABELS) as PortfolioAccessMode[]).map((value) => (
+            <option key={value} value={value}>
+              {ACCESS_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleSave} disabled={busy || (mode === 'password' && !hasPassword && !password)} className={linkClass}>
+          Save
+        </button>
+        <button onClick={() => setOpen(false)} className="p-1 text-gray-500 hover:text-gray-700" aria-label="Close">
+          <FaTimes />
+        </button>
+      </div>
+
+      {mode === 'password' && (
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={hasPassword ? 'New password (leave empty to keep the current one)' : 'Password'}
+          aria-label="Portfolio password"
+          className={`${inputClass} w-full`}
+        />
+      )}
+
+      {mode === 'invite' && (
+        <div className="space-y-1">
+          {invites.map((invite) => (
+            <div key={invite.id} className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              <span className="truncate">{invite.email}</span>
+              <span className="text-xs">{invite.lastUsedAt ? 'opened' : 'not opened yet'}</span>
+              <button onClick={() => handleRevoke(invite)} disabled={busy} className={linkClass}>
+                Revoke
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="name@example.com"
+              aria-label="Email to invite"
+              className={inputClass}
+            />
+            <button onClick={handleInvite} disabled={busy || inviteEmail.trim() === ''} className={linkClass}>
+              Invite
+            </button>
+          </div>
+          {inviteLink && (
+            <div>
+              <p className="text-gray-600 dark:text-gray-400">
+                Send this link to {inviteLink.email}. It is only shown once:
+              </p>
+              <input
+                readOnly
+                value={inviteLink.url}
+                onFocus={(e) => e.target.select()}
+                aria-label="Invite link"
+                className={`${inputClass} w-full mt-1`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
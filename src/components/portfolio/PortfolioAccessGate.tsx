@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FaLock } from 'react-icons/fa';
+import type { PortfolioAccessMode } from '@/lib/db/schema';
+
+interface PortfolioAccessGateProps {
+  portfolioId: string;
+  accessMode: Exclude<PortfolioAccessMode, 'public'>;
+}
+
+/**
+ * Shown instead of a protected portfolio until the viewer unlocks it
+ * Password-protected portfolios ask for the password, invite-only ones
+ * point to the invite link.
+ */
+export default function PortfolioAccessGate({ portfolioId, accessMode }: PortfolioAccessGateProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/portfolio/access/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ portfolioId, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to unlock portfolio');
+        return;
+      }
+
+      // The viewer cookie is set, render the portfolio
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock portfolio');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-24 flex justify-center">
+      <div className="theme-card rounded-2xl p-8 border w-full max-w-md text-center">
+        <FaLock className="w-8 h-8 text-theme-text mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-theme-text mb-2">This portfolio is private</h1>
+
+        {accessMode === 'invite' ? (
+          <p className="text-theme-text/80">
+            Only invited people can see it. Open the invite link you received by email to continue.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-6 space-y-4 text-left">
+            <label htmlFor="portfolio-password" className="block text-theme-text">
+              Enter the password to continue
+            </label>
+            <input
+              type="password"
+              id="portfolio-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoFocus
+              className="w-full px-4 py-3 bg-theme-surface/10 border border-theme-surface/20 rounded-lg text-theme-text placeholder-theme-text/50 focus:outline-none focus:ring-2 focus:ring-theme-surface/50"
+            />
+            {error && (
+              <div className="p-3 bg-red-500/20 border border-red-500/40 rounded-lg text-theme-text text-sm">
+                {error}
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={submitting || password === ''}
+              className="w-full px-4 py-3 bg-theme-surface/20 hover:bg-theme-surface/30 text-theme-text rounded-lg border border-theme-surface/30 transition-all disabled:opacity-50"
+            >
+              {submitting ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
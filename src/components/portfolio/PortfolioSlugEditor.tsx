@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { FaCheck, FaLink, FaTimes } from 'react-icons/fa';
+
+interface PortfolioSlugEditorProps {
+  portfolioId: string;
+  slug: string;
+  onSaved: (slug: string) => void;
+}
+
+/**
+ * Shows the public URL of a portfolio and lets the owner change its slug
+ * Links with the previous slug keep working, they redirect to the new one.
+ */
+export default function PortfolioSlugEditor({ portfolioId, slug, onSaved }: PortfolioSlugEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(slug);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCancel = () => {
+    setValue(slug);
+    setError(null);
+    setEditing(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/portfolio/slug', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ portfolioId, slug: value }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to change URL');
+        return;
+      }
+
+      onSaved(data.slug);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change URL');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <FaLink className="w-3 h-3 shrink-0" />
+        <span className="truncate">/p/{slug}</span>
+        <button
+          onClick={() => {
+            setValue(slug);
+            setEditing(true);
+          }}
+          className="text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-gray-600 dark:text-gray-400">/p/</span>
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') handleCancel();
+          }}
+          placeholder="jane-doe"
+          aria-label="Portfolio URL"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          autoFocus
+        />
+        <button
+          onClick={handleSave}
+          disabled={saving || value.trim() === ''}
+          className="p-2 text-green-600 hover:text-green-700 disabled:opacity-50"
+          aria-label="Save URL"
+        >
+          <FaCheck />
+        </button>
+        <button onClick={handleCancel} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Cancel">
+          <FaTimes />
+        </button>
+      </div>
+      {error ? (
+        <p className="mt-1 text-red-600 dark:text-red-400">{error}</p>
+      ) : (
+        <p className="mt-1 text-gray-500 dark:text-gray-400">
+          Lowercase letters, numbers and hyphens, e.g. jane-doe or jane-doe/backend. Links with the old URL keep working.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import type { PortfolioVisibility } from '@/lib/db/schema';
+
+interface PortfolioVisibilityControlsProps {
+  portfolioId: string;
+  visibility: PortfolioVisibility;
+  onChange: (visibility: PortfolioVisibility) => void;
+}
+
+const VISIBILITY_LABELS: Record<PortfolioVisibility, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200' },
+  published: { label: 'Published', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200' },
+  unlisted: { label: 'Unlisted', className: 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-100' },
+};
+
+/**
+ * Publish state of a portfolio with publish/unpublish actions and preview links
+ */
+export default function PortfolioVisibilityControls({ portfolioId, visibility, onChange }: PortfolioVisibilityControlsProps) {
+  const [busy, setBusy] = useState(false);
+  const [preview, setPreview] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (url: string, body: object) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = async (target: 'published' | 'unlisted') => {
+    const question = target === 'published'
+      ? 'Publish this portfolio? Anyone will be able to find it. Make sure you reviewed the generated content.'
+      : 'Make this portfolio unlisted? Anyone with the link can see it, but search engines will not list it.';
+    if (!confirm(question)) return;
+
+    const data = await post(`/api/portfolio/${portfolioId}/publish`, {
+      consent: true,
+      approvalConfirmed: true,
+      visibility: target,
+    });
+    if (data) onChange(data.portfolio.visibility);
+  };
+
+  const handleUnpublish = async () => {
+    if (!confirm('Unpublish this portfolio? Only you and people with a preview link will see it.')) return;
+
+    const data = await post(`/api/portfolio/${portfolioId}/unpublish`, {});
+    if (data) onChange(data.portfolio.visibility);
+  };
+
+  const handlePreview = async () => {
+    const data = await post('/api/portfolio/preview', { portfolioId });
+    if (data) setPreview({ url: data.url, expiresAt: data.expiresAt });
+  };
+
+  const { label, className } = VISIBILITY_LABELS[visibility];
+  const linkClass = 'text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50';
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{label}</span>
+        {visibility !== 'published' && (
+          <button onClick={() => handlePublish('published')} disabled={busy} className={linkClass}>
+            Publish
+          </button>
+        )}
+        {visibility !== 'unlisted' && (
+          <button onClick={() => handlePublish('unlisted')} disabled={busy} className={linkClass}>
+            Make unlisted
+          </button>
+        )}
+        {visibility !== 'draft' && (
+          <button onClick={handleUnpublish} disabled={busy} className={linkClass}>
+            Unpublish
+          </button>
+        )}
+        {visibility === 'draft' && (
+          <button onClick={handlePreview} disabled={busy} className={linkClass}>
+            Preview link
+          </button>
+        )}
+      </div>
+      {preview && (
+        <div className="mt-2">
+          <p className="text-gray-600 dark:text-gray-400">
+            Anyone with this link can see the draft until {new Date(preview.expiresAt).toLocaleString()}:
+          </p>
+          <input
+            readOnly
+            value={preview.url}
+            onFocus={(e) => e.target.select()}
+            aria-label="Preview link"
+            className="w-full mt-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-white"
+          />
+        </div>
+      )}
+      {error && <p className="mt-1 text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,84 +1,20 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import Container from '@/components/ui/Container';
 import { FaGithub, FaExternalLinkAlt, FaCalendar, FaTag } from 'react-icons/fa';
+import type { PortfolioPageContent } from '@/lib/portfolio/page-content';
+import PageEditor from '@/components/portfolio/PageEditor';
 
-interface Project {
-  title: string;
-  description: string;
-  image?: string;
-  technologies: string[];
-  date?: string;
-  githubUrl?: string;
-  liveUrl?: string;
-  highlights?: string[];
+interface ProjectsPageViewProps {
+  content: PortfolioPageContent;
+  // Set when the viewer owns the portfolio
+  editablePageId: string | null;
 }
 
-interface ProjectsContent {
-  title: string;
-  subtitle: string;
-  projects: Project[];
-}
-
-export default function ProjectsPage() {
-  const params = useParams();
-  const userId = params.userId as string;
-  const resumeId = params.resumeId as string;
-
-  const [content, setContent] = useState<ProjectsContent | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchProjectsContent();
-  }, [userId, resumeId]);
-
-  const fetchProjectsContent = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const response = await fetch(`/api/portfolio/public?userId=${userId}&resumeId=${resumeId}&pageType=portfolio`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch portfolio content');
-      }
-
-      const data = await response.json();
-      
-      const parsedContent = typeof data.content === 'string' 
-        ? JSON.parse(data.content) 
-        : data.content;
-      
-      setContent(parsedContent);
-    } catch (err) {
-      console.error('Error fetching projects content:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load content');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-white text-xl">Loading...</div>
-      </div>
-    );
-  }
-
-  if (error || !content) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-white text-xl">
-          {error || 'Content not found'}
-        </div>
-      </div>
-    );
-  }
+export default function ProjectsPageView({ content: initialContent, editablePageId }: ProjectsPageViewProps) {
+  const [content, setContent] = useState(initialContent);
 
   return (
     <div className="py-8">
@@ -90,10 +26,10 @@ export default function ProjectsPage() {
           transition={{ duration: 0.5 }}
           className="text-center mb-12"
         >
-          <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+          <h1 className="text-4xl md:text-5xl font-bold text-theme-text mb-4">
             {content.title}
           </h1>
-          <p className="text-xl text-white/80">
+          <p className="text-xl text-theme-text/80">
             {content.subtitle}
           </p>
         </motion.div>
@@ -107,7 +43,7 @@ export default function ProjectsPage() {
                 initial={{ opacity: 0, y: 30 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.5, delay: 0.1 + index * 0.1 }}
-                className="bg-white/10 backdrop-blur-md rounded-2xl overflow-hidden border border-white/20 hover:bg-white/15 transition-all group"
+                className="theme-card rounded-2xl overflow-hidden border hover:bg-theme-surface/15 transition-all group"
               >
                 {/* Project Image */}
                 {project.image && (
@@ -123,24 +59,24 @@ export default function ProjectsPage() {
 
                 {/* Project Content */}
                 <div className="p-6">
-                  <h3 className="text-2xl font-bold text-white mb-3">
+                  <h3 className="text-2xl font-bold text-theme-text mb-3">
                     {project.title}
                   </h3>
 
                   {project.date && (
-                    <div className="flex items-center gap-2 text-white/70 text-sm mb-3">
+                    <div className="flex items-center gap-2 text-theme-text/70 text-sm mb-3">
                       <FaCalendar className="w-4 h-4" />
                       <span>{project.date}</span>
                     </div>
                   )}
 
-                  <p className="text-white/80 mb-4 leading-relaxed">
+                  <p className="text-theme-text/80 mb-4 leading-relaxed">
                     {project.description}
                   </p>
 
                   {/* Highlights */}
                   {project.highlights && project.highlights.length > 0 && (
-                    <ul className="list-disc list-inside text-white/70 mb-4 space-y-1">
+                    <ul className="list-disc list-inside text-theme-text/70 mb-4 space-y-1">
                       {project.highlights.map((highlight, hIndex) => (
                         <li key={hIndex}>{highlight}</li>
                       ))}
@@ -151,14 +87,14 @@ export default function ProjectsPage() {
                   {project.technologies && project.technologies.length > 0 && (
                     <div className="mb-4">
                       <div className="flex items-center gap-2 mb-2">
-                        <FaTag className="w-4 h-4 text-white/70" />
-                        <span className="text-white/70 text-sm font-medium">Technologies:</span>
+                        <FaTag className="w-4 h-4 text-theme-text/70" />
+                        <span className="text-theme-text/70 text-sm font-medium">Technologies:</span>
                       </div>
                       <div className="flex flex-wrap gap-2">
                         {project.technologies.map((tech, techIndex) => (
                           <span
                             key={techIndex}
-                            className="px-3 py-1 bg-white/20 backdrop-blur-sm rounded-full text-white text-sm border border-white/20"
+                            className="px-3 py-1 bg-theme-surface/20 backdrop-blur-sm rounded-full text-theme-text text-sm border border-theme-surface/20"
                           >
                             {tech}
                           </span>
@@ -174,7 +110,7 @@ export default function ProjectsPage() {
                         href={project.githubUrl}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 backdrop-blur-sm text-white rounded-lg transition-all border border-white/30"
+                        className="flex items-center gap-2 px-4 py-2 bg-theme-surface/20 hover:bg-theme-surface/30 backdrop-blur-sm text-theme-text rounded-lg transition-all border border-theme-surface/30"
                       >
                         <FaGithub className="w-5 h-5" />
                         Code
@@ -185,7 +121,7 @@ export default function ProjectsPage() {
                         href={project.liveUrl}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 backdrop-blur-sm text-white rounded-lg transition-all border border-white/30"
+                        className="flex items-center gap-2 px-4 py-2 bg-theme-surface/20 hover:bg-theme-surface/30 backdrop-blur-sm text-theme-text rounded-lg transition-all border border-theme-surface/30"
                       >
                         <FaExternalLinkAlt className="w-4 h-4" />
                         Live Demo
@@ -200,12 +136,16 @@ export default function ProjectsPage() {
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
-            className="text-center text-white/70 py-12"
+            className="text-center text-theme-text/70 py-12"
           >
             <p className="text-xl">No projects to display yet.</p>
           </motion.div>
         )}
       </Container>
+
+      {editablePageId && (
+        <PageEditor pageId={editablePageId} pageType="portfolio" content={content} onSaved={setContent} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState } from 'react';
+import { FaPalette, FaTimes } from 'react-icons/fa';
+import {
+  CARD_STYLES,
+  FONT_PAIRS,
+  LAYOUT_VARIANTS,
+  THEME_PRESETS,
+  ensureThemeContrast,
+  themeBackgroundCss,
+  type ColorScheme,
+  type ThemeTokens,
+} from '@/lib/portfolio/themes';
+
+interface ThemePickerProps {
+  portfolioId: string;
+  theme: ThemeTokens;
+  // Theme matched to the owner's portfolio photos, if they uploaded any
+  photoTheme: ThemeTokens | null;
+  // Called with the theme to preview, or null to go back to the saved theme
+  onPreview: (theme: ThemeTokens | null) => void;
+  onSaved: (theme: ThemeTokens) => void;
+}
+
+const COLOR_SCHEMES: Record<ColorScheme, string> = {
+  light: 'Light',
+  dark: 'Dark',
+  system: 'Match device',
+};
+
+const selectClass =
+  'w-full px-3 py-2 bg-white/10 border border-white/30 rounded-lg text-white focus:outline-none focus:border-white/60';
+
+/**
+ * Theme chooser for the owner of a portfolio
+ * Changes are previewed on the page right away and only stored on save.
+ */
+export default function ThemePicker({ portfolioId, theme, photoTheme, onPreview, onSaved }: ThemePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ThemeTokens>) => {
+    // e.g. solid cards may need different text colors than glass ones
+    onPreview(ensureThemeContrast({ ...theme, ...changes }));
+  };
+
+  const choosePreset = (id: string) => {
+    const preset = THEME_PRESETS.find((candidate) => candidate.id === id);
+    if (preset) {
+      // Keep the visitor-facing light/dark choice when switching palettes
+      onPreview(ensureThemeContrast({ ...structuredClone(preset.tokens), colorScheme: theme.colorScheme }));
+    }
+  };
+
+  const matchPhotos = () => {
+    if (photoTheme) {
+      onPreview(ensureThemeContrast({ ...structuredClone(photoTheme), colorScheme: theme.colorScheme }));
+    }
+  };
+
+  const handleCancel = () => {
+    onPreview(null);
+    setError(null);
+    setOpen(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/portfolio/theme', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ portfolioId, theme }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(Array.isArray(data.details) ? data.details.join('; ') : data.error || 'Failed to save theme');
+        return;
+      }
+
+      onSaved(data.theme);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save theme');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-6 left-6 z-40 flex items-center gap-2 px-5 py-3 bg-gray-900/80 hover:bg-gray-900 backdrop-blur-md text-white rounded-full shadow-lg border border-white/30 print:hidden"
+      >
+        <FaPalette className="w-4 h-4" />
+        Theme
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-6 left-6 z-50 w-[22rem] max-h-[80vh] overflow-y-auto bg-gray-900/95 backdrop-blur-md text-white rounded-2xl shadow-2xl border border-white/20 p-5 print:hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold">Theme</h2>
+        <button onClick={handleCancel} className="p-2 text-white/80 hover:text-white" aria-label="Close theme picker">
+          <FaTimes />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-5">
+        {THEME_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => choosePreset(preset.id)}
+            title={preset.name}
+            aria-label={preset.name}
+            aria-pressed={theme.preset === preset.id}
+            className={`h-12 rounded-lg border-2 transition-transform hover:scale-105 ${
+              theme.preset === preset.id ? 'border-white' : 'border-transparent'
+            }`}
+            style={{ background: themeBackgroundCss(preset.tokens.palettes.light, preset.tokens.gradientAngle) }}
+          />
+        ))}
+      </div>
+
+      {photoTheme && (
+        <button
+          onClick={matchPhotos}
+          aria-pressed={!theme.preset && theme.name === photoTheme.name}
+          className="w-full flex items-center gap-3 mb-5 p-2 rounded-lg border border-white/20 hover:bg-white/10 text-left"
+        >
+          <span
+            className="w-10 h-10 rounded-md shrink-0"
+            style={{ background: themeBackgroundCss(photoTheme.palettes.light, photoTheme.gradientAngle) }}
+          />
+          <span className="text-sm">Match my photos</span>
+        </button>
+      )}
+
+      <div className="space-y-3">
+        <label className="block">
+          <span className="block text-sm text-white/80 mb-1">Typography</span>
+          <select
+            className={selectClass}
+            value={theme.typography}
+            onChange={(e) => update({ typography: e.target.value as ThemeTokens['typography'] })}
+          >
+            {Object.entries(FONT_PAIRS).map(([id, pair]) => (
+              <option key={id} value={id} className="text-gray-900">{pair.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm text-white/80 mb-1">Layout</span>
+          <select
+            className={selectClass}
+            value={theme.layout}
+            onChange={(e) => update({ layout: e.target.value as ThemeTokens['layout'] })}
+          >
+            {Object.entries(LAYOUT_VARIANTS).map(([id, variant]) => (
+              <option key={id} value={id} className="text-gray-900">{variant.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm text-white/80 mb-1">Cards</span>
+          <select
+            className={selectClass}
+            value={theme.cardStyle}
+            onChange={(e) => update({ cardStyle: e.target.value as ThemeTokens['cardStyle'] })}
+          >
+            {Object.entries(CARD_STYLES).map(([id, style]) => (
+              <option key={id} value={id} className="text-gray-900">{style.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm text-white/80 mb-1">Light / dark</span>
+          <select
+            className={selectClass}
+            value={theme.colorScheme}
+            onChange={(e) => update({ colorScheme: e.target.value as ColorScheme })}
+          >
+            {Object.entries(COLOR_SCHEMES).map(([id, label]) => (
+              <option key={id} value={id} className="text-gray-900">{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <p className="mt-4 p-3 bg-red-500/20 border border-red-400/40 rounded-lg text-red-100 text-sm">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-3 mt-5">
+        <button onClick={handleCancel} className="px-4 py-2 rounded-lg border border-white/30 hover:bg-white/10">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-white text-gray-900 font-medium rounded-lg hover:bg-white/90 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Use this theme'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import { themeStyleSheet, type ThemeTokens } from '@/lib/portfolio/themes';
+import ThemePicker from './ThemePicker';
+
+interface ThemedPortfolioProps {
+  children: React.ReactNode;
+  portfolioId: string;
+  theme: ThemeTokens;
+  // Show the theme picker (portfolio owner only)
+  canEdit: boolean;
+  // "Match my photos" option of the theme picker
+  photoTheme?: ThemeTokens | null;
+}
+
+/**
+ * Applies a portfolio theme through CSS variables on `.portfolio-theme`
+ */
+export default function ThemedPortfolio({ children, portfolioId, theme, canEdit, photoTheme = null }: ThemedPortfolioProps) {
+  const [saved, setSaved] = useState(theme);
+  const [preview, setPreview] = useState<ThemeTokens | null>(null);
+  const active = preview || saved;
+
+  return (
+    <>
+      {/* Tokens are validated against THEME_TOKENS_SCHEMA, so the style sheet only holds known values */}
+      <style dangerouslySetInnerHTML={{ __html: themeStyleSheet(active, '.portfolio-theme') }} />
+      <div className="portfolio-theme min-h-screen" data-layout={active.layout}>
+        {children}
+      </div>
+
+      {canEdit && (
+        <ThemePicker
+          portfolioId={portfolioId}
+          theme={active}
+          photoTheme={photoTheme}
+          onPreview={setPreview}
+          onSaved={(next) => {
+            setSaved(next);
+            setPreview(null);
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -1,14 +1,39 @@
 /**
  * AI Content Generation Service
- * Uses free/open-source AI models to generate portfolio content
+ * Builds portfolio page content from the user's stored resume
+ *
+ * The encrypted resume is downloaded, decrypted and parsed (with the
+ * configured LLM provider when there is one, the heuristic parser
+ * otherwise). Page content is assembled from the parsed experience,
+ * projects, skills and contact details; the provider, if any, writes the
+ * marketing copy (tagline, descriptions) following the user's aiNotes.
  */
 
 import { PageType } from '../db/schema';
+import { decryptFile } from '../security/encryption';
+import { downloadEncryptedFile } from '../storage';
+import { extractResumeText, parseResumeWithAI, type ParsedResume } from '../resume-parser';
+import { validateJsonSchema, type JsonSchema } from '../utils/json-schema';
+import {
+  PAGE_CONTENT_VERSION,
+  type AboutPageContent,
+  type ContactPageContent,
+  type HomePageContent,
+  type PortfolioPageContent,
+  type PortfolioProject,
+} from '../portfolio/page-content';
+import { getLLMProvider, type LLMProvider, type LLMProviderName } from './providers';
 
 export interface ResumeData {
   resumeUrl: string;
   aiNotes?: string;
   linkedInUrl?: string;
+  // File format (pdf, docx, txt, md); derived from originalFilename when absent
+  format?: string;
+  originalFilename?: string;
+  // AES-256-GCM parameters the stored file was encrypted with
+  encryptionIv?: string;
+  authTag?: string;
 }
 
 export interface UserPhotos {
@@ -18,130 +43,552 @@ export interface UserPhotos {
 
 export interface GeneratedContent {
   title: string;
+  // Serialized page content (see src/lib/portfolio/page-content.ts)
   content: string;
 }
 
+/**
+ * What a generation was asked for, kept so it can be recorded with the pages
+ */
+export interface GenerationDetails {
+  // Provider and model that wrote the copy; null when the template copy was used
+  provider: LLMProviderName | null;
+  model: string | null;
+  // Extra instructions for this generation, e.g. "more formal"
+  instructions: string;
+  // Owner guidance sent with the resume (notes and instructions)
+  prompt: string;
+}
+
 export interface PortfolioContent {
   home: GeneratedContent;
   about: GeneratedContent;
   portfolio: GeneratedContent;
   contact: GeneratedContent;
+  generation: GenerationDetails;
+}
+
+export interface GenerationOptions {
+  // LLM provider to use instead of the configured one (null = no language model)
+  provider?: LLMProvider | null;
+  // Extra instructions for this generation, on top of the resume's aiNotes
+  instructions?: string;
+}
+
+/**
+ * Marketing copy written around the resume facts
+ */
+interface PortfolioCopy {
+  tagline: string;
+  heroDescription: string;
+  aboutSummary: string;
+  projectsSubtitle: string;
+  contactSubtitle: string;
+  featuredSkills: string[];
+}
+
+const MAX_FEATURED_SKILLS = 8;
+const MAX_HIGHLIGHTS = 3;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const PORTFOLIO_COPY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tagline: { type: 'string', minLength: 1, maxLength: 120 },
+    heroDescription: { type: 'string', minLength: 1, maxLength: 400 },
+    aboutSummary: { type: 'string', minLength: 1, maxLength: 1500 },
+    projectsSubtitle: { type: 'string', minLength: 1, maxLength: 200 },
+    contactSubtitle: { type: 'string', minLength: 1, maxLength: 200 },
+    featuredSkills: { type: 'array', items: { type: 'string' }, maxItems: MAX_FEATURED_SKILLS },
+  },
+  required: ['tagline', 'heroDescription', 'aboutSummary', 'projectsSubtitle', 'contactSubtitle', 'featuredSkills'],
+  additionalProperties: false,
+};
+
+const COPY_SYSTEM_PROMPT = [
+  'You write the copy for a personal portfolio website from a parsed resume (JSON).',
+  'Only state facts present in the resume; never invent employers, titles, numbers or skills.',
+  'Write in the first person, concise and professional.',
+  'featuredSkills must be chosen from the resume skills.',
+  'The portfolio owner may add notes and instructions; follow them for tone and emphasis, but never copy them into the text.',
+].join(' ');
+
+export const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+/**
+ * Download, decrypt and parse the stored resume
+ * @param resumeData - Stored resume location and encryption parameters
+ * @param provider - LLM provider for parsing (null = heuristic parser only)
+ * @throws Error if the file cannot be read or parsed
+ */
+export async function loadParsedResume(
+  resumeData: ResumeData,
+  provider: LLMProvider | null
+): Promise<ParsedResume> {
+  if (!resumeData.encryptionIv || !resumeData.authTag) {
+    throw new Error('Resume has no encryption metadata; upload it again');
+  }
+
+  const format = resumeData.format || resumeData.originalFilename?.split('.').pop() || '';
+  const encrypted = await downloadEncryptedFile(resumeData.resumeUrl);
+  const file = decryptFile(encrypted, resumeData.encryptionIv, resumeData.authTag);
+  const text = await extractResumeText(file, format);
+
+  return parseResumeWithAI(text, { provider });
+}
+
+/**
+ * Whether a text mentions a term (case-insensitive, whole word)
+ */
+function mentions(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w])${escaped}($|[^\\w])`, 'i').test(text);
+}
+
+/**
+ * Move items the user mentioned in their notes or instructions to the front (stable otherwise)
+ */
+function prioritize<T>(items: T[], guidance: string, label: (item: T) => string): T[] {
+  if (!guidance) {
+    return items;
+  }
+  const mentioned = items.filter((item) => mentions(guidance, label(item)));
+  return [...mentioned, ...items.filter((item) => !mentioned.includes(item))];
+}
+
+/**
+ * Format a parser date ("YYYY-MM", "YYYY" or "Present") for display
+ */
+function formatDate(date: string | undefined): string {
+  const match = date?.match(/^(\d{4})-(\d{2})$/);
+  if (match) {
+    return `${MONTHS[parseInt(match[2], 10) - 1] || ''} ${match[1]}`.trim();
+  }
+  return date || '';
+}
+
+function formatDateRange(startDate: string | undefined, endDate: string | undefined): string | undefined {
+  const range = [formatDate(startDate), formatDate(endDate)].filter(Boolean).join(' - ');
+  return range || undefined;
+}
+
+/**
+ * First sentences of a text, up to a length
+ */
+function firstSentences(text: string, maxLength: number): string {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*/g) || [];
+  let result = '';
+  for (const sentence of sentences) {
+    if (result && result.length + sentence.length > maxLength) break;
+    result += sentence;
+  }
+  return result.trim().slice(0, maxLength);
+}
+
+/**
+ * Headline for the hero section, e.g. "Senior Engineer at Acme"
+ */
+function headline(resume: ParsedResume): string {
+  const latest = resume.workExperience[0];
+  if (latest?.position && latest.company) {
+    return `${latest.position} at ${latest.company}`;
+  }
+  if (latest?.position) {
+    return latest.position;
+  }
+  const education = resume.education[0];
+  if (education?.degree) {
+    return [education.degree, education.field].filter(Boolean).join(' in ');
+  }
+  return resume.skills.slice(0, 3).join(' · ');
+}
+
+/**
+ * Copy assembled from the resume without a language model
+ */
+function templateCopy(resume: ParsedResume, guidance: string): PortfolioCopy {
+  const skills = prioritize(resume.skills, guidance, (skill) => skill);
+  const summary = resume.summary?.trim() || '';
+  const latest = resume.workExperience[0];
+
+  const fallbackDescription = latest
+    ? `${latest.position || 'Professional'} with experience at ${resume.workExperience
+        .slice(0, 3)
+        .map((entry) => entry.company)
+        .filter(Boolean)
+        .join(', ')}.`
+    : skills.length > 0
+      ? `Working with ${skills.slice(0, 3).join(', ')}.`
+      : '';
+
+  return {
+    tagline: headline(resume),
+    heroDescription: summary ? firstSentences(summary, 240) : fallbackDescription,
+    aboutSummary: summary || fallbackDescription,
+    projectsSubtitle: resume.projects?.length
+      ? 'A selection of projects I have built.'
+      : 'Highlights from my professional experience.',
+    contactSubtitle: resume.personal.name
+      ? `Get in touch with ${resume.personal.name.split(/\s+/)[0]}.`
+      : 'Feel free to reach out!',
+    featuredSkills: skills.slice(0, MAX_FEATURED_SKILLS),
+  };
+}
+
+/**
+ * Owner guidance sent to the model along with the resume
+ */
+function ownerGuidance(notes: string, instructions: string): string {
+  return [
+    notes ? `Notes from the portfolio owner:\n${notes}` : '',
+    instructions ? `Instructions for this version:\n${instructions}` : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Ask the LLM provider to write the copy; falls back to the template copy
+ */
+async function writeCopy(
+  resume: ParsedResume,
+  guidance: string,
+  provider: LLMProvider | null
+): Promise<{ copy: PortfolioCopy; usedProvider: boolean }> {
+  const fallback = templateCopy(resume, guidance);
+  if (!provider) {
+    return { copy: fallback, usedProvider: false };
+  }
+
+  try {
+    const output = await provider.generateJson({
+      system: COPY_SYSTEM_PROMPT,
+      prompt: [`Resume:\n${JSON.stringify(resume)}`, guidance].filter(Boolean).join('\n\n'),
+      schema: PORTFOLIO_COPY_SCHEMA,
+      schemaName: 'portfolio_copy',
+    });
+
+    const errors = validateJsonSchema(output, PORTFOLIO_COPY_SCHEMA);
+    if (errors.length === 0) {
+      const copy = output as PortfolioCopy;
+      // Keep only skills that really are in the resume
+      const known = new Map(resume.skills.map((skill) => [skill.toLowerCase(), skill]));
+      const featuredSkills = copy.featuredSkills
+        .map((skill) => known.get(skill.toLowerCase()))
+        .filter((skill): skill is string => Boolean(skill));
+      return {
+        copy: { ...copy, featuredSkills: featuredSkills.length > 0 ? featuredSkills : fallback.featuredSkills },
+        usedProvider: true,
+      };
+    }
+
+    console.warn(`Portfolio copy (${provider.name}) returned invalid output, using template copy:`, errors.slice(0, 5));
+  } catch (error) {
+    console.error(`Portfolio copy (${provider.name}) failed, using template copy:`, error);
+  }
+
+  return { copy: fallback, usedProvider: false };
 }
 
 /**
- * Generate a random gradient theme CSS
+ * Make sure a profile URL has a scheme
  */
-export function generateGradientTheme(): string {
-  const gradients = [
-    'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-    'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)',
-    'linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)',
-    'linear-gradient(135deg, #43e97b 0%, #38f9d7 100%)',
-    'linear-gradient(135deg, #fa709a 0%, #fee140 100%)',
-    'linear-gradient(135deg, #30cfd0 0%, #330867 100%)',
-    'linear-gradient(135deg, #a8edea 0%, #fed6e3 100%)',
-    'linear-gradient(135deg, #ff9a9e 0%, #fecfef 100%)',
-    'linear-gradient(135deg, #ffecd2 0%, #fcb69f 100%)',
-    'linear-gradient(135deg, #ff6e7f 0%, #bfe9ff 100%)',
-    'linear-gradient(135deg, #e0c3fc 0%, #8ec5fc 100%)',
-    'linear-gradient(135deg, #f8b500 0%, #fceabb 100%)',
-  ];
+function toUrl(value: string): string {
+  return /^https?:\/\//i.test(value) ? value : `https://${value}`;
+}
+
+function buildHome(resume: ParsedResume, copy: PortfolioCopy, userPhotos: UserPhotos): GeneratedContent {
+  const highlights: HomePageContent['highlights'] = [];
+  const latest = resume.workExperience[0];
+  const education = resume.education[0];
+  const projects = resume.projects || [];
 
-  return gradients[Math.floor(Math.random() * gradients.length)];
+  if (latest) {
+    highlights.push({
+      icon: 'briefcase',
+      title: latest.position || latest.company,
+      description:
+        [latest.position ? latest.company : '', formatDateRange(latest.startDate, latest.endDate)]
+          .filter(Boolean)
+          .join(', ') || latest.description,
+    });
+  }
+  if (projects.length > 0) {
+    highlights.push({
+      icon: 'code',
+      title: projects[0].name,
+      description: firstSentences(projects[0].description, 160) || projects[0].technologies.join(', '),
+    });
+  }
+  if (education) {
+    highlights.push({
+      icon: 'graduation',
+      title: [education.degree, education.field].filter(Boolean).join(' in ') || education.institution,
+      description: education.institution,
+    });
+  }
+  for (const certification of resume.certifications || []) {
+    highlights.push({ icon: 'star', title: certification.name, description: certification.issuer });
+  }
+
+  const photos = [userPhotos.profilePhoto, ...userPhotos.portfolioPhotos].filter(
+    (photo): photo is string => Boolean(photo)
+  );
+
+  const content: HomePageContent = {
+    version: PAGE_CONTENT_VERSION,
+    heroTitle: resume.personal.name || 'Welcome',
+    heroSubtitle: copy.tagline,
+    heroDescription: copy.heroDescription,
+    highlights: highlights.slice(0, MAX_HIGHLIGHTS),
+    featuredSkills: copy.featuredSkills,
+    photos,
+  };
+
+  return {
+    title: resume.personal.name ? `${resume.personal.name} - Portfolio` : 'Welcome to My Portfolio',
+    content: JSON.stringify(content),
+  };
 }
 
+function buildAbout(resume: ParsedResume, copy: PortfolioCopy): GeneratedContent {
+  const sections: AboutPageContent['sections'] = [];
+
+  if (resume.workExperience.length > 0) {
+    sections.push({
+      type: 'experience',
+      title: 'Experience',
+      items: resume.workExperience.map((entry) => ({
+        title: entry.position || entry.company,
+        subtitle: [entry.company, entry.location].filter(Boolean).join(' · ') || undefined,
+        description: entry.description || undefined,
+        date: formatDateRange(entry.startDate, entry.endDate),
+        points: entry.highlights,
+      })),
+    });
+  }
+
+  if (resume.education.length > 0) {
+    sections.push({
+      type: 'education',
+      title: 'Education',
+      items: resume.education.map((entry) => ({
+        title: [entry.degree, entry.field].filter(Boolean).join(' in ') || entry.institution,
+        subtitle: [entry.institution, entry.location].filter(Boolean).join(' · ') || undefined,
+        description: entry.gpa ? `GPA: ${entry.gpa}` : undefined,
+        date: formatDateRange(entry.startDate, entry.endDate),
+      })),
+    });
+  }
+
+  if (resume.skills.length > 0) {
+    sections.push({
+      type: 'skills',
+      title: 'Skills',
+      items: [{ title: 'Technical Skills', description: resume.skills.join(', ') }],
+    });
+  }
+
+  if (resume.certifications?.length) {
+    sections.push({
+      type: 'achievements',
+      title: 'Certifications',
+      items: resume.certifications.map((certification) => ({
+        title: certification.name,
+        subtitle: certification.issuer || undefined,
+        date: formatDate(certification.date) || undefined,
+      })),
+    });
+  }
+
+  if (resume.languages?.length) {
+    sections.push({
+      type: 'custom',
+      title: 'Languages',
+      items: resume.languages.map((language) => ({
+        title: language.language,
+        subtitle: language.proficiency || undefined,
+      })),
+    });
+  }
+
+  const content: AboutPageContent = {
+    version: PAGE_CONTENT_VERSION,
+    title: 'About Me',
+    summary: copy.aboutSummary,
+    sections,
+  };
+
+  return { title: 'About Me', content: JSON.stringify(content) };
+}
+
+function buildPortfolio(resume: ParsedResume, copy: PortfolioCopy, guidance: string): GeneratedContent {
+  let projects: PortfolioProject[];
+
+  if (resume.projects?.length) {
+    projects = prioritize(resume.projects, guidance, (project) => project.name).map((project) => ({
+      title: project.name,
+      description: project.description,
+      technologies: project.technologies,
+      githubUrl: project.repository ? toUrl(project.repository) : undefined,
+      liveUrl: project.url ? toUrl(project.url) : undefined,
+    }));
+  } else {
+    // No projects section: showcase the roles instead
+    projects = resume.workExperience
+      .filter((entry) => entry.description || entry.highlights.length > 0)
+      .map((entry) => {
+        const text = [entry.description, ...entry.highlights].join(' ');
+        return {
+          title: entry.position && entry.company ? `${entry.position} at ${entry.company}` : entry.position || entry.company,
+          description: entry.description || entry.highlights[0],
+          technologies: resume.skills.filter((skill) => mentions(text, skill)),
+          date: formatDateRange(entry.startDate, entry.endDate),
+          highlights: entry.description ? entry.highlights : entry.highlights.slice(1),
+        };
+      });
+  }
+
+  const content: PortfolioPageContent = {
+    version: PAGE_CONTENT_VERSION,
+    title: resume.projects?.length ? 'Projects' : 'Work',
+    subtitle: copy.projectsSubtitle,
+    projects,
+  };
+
+  return { title: 'My Portfolio', content: JSON.stringify(content) };
+}
+
+function buildContact(resume: ParsedResume, copy: PortfolioCopy, linkedInUrl?: string): GeneratedContent {
+  const { personal } = resume;
+  const contactMethods: ContactPageContent['contactMethods'] = [];
+
+  if (personal.email) {
+    contactMethods.push({ type: 'email', label: 'Email', value: personal.email, link: `mailto:${personal.email}` });
+  }
+  if (personal.phone) {
+    contactMethods.push({
+      type: 'phone',
+      label: 'Phone',
+      value: personal.phone,
+      link: `tel:${personal.phone.replace(/[^\d+]/g, '')}`,
+    });
+  }
+  const linkedin = personal.linkedin || linkedInUrl;
+  if (linkedin) {
+    contactMethods.push({ type: 'linkedin', label: 'LinkedIn', value: linkedin, link: toUrl(linkedin) });
+  }
+  if (personal.github) {
+    contactMethods.push({ type: 'github', label: 'GitHub', value: personal.github, link: toUrl(personal.github) });
+  }
+  if (personal.website) {
+    contactMethods.push({ type: 'other', label: 'Website', value: personal.website, link: toUrl(personal.website) });
+  }
+  if (personal.location) {
+    contactMethods.push({ type: 'location', label: 'Location', value: personal.location });
+  }
+
+  const content: ContactPageContent = {
+    version: PAGE_CONTENT_VERSION,
+    title: 'Get In Touch',
+    subtitle: copy.contactSubtitle,
+    contactMethods,
+    formEnabled: true,
+  };
+
+  return { title: 'Get In Touch', content: JSON.stringify(content) };
+}
+
+interface GenerationContext {
+  resume: ParsedResume;
+  copy: PortfolioCopy;
+  guidance: string;
+  resumeData: ResumeData;
+  userPhotos: UserPhotos;
+}
+
+const PAGE_BUILDERS: Record<PageType, (context: GenerationContext) => GeneratedContent> = {
+  home: ({ resume, copy, userPhotos }) => buildHome(resume, copy, userPhotos),
+  about: ({ resume, copy }) => buildAbout(resume, copy),
+  portfolio: ({ resume, copy, guidance }) => buildPortfolio(resume, copy, guidance),
+  contact: ({ resume, copy, resumeData }) => buildContact(resume, copy, resumeData.linkedInUrl),
+};
+
 /**
- * Extract skills from resume content (mock implementation)
+ * Parse the resume and write the copy shared by all pages
  */
-function extractSkills(text: string): string[] {
-  // Common skills to look for
-  const commonSkills = [
-    'JavaScript', 'TypeScript', 'React', 'Node.js', 'Python', 'Java', 'C++',
-    'HTML', 'CSS', 'SQL', 'Git', 'Docker', 'AWS', 'Azure', 'Leadership',
-    'Project Management', 'Communication', 'Problem Solving', 'Team Collaboration'
-  ];
+async function prepareGeneration(
+  resumeData: ResumeData,
+  userPhotos: UserPhotos,
+  options: GenerationOptions
+): Promise<{ context: GenerationContext; generation: GenerationDetails }> {
+  const provider = options.provider === undefined ? getLLMProvider() : options.provider;
+  const notes = resumeData.aiNotes?.trim() || '';
+  const instructions = options.instructions?.trim().slice(0, MAX_INSTRUCTIONS_LENGTH) || '';
+  const guidance = ownerGuidance(notes, instructions);
+
+  const resume = await loadParsedResume(resumeData, provider);
+  const { copy, usedProvider } = await writeCopy(resume, guidance, provider);
+
+  return {
+    context: { resume, copy, guidance, resumeData, userPhotos },
+    generation: {
+      provider: usedProvider && provider ? provider.name : null,
+      model: usedProvider && provider ? provider.model : null,
+      instructions,
+      prompt: guidance,
+    },
+  };
+}
 
-  return commonSkills.filter(skill => 
-    text.toLowerCase().includes(skill.toLowerCase())
-  ).slice(0, 8);
+function generationError(error: unknown): Error {
+  console.error('Error generating portfolio content:', error);
+  return new Error(
+    `Failed to generate portfolio content: ${error instanceof Error ? error.message : 'Unknown error'}`
+  );
 }
 
 /**
- * Generate AI-powered portfolio content
- * This is a mock implementation - in production, integrate with Hugging Face, OpenAI, etc.
+ * Generate portfolio content from the user's resume
+ * @param resumeData - Stored resume and the user's notes for the AI
+ * @param userPhotos - Profile and portfolio photos
+ * @param options.provider - LLM provider to use instead of the configured one
+ *   (null = heuristic parsing and template copy only)
+ * @param options.instructions - Extra instructions, e.g. "focus on cloud work"
+ * @returns Content for the home, about, portfolio and contact pages
  */
 export async function generatePortfolioContent(
   resumeData: ResumeData,
-  userPhotos: UserPhotos
+  userPhotos: UserPhotos,
+  options: GenerationOptions = {}
 ): Promise<PortfolioContent> {
   try {
-    const mockResumeText = `
-      Experienced Software Engineer with 5+ years in full-stack development.
-      Expert in JavaScript, TypeScript, React, Node.js, and cloud technologies.
-    `;
-
-    const skills = extractSkills(mockResumeText);
-
-    const home: GeneratedContent = {
-      title: 'Welcome to My Portfolio',
-      content: JSON.stringify({
-        hero: {
-          greeting: 'Hello, I am',
-          name: 'Professional Developer',
-          tagline: 'Building innovative solutions with modern technologies',
-          description: 'Passionate software engineer with expertise in full-stack development.',
-          backgroundImage: userPhotos.portfolioPhotos[0] || null
-        }
-      })
-    };
-
-    const about: GeneratedContent = {
-      title: 'About Me',
-      content: JSON.stringify({
-        sections: [
-          {
-            heading: 'Professional Background',
-            content: 'Dedicated software engineer with proven track record.',
-            image: userPhotos.profilePhoto || userPhotos.portfolioPhotos[0]
-          }
-        ]
-      })
-    };
+    const { context, generation } = await prepareGeneration(resumeData, userPhotos, options);
 
-    const portfolio: GeneratedContent = {
-      title: 'My Portfolio',
-      content: JSON.stringify({
-        projects: [
-          {
-            id: 1,
-            title: 'E-Commerce Platform',
-            description: 'Full-featured e-commerce platform.',
-            technologies: skills.slice(0, 4)
-          }
-        ]
-      })
+    return {
+      home: PAGE_BUILDERS.home(context),
+      about: PAGE_BUILDERS.about(context),
+      portfolio: PAGE_BUILDERS.portfolio(context),
+      contact: PAGE_BUILDERS.contact(context),
+      generation,
     };
-
-    const contact: GeneratedContent = {
-      title: 'Get In Touch',
-      content: JSON.stringify({
-        introduction: 'Feel free to reach out!',
-        contactMethods: []
-      })
-    };
-
-    return { home, about, portfolio, contact };
   } catch (error) {
-    console.error('Error generating portfolio content:', error);
-    throw new Error('Failed to generate portfolio content');
+    throw generationError(error);
   }
 }
 
+/**
+ * Generate the content of a single page
+ * @see generatePortfolioContent
+ */
 export async function generatePageContent(
   pageType: PageType,
   resumeData: ResumeData,
-  userPhotos: UserPhotos
-): Promise<GeneratedContent> {
-  const allContent = await generatePortfolioContent(resumeData, userPhotos);
-  return allContent[pageType];
+  userPhotos: UserPhotos,
+  options: GenerationOptions = {}
+): Promise<GeneratedContent & { generation: GenerationDetails }> {
+  try {
+    const { context, generation } = await prepareGeneration(resumeData, userPhotos, options);
+    return { ...PAGE_BUILDERS[pageType](context), generation };
+  } catch (error) {
+    throw generationError(error);
+  }
 }
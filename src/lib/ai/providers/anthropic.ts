@@ -0,0 +1,73 @@
+/**
+ * Anthropic Messages API provider
+ *
+ * Structured output is requested by forcing a single tool call whose
+ * input schema is the requested JSON schema; the tool input is the result.
+ */
+
+import { LLMProviderError } from './errors';
+import { postJson } from './http';
+import type { LLMProvider, LLMProviderConfig, StructuredRequest } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface MessagesResponse {
+  content?: Array<{ type: string; name?: string; input?: unknown; text?: string }>;
+  stop_reason?: string;
+}
+
+/**
+ * Create an Anthropic provider
+ */
+export function createAnthropicProvider(config: LLMProviderConfig): LLMProvider {
+  if (!config.apiKey) {
+    throw new LLMProviderError('anthropic', 'LLM_API_KEY is not configured');
+  }
+  const apiKey = config.apiKey;
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+
+    async generateJson(request: StructuredRequest): Promise<unknown> {
+      const data = (await postJson(
+        'anthropic',
+        `${config.baseUrl}/messages`,
+        {
+          model: config.model,
+          max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+          temperature: 0,
+          system: request.system,
+          messages: [{ role: 'user', content: request.prompt }],
+          tools: [
+            {
+              name: request.schemaName,
+              description: 'Record the extracted data.',
+              input_schema: request.schema,
+            },
+          ],
+          tool_choice: { type: 'tool', name: request.schemaName },
+        },
+        {
+          headers: {
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+          },
+          timeoutMs: config.timeoutMs,
+        }
+      )) as MessagesResponse;
+
+      const toolUse = data.content?.find(
+        (block) => block.type === 'tool_use' && block.name === request.schemaName
+      );
+      if (!toolUse) {
+        throw new LLMProviderError('anthropic', `Response did not call ${request.schemaName} (stop reason: ${data.stop_reason})`);
+      }
+
+      return toolUse.input;
+    },
+  };
+}
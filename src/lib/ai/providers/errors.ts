@@ -0,0 +1,20 @@
+/**
+ * LLM provider errors
+ */
+
+import type { LLMProviderName } from './types';
+
+/**
+ * Error raised when a provider request fails or returns unusable output
+ */
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName;
+  readonly status?: number;
+
+  constructor(provider: LLMProviderName, message: string, options?: { status?: number; cause?: unknown }) {
+    super(`[${provider}] ${message}`, { cause: options?.cause });
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = options?.status;
+  }
+}
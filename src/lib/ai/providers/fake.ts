@@ -0,0 +1,36 @@
+/**
+ * Deterministic fake provider for tests and offline development
+ *
+ * Never calls a network service. It returns the configured response, or
+ * the result of a responder function, and records every request it saw.
+ */
+
+import type { LLMProvider, StructuredRequest } from './types';
+
+export interface FakeProvider extends LLMProvider {
+  readonly requests: StructuredRequest[];
+}
+
+/**
+ * Create a fake provider
+ * @param response - Value to return, or a function computing it from the request.
+ *   Defaults to an empty object, which fails schema validation.
+ */
+export function createFakeProvider(
+  response: unknown | ((request: StructuredRequest) => unknown) = {}
+): FakeProvider {
+  const requests: StructuredRequest[] = [];
+
+  return {
+    name: 'fake',
+    model: 'fake',
+    requests,
+
+    async generateJson(request: StructuredRequest): Promise<unknown> {
+      requests.push(request);
+      const value = typeof response === 'function' ? response(request) : response;
+      // Hand out a copy so callers cannot mutate the canned response
+      return structuredClone(value);
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared HTTP helpers for LLM providers
+ */
+
+import { LLMProviderError } from './errors';
+import type { LLMProviderName } from './types';
+
+/**
+ * POST a JSON body and return the parsed JSON response
+ * @throws LLMProviderError on network errors, timeouts and non-2xx responses
+ */
+export async function postJson(
+  provider: LLMProviderName,
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; timeoutMs: number }
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+  } catch (error) {
+    throw new LLMProviderError(provider, `Request to ${url} failed`, { cause: error });
+  }
+
+  if (!response.ok) {
+    // Error bodies can echo the prompt; keep only the start for logs
+    const detail = (await response.text().catch(() => '')).slice(0, 300);
+    throw new LLMProviderError(provider, `HTTP ${response.status}: ${detail}`, {
+      status: response.status,
+    });
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new LLMProviderError(provider, 'Response was not valid JSON', { cause: error });
+  }
+}
+
+/**
+ * Parse model text output as JSON
+ * Tolerates markdown code fences some local models wrap around JSON.
+ * @throws LLMProviderError if the text is not JSON
+ */
+export function parseJsonText(provider: LLMProviderName, text: string): unknown {
+  const unfenced = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    throw new LLMProviderError(provider, 'Model output was not valid JSON', { cause: error });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * LLM providers
+ *
+ * Selects a language model backend from the environment:
+ * - LLM_PROVIDER   openai | anthropic | ollama | llamacpp | fake (unset = AI features disabled)
+ * - LLM_MODEL      model name (provider default if unset)
+ * - LLM_BASE_URL   API base URL (provider default if unset)
+ * - LLM_API_KEY    API key (falls back to OPENAI_API_KEY / ANTHROPIC_API_KEY)
+ * - LLM_TIMEOUT_MS request timeout (default 60000)
+ */
+
+import { createAnthropicProvider } from './anthropic';
+import { createFakeProvider } from './fake';
+import { createOllamaProvider } from './ollama';
+import { createOpenAIProvider } from './openai';
+import type { LLMProvider, LLMProviderConfig, LLMProviderName } from './types';
+
+export { LLMProviderError } from './errors';
+export { createAnthropicProvider } from './anthropic';
+export { createFakeProvider, type FakeProvider } from './fake';
+export { createOllamaProvider } from './ollama';
+export { createOpenAIProvider } from './openai';
+export type {
+  JsonSchema,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+  StructuredRequest,
+} from './types';
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, { baseUrl: string; model: string }> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  anthropic: { baseUrl: 'https://api.anthropic.com/v1', model: 'claude-3-5-haiku-latest' },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.1' },
+  // llama-server serves whichever model it was started with
+  llamacpp: { baseUrl: 'http://localhost:8080/v1', model: 'local' },
+  fake: { baseUrl: '', model: 'fake' },
+};
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Get LLM configuration from environment
+ * @returns Provider configuration, or null when no provider is configured
+ */
+export function getLLMConfig(): LLMProviderConfig | null {
+  const provider = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!provider) {
+    return null;
+  }
+
+  if (!(provider in PROVIDER_DEFAULTS)) {
+    throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+
+  const name = provider as LLMProviderName;
+  const defaults = PROVIDER_DEFAULTS[name];
+  const apiKey =
+    process.env.LLM_API_KEY ||
+    (name === 'openai' ? process.env.OPENAI_API_KEY : undefined) ||
+    (name === 'anthropic' ? process.env.ANTHROPIC_API_KEY : undefined);
+
+  return {
+    provider: name,
+    model: process.env.LLM_MODEL || defaults.model,
+    baseUrl: (process.env.LLM_BASE_URL || defaults.baseUrl).replace(/\/+$/, ''),
+    apiKey,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10),
+  };
+}
+
+/**
+ * Create a provider for the given configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+    case 'llamacpp':
+      return createOpenAIProvider(config);
+
+    case 'anthropic':
+      return createAnthropicProvider(config);
+
+    case 'ollama':
+      return createOllamaProvider(config);
+
+    case 'fake':
+      return createFakeProvider();
+  }
+}
+
+/**
+ * Get the provider configured in the environment
+ * @returns Provider, or null when AI features are disabled
+ */
+export function getLLMProvider(): LLMProvider | null {
+  const config = getLLMConfig();
+  return config ? createLLMProvider(config) : null;
+}
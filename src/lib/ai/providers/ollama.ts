@@ -0,0 +1,53 @@
+/**
+ * Ollama provider (local models)
+ *
+ * Uses the native /api/chat endpoint, which constrains generation to the
+ * JSON schema passed as `format`.
+ */
+
+import { LLMProviderError } from './errors';
+import { parseJsonText, postJson } from './http';
+import type { LLMProvider, LLMProviderConfig, StructuredRequest } from './types';
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  done_reason?: string;
+}
+
+/**
+ * Create an Ollama provider
+ */
+export function createOllamaProvider(config: LLMProviderConfig): LLMProvider {
+  return {
+    name: 'ollama',
+    model: config.model,
+
+    async generateJson(request: StructuredRequest): Promise<unknown> {
+      const data = (await postJson(
+        'ollama',
+        `${config.baseUrl}/api/chat`,
+        {
+          model: config.model,
+          stream: false,
+          format: request.schema,
+          options: {
+            temperature: 0,
+            num_predict: request.maxTokens,
+          },
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.prompt },
+          ],
+        },
+        { timeoutMs: config.timeoutMs }
+      )) as OllamaChatResponse;
+
+      const content = data.message?.content;
+      if (!content) {
+        throw new LLMProviderError('ollama', 'Response did not contain any content');
+      }
+
+      return parseJsonText('ollama', content);
+    },
+  };
+}
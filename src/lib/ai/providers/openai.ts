@@ -0,0 +1,70 @@
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Works with the OpenAI API and any server exposing /chat/completions with
+ * `response_format: { type: 'json_schema' }` (Azure OpenAI, vLLM, LM Studio,
+ * llama.cpp's llama-server).
+ */
+
+import { LLMProviderError } from './errors';
+import { parseJsonText, postJson } from './http';
+import type { LLMProvider, LLMProviderConfig, StructuredRequest } from './types';
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null; refusal?: string | null };
+    finish_reason?: string;
+  }>;
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ */
+export function createOpenAIProvider(config: LLMProviderConfig): LLMProvider {
+  const name = config.provider;
+
+  return {
+    name,
+    model: config.model,
+
+    async generateJson(request: StructuredRequest): Promise<unknown> {
+      const headers: Record<string, string> = {};
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      const data = (await postJson(
+        name,
+        `${config.baseUrl}/chat/completions`,
+        {
+          model: config.model,
+          temperature: 0,
+          max_tokens: request.maxTokens,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.prompt },
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: request.schemaName,
+              schema: request.schema,
+              strict: true,
+            },
+          },
+        },
+        { headers, timeoutMs: config.timeoutMs }
+      )) as ChatCompletionResponse;
+
+      const message = data.choices?.[0]?.message;
+      if (message?.refusal) {
+        throw new LLMProviderError(name, `Model refused: ${message.refusal}`);
+      }
+      if (!message?.content) {
+        throw new LLMProviderError(name, 'Response did not contain any content');
+      }
+
+      return parseJsonText(name, message.content);
+    },
+  };
+}
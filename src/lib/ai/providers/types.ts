@@ -0,0 +1,48 @@
+/**
+ * LLM provider types
+ */
+
+import type { JsonSchema } from '@/lib/utils/json-schema';
+
+export type { JsonSchema };
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'fake';
+
+/**
+ * Request for structured (JSON) output
+ */
+export interface StructuredRequest {
+  // System instructions
+  system: string;
+  // User message, e.g. the resume text
+  prompt: string;
+  // Schema the response must follow
+  schema: JsonSchema;
+  // Short identifier for the schema, e.g. "parsed_resume"
+  schemaName: string;
+  // Upper bound for generated tokens
+  maxTokens?: number;
+}
+
+/**
+ * A language model backend able to return schema-constrained JSON
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /**
+   * Generate a JSON value for the request
+   * The value is parsed but NOT validated; callers must validate it.
+   * @throws LLMProviderError on HTTP or parsing failures
+   */
+  generateJson(request: StructuredRequest): Promise<unknown>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Request timeout in milliseconds
+  timeoutMs: number;
+}
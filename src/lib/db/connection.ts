@@ -43,13 +43,25 @@ export function getPool(): Pool {
   return pool;
 }
 
+/**
+ * Convert a row's snake_case column names to the camelCase used by the schema types
+ */
+export function toCamelCaseRow<T = Record<string, unknown>>(row: object): T {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    mapped[key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase())] = value;
+  }
+  return mapped as T;
+}
+
 /**
  * Execute a query with automatic connection handling
+ * Rows are returned with camelCase keys (see toCamelCaseRow)
  */
 export async function query<T = any>(text: string, params?: any[]): Promise<T[]> {
   const pool = getPool();
   const result = await pool.query(text, params);
-  return result.rows;
+  return result.rows.map((row: object) => toCamelCaseRow<T>(row));
 }
 
 /**
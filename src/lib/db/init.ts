@@ -25,16 +25,112 @@ export async function initializeDatabase() {
       );
     `);
 
+    // Create sessions table; one row per sign-in, holding the hash of its current refresh token
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        ip_address VARCHAR(255),
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        last_used_at TIMESTAMP DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        revoked_reason VARCHAR(50)
+      );
+    `);
+
+    // Add the rotation grace window to sessions tables created before it existed;
+    // refresh tokens are only stored as hashes, so drop the encrypted copies an
+    // earlier version kept
+    await pool.query(`
+      ALTER TABLE sessions 
+      ADD COLUMN IF NOT EXISTS previous_token_hash VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP,
+      DROP COLUMN IF EXISTS successor_token_encrypted;
+    `);
+
+    // Create index on user_id for sessions
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_user 
+      ON sessions(user_id);
+    `);
+
+    // Create user_tokens table; single-use email verification and password reset links
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_tokens (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        email VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP
+      );
+    `);
+
+    // Create index on user_id and purpose for user_tokens
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_user_tokens_user 
+      ON user_tokens(user_id, purpose);
+    `);
+
+    // Create user_two_factor table; TOTP secrets are encrypted
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_two_factor (
+        user_id VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        secret_encrypted TEXT NOT NULL,
+        enabled_at TIMESTAMP,
+        last_used_step INTEGER,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    // Create user_recovery_codes table; only hashes of the codes are stored
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_recovery_codes (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash VARCHAR(64) NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(user_id, code_hash)
+      );
+    `);
+
+    // Create user_identities table; accounts can sign in with several OAuth providers
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_identities (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        provider VARCHAR(20) NOT NULL CHECK (provider IN ('github', 'google')),
+        provider_user_id VARCHAR(255) NOT NULL,
+        email VARCHAR(255),
+        created_at TIMESTAMP DEFAULT NOW(),
+        last_used_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(provider, provider_user_id),
+        UNIQUE(user_id, provider)
+      );
+    `);
+
     // Create user_portfolio_photos table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS user_portfolio_photos (
         id VARCHAR(255) PRIMARY KEY,
         user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
         photo_url TEXT NOT NULL,
+        dominant_colors JSONB,
         uploaded_at TIMESTAMP DEFAULT NOW()
       );
     `);
 
+    // Add extracted photo colors to user_portfolio_photos tables created before they existed
+    await pool.query(`
+      ALTER TABLE user_portfolio_photos ADD COLUMN IF NOT EXISTS dominant_colors JSONB;
+    `);
+
     // Create index on user_id for portfolio photos
     await pool.query(`
       CREATE INDEX IF NOT EXISTS idx_portfolio_photos_user 
@@ -50,10 +146,29 @@ export async function initializeDatabase() {
         original_filename VARCHAR(255),
         uploaded_at TIMESTAMP DEFAULT NOW(),
         ai_notes TEXT,
-        portfolio_generated BOOLEAN DEFAULT FALSE
+        portfolio_generated BOOLEAN DEFAULT FALSE,
+        file_name VARCHAR(255),
+        format VARCHAR(20),
+        stored_location TEXT,
+        encryption_iv VARCHAR(64),
+        auth_tag VARCHAR(64),
+        retention_until TIMESTAMP,
+        parsed JSONB
       );
     `);
 
+    // Add file metadata columns to resumes tables created before they existed
+    await pool.query(`
+      ALTER TABLE resumes
+        ADD COLUMN IF NOT EXISTS file_name VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS format VARCHAR(20),
+        ADD COLUMN IF NOT EXISTS stored_location TEXT,
+        ADD COLUMN IF NOT EXISTS encryption_iv VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS auth_tag VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS retention_until TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS parsed JSONB;
+    `);
+
     // Create index on user_id for resumes
     await pool.query(`
       CREATE INDEX IF NOT EXISTS idx_resumes_user 
@@ -67,26 +182,95 @@ export async function initializeDatabase() {
         resume_id VARCHAR(255) NOT NULL UNIQUE REFERENCES resumes(id) ON DELETE CASCADE,
         user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
         theme_id VARCHAR(255),
+        slug VARCHAR(100),
+        visibility VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (visibility IN ('draft','published','unlisted')),
+        published_at TIMESTAMP,
+        access_mode VARCHAR(20) NOT NULL DEFAULT 'public' CHECK (access_mode IN ('public','password','invite')),
+        access_password_hash TEXT,
+        access_version INTEGER NOT NULL DEFAULT 0,
         generated_at TIMESTAMP DEFAULT NOW()
       );
     `);
 
+    // Add vanity slugs to generated_portfolios tables created before they existed
+    await pool.query(`
+      ALTER TABLE generated_portfolios ADD COLUMN IF NOT EXISTS slug VARCHAR(100);
+    `);
+
+    // Add visibility to generated_portfolios tables created before it existed;
+    // those portfolios were public, new ones start out as drafts
+    await pool.query(`
+      ALTER TABLE generated_portfolios 
+      ADD COLUMN IF NOT EXISTS visibility VARCHAR(20) NOT NULL DEFAULT 'published' 
+      CHECK (visibility IN ('draft','published','unlisted'));
+    `);
+
+    await pool.query(`
+      ALTER TABLE generated_portfolios ALTER COLUMN visibility SET DEFAULT 'draft';
+    `);
+
+    await pool.query(`
+      ALTER TABLE generated_portfolios ADD COLUMN IF NOT EXISTS published_at TIMESTAMP;
+    `);
+
+    // Add access modes to generated_portfolios tables created before they existed
+    await pool.query(`
+      ALTER TABLE generated_portfolios 
+      ADD COLUMN IF NOT EXISTS access_mode VARCHAR(20) NOT NULL DEFAULT 'public' 
+      CHECK (access_mode IN ('public','password','invite')),
+      ADD COLUMN IF NOT EXISTS access_password_hash TEXT,
+      ADD COLUMN IF NOT EXISTS access_version INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_portfolio_slug 
+      ON generated_portfolios(slug);
+    `);
+
+    // Create portfolio_slug_redirects table (earlier slugs of a portfolio)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS portfolio_slug_redirects (
+        slug VARCHAR(100) PRIMARY KEY,
+        portfolio_id VARCHAR(255) NOT NULL REFERENCES generated_portfolios(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
     // Create index on user_id for portfolios
     await pool.query(`
       CREATE INDEX IF NOT EXISTS idx_portfolio_user 
       ON generated_portfolios(user_id);
     `);
 
+    // Create portfolio_invites table (who may open an invite-only portfolio)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS portfolio_invites (
+        id VARCHAR(255) PRIMARY KEY,
+        portfolio_id VARCHAR(255) NOT NULL REFERENCES generated_portfolios(id) ON DELETE CASCADE,
+        email VARCHAR(255) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (portfolio_id, email)
+      );
+    `);
+
     // Create portfolio_themes table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS portfolio_themes (
         id VARCHAR(255) PRIMARY KEY,
         portfolio_id VARCHAR(255) NOT NULL REFERENCES generated_portfolios(id) ON DELETE CASCADE,
         gradient_css TEXT NOT NULL,
+        tokens JSONB,
         created_at TIMESTAMP DEFAULT NOW()
       );
     `);
 
+    // Add structured theme tokens to portfolio_themes tables created before they existed
+    await pool.query(`
+      ALTER TABLE portfolio_themes ADD COLUMN IF NOT EXISTS tokens JSONB;
+    `);
+
     // Create portfolio_pages table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS portfolio_pages (
@@ -106,6 +290,76 @@ export async function initializeDatabase() {
       ON portfolio_pages(portfolio_id);
     `);
 
+    // Create portfolio_page_revisions table (snapshot of a page after every write)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS portfolio_page_revisions (
+        id VARCHAR(255) PRIMARY KEY,
+        page_id VARCHAR(255) NOT NULL REFERENCES portfolio_pages(id) ON DELETE CASCADE,
+        revision_number INTEGER NOT NULL,
+        title VARCHAR(255),
+        content TEXT NOT NULL,
+        source VARCHAR(50) NOT NULL,
+        created_by VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+        restored_from VARCHAR(255),
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (page_id, revision_number)
+      );
+    `);
+
+    // Create portfolio_generations table (prompt history of (re)generations)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS portfolio_generations (
+        id VARCHAR(255) PRIMARY KEY,
+        portfolio_id VARCHAR(255) NOT NULL REFERENCES generated_portfolios(id) ON DELETE CASCADE,
+        page_type VARCHAR(50) CHECK (page_type IN ('home','about','portfolio','contact')),
+        instructions TEXT,
+        prompt TEXT,
+        provider VARCHAR(50),
+        model VARCHAR(255),
+        theme_changed BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    // Create index on portfolio_id for generations
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_portfolio_generations_portfolio_id 
+      ON portfolio_generations(portfolio_id);
+    `);
+
+    // Create portfolio_og_images table (cached share image per portfolio)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS portfolio_og_images (
+        portfolio_id VARCHAR(255) PRIMARY KEY REFERENCES generated_portfolios(id) ON DELETE CASCADE,
+        version VARCHAR(64) NOT NULL,
+        image BYTEA NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    // Create portfolio_domains table (subdomains and custom domains of a portfolio)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS portfolio_domains (
+        id VARCHAR(255) PRIMARY KEY,
+        portfolio_id VARCHAR(255) NOT NULL REFERENCES generated_portfolios(id) ON DELETE CASCADE,
+        hostname VARCHAR(253) NOT NULL,
+        kind VARCHAR(20) NOT NULL CHECK (kind IN ('subdomain','custom')),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','verified','failed')),
+        verification_token VARCHAR(64) NOT NULL,
+        last_error TEXT,
+        last_checked_at TIMESTAMP,
+        verified_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (portfolio_id, hostname)
+      );
+    `);
+
+    // Several portfolios may claim a hostname, only one can verify it
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_portfolio_domains_verified_hostname 
+      ON portfolio_domains(hostname) WHERE status = 'verified';
+    `);
+
     console.log('Database initialized successfully');
     return true;
   } catch (error) {
@@ -121,11 +375,22 @@ export async function dropAllTables() {
   const pool = getPool();
 
   try {
+    await pool.query('DROP TABLE IF EXISTS portfolio_domains CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS portfolio_og_images CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS portfolio_generations CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS portfolio_page_revisions CASCADE;');
     await pool.query('DROP TABLE IF EXISTS portfolio_pages CASCADE;');
     await pool.query('DROP TABLE IF EXISTS portfolio_themes CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS portfolio_invites CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS portfolio_slug_redirects CASCADE;');
     await pool.query('DROP TABLE IF EXISTS generated_portfolios CASCADE;');
     await pool.query('DROP TABLE IF EXISTS resumes CASCADE;');
     await pool.query('DROP TABLE IF EXISTS user_portfolio_photos CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS user_identities CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS user_recovery_codes CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS user_two_factor CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS user_tokens CASCADE;');
+    await pool.query('DROP TABLE IF EXISTS sessions CASCADE;');
     await pool.query('DROP TABLE IF EXISTS users CASCADE;');
 
     console.log('All tables dropped successfully');
@@ -0,0 +1,139 @@
+/**
+ * Database Migration Script
+ * Applies data migrations that initializeDatabase cannot express as
+ * CREATE ... IF NOT EXISTS. Applied migrations are recorded in
+ * schema_migrations so each one runs once.
+ */
+
+import { PoolClient } from 'pg';
+import { getClient, getPool } from './connection';
+import { initializeDatabase } from './init';
+import { PageType } from './schema';
+import {
+  PAGE_CONTENT_VERSION,
+  migratePageContent,
+  validatePageContent,
+} from '../portfolio/page-content';
+import { assignPortfolioSlug } from './services';
+
+interface Migration {
+  id: string;
+  description: string;
+  up: (client: PoolClient) => Promise<void>;
+}
+
+/**
+ * Rewrite portfolio page content in the versioned page content schema
+ * Rows that cannot be converted are left untouched and reported.
+ */
+async function migratePageContentV1(client: PoolClient): Promise<void> {
+  const result = await client.query<{ id: string; page_type: PageType; content: string }>(
+    'SELECT id, page_type, content FROM portfolio_pages'
+  );
+
+  let migrated = 0;
+  for (const row of result.rows) {
+    const upgraded = migratePageContent(row.page_type, row.content);
+    const { content, errors } = validatePageContent(row.page_type, upgraded);
+    if (errors) {
+      console.warn(`Skipping portfolio page ${row.id} (${row.page_type}):`, errors.slice(0, 3));
+      continue;
+    }
+
+    const json = JSON.stringify(content);
+    if (json !== row.content) {
+      await client.query('UPDATE portfolio_pages SET content = $1 WHERE id = $2', [json, row.id]);
+      migrated++;
+    }
+  }
+
+  console.log(`Converted ${migrated} of ${result.rows.length} portfolio pages to content version ${PAGE_CONTENT_VERSION}`);
+}
+
+/**
+ * Give existing portfolios a vanity slug and rebuild their page URLs
+ * (generated pages used to point at /portfolio/portfolio-<timestamp>, which never existed)
+ */
+async function assignPortfolioSlugs(client: PoolClient): Promise<void> {
+  const result = await client.query<{ id: string }>(
+    'SELECT id FROM generated_portfolios WHERE slug IS NULL ORDER BY generated_at'
+  );
+
+  for (const row of result.rows) {
+    await assignPortfolioSlug(client, row.id);
+  }
+
+  console.log(`Assigned slugs to ${result.rows.length} portfolios`);
+}
+
+/**
+ * Migrations in the order they must be applied; never reorder or rename
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    id: '001_page_content_v1',
+    description: 'Convert portfolio page content to the versioned schema',
+    up: migratePageContentV1,
+  },
+  {
+    id: '002_portfolio_slugs',
+    description: 'Assign vanity slugs to portfolios and derive page URLs from them',
+    up: assignPortfolioSlugs,
+  },
+];
+
+/**
+ * Apply all pending migrations, each in its own transaction
+ * @returns IDs of the migrations that were applied
+ */
+export async function runMigrations(): Promise<string[]> {
+  const initialized = await initializeDatabase();
+  if (!initialized) {
+    throw new Error('Failed to initialize database');
+  }
+
+  await getPool().query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id VARCHAR(255) PRIMARY KEY,
+      applied_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  const appliedRows = await getPool().query<{ id: string }>('SELECT id FROM schema_migrations');
+  const applied = new Set(appliedRows.rows.map((row) => row.id));
+  const ran: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.id)) {
+      continue;
+    }
+
+    const client = await getClient();
+    try {
+      console.log(`Applying ${migration.id}: ${migration.description}`);
+      await client.query('BEGIN');
+      await migration.up(client);
+      await client.query('INSERT INTO schema_migrations (id) VALUES ($1)', [migration.id]);
+      await client.query('COMMIT');
+      ran.push(migration.id);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Migration ${migration.id} failed:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return ran;
+}
+
+// Run migrations if called directly
+if (require.main === module) {
+  runMigrations()
+    .then((ran) => {
+      console.log(ran.length > 0 ? `Applied ${ran.length} migration(s)` : 'Database is up to date');
+      process.exit(0);
+    })
+    .catch(() => process.exit(1));
+}
@@ -1,3 +1,5 @@
+import type { PhotoColor, ThemeTokens } from '../portfolio/themes';
+
 // Users table (already exists in the system)
 export interface User {
   id: string;
@@ -12,11 +14,95 @@ export interface User {
   lastLoginAt?: Date;
 }
 
+// Why a session was revoked
+export type SessionRevokedReason =
+  | 'logout'
+  | 'logout_all'
+  | 'reuse_detected'
+  | 'deactivated'
+  | 'password_reset'
+  | 'two_factor_required'
+  | 'account_linked';
+
+// Sessions (one per sign-in, refresh tokens rotate on every use)
+export interface Session {
+  id: string;
+  userId: string;
+  // SHA-256 hash of the current refresh token; earlier tokens no longer match
+  tokenHash: string;
+  // Hash of the token the last refresh replaced, and when; for a short while
+  // it still gets the current token (concurrent refreshes from several tabs)
+  previousTokenHash?: string | null;
+  rotatedAt?: Date | null;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokedReason | null;
+}
+
+// What an emailed token is for
+export type UserTokenPurpose = 'verify_email' | 'reset_password';
+
+// User Tokens (single-use links sent by email; only their hash is stored)
+export interface UserToken {
+  id: string;
+  userId: string;
+  purpose: UserTokenPurpose;
+  // SHA-256 hash of the token in the link
+  tokenHash: string;
+  // Address the link was sent to; verifying it only counts while it is still the user's email
+  email: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date | null;
+}
+
+// User Two-Factor (TOTP authenticator of a user; pending until the first code confirms it)
+export interface UserTwoFactor {
+  userId: string;
+  // Base32 TOTP secret, encrypted with encryptText
+  secretEncrypted: string;
+  enabledAt?: Date | null;
+  // Time step of the last accepted code; codes of this step or earlier are rejected
+  lastUsedStep?: number | null;
+  createdAt: Date;
+}
+
+// User Recovery Codes (single-use codes for signing in without the authenticator)
+export interface UserRecoveryCode {
+  id: string;
+  userId: string;
+  // SHA-256 hash of the normalized code
+  codeHash: string;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+// OAuth providers users can sign in with
+export type OAuthProvider = 'github' | 'google';
+
+// User Identities (OAuth accounts linked to a user, at most one per provider)
+export interface UserIdentity {
+  id: string;
+  userId: string;
+  provider: OAuthProvider;
+  // Account ID at the provider, stable across email changes
+  providerUserId: string;
+  email?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
 // User Portfolio Photos (max 3 per user)
 export interface UserPortfolioPhoto {
   id: string;
   userId: string;
   photoUrl: string;
+  // Dominant colors extracted on upload, most common first; null for older photos
+  dominantColors?: PhotoColor[] | null;
   uploadedAt: Date;
 }
 
@@ -39,20 +125,54 @@ export interface Resume {
   parsed?: any;
 }
 
+// Portfolio visibility
+// Draft: owner and preview links only; unlisted: anyone with the URL, not indexed
+export type PortfolioVisibility = 'draft' | 'published' | 'unlisted';
+
+// Portfolio access mode
+// Password: visitors unlock it with a password; invite: only through invite links
+export type PortfolioAccessMode = 'public' | 'password' | 'invite';
+
 // Generated Portfolio (one per resume)
 export interface GeneratedPortfolio {
   id: string;
   resumeId: string;
   userId: string;
   themeId?: string;
+  slug?: string | null; // vanity URL, e.g. "jane-doe" or "jane-doe/backend"
+  visibility: PortfolioVisibility;
+  publishedAt?: Date | null; // when it last went from draft to published or unlisted
+  accessMode: PortfolioAccessMode;
+  accessPasswordHash?: string | null; // hashPassword format
+  accessVersion: number; // bumped on access changes, invalidates viewer cookies
   generatedAt: Date;
 }
 
+// Portfolio Slug Redirects (earlier slugs keep working)
+export interface PortfolioSlugRedirect {
+  slug: string;
+  portfolioId: string;
+  createdAt: Date; // when the portfolio moved away from this slug
+}
+
+// Portfolio Invites (invite-only portfolios)
+export interface PortfolioInvite {
+  id: string;
+  portfolioId: string;
+  email: string;
+  tokenHash: string; // SHA-256 of the token in the invite link
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+}
+
 // Portfolio Theme (random gradient per generation)
 export interface PortfolioTheme {
   id: string;
   portfolioId: string;
+  // Background of the light palette, kept for clients that only read CSS
   gradientCss: string;
+  // Structured theme; null for themes saved before tokens existed
+  tokens?: ThemeTokens | null;
   createdAt: Date;
 }
 
@@ -67,4 +187,57 @@ export interface PortfolioPage {
   content: string; // AI generated detailed content (JSON or HTML)
   publicUrl: string;
   createdAt: Date;
-}
\ No newline at end of file
+}
+
+// Portfolio Page Revisions (snapshot of title and content after every write)
+export type PageRevisionSource = 'baseline' | 'create' | 'generate' | 'regenerate' | 'edit' | 'restore';
+
+export interface PortfolioPageRevision {
+  id: string;
+  pageId: string;
+  revisionNumber: number; // 1, 2, ... per page
+  title: string;
+  content: string;
+  source: PageRevisionSource; // 'baseline' = state before revisions were recorded
+  createdBy?: string;
+  restoredFrom?: string; // revision ID when source is 'restore'
+  createdAt: Date;
+}
+
+// Portfolio Generations (one per generation or regeneration, records the prompt)
+export interface PortfolioGeneration {
+  id: string;
+  portfolioId: string;
+  pageType?: PageType; // null when the whole portfolio was generated
+  instructions?: string; // extra instructions, e.g. "more formal"
+  prompt?: string; // owner guidance sent to the model
+  provider?: string; // null when the template copy was used
+  model?: string;
+  themeChanged: boolean;
+  createdAt: Date;
+}
+
+// Portfolio OG Images (rendered share image, replaced when its version changes)
+export interface PortfolioOgImage {
+  portfolioId: string;
+  version: string; // hash of everything drawn on the image
+  image: Buffer; // PNG
+  createdAt: Date;
+}
+
+// Portfolio Domain (subdomain or custom domain serving a portfolio)
+export type DomainKind = 'subdomain' | 'custom';
+export type DomainStatus = 'pending' | 'verified' | 'failed';
+
+export interface PortfolioDomain {
+  id: string;
+  portfolioId: string;
+  hostname: string; // lowercase, punycode for international names
+  kind: DomainKind;
+  status: DomainStatus;
+  verificationToken: string; // expected in the DNS TXT record of custom domains
+  lastError?: string | null; // why the last verification failed
+  lastCheckedAt?: Date | null;
+  verifiedAt?: Date | null;
+  createdAt: Date;
+}
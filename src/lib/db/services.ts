@@ -3,11 +3,22 @@
  * 
  * Provides comprehensive CRUD operations for all database tables:
  * - users
+ * - sessions
+ * - user_tokens
+ * - user_two_factor
+ * - user_recovery_codes
+ * - user_identities
  * - user_portfolio_photos (max 3 per user)
  * - resumes (max 2 per free user)
  * - generated_portfolios
+ * - portfolio_slug_redirects
+ * - portfolio_invites
  * - portfolio_themes
  * - portfolio_pages
+ * - portfolio_page_revisions
+ * - portfolio_generations
+ * - portfolio_og_images
+ * - portfolio_domains
  * 
  * Features:
  * - Type-safe operations with TypeScript
@@ -18,14 +29,35 @@
  */
 
 import { PoolClient } from 'pg';
-import { query, getClient } from './connection';
+import { query, getClient, getPool, toCamelCaseRow } from './connection';
+import { assertValidPageContent, readPageContent } from '../portfolio/page-content';
+import { themeBackgroundCss, type PhotoColor, type ThemeTokens } from '../portfolio/themes';
+import { SLUG_MAX_LENGTH, portfolioPageUrl, slugify } from '../portfolio/urls';
 import {
   User,
+  Session,
+  SessionRevokedReason,
+  UserToken,
+  UserTokenPurpose,
+  UserTwoFactor,
+  OAuthProvider,
+  UserIdentity,
   UserPortfolioPhoto,
   Resume,
   GeneratedPortfolio,
+  PortfolioVisibility,
+  PortfolioAccessMode,
+  PortfolioInvite,
+  PortfolioSlugRedirect,
   PortfolioTheme,
   PortfolioPage,
+  PortfolioPageRevision,
+  PageRevisionSource,
+  PortfolioGeneration,
+  PortfolioOgImage,
+  PortfolioDomain,
+  DomainKind,
+  DomainStatus,
   PageType,
 } from './schema';
 
@@ -196,6 +228,494 @@ export async function listUsers(options?: {
   return query<User>(sql, params);
 }
 
+// ============================================================================
+// SESSION SERVICES
+// ============================================================================
+
+/**
+ * Create a session
+ * The caller picks the ID, since the refresh token names its session.
+ */
+export async function createSession(data: {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  ipAddress?: string;
+  userAgent?: string;
+  expiresAt: Date;
+}): Promise<Session> {
+  const now = new Date();
+
+  const rows = await query<Session>(
+    `INSERT INTO sessions (
+      id, user_id, token_hash, ip_address, user_agent, created_at, last_used_at, expires_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $6, $7)
+    RETURNING *`,
+    [
+      data.id,
+      data.userId,
+      data.tokenHash,
+      data.ipAddress || null,
+      data.userAgent || null,
+      now,
+      data.expiresAt,
+    ]
+  );
+
+  return rows[0];
+}
+
+/**
+ * Find session by ID
+ */
+export async function findSessionById(sessionId: string): Promise<Session | null> {
+  const rows = await query<Session>(
+    'SELECT * FROM sessions WHERE id = $1',
+    [sessionId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * List the sessions of a user that are neither revoked nor expired, most recently used first
+ */
+export async function listActiveUserSessions(userId: string): Promise<Session[]> {
+  return query<Session>(
+    `SELECT * FROM sessions 
+    WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2 
+    ORDER BY last_used_at DESC`,
+    [userId, new Date()]
+  );
+}
+
+/**
+ * Replace the refresh token of a session, if the presented one is still its current token
+ * The replaced hash is kept as previous_token_hash, with the rotation time.
+ * @returns The updated session, or null when the token was already rotated,
+ * the session is revoked or it expired
+ */
+export async function rotateSessionToken(
+  sessionId: string,
+  currentTokenHash: string,
+  data: { tokenHash: string; rotatedAt: Date; expiresAt: Date; ipAddress?: string; userAgent?: string }
+): Promise<Session | null> {
+  const rows = await query<Session>(
+    `UPDATE sessions 
+    SET token_hash = $1, expires_at = $2, last_used_at = $3,
+      ip_address = COALESCE($4, ip_address), user_agent = COALESCE($5, user_agent),
+      previous_token_hash = token_hash, rotated_at = $3
+    WHERE id = $6 AND token_hash = $7 AND revoked_at IS NULL AND expires_at > $3
+    RETURNING *`,
+    [
+      data.tokenHash,
+      data.expiresAt,
+      data.rotatedAt,
+      data.ipAddress || null,
+      data.userAgent || null,
+      sessionId,
+      currentTokenHash,
+    ]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Revoke a session; its refresh token stops working
+ * @returns False if the session does not exist or was already revoked
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevokedReason
+): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `UPDATE sessions SET revoked_at = $1, revoked_reason = $2 
+    WHERE id = $3 AND revoked_at IS NULL 
+    RETURNING id`,
+    [new Date(), reason, sessionId]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Revoke all sessions of a user
+ * @param client - Transaction to run in, if any
+ * @returns Number of sessions revoked
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokedReason,
+  client?: PoolClient
+): Promise<number> {
+  const result = await (client || getPool()).query(
+    `UPDATE sessions SET revoked_at = $1, revoked_reason = $2 
+    WHERE user_id = $3 AND revoked_at IS NULL`,
+    [new Date(), reason, userId]
+  );
+  return result.rowCount || 0;
+}
+
+// ============================================================================
+// USER TOKEN SERVICES
+// ============================================================================
+
+/**
+ * Save an emailed token
+ * Earlier unused tokens of the user with the same purpose stop working,
+ * so only the most recent link is valid.
+ */
+export async function createUserToken(data: {
+  userId: string;
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  email: string;
+  expiresAt: Date;
+}): Promise<UserToken> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      'DELETE FROM user_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+      [data.userId, data.purpose]
+    );
+
+    const result = await client.query(
+      `INSERT INTO user_tokens (
+        id, user_id, purpose, token_hash, email, created_at, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        crypto.randomUUID(),
+        data.userId,
+        data.purpose,
+        data.tokenHash,
+        data.email,
+        new Date(),
+        data.expiresAt,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return toCamelCaseRow<UserToken>(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error creating user token:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Use a token; succeeds once, and only before the token expires
+ * @returns The token, or null if it is unknown, used or expired
+ */
+export async function consumeUserToken(
+  purpose: UserTokenPurpose,
+  tokenHash: string
+): Promise<UserToken | null> {
+  const now = new Date();
+  const rows = await query<UserToken>(
+    `UPDATE user_tokens SET used_at = $1 
+    WHERE token_hash = $2 AND purpose = $3 AND used_at IS NULL AND expires_at > $1 
+    RETURNING *`,
+    [now, tokenHash, purpose]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Mark the email of a user verified, if it is still the given address
+ * @returns The updated user, or null if the user changed their email since
+ */
+export async function markUserEmailVerified(userId: string, email: string): Promise<User | null> {
+  const rows = await query<User>(
+    'UPDATE users SET email_verified = TRUE WHERE id = $1 AND email = $2 RETURNING *',
+    [userId, email]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Set a new password after a reset
+ * The reset link proves the user owns the email, so it counts as verified.
+ * Other reset links stop working and every session is signed out.
+ * @returns Number of sessions revoked
+ */
+export async function resetUserPassword(userId: string, passwordHash: string): Promise<number> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      'UPDATE users SET password_hash = $1, email_verified = TRUE WHERE id = $2',
+      [passwordHash, userId]
+    );
+
+    await client.query(
+      `DELETE FROM user_tokens WHERE user_id = $1 AND purpose = 'reset_password' AND used_at IS NULL`,
+      [userId]
+    );
+
+    const revoked = await revokeUserSessions(userId, 'password_reset', client);
+
+    await client.query('COMMIT');
+    return revoked;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error resetting user password:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// TWO-FACTOR SERVICES
+// ============================================================================
+
+/**
+ * Find the two-factor settings of a user (pending or enabled)
+ */
+export async function findUserTwoFactor(userId: string): Promise<UserTwoFactor | null> {
+  const rows = await query<UserTwoFactor>(
+    'SELECT * FROM user_two_factor WHERE user_id = $1',
+    [userId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Store the secret of a new enrollment, replacing a pending one
+ * @returns The pending settings, or null if two-factor authentication is already enabled
+ */
+export async function saveTwoFactorSecret(
+  userId: string,
+  secretEncrypted: string
+): Promise<UserTwoFactor | null> {
+  const rows = await query<UserTwoFactor>(
+    `INSERT INTO user_two_factor (user_id, secret_encrypted, created_at) 
+    VALUES ($1, $2, $3) 
+    ON CONFLICT (user_id) DO UPDATE 
+    SET secret_encrypted = EXCLUDED.secret_encrypted, created_at = EXCLUDED.created_at, last_used_step = NULL 
+    WHERE user_two_factor.enabled_at IS NULL 
+    RETURNING *`,
+    [userId, secretEncrypted, new Date()]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Enable a pending enrollment and store its recovery codes, replacing earlier ones
+ * @param step - Time step of the code that confirmed the enrollment
+ * @returns False if there is no pending enrollment
+ */
+export async function enableTwoFactor(
+  userId: string,
+  step: number,
+  recoveryCodeHashes: string[]
+): Promise<boolean> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const enabled = await client.query(
+      `UPDATE user_two_factor SET enabled_at = $1, last_used_step = $2 
+      WHERE user_id = $3 AND enabled_at IS NULL`,
+      [new Date(), step, userId]
+    );
+    if (!enabled.rowCount) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    await insertRecoveryCodes(client, userId, recoveryCodeHashes);
+
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error enabling two-factor authentication:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record the time step of an accepted code
+ * @returns False if a code of this step or a later one was already used
+ */
+export async function recordTwoFactorStep(userId: string, step: number): Promise<boolean> {
+  const rows = await query<{ userId: string }>(
+    `UPDATE user_two_factor SET last_used_step = $1 
+    WHERE user_id = $2 AND enabled_at IS NOT NULL 
+      AND (last_used_step IS NULL OR last_used_step < $1) 
+    RETURNING user_id`,
+    [step, userId]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Turn two-factor authentication off, removing the secret and recovery codes
+ */
+export async function deleteUserTwoFactor(userId: string): Promise<void> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    await deleteTwoFactorRows(client, userId);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error disabling two-factor authentication:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function deleteTwoFactorRows(client: PoolClient, userId: string): Promise<void> {
+  await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+  await client.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+}
+
+async function insertRecoveryCodes(client: PoolClient, userId: string, codeHashes: string[]): Promise<void> {
+  await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+
+  const now = new Date();
+  for (const codeHash of codeHashes) {
+    await client.query(
+      `INSERT INTO user_recovery_codes (id, user_id, code_hash, created_at) 
+      VALUES ($1, $2, $3, $4)`,
+      [crypto.randomUUID(), userId, codeHash, now]
+    );
+  }
+}
+
+/**
+ * Replace the recovery codes of a user; the earlier ones stop working
+ */
+export async function replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    await insertRecoveryCodes(client, userId, codeHashes);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error replacing recovery codes:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Use a recovery code; each one works once
+ * @returns False if the code is unknown or was used
+ */
+export async function consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+  const rows = await query<{ id: string }>(
+    `UPDATE user_recovery_codes SET used_at = $1 
+    WHERE user_id = $2 AND code_hash = $3 AND used_at IS NULL 
+    RETURNING id`,
+    [new Date(), userId, codeHash]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Count the recovery codes a user has left
+ */
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const rows = await query<{ count: string }>(
+    'SELECT COUNT(*) as count FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+  return parseInt(rows[0]?.count || '0', 10);
+}
+
+// ============================================================================
+// USER IDENTITY SERVICES
+// ============================================================================
+
+/**
+ * Find the identity of a provider account, recording that it was used to sign in
+ */
+export async function findUserIdentity(
+  provider: OAuthProvider,
+  providerUserId: string
+): Promise<UserIdentity | null> {
+  const rows = await query<UserIdentity>(
+    `UPDATE user_identities SET last_used_at = $1 
+    WHERE provider = $2 AND provider_user_id = $3 
+    RETURNING *`,
+    [new Date(), provider, providerUserId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * List the identities linked to a user
+ */
+export async function listUserIdentities(userId: string): Promise<UserIdentity[]> {
+  return query<UserIdentity>(
+    'SELECT * FROM user_identities WHERE user_id = $1 ORDER BY created_at ASC',
+    [userId]
+  );
+}
+
+/**
+ * Link a provider account to a user
+ * The provider verified the user's email, so the account counts as verified
+ * from now on. An unverified account may have been registered by someone
+ * else with this email; its password is removed, its sessions are signed
+ * out and its two-factor authentication is removed, so only the owner of
+ * the email keeps access.
+ */
+export async function linkUserIdentity(
+  user: User,
+  data: { provider: OAuthProvider; providerUserId: string; email?: string }
+): Promise<UserIdentity> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO user_identities (
+        id, user_id, provider, provider_user_id, email, created_at, last_used_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $6)
+      RETURNING *`,
+      [crypto.randomUUID(), user.id, data.provider, data.providerUserId, data.email || null, new Date()]
+    );
+
+    if (!user.emailVerified) {
+      await client.query(
+        'UPDATE users SET email_verified = TRUE, password_hash = NULL WHERE id = $1',
+        [user.id]
+      );
+      await revokeUserSessions(user.id, 'account_linked', client);
+      await deleteTwoFactorRows(client, user.id);
+    }
+
+    await client.query('COMMIT');
+    return toCamelCaseRow<UserIdentity>(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error linking user identity:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // ============================================================================
 // USER PORTFOLIO PHOTOS SERVICES
 // ============================================================================
@@ -229,6 +749,7 @@ export async function getUserPhotoCount(userId: string): Promise<number> {
 export async function createPortfolioPhoto(data: {
   userId: string;
   photoUrl: string;
+  dominantColors?: PhotoColor[];
 }): Promise<UserPortfolioPhoto> {
   // Check limit before creating
   const canUpload = await canUploadMorePhotos(data.userId);
@@ -240,10 +761,10 @@ export async function createPortfolioPhoto(data: {
   const now = new Date();
 
   const rows = await query<UserPortfolioPhoto>(
-    `INSERT INTO user_portfolio_photos (id, user_id, photo_url, uploaded_at)
-    VALUES ($1, $2, $3, $4)
+    `INSERT INTO user_portfolio_photos (id, user_id, photo_url, dominant_colors, uploaded_at)
+    VALUES ($1, $2, $3, $4, $5)
     RETURNING *`,
-    [id, data.userId, data.photoUrl, now]
+    [id, data.userId, data.photoUrl, data.dominantColors ? JSON.stringify(data.dominantColors) : null, now]
   );
 
   return rows[0];
@@ -571,48 +1092,400 @@ export async function listUserGeneratedPortfolios(
 }
 
 /**
- * Update generated portfolio
+ * Update generated portfolio
+ */
+export async function updateGeneratedPortfolio(
+  portfolioId: string,
+  data: { themeId?: string }
+): Promise<GeneratedPortfolio | null> {
+  if (!data.themeId) {
+    return findGeneratedPortfolioById(portfolioId);
+  }
+
+  const rows = await query<GeneratedPortfolio>(
+    'UPDATE generated_portfolios SET theme_id = $1 WHERE id = $2 RETURNING *',
+    [data.themeId, portfolioId]
+  );
+
+  return rows[0] || null;
+}
+
+/**
+ * Change who can see a portfolio
+ * `published_at` is set when a draft goes public or unlisted.
+ */
+export async function setPortfolioVisibility(
+  portfolioId: string,
+  visibility: PortfolioVisibility
+): Promise<GeneratedPortfolio | null> {
+  const rows = await query<GeneratedPortfolio>(
+    `UPDATE generated_portfolios 
+    SET visibility = $1,
+      published_at = CASE WHEN $1 <> 'draft' AND visibility = 'draft' THEN $2 ELSE published_at END
+    WHERE id = $3 
+    RETURNING *`,
+    [visibility, new Date(), portfolioId]
+  );
+
+  return rows[0] || null;
+}
+
+/**
+ * Delete generated portfolio
+ */
+export async function deleteGeneratedPortfolio(
+  portfolioId: string
+): Promise<boolean> {
+  const rows = await query(
+    'DELETE FROM generated_portfolios WHERE id = $1',
+    [portfolioId]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Delete all generated portfolios for a user
+ */
+export async function deleteAllUserGeneratedPortfolios(
+  userId: string
+): Promise<number> {
+  const result = await query(
+    'DELETE FROM generated_portfolios WHERE user_id = $1',
+    [userId]
+  );
+  return result.length;
+}
+
+/**
+ * Find generated portfolio by its current slug
+ */
+export async function findGeneratedPortfolioBySlug(
+  slug: string
+): Promise<GeneratedPortfolio | null> {
+  const rows = await query<GeneratedPortfolio>(
+    'SELECT * FROM generated_portfolios WHERE slug = $1',
+    [slug]
+  );
+  return rows[0] || null;
+}
+
+// ============================================================================
+// PORTFOLIO SLUG SERVICES
+// ============================================================================
+
+// Numbered candidates tried before falling back to the portfolio ID
+const MAX_SLUG_CANDIDATES = 50;
+
+/**
+ * Whether a portfolio may use a slug
+ * Slugs in use or in the redirect history of other portfolios are taken, and
+ * so is a handle (first part) used by another owner.
+ */
+async function isSlugAvailable(
+  client: PoolClient,
+  slug: string,
+  portfolioId: string,
+  userId: string
+): Promise<boolean> {
+  const handle = slug.split('/')[0];
+  const result = await client.query(
+    `SELECT 1 FROM generated_portfolios
+    WHERE id <> $1 AND (slug = $2 OR (user_id <> $3 AND (slug = $4 OR slug LIKE $5)))
+    UNION ALL
+    SELECT 1 FROM portfolio_slug_redirects r
+    JOIN generated_portfolios p ON p.id = r.portfolio_id
+    WHERE r.portfolio_id <> $1 AND (r.slug = $2 OR (p.user_id <> $3 AND (r.slug = $4 OR r.slug LIKE $5)))
+    LIMIT 1`,
+    [portfolioId, slug, userId, handle, `${handle}/%`]
+  );
+  return result.rows.length === 0;
+}
+
+/**
+ * Pick a free slug from the owner's name: jane-doe, jane-doe-2, ...
+ */
+async function choosePortfolioSlug(
+  client: PoolClient,
+  portfolioId: string,
+  userId: string
+): Promise<string> {
+  const result = await client.query<{ name: string | null }>('SELECT name FROM users WHERE id = $1', [userId]);
+  const name = result.rows[0]?.name;
+  // Never derive a public URL from the email address
+  const base = name ? slugify(name) : `portfolio-${portfolioId.slice(0, 8)}`;
+
+  for (let n = 1; n <= MAX_SLUG_CANDIDATES; n++) {
+    const suffix = n === 1 ? '' : `-${n}`;
+    const candidate = `${base.slice(0, SLUG_MAX_LENGTH - suffix.length).replace(/-+$/, '')}${suffix}`;
+    if (await isSlugAvailable(client, candidate, portfolioId, userId)) {
+      return candidate;
+    }
+  }
+  return `${base.slice(0, SLUG_MAX_LENGTH - 9).replace(/-+$/, '')}-${portfolioId.slice(0, 8)}`;
+}
+
+/**
+ * Store a portfolio's slug and rebuild the public URLs of its pages
+ */
+async function applyPortfolioSlug(client: PoolClient, portfolioId: string, slug: string): Promise<void> {
+  await client.query('UPDATE generated_portfolios SET slug = $1 WHERE id = $2', [slug, portfolioId]);
+
+  const pages = await client.query<{ id: string; page_type: PageType }>(
+    'SELECT id, page_type FROM portfolio_pages WHERE portfolio_id = $1',
+    [portfolioId]
+  );
+  for (const page of pages.rows) {
+    await client.query(
+      'UPDATE portfolio_pages SET public_url = $1 WHERE id = $2',
+      [portfolioPageUrl(slug, page.page_type), page.id]
+    );
+  }
+}
+
+/**
+ * Give a portfolio without a slug one derived from the owner's name
+ * Runs inside the caller's transaction.
+ * @returns The portfolio's slug
+ */
+export async function assignPortfolioSlug(
+  client: PoolClient,
+  portfolioId: string
+): Promise<string> {
+  const result = await client.query<{ slug: string | null; user_id: string }>(
+    'SELECT slug, user_id FROM generated_portfolios WHERE id = $1 FOR UPDATE',
+    [portfolioId]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    throw new Error(`Portfolio ${portfolioId} not found`);
+  }
+  if (row.slug) {
+    return row.slug;
+  }
+
+  const slug = await choosePortfolioSlug(client, portfolioId, row.user_id);
+  await applyPortfolioSlug(client, portfolioId, slug);
+  return slug;
+}
+
+/**
+ * Slug of a portfolio, assigning one to portfolios created before slugs existed
+ */
+export async function ensurePortfolioSlug(portfolio: GeneratedPortfolio): Promise<string> {
+  if (portfolio.slug) {
+    return portfolio.slug;
+  }
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const slug = await assignPortfolioSlug(client, portfolio.id);
+    await client.query('COMMIT');
+    return slug;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error assigning portfolio slug:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Change a portfolio's slug; the previous slug keeps redirecting to it
+ * @param slug - Normalized and validated slug (see validatePortfolioSlug)
+ * @returns The updated portfolio, or null if the slug is taken
+ */
+export async function setPortfolioSlug(
+  portfolioId: string,
+  slug: string
+): Promise<GeneratedPortfolio | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'SELECT * FROM generated_portfolios WHERE id = $1 FOR UPDATE',
+      [portfolioId]
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const portfolio = toCamelCaseRow<GeneratedPortfolio>(result.rows[0]);
+    if (portfolio.slug === slug) {
+      await client.query('ROLLBACK');
+      return portfolio;
+    }
+
+    if (!(await isSlugAvailable(client, slug, portfolioId, portfolio.userId))) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (portfolio.slug) {
+      await client.query(
+        `INSERT INTO portfolio_slug_redirects (slug, portfolio_id, created_at)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (slug) DO UPDATE SET created_at = EXCLUDED.created_at`,
+        [portfolio.slug, portfolioId, new Date()]
+      );
+    }
+    // Going back to an earlier slug
+    await client.query('DELETE FROM portfolio_slug_redirects WHERE slug = $1', [slug]);
+    await applyPortfolioSlug(client, portfolioId, slug);
+
+    await client.query('COMMIT');
+    return { ...portfolio, slug };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error setting portfolio slug:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Find the portfolio an earlier slug redirects to
+ */
+export async function findPortfolioSlugRedirect(
+  slug: string
+): Promise<PortfolioSlugRedirect | null> {
+  const rows = await query<PortfolioSlugRedirect>(
+    'SELECT * FROM portfolio_slug_redirects WHERE slug = $1',
+    [slug]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * List the earlier slugs of a portfolio, newest first
+ */
+export async function listPortfolioSlugRedirects(
+  portfolioId: string
+): Promise<PortfolioSlugRedirect[]> {
+  return query<PortfolioSlugRedirect>(
+    'SELECT * FROM portfolio_slug_redirects WHERE portfolio_id = $1 ORDER BY created_at DESC',
+    [portfolioId]
+  );
+}
+
+// ============================================================================
+// PORTFOLIO ACCESS SERVICES
+// ============================================================================
+
+/**
+ * Change the access mode of a portfolio
+ * Every change bumps `access_version`, so earlier viewer cookies stop working.
+ * @param passwordHash - New password hash; undefined keeps the current one
+ */
+export async function setPortfolioAccess(
+  portfolioId: string,
+  accessMode: PortfolioAccessMode,
+  passwordHash?: string
+): Promise<GeneratedPortfolio | null> {
+  const rows = await query<GeneratedPortfolio>(
+    `UPDATE generated_portfolios 
+    SET access_mode = $1,
+      access_password_hash = COALESCE($2, access_password_hash),
+      access_version = access_version + 1
+    WHERE id = $3 
+    RETURNING *`,
+    [accessMode, passwordHash ?? null, portfolioId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Invite an email address to a portfolio, replacing an earlier invite link
+ */
+export async function savePortfolioInvite(data: {
+  portfolioId: string;
+  email: string;
+  tokenHash: string;
+}): Promise<PortfolioInvite> {
+  const rows = await query<PortfolioInvite>(
+    `INSERT INTO portfolio_invites (id, portfolio_id, email, token_hash, created_at)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (portfolio_id, email) DO UPDATE
+    SET token_hash = EXCLUDED.token_hash, last_used_at = NULL, created_at = EXCLUDED.created_at
+    RETURNING *`,
+    [crypto.randomUUID(), data.portfolioId, data.email, data.tokenHash, new Date()]
+  );
+  return rows[0];
+}
+
+/**
+ * Find an invite by the hash of its link token
  */
-export async function updateGeneratedPortfolio(
-  portfolioId: string,
-  data: { themeId?: string }
-): Promise<GeneratedPortfolio | null> {
-  if (!data.themeId) {
-    return findGeneratedPortfolioById(portfolioId);
-  }
-
-  const rows = await query<GeneratedPortfolio>(
-    'UPDATE generated_portfolios SET theme_id = $1 WHERE id = $2 RETURNING *',
-    [data.themeId, portfolioId]
+export async function findPortfolioInviteByTokenHash(
+  tokenHash: string
+): Promise<PortfolioInvite | null> {
+  const rows = await query<PortfolioInvite>(
+    'SELECT * FROM portfolio_invites WHERE token_hash = $1',
+    [tokenHash]
   );
+  return rows[0] || null;
+}
 
+/**
+ * Find an invite by ID
+ */
+export async function findPortfolioInviteById(
+  inviteId: string
+): Promise<PortfolioInvite | null> {
+  const rows = await query<PortfolioInvite>(
+    'SELECT * FROM portfolio_invites WHERE id = $1',
+    [inviteId]
+  );
   return rows[0] || null;
 }
 
 /**
- * Delete generated portfolio
+ * List the invites of a portfolio, oldest first
  */
-export async function deleteGeneratedPortfolio(
+export async function listPortfolioInvites(
   portfolioId: string
-): Promise<boolean> {
-  const rows = await query(
-    'DELETE FROM generated_portfolios WHERE id = $1',
+): Promise<PortfolioInvite[]> {
+  return query<PortfolioInvite>(
+    'SELECT * FROM portfolio_invites WHERE portfolio_id = $1 ORDER BY created_at ASC',
     [portfolioId]
   );
-  return rows.length > 0;
 }
 
 /**
- * Delete all generated portfolios for a user
+ * Record that an invite link was opened
  */
-export async function deleteAllUserGeneratedPortfolios(
-  userId: string
-): Promise<number> {
-  const result = await query(
-    'DELETE FROM generated_portfolios WHERE user_id = $1',
-    [userId]
+export async function markPortfolioInviteUsed(inviteId: string): Promise<void> {
+  await query(
+    'UPDATE portfolio_invites SET last_used_at = $1 WHERE id = $2',
+    [new Date(), inviteId]
   );
-  return result.length;
+}
+
+/**
+ * Revoke an invite; viewers who opened it lose access too
+ */
+export async function deletePortfolioInvite(invite: PortfolioInvite): Promise<void> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM portfolio_invites WHERE id = $1', [invite.id]);
+    await client.query(
+      'UPDATE generated_portfolios SET access_version = access_version + 1 WHERE id = $1',
+      [invite.portfolioId]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error deleting portfolio invite:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
 // ============================================================================
@@ -625,15 +1498,16 @@ export async function deleteAllUserGeneratedPortfolios(
 export async function createPortfolioTheme(data: {
   portfolioId: string;
   gradientCss: string;
+  tokens?: ThemeTokens;
 }): Promise<PortfolioTheme> {
   const id = crypto.randomUUID();
   const now = new Date();
 
   const rows = await query<PortfolioTheme>(
-    `INSERT INTO portfolio_themes (id, portfolio_id, gradient_css, created_at)
-    VALUES ($1, $2, $3, $4)
+    `INSERT INTO portfolio_themes (id, portfolio_id, gradient_css, tokens, created_at)
+    VALUES ($1, $2, $3, $4, $5)
     RETURNING *`,
-    [id, data.portfolioId, data.gradientCss, now]
+    [id, data.portfolioId, data.gradientCss, data.tokens ? JSON.stringify(data.tokens) : null, now]
   );
 
   return rows[0];
@@ -667,19 +1541,43 @@ export async function findPortfolioThemeByPortfolioId(
 
 /**
  * Update portfolio theme
+ * @param tokens - Structured theme; omit to keep the stored tokens
  */
 export async function updatePortfolioTheme(
   themeId: string,
-  gradientCss: string
+  gradientCss: string,
+  tokens?: ThemeTokens
 ): Promise<PortfolioTheme | null> {
   const rows = await query<PortfolioTheme>(
-    'UPDATE portfolio_themes SET gradient_css = $1 WHERE id = $2 RETURNING *',
-    [gradientCss, themeId]
+    `UPDATE portfolio_themes SET gradient_css = $1, tokens = COALESCE($2, tokens)
+    WHERE id = $3 RETURNING *`,
+    [gradientCss, tokens ? JSON.stringify(tokens) : null, themeId]
   );
 
   return rows[0] || null;
 }
 
+/**
+ * Set the theme of a portfolio, creating the theme row if it has none
+ */
+export async function setPortfolioTheme(
+  portfolioId: string,
+  tokens: ThemeTokens
+): Promise<PortfolioTheme> {
+  const gradientCss = themeBackgroundCss(tokens.palettes.light, tokens.gradientAngle);
+  const existing = await findPortfolioThemeByPortfolioId(portfolioId);
+  if (existing) {
+    const updated = await updatePortfolioTheme(existing.id, gradientCss, tokens);
+    if (updated) {
+      return updated;
+    }
+  }
+
+  const created = await createPortfolioTheme({ portfolioId, gradientCss, tokens });
+  await updateGeneratedPortfolio(portfolioId, { themeId: created.id });
+  return created;
+}
+
 /**
  * Delete portfolio theme
  */
@@ -709,35 +1607,96 @@ export async function deletePortfolioThemeByPortfolioId(
 // ============================================================================
 
 /**
- * Create a new portfolio page
+ * Who made a page write and why; stored with the page revision
  */
-export async function createPortfolioPage(data: {
-  portfolioId: string;
-  pageType: PageType;
-  title: string;
-  content: string;
-  publicUrl: string;
-}): Promise<PortfolioPage> {
-  const id = crypto.randomUUID();
-  const now = new Date();
+export interface PageRevisionInfo {
+  source?: PageRevisionSource;
+  createdBy?: string;
+  restoredFrom?: string;
+}
 
-  const rows = await query<PortfolioPage>(
-    `INSERT INTO portfolio_pages (
-      id, portfolio_id, page_type, title, content, public_url, created_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+/**
+ * Record a revision of a page's current title and content
+ * Runs on the caller's transaction client.
+ */
+async function insertPageRevision(
+  client: PoolClient,
+  page: { id: string; title: string; content: string },
+  info: PageRevisionInfo & { source: PageRevisionSource }
+): Promise<PortfolioPageRevision> {
+  const result = await client.query(
+    `INSERT INTO portfolio_page_revisions (
+      id, page_id, revision_number, title, content, source, created_by, restored_from, created_at
+    ) VALUES (
+      $1, $2,
+      (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM portfolio_page_revisions WHERE page_id = $2),
+      $3, $4, $5, $6, $7, $8
+    )
     RETURNING *`,
     [
-      id,
-      data.portfolioId,
-      data.pageType,
-      data.title,
-      data.content,
-      data.publicUrl,
-      now,
+      crypto.randomUUID(),
+      page.id,
+      page.title,
+      page.content,
+      info.source,
+      info.createdBy || null,
+      info.restoredFrom || null,
+      new Date(),
     ]
   );
+  return toCamelCaseRow<PortfolioPageRevision>(result.rows[0]);
+}
 
-  return rows[0];
+/**
+ * Create a new portfolio page
+ * @throws PageContentError if the content does not match the page type's schema
+ */
+export async function createPortfolioPage(
+  data: {
+    portfolioId: string;
+    pageType: PageType;
+    title: string;
+    content: string;
+  },
+  revision: PageRevisionInfo = {}
+): Promise<PortfolioPage> {
+  assertValidPageContent(data.pageType, data.content);
+
+  const id = crypto.randomUUID();
+  const now = new Date();
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const slug = await assignPortfolioSlug(client, data.portfolioId);
+    const result = await client.query(
+      `INSERT INTO portfolio_pages (
+        id, portfolio_id, page_type, title, content, public_url, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        id,
+        data.portfolioId,
+        data.pageType,
+        data.title,
+        data.content,
+        portfolioPageUrl(slug, data.pageType),
+        now,
+      ]
+    );
+    const page = toCamelCaseRow<PortfolioPage>(result.rows[0]);
+    await insertPageRevision(client, page, { ...revision, source: revision.source || 'create' });
+
+    await client.query('COMMIT');
+    return page;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error creating portfolio page:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
 /**
@@ -781,11 +1740,28 @@ export async function listPortfolioPages(
 
 /**
  * Update portfolio page
+ * Content (or the content under a changed page type) is validated against the page type's schema.
+ * Writes to the title or content are recorded as a new revision.
+ * @param revision - Who made the change and why (defaults to a manual edit)
+ * @throws PageContentError if the resulting content is invalid
  */
 export async function updatePortfolioPage(
   pageId: string,
-  data: Partial<Omit<PortfolioPage, 'id' | 'portfolioId' | 'createdAt'>>
+  data: Partial<Omit<PortfolioPage, 'id' | 'portfolioId' | 'publicUrl' | 'createdAt'>>,
+  revision: PageRevisionInfo = {}
 ): Promise<PortfolioPage | null> {
+  if (data.content !== undefined || data.pageType !== undefined) {
+    const current = data.content !== undefined && data.pageType !== undefined
+      ? null
+      : await findPortfolioPageById(pageId);
+    const pageType = data.pageType ?? current?.pageType;
+    const content = data.content ?? current?.content;
+    if (!pageType || content === undefined) {
+      return null;
+    }
+    assertValidPageContent(pageType, content);
+  }
+
   const fields: string[] = [];
   const values: any[] = [];
   let paramIndex = 1;
@@ -802,23 +1778,51 @@ export async function updatePortfolioPage(
     fields.push(`content = $${paramIndex++}`);
     values.push(data.content);
   }
-  if (data.publicUrl !== undefined) {
-    fields.push(`public_url = $${paramIndex++}`);
-    values.push(data.publicUrl);
-  }
-
   if (fields.length === 0) {
     return findPortfolioPageById(pageId);
   }
 
   values.push(pageId);
 
-  const rows = await query<PortfolioPage>(
-    `UPDATE portfolio_pages SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
-    values
-  );
+  const recordsRevision = data.title !== undefined || data.content !== undefined;
+  const client = await getClient();
 
-  return rows[0] || null;
+  try {
+    await client.query('BEGIN');
+
+    if (recordsRevision) {
+      // Pages written before revisions existed keep their previous state as revision 1
+      await client.query(
+        `INSERT INTO portfolio_page_revisions (
+          id, page_id, revision_number, title, content, source, created_at
+        )
+        SELECT $1, p.id, 1, p.title, p.content, 'baseline', p.created_at
+        FROM portfolio_pages p
+        WHERE p.id = $2
+          AND NOT EXISTS (SELECT 1 FROM portfolio_page_revisions r WHERE r.page_id = p.id)`,
+        [crypto.randomUUID(), pageId]
+      );
+    }
+
+    const result = await client.query(
+      `UPDATE portfolio_pages SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+    const page = result.rows[0] ? toCamelCaseRow<PortfolioPage>(result.rows[0]) : null;
+
+    if (page && recordsRevision) {
+      await insertPageRevision(client, page, { ...revision, source: revision.source || 'edit' });
+    }
+
+    await client.query('COMMIT');
+    return page;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error updating portfolio page:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
 /**
@@ -845,6 +1849,255 @@ export async function deleteAllPortfolioPages(
   return result.length;
 }
 
+// ============================================================================
+// PORTFOLIO PAGE REVISION SERVICES
+// ============================================================================
+
+/**
+ * List revisions of a page, newest first
+ */
+export async function listPageRevisions(
+  pageId: string
+): Promise<PortfolioPageRevision[]> {
+  return query<PortfolioPageRevision>(
+    'SELECT * FROM portfolio_page_revisions WHERE page_id = $1 ORDER BY revision_number DESC',
+    [pageId]
+  );
+}
+
+/**
+ * Find a page revision by its number
+ */
+export async function findPageRevision(
+  pageId: string,
+  revisionNumber: number
+): Promise<PortfolioPageRevision | null> {
+  const rows = await query<PortfolioPageRevision>(
+    'SELECT * FROM portfolio_page_revisions WHERE page_id = $1 AND revision_number = $2',
+    [pageId, revisionNumber]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Restore a page to an older revision
+ * The restore is itself recorded as a new revision; content saved under an
+ * older schema version is upgraded first.
+ * @returns The updated page, or null if the page or revision does not exist
+ * @throws PageContentError if the revision's content cannot be upgraded
+ */
+export async function restorePageRevision(
+  pageId: string,
+  revisionNumber: number,
+  userId?: string
+): Promise<PortfolioPage | null> {
+  const page = await findPortfolioPageById(pageId);
+  const revision = page ? await findPageRevision(pageId, revisionNumber) : null;
+  if (!page || !revision) {
+    return null;
+  }
+
+  return updatePortfolioPage(
+    pageId,
+    {
+      title: revision.title,
+      content: JSON.stringify(readPageContent(page.pageType, revision.content)),
+    },
+    { source: 'restore', createdBy: userId, restoredFrom: revision.id }
+  );
+}
+
+// ============================================================================
+// PORTFOLIO GENERATION SERVICES
+// ============================================================================
+
+/**
+ * Record a generation or regeneration and the prompt that was used
+ */
+export async function createPortfolioGeneration(data: {
+  portfolioId: string;
+  pageType?: PageType;
+  instructions?: string;
+  prompt?: string;
+  provider?: string | null;
+  model?: string | null;
+  themeChanged?: boolean;
+}): Promise<PortfolioGeneration> {
+  const id = crypto.randomUUID();
+  const now = new Date();
+
+  const rows = await query<PortfolioGeneration>(
+    `INSERT INTO portfolio_generations (
+      id, portfolio_id, page_type, instructions, prompt, provider, model, theme_changed, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      id,
+      data.portfolioId,
+      data.pageType || null,
+      data.instructions || null,
+      data.prompt || null,
+      data.provider || null,
+      data.model || null,
+      data.themeChanged || false,
+      now,
+    ]
+  );
+
+  return rows[0];
+}
+
+/**
+ * List generations of a portfolio, newest first
+ */
+export async function listPortfolioGenerations(
+  portfolioId: string
+): Promise<PortfolioGeneration[]> {
+  return query<PortfolioGeneration>(
+    'SELECT * FROM portfolio_generations WHERE portfolio_id = $1 ORDER BY created_at DESC',
+    [portfolioId]
+  );
+}
+
+// ============================================================================
+// PORTFOLIO OG IMAGE SERVICES
+// ============================================================================
+
+/**
+ * Find the cached share image of a portfolio
+ */
+export async function findPortfolioOgImage(
+  portfolioId: string
+): Promise<PortfolioOgImage | null> {
+  const rows = await query<PortfolioOgImage>(
+    'SELECT * FROM portfolio_og_images WHERE portfolio_id = $1',
+    [portfolioId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Store the share image of a portfolio, replacing older versions
+ */
+export async function savePortfolioOgImage(
+  portfolioId: string,
+  version: string,
+  image: Buffer
+): Promise<void> {
+  await query(
+    `INSERT INTO portfolio_og_images (portfolio_id, version, image, created_at)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (portfolio_id) DO UPDATE
+    SET version = EXCLUDED.version, image = EXCLUDED.image, created_at = EXCLUDED.created_at`,
+    [portfolioId, version, image, new Date()]
+  );
+}
+
+// ============================================================================
+// PORTFOLIO DOMAIN SERVICES
+// ============================================================================
+
+/**
+ * Add a subdomain or custom domain to a portfolio
+ */
+export async function createPortfolioDomain(data: {
+  portfolioId: string;
+  hostname: string;
+  kind: DomainKind;
+  status: DomainStatus;
+  verificationToken: string;
+}): Promise<PortfolioDomain> {
+  const id = crypto.randomUUID();
+  const now = new Date();
+
+  const rows = await query<PortfolioDomain>(
+    `INSERT INTO portfolio_domains 
+    (id, portfolio_id, hostname, kind, status, verification_token, verified_at, created_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *`,
+    [
+      id,
+      data.portfolioId,
+      data.hostname,
+      data.kind,
+      data.status,
+      data.verificationToken,
+      data.status === 'verified' ? now : null,
+      now,
+    ]
+  );
+  return rows[0];
+}
+
+/**
+ * Find a portfolio domain by ID
+ */
+export async function findPortfolioDomainById(
+  domainId: string
+): Promise<PortfolioDomain | null> {
+  const rows = await query<PortfolioDomain>(
+    'SELECT * FROM portfolio_domains WHERE id = $1',
+    [domainId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Find the verified domain entry of a hostname, i.e. the portfolio it serves
+ */
+export async function findVerifiedPortfolioDomain(
+  hostname: string
+): Promise<PortfolioDomain | null> {
+  const rows = await query<PortfolioDomain>(
+    `SELECT * FROM portfolio_domains WHERE hostname = $1 AND status = 'verified'`,
+    [hostname]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * List the domains of a portfolio, oldest first
+ */
+export async function listPortfolioDomains(
+  portfolioId: string
+): Promise<PortfolioDomain[]> {
+  return query<PortfolioDomain>(
+    'SELECT * FROM portfolio_domains WHERE portfolio_id = $1 ORDER BY created_at ASC',
+    [portfolioId]
+  );
+}
+
+/**
+ * Record the outcome of a verification check
+ */
+export async function updatePortfolioDomainStatus(
+  domainId: string,
+  status: DomainStatus,
+  lastError: string | null = null
+): Promise<PortfolioDomain | null> {
+  const now = new Date();
+  const rows = await query<PortfolioDomain>(
+    `UPDATE portfolio_domains 
+    SET status = $1::VARCHAR, last_error = $2, last_checked_at = $3,
+      verified_at = CASE WHEN $1::VARCHAR = 'verified' THEN COALESCE(verified_at, $3) ELSE NULL END
+    WHERE id = $4 
+    RETURNING *`,
+    [status, lastError, now, domainId]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Delete a portfolio domain
+ */
+export async function deletePortfolioDomain(domainId: string): Promise<boolean> {
+  const rows = await query(
+    'DELETE FROM portfolio_domains WHERE id = $1 RETURNING id',
+    [domainId]
+  );
+  return rows.length > 0;
+}
+
 // ============================================================================
 // TRANSACTION-BASED OPERATIONS
 // ============================================================================
@@ -857,17 +2110,21 @@ export async function generateCompletePortfolio(data: {
   resumeId: string;
   userId: string;
   gradientCss: string;
+  themeTokens?: ThemeTokens;
   pages: Array<{
     pageType: PageType;
     title: string;
     content: string;
-    publicUrl: string;
   }>;
 }): Promise<{
   portfolio: GeneratedPortfolio;
   theme: PortfolioTheme;
   pages: PortfolioPage[];
 }> {
+  for (const pageData of data.pages) {
+    assertValidPageContent(pageData.pageType, pageData.content);
+  }
+
   const client = await getClient();
 
   try {
@@ -883,17 +2140,22 @@ export async function generateCompletePortfolio(data: {
       RETURNING *`,
       [portfolioId, data.resumeId, data.userId, now]
     );
-    const portfolio = portfolioResult.rows[0];
+    const portfolio = toCamelCaseRow<GeneratedPortfolio>(portfolioResult.rows[0]);
+
+    // Pick the vanity slug the page URLs are built from
+    const slug = await choosePortfolioSlug(client, portfolioId, data.userId);
+    await client.query('UPDATE generated_portfolios SET slug = $1 WHERE id = $2', [slug, portfolioId]);
+    portfolio.slug = slug;
 
     // Create theme
     const themeId = crypto.randomUUID();
     const themeResult = await client.query<PortfolioTheme>(
-      `INSERT INTO portfolio_themes (id, portfolio_id, gradient_css, created_at)
-      VALUES ($1, $2, $3, $4)
+      `INSERT INTO portfolio_themes (id, portfolio_id, gradient_css, tokens, created_at)
+      VALUES ($1, $2, $3, $4, $5)
       RETURNING *`,
-      [themeId, portfolioId, data.gradientCss, now]
+      [themeId, portfolioId, data.gradientCss, data.themeTokens ? JSON.stringify(data.themeTokens) : null, now]
     );
-    const theme = themeResult.rows[0];
+    const theme = toCamelCaseRow<PortfolioTheme>(themeResult.rows[0]);
 
     // Update portfolio with theme ID
     await client.query(
@@ -917,11 +2179,13 @@ export async function generateCompletePortfolio(data: {
           pageData.pageType,
           pageData.title,
           pageData.content,
-          pageData.publicUrl,
+          portfolioPageUrl(slug, pageData.pageType),
           now,
         ]
       );
-      pages.push(pageResult.rows[0]);
+      const page = toCamelCaseRow<PortfolioPage>(pageResult.rows[0]);
+      await insertPageRevision(client, page, { source: 'generate', createdBy: data.userId });
+      pages.push(page);
     }
 
     // Mark resume as portfolio generated
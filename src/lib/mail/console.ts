@@ -0,0 +1,29 @@
+/**
+ * Console transport for local development
+ *
+ * Prints messages to the server log instead of sending them.
+ */
+
+import type { MailConfig, MailMessage, MailTransport } from './types';
+
+/**
+ * Create a transport that logs messages
+ */
+export function createConsoleTransport(config: MailConfig): MailTransport {
+  return {
+    name: 'console',
+
+    async send(message: MailMessage): Promise<void> {
+      console.log(
+        [
+          '[mail] Not sent (MAIL_TRANSPORT=console)',
+          `From: ${config.from}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          '',
+          message.text,
+        ].join('\n')
+      );
+    },
+  };
+}
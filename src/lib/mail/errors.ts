@@ -0,0 +1,21 @@
+/**
+ * Mail transport errors
+ */
+
+import type { MailTransportName } from './types';
+
+/**
+ * Error raised when a message cannot be delivered
+ */
+export class MailTransportError extends Error {
+  readonly transport: MailTransportName;
+  // SMTP reply code, if the server rejected the message
+  readonly code?: number;
+
+  constructor(transport: MailTransportName, message: string, options?: { code?: number; cause?: unknown }) {
+    super(`[${transport}] ${message}`, { cause: options?.cause });
+    this.name = 'MailTransportError';
+    this.transport = transport;
+    this.code = options?.code;
+  }
+}
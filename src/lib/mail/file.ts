@@ -0,0 +1,36 @@
+/**
+ * File transport for local development and tests
+ *
+ * Writes every message as an .eml file instead of sending it; open the
+ * files with a mail client, or read the links from them in tests.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MailTransportError } from './errors';
+import { formatMessage } from './mime';
+import type { MailConfig, MailMessage, MailTransport } from './types';
+
+/**
+ * Create a transport that saves messages to a directory
+ */
+export function createFileTransport(config: MailConfig): MailTransport {
+  const dir = path.resolve(config.fileDir);
+
+  return {
+    name: 'file',
+
+    async send(message: MailMessage): Promise<void> {
+      const date = new Date();
+      // Sortable by time; the suffix keeps messages of the same millisecond apart
+      const name = `${date.toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.eml`;
+
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, name), formatMessage(message, config.from, date));
+      } catch (error) {
+        throw new MailTransportError('file', `Could not write ${name} to ${dir}`, { cause: error });
+      }
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Mail
+ *
+ * Selects how email is delivered from the environment:
+ * - MAIL_TRANSPORT  smtp | file | console (default: smtp if SMTP_HOST is set, else console)
+ * - EMAIL_FROM      sender address
+ * - SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASSWORD
+ * - SMTP_SECURE     true to use TLS from the start (default: true on port 465)
+ * - MAIL_FILE_DIR   directory of the file transport (default ./storage/mail)
+ * - MAIL_TIMEOUT_MS SMTP timeout (default 15000)
+ */
+
+import { createConsoleTransport } from './console';
+import { createFileTransport } from './file';
+import { createSmtpTransport } from './smtp';
+import type { MailConfig, MailMessage, MailTransport, MailTransportName } from './types';
+
+export { MailTransportError } from './errors';
+export { formatMessage } from './mime';
+export { passwordResetEmail, verificationEmail } from './templates';
+export type { MailConfig, MailMessage, MailTransport, MailTransportName } from './types';
+
+const TRANSPORTS: MailTransportName[] = ['smtp', 'file', 'console'];
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Get mail configuration from environment
+ */
+export function getMailConfig(): MailConfig {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (configured && !(TRANSPORTS as string[]).includes(configured)) {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${configured}`);
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  return {
+    transport: (configured as MailTransportName) || (process.env.SMTP_HOST ? 'smtp' : 'console'),
+    from: process.env.EMAIL_FROM || 'noreply@localhost',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+    },
+    fileDir: process.env.MAIL_FILE_DIR || './storage/mail',
+    timeoutMs: parseInt(process.env.MAIL_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10),
+  };
+}
+
+/**
+ * Create a transport for the given configuration
+ */
+export function createMailTransport(config: MailConfig): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return createSmtpTransport(config);
+
+    case 'file':
+      return createFileTransport(config);
+
+    case 'console':
+      return createConsoleTransport(config);
+  }
+}
+
+/**
+ * Send a message with the transport configured in the environment
+ * @throws MailTransportError if the message could not be delivered
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await createMailTransport(getMailConfig()).send(message);
+}
@@ -0,0 +1,92 @@
+/**
+ * MIME formatting of messages (RFC 5322 / RFC 2045)
+ *
+ * Bodies are UTF-8 and base64 encoded, so any text survives SMTP servers
+ * that only accept 7-bit lines. Messages with HTML are sent as
+ * multipart/alternative with the plain text first.
+ */
+
+import crypto from 'crypto';
+import type { MailMessage } from './types';
+
+const CRLF = '\r\n';
+
+/**
+ * Address part of a sender or recipient, e.g. "Portfolio <noreply@example.com>" -> "noreply@example.com"
+ */
+export function mailAddress(value: string): string {
+  const match = value.match(/<([^<>]+)>\s*$/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Reject header values that could start a new header
+ */
+function headerValue(value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error('Mail header values cannot contain line breaks');
+  }
+  return value;
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Encode the display name of an address, e.g. "Zoë <zoe@example.com>"
+ */
+function encodeAddress(value: string): string {
+  const match = value.match(/^(.*?)\s*<([^<>]+)>\s*$/);
+  return match && match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : value;
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{1,76}/g, (line) => line + CRLF);
+}
+
+function bodyPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(content),
+  ].join(CRLF);
+}
+
+/**
+ * Format a message with its headers, ready to be sent or saved as .eml
+ */
+export function formatMessage(message: MailMessage, from: string, date = new Date()): string {
+  const domain = mailAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeAddress(headerValue(from))}`,
+    `To: ${encodeAddress(headerValue(message.to))}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return headers.join(CRLF) + CRLF + bodyPart('text/plain', message.text);
+  }
+
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    bodyPart('text/plain', message.text),
+    `--${boundary}`,
+    bodyPart('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
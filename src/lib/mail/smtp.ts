@@ -0,0 +1,225 @@
+/**
+ * SMTP transport (RFC 5321)
+ *
+ * A small client for submitting mail to a relay such as Gmail, SES or a
+ * local Mailpit: EHLO, STARTTLS when the server offers it (or TLS from the
+ * start on port 465), AUTH PLAIN or LOGIN, then one message per connection.
+ * Credentials are never sent over an unencrypted connection, except to a
+ * server on this machine.
+ */
+
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { MailTransportError } from './errors';
+import { formatMessage, mailAddress } from './mime';
+import type { MailConfig, MailMessage, MailTransport } from './types';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * One connection to the server, reading replies line by line
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: ((reply: SmtpReply | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setTimeout(this.timeoutMs, () => {
+      this.fail(new Error('Timed out waiting for the server'));
+      socket.destroy();
+    });
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('Connection closed by the server')));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply | Error): void {
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting(reply);
+    } else if (!(reply instanceof Error)) {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) {
+      this.failure = error;
+      this.deliver(error);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = (result) => (result instanceof Error ? reject(result) : resolve(result));
+    });
+  }
+
+  /**
+   * Wait for a reply with one of the expected codes
+   * @param label - Names the step in errors, without secrets
+   */
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    let reply: SmtpReply;
+    try {
+      reply = await this.read();
+    } catch (error) {
+      throw new MailTransportError('smtp', `${label} failed: ${(error as Error).message}`, { cause: error });
+    }
+    if (!expected.includes(reply.code)) {
+      throw new MailTransportError('smtp', `${label} rejected: ${reply.code} ${reply.lines.join(' ')}`, {
+        code: reply.code,
+      });
+    }
+    return reply;
+  }
+
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  /**
+   * Switch the connection to TLS after the server accepted STARTTLS
+   */
+  startTls(host: string): void {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    this.attach(tls.connect({ socket: plain, servername: host }));
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Extensions the server listed in its EHLO reply, e.g. "STARTTLS", "AUTH PLAIN LOGIN"
+ */
+function extensions(reply: SmtpReply): string[] {
+  return reply.lines.slice(1).map((line) => line.toUpperCase());
+}
+
+function envelopeAddress(value: string): string {
+  const address = mailAddress(value);
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new MailTransportError('smtp', `Invalid address: ${address}`);
+  }
+  return address;
+}
+
+function clientName(): string {
+  const hostname = os.hostname();
+  return /^[a-z0-9.-]+$/i.test(hostname) ? hostname : 'localhost';
+}
+
+/**
+ * Lines starting with a dot get a second one, so the body cannot end the DATA command early
+ */
+function dotStuff(content: string): string {
+  const stuffed = content.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return stuffed.endsWith('\r\n') ? stuffed : `${stuffed}\r\n`;
+}
+
+async function authenticate(session: SmtpSession, available: string[], user: string, password: string) {
+  const methods = available.find((line) => line.startsWith('AUTH ')) || '';
+  const encode = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+  if (methods.includes('PLAIN') || !methods.includes('LOGIN')) {
+    await session.command(`AUTH PLAIN ${encode(`\0${user}\0${password}`)}`, [235], 'AUTH PLAIN');
+    return;
+  }
+  await session.command('AUTH LOGIN', [334]);
+  await session.command(encode(user), [334], 'AUTH LOGIN username');
+  await session.command(encode(password), [235], 'AUTH LOGIN password');
+}
+
+/**
+ * Create a transport that submits mail to an SMTP server
+ */
+export function createSmtpTransport(config: MailConfig): MailTransport {
+  const { host, port, secure, user, password } = config.smtp;
+
+  return {
+    name: 'smtp',
+
+    async send(message: MailMessage): Promise<void> {
+      const from = envelopeAddress(config.from);
+      const to = envelopeAddress(message.to);
+      const content = formatMessage(message, config.from);
+
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const session = new SmtpSession(socket, config.timeoutMs);
+
+      try {
+        await session.expect([220], 'Connection');
+        let ehlo = await session.command(`EHLO ${clientName()}`, [250]);
+
+        if (!session.encrypted && extensions(ehlo).includes('STARTTLS')) {
+          await session.command('STARTTLS', [220]);
+          session.startTls(host);
+          ehlo = await session.command(`EHLO ${clientName()}`, [250]);
+        }
+
+        if (user && password) {
+          if (!session.encrypted && !LOCAL_HOSTS.includes(host)) {
+            throw new MailTransportError('smtp', `${host} does not support TLS; not sending credentials`);
+          }
+          await authenticate(session, extensions(ehlo), user, password);
+        }
+
+        await session.command(`MAIL FROM:<${from}>`, [250]);
+        await session.command(`RCPT TO:<${to}>`, [250, 251]);
+        await session.command('DATA', [354]);
+        await session.command(`${dotStuff(content)}.`, [250], 'Message');
+        await session.command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Account emails
+ */
+
+import type { MailMessage } from './types';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function linkEmail(to: string, subject: string, paragraphs: string[], action: string, url: string): MailMessage {
+  const html = [
+    ...paragraphs.slice(0, 1).map((text) => `<p>${escapeHtml(text)}</p>`),
+    `<p><a href="${escapeHtml(url)}">${escapeHtml(action)}</a></p>`,
+    ...paragraphs.slice(1).map((text) => `<p>${escapeHtml(text)}</p>`),
+  ].join('\n');
+
+  return {
+    to,
+    subject,
+    text: [paragraphs[0], '', url, '', ...paragraphs.slice(1).flatMap((text) => [text, ''])].join('\n').trimEnd(),
+    html: `<!DOCTYPE html>\n<html><body style="font-family: sans-serif; line-height: 1.5">\n${html}\n</body></html>`,
+  };
+}
+
+/**
+ * Email with the link that verifies an address
+ */
+export function verificationEmail(to: string, url: string, lifetimeHours: number): MailMessage {
+  return linkEmail(
+    to,
+    'Verify your email address',
+    [
+      'Please confirm this is your email address by opening the link below.',
+      `The link works once and expires in ${lifetimeHours} hours.`,
+      'If you did not create an account, you can ignore this email.',
+    ],
+    'Verify email address',
+    url
+  );
+}
+
+/**
+ * Email with the link to choose a new password
+ */
+export function passwordResetEmail(to: string, url: string, lifetimeMinutes: number): MailMessage {
+  return linkEmail(
+    to,
+    'Reset your password',
+    [
+      'Someone asked to reset the password of your account. Open the link below to choose a new one.',
+      `The link works once and expires in ${lifetimeMinutes} minutes. Resetting your password signs you out on all devices.`,
+      'If you did not ask for this, you can ignore this email; your password stays the same.',
+    ],
+    'Choose a new password',
+    url
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Mail transport types
+ */
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+/**
+ * An email to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  // Plain text body; every message has one
+  text: string;
+  // Optional HTML alternative
+  html?: string;
+}
+
+/**
+ * A way to deliver email
+ */
+export interface MailTransport {
+  readonly name: MailTransportName;
+  /**
+   * Deliver a message
+   * @throws MailTransportError if the message could not be delivered
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface MailConfig {
+  transport: MailTransportName;
+  // Sender address, e.g. "noreply@example.com" or "Portfolio <noreply@example.com>"
+  from: string;
+  smtp: {
+    host: string;
+    port: number;
+    // Connect with TLS right away (port 465); otherwise STARTTLS is used when offered
+    secure: boolean;
+    user?: string;
+    password?: string;
+  };
+  // Directory the file transport writes .eml files to
+  fileDir: string;
+  // Timeout for SMTP connections and replies in milliseconds
+  timeoutMs: number;
+}
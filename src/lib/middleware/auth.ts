@@ -4,21 +4,59 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken, getAccessTokenPayload } from '@/lib/security/jwt';
+import { findSessionById } from '@/lib/db/services';
+import { getAccessTokenPayload, type JWTPayload } from '@/lib/security/jwt';
+
+/**
+ * Verify an access token and check that its session is still active
+ * The signature alone keeps a token valid for its whole lifetime; checking
+ * the session makes signing out (one device, everywhere or by a password
+ * reset) take effect on the next request.
+ * @param token - Access token
+ * @returns Payload if valid and its session is active, null otherwise
+ */
+export async function getSessionAccessTokenPayload(token: string): Promise<JWTPayload | null> {
+  const payload = getAccessTokenPayload(token);
+  if (!payload || typeof payload.sid !== 'string') {
+    return null;
+  }
+  
+  const session = await findSessionById(payload.sid);
+  if (
+    !session ||
+    session.userId !== payload.sub ||
+    session.revokedAt ||
+    new Date(session.expiresAt) <= new Date()
+  ) {
+    return null;
+  }
+  
+  return payload;
+}
+
+/**
+ * Verify an access token and check that its session is still active
+ * @param token - Access token
+ * @returns User ID if valid and its session is active, null otherwise
+ */
+export async function verifySessionAccessToken(token: string): Promise<string | null> {
+  const payload = await getSessionAccessTokenPayload(token);
+  return payload ? payload.sub : null;
+}
 
 /**
  * Get authenticated user ID from request
  * @param request - Next.js request object
  * @returns User ID if authenticated, null otherwise
  */
-export function getAuthenticatedUserId(request: NextRequest): string | null {
+export async function getAuthenticatedUserId(request: NextRequest): Promise<string | null> {
   const accessToken = request.cookies.get('accessToken')?.value;
   
   if (!accessToken) {
     return null;
   }
   
-  return verifyAccessToken(accessToken);
+  return verifySessionAccessToken(accessToken);
 }
 
 /**
@@ -26,14 +64,16 @@ export function getAuthenticatedUserId(request: NextRequest): string | null {
  * @param request - Next.js request object
  * @returns User data if authenticated, null otherwise
  */
-export function getAuthenticatedUser(request: NextRequest): { id: string; email?: string; role?: string } | null {
+export async function getAuthenticatedUser(
+  request: NextRequest
+): Promise<{ id: string; email?: string; role?: string } | null> {
   const accessToken = request.cookies.get('accessToken')?.value;
   
   if (!accessToken) {
     return null;
   }
   
-  const payload = getAccessTokenPayload(accessToken);
+  const payload = await getSessionAccessTokenPayload(accessToken);
   
   if (!payload) {
     return null;
@@ -54,7 +94,7 @@ export function requireAuth(
   handler: (request: NextRequest, userId: string) => Promise<NextResponse>
 ) {
   return async (request: NextRequest): Promise<NextResponse> => {
-    const userId = getAuthenticatedUserId(request);
+    const userId = await getAuthenticatedUserId(request);
     
     if (!userId) {
       return NextResponse.json(
@@ -77,7 +117,7 @@ export async function hasRole(
   request: NextRequest,
   requiredRole: string
 ): Promise<boolean> {
-  const user = getAuthenticatedUser(request);
+  const user = await getAuthenticatedUser(request);
   
   if (!user) {
     return false;
@@ -100,7 +140,7 @@ export function requireRole(
   handler: (request: NextRequest, userId: string) => Promise<NextResponse>
 ) {
   return async (request: NextRequest): Promise<NextResponse> => {
-    const userId = getAuthenticatedUserId(request);
+    const userId = await getAuthenticatedUserId(request);
     
     if (!userId) {
       return NextResponse.json(
@@ -0,0 +1,138 @@
+/**
+ * Portfolio Access
+ *
+ * Owners choose who can open a portfolio: everyone, visitors who know a
+ * password, or people with an invite link for their email address.
+ * Unlocking with the password or an invite link sets a short-lived viewer
+ * cookie for that portfolio. The cookie is signed with the portfolio's
+ * access version, so a new password, another mode or a revoked invite locks
+ * earlier viewers out.
+ */
+
+import crypto from 'crypto';
+import type { NextResponse } from 'next/server';
+import {
+  findGeneratedPortfolioById,
+  findPortfolioInviteById,
+  findPortfolioInviteByTokenHash,
+  markPortfolioInviteUsed,
+  savePortfolioInvite,
+} from '@/lib/db/services';
+import type { GeneratedPortfolio, PortfolioAccessMode, PortfolioInvite } from '@/lib/db/schema';
+import { hashToken, verifyPassword } from '@/lib/security/auth';
+import { createPortfolioAccessToken, verifyPortfolioAccessToken } from '@/lib/security/jwt';
+import { getBaseUrl } from './urls';
+
+export const PORTFOLIO_ACCESS_MODES: PortfolioAccessMode[] = ['public', 'password', 'invite'];
+export const MIN_ACCESS_PASSWORD_LENGTH = 6;
+export const MAX_INVITES_PER_PORTFOLIO = 100;
+// Viewers unlock again after this many seconds
+export const ACCESS_COOKIE_MAX_AGE = 12 * 60 * 60;
+
+const ACCESS_COOKIE_PREFIX = 'portfolioAccess-';
+
+/**
+ * Name of the viewer cookie of a portfolio; there is one per unlocked portfolio
+ */
+export function accessCookieName(portfolioId: string): string {
+  return `${ACCESS_COOKIE_PREFIX}${portfolioId}`;
+}
+
+/**
+ * Whether a viewer may open a portfolio
+ * Public portfolios are open to everyone; the others to the owner and to
+ * viewers with a current viewer cookie.
+ */
+export function canAccessPortfolio(
+  portfolio: GeneratedPortfolio,
+  viewerId: string | null,
+  viewerToken?: string
+): boolean {
+  if (portfolio.accessMode === 'public' || viewerId === portfolio.userId) {
+    return true;
+  }
+  const access = viewerToken ? verifyPortfolioAccessToken(viewerToken) : null;
+  return access?.portfolioId === portfolio.id && access.accessVersion === portfolio.accessVersion;
+}
+
+/**
+ * Set the viewer cookie of a portfolio on a response
+ */
+export function setAccessCookie(response: NextResponse, portfolio: GeneratedPortfolio): void {
+  response.cookies.set(
+    accessCookieName(portfolio.id),
+    createPortfolioAccessToken(portfolio.id, portfolio.accessVersion, ACCESS_COOKIE_MAX_AGE),
+    {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: ACCESS_COOKIE_MAX_AGE,
+      path: '/',
+    }
+  );
+}
+
+/**
+ * Check the password of a password-protected portfolio
+ */
+export async function checkAccessPassword(portfolio: GeneratedPortfolio, password: string): Promise<boolean> {
+  if (portfolio.accessMode !== 'password' || !portfolio.accessPasswordHash) {
+    return false;
+  }
+  return verifyPassword(password, portfolio.accessPasswordHash);
+}
+
+/**
+ * Load an invite, checking that its portfolio belongs to the user
+ * @returns The invite, or the HTTP status and message to respond with
+ */
+export async function loadOwnedInvite(
+  inviteId: string,
+  userId: string
+): Promise<{ invite: PortfolioInvite; error?: undefined } | { error: string; status: number }> {
+  const invite = await findPortfolioInviteById(inviteId);
+  if (!invite) {
+    return { error: 'Invite not found', status: 404 };
+  }
+
+  const portfolio = await findGeneratedPortfolioById(invite.portfolioId);
+  if (!portfolio || portfolio.userId !== userId) {
+    return { error: 'Unauthorized access to this invite', status: 403 };
+  }
+
+  return { invite };
+}
+
+/**
+ * Invite an email address; an earlier link for the address stops working
+ * @returns The invite and its link, which is only available now
+ */
+export async function createInviteLink(
+  portfolioId: string,
+  email: string
+): Promise<{ invite: PortfolioInvite; url: string }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const invite = await savePortfolioInvite({
+    portfolioId,
+    email: email.trim().toLowerCase(),
+    tokenHash: hashToken(token),
+  });
+  return {
+    invite,
+    url: `${getBaseUrl()}/api/portfolio/access/unlock?invite=${token}`,
+  };
+}
+
+/**
+ * Look up the portfolio of an invite link and record its use
+ * @returns null when the link is unknown or was replaced
+ */
+export async function openInviteLink(token: string): Promise<GeneratedPortfolio | null> {
+  const invite = await findPortfolioInviteByTokenHash(hashToken(token));
+  if (!invite) {
+    return null;
+  }
+
+  await markPortfolioInviteUsed(invite.id);
+  return findGeneratedPortfolioById(invite.portfolioId);
+}
@@ -0,0 +1,242 @@
+/**
+ * Portfolio Domains
+ *
+ * Owners can serve a portfolio on a subdomain of the site or on a domain of
+ * their own (routing is in ./hosts and the middleware). Subdomains are names
+ * under the root domain and work right away. Custom domains stay pending
+ * until a DNS TXT record with the domain's verification token proves the
+ * owner controls it. TXT lookups go through a replaceable resolver, so tests
+ * can run without DNS.
+ */
+
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import {
+  createPortfolioDomain,
+  findGeneratedPortfolioById,
+  findPortfolioDomainById,
+  findVerifiedPortfolioDomain,
+  listPortfolioDomains,
+  updatePortfolioDomainStatus,
+} from '@/lib/db/services';
+import type { PortfolioDomain } from '@/lib/db/schema';
+import { getRootDomain, hostPageUrl, normalizeHostname } from './hosts';
+import { validatePortfolioSlug } from './urls';
+
+export const MAX_DOMAINS_PER_PORTFOLIO = 5;
+// The TXT record is looked up at `${VERIFICATION_RECORD_PREFIX}.{hostname}`
+export const VERIFICATION_RECORD_PREFIX = '_portfolio-verification';
+const VERIFICATION_VALUE_PREFIX = 'portfolio-verification=';
+
+const HOSTNAME_LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const MAX_HOSTNAME_LENGTH = 253;
+
+/**
+ * Looks up the TXT records of a name; each record is a list of strings
+ */
+export type TxtResolver = (name: string) => Promise<string[][]>;
+
+const systemResolver: TxtResolver = (name) => dns.resolveTxt(name);
+let txtResolver: TxtResolver = systemResolver;
+
+/**
+ * Replace the resolver used for verification, or restore the system one with null
+ */
+export function setTxtResolver(resolver: TxtResolver | null): void {
+  txtResolver = resolver || systemResolver;
+}
+
+export interface DnsRecord {
+  type: 'TXT' | 'CNAME';
+  name: string;
+  value: string;
+}
+
+/**
+ * DNS records the owner has to create for a custom domain
+ */
+export function domainDnsRecords(domain: PortfolioDomain): DnsRecord[] {
+  if (domain.kind !== 'custom') {
+    return [];
+  }
+  return [
+    {
+      type: 'TXT',
+      name: `${VERIFICATION_RECORD_PREFIX}.${domain.hostname}`,
+      value: `${VERIFICATION_VALUE_PREFIX}${domain.verificationToken}`,
+    },
+    // Apex domains need an ALIAS/ANAME record or the provider's equivalent
+    { type: 'CNAME', name: domain.hostname, value: getRootDomain() },
+  ];
+}
+
+/**
+ * Check a subdomain label, e.g. "jane" for jane.yourdomain.com
+ * @returns An error message, or null if the label is valid
+ */
+export function validateSubdomainLabel(label: string): string | null {
+  if (label.includes('/') || label.includes('.')) {
+    return 'A subdomain is a single name, e.g. jane-doe';
+  }
+  // Same rules as a slug part, including the reserved words
+  return validatePortfolioSlug(label);
+}
+
+/**
+ * Check a custom domain
+ * @returns An error message, or null if the domain can be added
+ */
+export function validateCustomDomain(hostname: string): string | null {
+  const labels = hostname.split('.');
+  if (
+    hostname.length > MAX_HOSTNAME_LENGTH ||
+    labels.length < 2 ||
+    !labels.every((label) => HOSTNAME_LABEL_PATTERN.test(label)) ||
+    /^\d+$/.test(labels[labels.length - 1])
+  ) {
+    return 'Enter a domain name such as janedoe.com or www.janedoe.com';
+  }
+
+  const root = getRootDomain();
+  if (hostname === root || hostname.endsWith(`.${root}`)) {
+    return `Addresses under ${root} are subdomains, add one as a subdomain instead`;
+  }
+  return null;
+}
+
+/**
+ * Load a domain, checking that its portfolio belongs to the user
+ * @returns The domain, or the HTTP status and message to respond with
+ */
+export async function loadOwnedDomain(
+  domainId: string,
+  userId: string
+): Promise<{ domain: PortfolioDomain; error?: undefined } | { error: string; status: number }> {
+  const domain = await findPortfolioDomainById(domainId);
+  if (!domain) {
+    return { error: 'Domain not found', status: 404 };
+  }
+
+  const portfolio = await findGeneratedPortfolioById(domain.portfolioId);
+  if (!portfolio || portfolio.userId !== userId) {
+    return { error: 'Unauthorized access to this domain', status: 403 };
+  }
+
+  return { domain };
+}
+
+/**
+ * Add a subdomain or a custom domain to a portfolio
+ * Subdomains are verified right away, custom domains start out pending.
+ */
+export async function addPortfolioDomain(
+  portfolioId: string,
+  request: { subdomain?: string; domain?: string }
+): Promise<{ domain: PortfolioDomain; error?: undefined } | { error: string; status: number }> {
+  const kind = request.subdomain !== undefined ? 'subdomain' : 'custom';
+  let hostname: string | null;
+
+  if (kind === 'subdomain') {
+    const label = (request.subdomain || '').trim().toLowerCase();
+    const invalid = validateSubdomainLabel(label);
+    if (invalid) {
+      return { error: invalid, status: 400 };
+    }
+    hostname = `${label}.${getRootDomain()}`;
+  } else {
+    hostname = normalizeHostname(request.domain || '');
+    const invalid = hostname ? validateCustomDomain(hostname) : 'Domain is required';
+    if (invalid || !hostname) {
+      return { error: invalid || 'Domain is required', status: 400 };
+    }
+  }
+
+  const domains = await listPortfolioDomains(portfolioId);
+  if (domains.some((domain) => domain.hostname === hostname)) {
+    return { error: 'This portfolio already uses this domain', status: 409 };
+  }
+  if (domains.length >= MAX_DOMAINS_PER_PORTFOLIO) {
+    return { error: `A portfolio can have at most ${MAX_DOMAINS_PER_PORTFOLIO} domains`, status: 400 };
+  }
+  if (await findVerifiedPortfolioDomain(hostname)) {
+    return { error: 'This domain is already in use', status: 409 };
+  }
+
+  const domain = await createPortfolioDomain({
+    portfolioId,
+    hostname,
+    kind,
+    status: kind === 'subdomain' ? 'verified' : 'pending',
+    verificationToken: crypto.randomBytes(16).toString('hex'),
+  });
+  return { domain };
+}
+
+/**
+ * Look for the verification TXT record of a custom domain
+ * @returns null when the record is in place, otherwise what is wrong
+ */
+export async function checkDomainVerification(
+  domain: PortfolioDomain,
+  resolver: TxtResolver = txtResolver
+): Promise<string | null> {
+  const [record] = domainDnsRecords(domain);
+  let values: string[];
+
+  try {
+    const records = await resolver(record.name);
+    // Long values are split into several strings
+    values = records.map((chunks) => chunks.join('').trim());
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENODATA' || code === 'ENOTFOUND') {
+      return `No TXT record found at ${record.name}`;
+    }
+    return `DNS lookup failed${code ? ` (${code})` : ''}, try again later`;
+  }
+
+  if (!values.includes(record.value)) {
+    return `The TXT record at ${record.name} does not contain ${record.value}`;
+  }
+  return null;
+}
+
+/**
+ * Check the DNS of a custom domain and store the outcome
+ * A verified domain is re-checked too, so removing the record takes it offline.
+ */
+export async function verifyPortfolioDomain(domain: PortfolioDomain): Promise<PortfolioDomain> {
+  if (domain.kind !== 'custom') {
+    return domain;
+  }
+
+  const problem = await checkDomainVerification(domain);
+  if (problem) {
+    return (await updatePortfolioDomainStatus(domain.id, 'failed', problem)) || domain;
+  }
+
+  // Someone else may have proven control of the domain earlier
+  const current = await findVerifiedPortfolioDomain(domain.hostname);
+  if (current && current.id !== domain.id) {
+    return (await updatePortfolioDomainStatus(domain.id, 'failed', 'This domain is already in use by another portfolio')) || domain;
+  }
+  return (await updatePortfolioDomainStatus(domain.id, 'verified')) || domain;
+}
+
+/**
+ * Public view of a domain, with its URL and the DNS records to create
+ */
+export function describePortfolioDomain(domain: PortfolioDomain) {
+  return {
+    id: domain.id,
+    hostname: domain.hostname,
+    kind: domain.kind,
+    status: domain.status,
+    url: hostPageUrl(domain.hostname),
+    dnsRecords: domainDnsRecords(domain),
+    lastError: domain.lastError || null,
+    lastCheckedAt: domain.lastCheckedAt || null,
+    verifiedAt: domain.verifiedAt || null,
+    createdAt: domain.createdAt,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Portfolio Hosts
+ *
+ * Besides `/p/{slug}`, a portfolio can be served on a subdomain of the site
+ * (`jane.yourdomain.com`) or on a custom domain of its owner (see ./domains).
+ * Middleware rewrites requests on such hosts to `/p/_domain/{host}/{page}`,
+ * and the public pages look the host up in portfolio_domains.
+ * No Node APIs here: the middleware runs on the edge runtime.
+ */
+
+import type { PageType } from '@/lib/db/schema';
+import { PAGE_SEGMENTS, getBaseUrl } from './urls';
+
+// First segment after /p/ of rewritten requests; cannot be a slug
+export const DOMAIN_SEGMENT = '_domain';
+
+const IPV4_PATTERN = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+/**
+ * Lowercase hostname of user input or a Host header, e.g. "https://Jane.dev/" -> "jane.dev"
+ * International names are converted to punycode.
+ * @returns null when the input is not a hostname
+ */
+export function normalizeHostname(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`);
+    return url.hostname.replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Domain portfolio subdomains live under: PORTFOLIO_ROOT_DOMAIN, or the host of the site URL
+ */
+export function getRootDomain(): string {
+  const configured = process.env.PORTFOLIO_ROOT_DOMAIN;
+  return normalizeHostname(configured || getBaseUrl()) || 'localhost';
+}
+
+/**
+ * Label of a subdomain of the root domain, e.g. "jane" for jane.yourdomain.com
+ * @returns null for other hosts, nested subdomains and www
+ */
+export function subdomainLabel(hostname: string): string | null {
+  const suffix = `.${getRootDomain()}`;
+  if (!hostname.endsWith(suffix)) return null;
+
+  const label = hostname.slice(0, -suffix.length);
+  return label && !label.includes('.') && label !== 'www' ? label : null;
+}
+
+function isIpAddress(hostname: string): boolean {
+  return IPV4_PATTERN.test(hostname) || hostname.startsWith('[');
+}
+
+/**
+ * Host whose requests are a portfolio's pages, or null for the site itself
+ * Custom domains are only recognized once the site URL is configured;
+ * until then every other host could be the site.
+ */
+export function portfolioHostOf(host: string | null): string | null {
+  const hostname = host ? normalizeHostname(host) : null;
+  if (!hostname || isIpAddress(hostname)) return null;
+
+  const root = getRootDomain();
+  const siteHosts = [getBaseUrl(), root, `www.${root}`, 'localhost', process.env.VERCEL_URL, process.env.VERCEL_BRANCH_URL];
+  if (siteHosts.some((site) => site && normalizeHostname(site) === hostname)) {
+    return null;
+  }
+
+  if (subdomainLabel(hostname)) return hostname;
+  return process.env.NEXT_PUBLIC_BASE_URL ? hostname : null;
+}
+
+/**
+ * Internal path a request on a portfolio host is rewritten to
+ */
+export function domainRoutePath(hostname: string, pathname: string): string {
+  return `/p/${DOMAIN_SEGMENT}/${hostname}${pathname === '/' ? '' : pathname}`;
+}
+
+/**
+ * Whether a path is an internal domain route, which is only served through the host itself
+ */
+export function isDomainRoutePath(pathname: string): boolean {
+  return pathname === `/p/${DOMAIN_SEGMENT}` || pathname.startsWith(`/p/${DOMAIN_SEGMENT}/`);
+}
+
+/**
+ * Path of a portfolio page on the portfolio's own host
+ */
+export function hostPagePath(pageType: PageType = 'home'): string {
+  return pageType === 'home' ? '/' : `/${PAGE_SEGMENTS[pageType]}`;
+}
+
+/**
+ * Absolute URL of a portfolio page on the portfolio's own host, with the site's protocol
+ */
+export function hostPageUrl(hostname: string, pageType: PageType = 'home'): string {
+  return `${new URL(getBaseUrl()).protocol}//${hostname}${hostPagePath(pageType)}`;
+}
@@ -0,0 +1,118 @@
+/**
+ * Portfolio Page Metadata
+ *
+ * Title, description, canonical URL, Open Graph/Twitter tags and JSON-LD
+ * structured data of the public portfolio pages, built from their content.
+ */
+
+import type { Metadata } from 'next';
+import { OG_IMAGE_SIZE, loadOgImageData, ogImageUrl, ogImageVersion } from './og-image';
+import {
+  loadPageQuietly,
+  loadPortfolioPerson,
+  type PortfolioPerson,
+  type PortfolioRoute,
+  type PublicPage,
+  routePageUrl,
+} from './public-page';
+import { getBaseUrl } from './urls';
+
+// Search engines cut descriptions at about this many characters
+const DESCRIPTION_LENGTH = 160;
+
+function truncate(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= length) return clean;
+  return `${clean.slice(0, length - 1).replace(/\s+\S*$/, '')}…`;
+}
+
+function pageDescription(page: PublicPage): string | undefined {
+  const { content } = page;
+  if ('heroDescription' in content) return content.heroDescription;
+  if ('summary' in content) return content.summary;
+  if ('subtitle' in content) return content.subtitle;
+  return undefined;
+}
+
+/**
+ * Title, description, canonical URL and Open Graph/Twitter tags of a portfolio page
+ */
+export async function buildPageMetadata(route: PortfolioRoute): Promise<Metadata> {
+  const { portfolio, pageType } = route;
+  const [page, person, ogData] = await Promise.all([
+    loadPageQuietly(portfolio, pageType),
+    loadPortfolioPerson(portfolio),
+    loadOgImageData(portfolio),
+  ]);
+  if (!page) {
+    return {};
+  }
+
+  const title =
+    pageType === 'home'
+      ? person.jobTitle ? `${person.name} – ${person.jobTitle}` : person.name
+      : `${'title' in page.content ? page.content.title : page.title} | ${person.name}`;
+  const description = truncate(pageDescription(page) || person.description || `Portfolio of ${person.name}`, DESCRIPTION_LENGTH);
+  const url = routePageUrl(route, pageType);
+
+  // The versioned URL changes with the content and theme, so previews pick up edits
+  const image = {
+    url: ogImageUrl(portfolio.id, ogImageVersion(ogData)),
+    ...OG_IMAGE_SIZE,
+    alt: person.name,
+  };
+  // Protected portfolios have no share image (see the share image route)
+  const isProtected = portfolio.accessMode !== 'public';
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    // Drafts (seen by the owner or through a preview link), unlisted and protected portfolios stay out of search results
+    robots: portfolio.visibility === 'published' && !isProtected ? undefined : { index: false, follow: false },
+    openGraph: {
+      type: 'profile',
+      url,
+      title,
+      description,
+      siteName: person.name,
+      images: isProtected ? undefined : [image],
+    },
+    twitter: {
+      card: isProtected ? 'summary' : 'summary_large_image',
+      title,
+      description,
+      images: isProtected ? undefined : [image.url],
+    },
+  };
+}
+
+/**
+ * Metadata of the unlock screen of a protected portfolio, which gives nothing away
+ */
+export function lockedPageMetadata(): Metadata {
+  return {
+    title: 'Private portfolio',
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * schema.org `Person` structured data, serialized for a JSON-LD script tag
+ */
+export function personJsonLd(person: PortfolioPerson, url: string): string {
+  const image = person.image ? new URL(person.image, `${getBaseUrl()}/`).toString() : undefined;
+  const data = {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: person.name,
+    url,
+    jobTitle: person.jobTitle,
+    description: person.description,
+    image,
+    email: person.email,
+    sameAs: person.sameAs.length > 0 ? person.sameAs : undefined,
+  };
+  // `<` would let content close the script tag
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,278 @@
+/**
+ * Portfolio Share Images
+ *
+ * Renders the Open Graph image of a portfolio: the owner's name, headline
+ * and top skills over the portfolio's theme gradient, plus the profile photo
+ * when there is one. Rendered images are stored in portfolio_og_images under
+ * a version hashed from everything drawn on them, so a change to the content
+ * or theme produces a new version (and a new image URL) on the next request.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageResponse } from 'next/og';
+import sharp from 'sharp';
+import {
+  findPortfolioOgImage,
+  findPortfolioThemeByPortfolioId,
+  savePortfolioOgImage,
+} from '@/lib/db/services';
+import type { GeneratedPortfolio } from '@/lib/db/schema';
+import { hexToRgb } from '@/lib/utils/color';
+import { assertPublicHost } from '@/lib/utils/network';
+import { loadPageQuietly, loadPortfolioPerson } from './public-page';
+import { getBaseUrl } from './urls';
+import { resolveTheme, themeBackgroundCss, type ThemePalette } from './themes';
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+// Bump when the image design changes so stored images are re-rendered
+const OG_IMAGE_LAYOUT = 1;
+const MAX_SKILLS = 5;
+const PHOTO_SIZE = 280;
+const PHOTO_TIMEOUT_MS = 5000;
+// Same limit as photo uploads
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+const MAX_PHOTO_PIXELS = 40_000_000;
+// Hosts of the GitHub and Google profile pictures OAuth sign-in stores
+const DEFAULT_PHOTO_HOSTS = [
+  'avatars.githubusercontent.com',
+  'lh3.googleusercontent.com',
+  'lh4.googleusercontent.com',
+  'lh5.googleusercontent.com',
+  'lh6.googleusercontent.com',
+];
+
+export interface OgImageData {
+  name: string;
+  headline?: string;
+  skills: string[];
+  palette: ThemePalette;
+  gradientAngle: number;
+  photoUrl?: string;
+}
+
+/**
+ * Everything drawn on a portfolio's share image
+ */
+export async function loadOgImageData(portfolio: GeneratedPortfolio): Promise<OgImageData> {
+  const [person, home] = await Promise.all([
+    loadPortfolioPerson(portfolio),
+    loadPageQuietly(portfolio, 'home'),
+  ]);
+
+  const theme = resolveTheme(await findPortfolioThemeByPortfolioId(portfolio.id));
+
+  return {
+    name: person.name,
+    headline: person.jobTitle,
+    skills: home?.content.featuredSkills.slice(0, MAX_SKILLS) || [],
+    // Share previews have no light/dark preference; "system" uses the light palette
+    palette: theme.colorScheme === 'dark' ? theme.palettes.dark : theme.palettes.light,
+    gradientAngle: theme.gradientAngle,
+    photoUrl: person.image,
+  };
+}
+
+/**
+ * Version of a share image, changes whenever anything drawn on it changes
+ */
+export function ogImageVersion(data: OgImageData): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ layout: OG_IMAGE_LAYOUT, ...data }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Versioned URL of a portfolio's share image
+ */
+export function ogImageUrl(portfolioId: string, version: string): string {
+  return `${getBaseUrl()}/api/portfolio/og/${portfolioId}?v=${version}`;
+}
+
+/**
+ * Hosts photos may be downloaded from (SHARE_IMAGE_PHOTO_HOSTS, comma-separated)
+ */
+function allowedPhotoHosts(): string[] {
+  const configured = process.env.SHARE_IMAGE_PHOTO_HOSTS;
+  return configured
+    ? configured.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PHOTO_HOSTS;
+}
+
+/**
+ * Read a response body, giving up once it is larger than the photo limit
+ */
+async function readLimited(response: Response): Promise<Buffer> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_PHOTO_BYTES) {
+    throw new Error(`Photo is too large (${declared} bytes)`);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_PHOTO_BYTES) {
+      await reader.cancel();
+      throw new Error(`Photo is larger than ${MAX_PHOTO_BYTES} bytes`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read the bytes of a portfolio photo
+ * Paths on this site are read from the public directory, never requested
+ * over HTTP; other photos only from the allowed hosts, over HTTPS, from
+ * public addresses and without following redirects.
+ * @throws Error if the photo is not allowed or cannot be read
+ */
+async function readPhoto(url: string): Promise<Buffer> {
+  if (url.startsWith('/') && !url.startsWith('//') && !url.startsWith('/\\')) {
+    const root = path.resolve('public');
+    const filePath = path.resolve(root, decodeURIComponent(url.split(/[?#]/)[0]).slice(1));
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Photo path is outside the public directory');
+    }
+    const { size } = await fs.stat(filePath);
+    if (size > MAX_PHOTO_BYTES) {
+      throw new Error(`Photo is too large (${size} bytes)`);
+    }
+    return fs.readFile(filePath);
+  }
+
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:' || !allowedPhotoHosts().includes(parsed.hostname.toLowerCase())) {
+    throw new Error(`Photo host is not allowed: ${parsed.host}`);
+  }
+  await assertPublicHost(parsed.hostname);
+
+  const response = await fetch(parsed, {
+    redirect: 'manual',
+    signal: AbortSignal.timeout(PHOTO_TIMEOUT_MS),
+  });
+  if (response.status !== 200) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status} from ${parsed.host}`);
+  }
+  return readLimited(response);
+}
+
+/**
+ * Load a photo and crop it to a square PNG data URL
+ * @returns The data URL, or null if the photo cannot be loaded
+ */
+export async function loadPhoto(url: string): Promise<string | null> {
+  try {
+    const png = await sharp(await readPhoto(url), { limitInputPixels: MAX_PHOTO_PIXELS })
+      .rotate()
+      .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: 'cover' })
+      .png()
+      .toBuffer();
+    return `data:image/png;base64,${png.toString('base64')}`;
+  } catch (error) {
+    console.warn('Could not load photo for share image:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function rgba(hex: string, alpha: number): string {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Render a share image as PNG
+ */
+export async function renderOgImage(data: OgImageData, photo: string | null): Promise<Buffer> {
+  const { palette } = data;
+  const background = themeBackgroundCss(palette, data.gradientAngle);
+
+  const response = new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: 80,
+          // A single-color palette is a plain color, not a gradient
+          ...(background.includes('gradient') ? { backgroundImage: background } : { backgroundColor: background }),
+          color: palette.text,
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, paddingRight: photo ? 60 : 0 }}>
+          <div style={{ fontSize: data.name.length > 24 ? 60 : 76, fontWeight: 700, lineHeight: 1.1 }}>{data.name}</div>
+          {data.headline && (
+            <div style={{ fontSize: 36, marginTop: 20, opacity: 0.9 }}>{data.headline}</div>
+          )}
+          {data.skills.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', marginTop: 48 }}>
+              {data.skills.map((skill) => (
+                <div
+                  key={skill}
+                  style={{
+                    fontSize: 26,
+                    padding: '10px 24px',
+                    marginRight: 16,
+                    marginBottom: 16,
+                    borderRadius: 999,
+                    backgroundColor: rgba(palette.surface, 0.2),
+                    border: `2px solid ${rgba(palette.surface, 0.3)}`,
+                  }}
+                >
+                  {skill}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        {photo && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={photo}
+            alt=""
+            width={PHOTO_SIZE}
+            height={PHOTO_SIZE}
+            style={{ borderRadius: PHOTO_SIZE / 2, border: `8px solid ${palette.surface}` }}
+          />
+        )}
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  );
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Share image of a portfolio, from the cache or freshly rendered
+ */
+export async function getPortfolioOgImage(
+  portfolio: GeneratedPortfolio,
+  data: OgImageData
+): Promise<{ image: Buffer; version: string }> {
+  const version = ogImageVersion(data);
+  const cached = await findPortfolioOgImage(portfolio.id);
+  if (cached && cached.version === version) {
+    return { image: cached.image, version };
+  }
+
+  const photo = data.photoUrl ? await loadPhoto(data.photoUrl) : null;
+  const image = await renderOgImage(data, photo);
+  await savePortfolioOgImage(portfolio.id, version, image);
+  return { image, version };
+}
@@ -0,0 +1,484 @@
+/**
+ * Portfolio Page Content Schema
+ *
+ * One versioned content shape per PageType, shared by the generator, the
+ * page services and the public portfolio pages. Content is stored as JSON
+ * in portfolio_pages.content; every document carries a `version` so older
+ * shapes can be upgraded (see migratePageContent and src/lib/db/migrate.ts).
+ *
+ * Version history:
+ * - 0 (no version field): generator output before the schema existed, e.g.
+ *   `{hero: {...}}` for home and `{sections: [{heading, content}]}` for about,
+ *   or plain text/HTML
+ * - 1: current shapes below
+ */
+
+import { validateJsonSchema, type JsonSchema } from '@/lib/utils/json-schema';
+import type { PageType } from '@/lib/db/schema';
+
+export const PAGE_CONTENT_VERSION = 1;
+
+export type HighlightIcon = 'star' | 'code' | 'briefcase' | 'graduation';
+
+export interface HomePageContent {
+  version: typeof PAGE_CONTENT_VERSION;
+  heroTitle: string;
+  heroSubtitle: string;
+  heroDescription: string;
+  highlights: Array<{
+    icon: HighlightIcon;
+    title: string;
+    description: string;
+  }>;
+  featuredSkills: string[];
+  photos?: string[];
+}
+
+export type AboutSectionType = 'experience' | 'education' | 'skills' | 'achievements' | 'custom';
+
+export interface AboutPageContent {
+  version: typeof PAGE_CONTENT_VERSION;
+  title: string;
+  summary: string;
+  sections: Array<{
+    type: AboutSectionType;
+    title: string;
+    items: Array<{
+      title: string;
+      subtitle?: string;
+      description?: string;
+      date?: string;
+      points?: string[];
+    }>;
+  }>;
+  photos?: string[];
+}
+
+export interface PortfolioProject {
+  title: string;
+  description: string;
+  image?: string;
+  technologies: string[];
+  date?: string;
+  githubUrl?: string;
+  liveUrl?: string;
+  highlights?: string[];
+}
+
+export interface PortfolioPageContent {
+  version: typeof PAGE_CONTENT_VERSION;
+  title: string;
+  subtitle: string;
+  projects: PortfolioProject[];
+}
+
+export type ContactMethodType = 'email' | 'phone' | 'linkedin' | 'github' | 'twitter' | 'location' | 'other';
+
+export interface ContactMethod {
+  type: ContactMethodType;
+  label: string;
+  value: string;
+  link?: string;
+}
+
+export interface ContactPageContent {
+  version: typeof PAGE_CONTENT_VERSION;
+  title: string;
+  subtitle: string;
+  contactMethods: ContactMethod[];
+  availability?: string;
+  formEnabled?: boolean;
+}
+
+export interface PageContentMap {
+  home: HomePageContent;
+  about: AboutPageContent;
+  portfolio: PortfolioPageContent;
+  contact: ContactPageContent;
+}
+
+export type PageContent<T extends PageType = PageType> = PageContentMap[T];
+
+/**
+ * Content that does not match the schema for its page type
+ */
+export class PageContentError extends Error {
+  readonly pageType: PageType;
+  readonly errors: string[];
+
+  constructor(pageType: PageType, errors: string[]) {
+    super(`Invalid ${pageType} page content: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'PageContentError';
+    this.pageType = pageType;
+    this.errors = errors;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// JSON schemas
+// ----------------------------------------------------------------------------
+
+const MAX_TEXT = 5000;
+const MAX_ITEMS = 50;
+
+const text = (maxLength = MAX_TEXT): JsonSchema => ({ type: 'string', maxLength });
+const textArray: JsonSchema = { type: 'array', items: text(200), maxItems: MAX_ITEMS };
+// Only web, mail and phone links; rejects javascript: and data: URLs
+const link: JsonSchema = { type: 'string', maxLength: 2000, pattern: '^(https?://|mailto:|tel:)' };
+// Web URLs and site paths; rejects protocol-relative //host URLs
+const imageUrl: JsonSchema = { type: 'string', maxLength: 2000, pattern: '^(https?://|/(?!/))' };
+const photos: JsonSchema = { type: 'array', items: imageUrl, maxItems: 10 };
+
+function object(properties: Record<string, JsonSchema>, required: string[]): JsonSchema {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+function list(items: JsonSchema, maxItems = MAX_ITEMS): JsonSchema {
+  return { type: 'array', items, maxItems };
+}
+
+const version: JsonSchema = { const: PAGE_CONTENT_VERSION };
+
+export const PAGE_CONTENT_SCHEMAS: Record<PageType, JsonSchema> = {
+  home: object(
+    {
+      version,
+      heroTitle: text(200),
+      heroSubtitle: text(300),
+      heroDescription: text(),
+      highlights: list(
+        object(
+          {
+            icon: { enum: ['star', 'code', 'briefcase', 'graduation'] },
+            title: text(200),
+            description: text(),
+          },
+          ['icon', 'title', 'description']
+        ),
+        6
+      ),
+      featuredSkills: textArray,
+      photos,
+    },
+    ['version', 'heroTitle', 'heroSubtitle', 'heroDescription', 'highlights', 'featuredSkills']
+  ),
+  about: object(
+    {
+      version,
+      title: text(200),
+      summary: text(),
+      sections: list(
+        object(
+          {
+            type: { enum: ['experience', 'education', 'skills', 'achievements', 'custom'] },
+            title: text(200),
+            items: list(
+              object(
+                {
+                  title: text(300),
+                  subtitle: text(300),
+                  description: text(),
+                  date: text(100),
+                  points: list(text(1000)),
+                },
+                ['title']
+              )
+            ),
+          },
+          ['type', 'title', 'items']
+        ),
+        20
+      ),
+      photos,
+    },
+    ['version', 'title', 'summary', 'sections']
+  ),
+  portfolio: object(
+    {
+      version,
+      title: text(200),
+      subtitle: text(500),
+      projects: list(
+        object(
+          {
+            title: text(300),
+            description: text(),
+            image: imageUrl,
+            technologies: textArray,
+            date: text(100),
+            githubUrl: link,
+            liveUrl: link,
+            highlights: list(text(1000)),
+          },
+          ['title', 'description', 'technologies']
+        )
+      ),
+    },
+    ['version', 'title', 'subtitle', 'projects']
+  ),
+  contact: object(
+    {
+      version,
+      title: text(200),
+      subtitle: text(500),
+      contactMethods: list(
+        object(
+          {
+            type: { enum: ['email', 'phone', 'linkedin', 'github', 'twitter', 'location', 'other'] },
+            label: text(100),
+            value: text(300),
+            link,
+          },
+          ['type', 'label', 'value']
+        ),
+        20
+      ),
+      availability: text(500),
+      formEnabled: { type: 'boolean' },
+    },
+    ['version', 'title', 'subtitle', 'contactMethods']
+  ),
+};
+
+/**
+ * Validate page content against the current schema for its page type
+ * @param pageType - Page the content belongs to
+ * @param value - Parsed content
+ * @returns The content, or the validation errors
+ */
+export function validatePageContent<T extends PageType>(
+  pageType: T,
+  value: unknown
+): { content: PageContent<T>; errors?: undefined } | { content?: undefined; errors: string[] } {
+  const errors = validateJsonSchema(value, PAGE_CONTENT_SCHEMAS[pageType]);
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { content: value as PageContent<T> };
+}
+
+/**
+ * Validate serialized content before it is written
+ * Writes must already use the current version; legacy shapes are rejected.
+ * @param pageType - Page the content belongs to
+ * @param json - Content as stored in portfolio_pages.content
+ * @throws PageContentError if the content is not valid JSON or does not match the schema
+ */
+export function assertValidPageContent<T extends PageType>(pageType: T, json: string): PageContent<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new PageContentError(pageType, ['$: content is not valid JSON']);
+  }
+
+  const { content, errors } = validatePageContent(pageType, value);
+  if (errors) {
+    throw new PageContentError(pageType, errors);
+  }
+  return content;
+}
+
+// ----------------------------------------------------------------------------
+// Migration of older shapes
+// ----------------------------------------------------------------------------
+
+type Loose = Record<string, unknown>;
+
+function asObject(value: unknown): Loose {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Loose) : {};
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  return asString(value) || undefined;
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+}
+
+function asObjects(value: unknown): Loose[] {
+  return Array.isArray(value) ? value.map(asObject) : [];
+}
+
+function pick<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+function asLink(value: unknown): string | undefined {
+  const url = asString(value);
+  return /^(https?:\/\/|mailto:|tel:)/.test(url) ? url : undefined;
+}
+
+function asImages(value: unknown): string[] | undefined {
+  const images = asStrings(value).filter((url) => /^(https?:\/\/|\/(?!\/))/.test(url));
+  return images.length > 0 ? images : undefined;
+}
+
+/**
+ * Plain text from legacy HTML content
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li|\/h\d)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function migrateHome(legacy: Loose, body: string): HomePageContent {
+  // Version 0 generator output nested everything under `hero`
+  const hero = asObject(legacy.hero);
+  const background = asString(hero.backgroundImage);
+
+  return {
+    version: PAGE_CONTENT_VERSION,
+    heroTitle: asString(legacy.heroTitle) || asString(hero.name),
+    heroSubtitle: asString(legacy.heroSubtitle) || asString(hero.tagline),
+    heroDescription: asString(legacy.heroDescription) || asString(hero.description) || body,
+    highlights: asObjects(legacy.highlights).map((highlight) => ({
+      icon: pick(highlight.icon, ['star', 'code', 'briefcase', 'graduation'] as const, 'star'),
+      title: asString(highlight.title),
+      description: asString(highlight.description),
+    })),
+    featuredSkills: asStrings(legacy.featuredSkills),
+    photos: asImages(legacy.photos || (background ? [background] : undefined)),
+  };
+}
+
+function migrateAbout(legacy: Loose, body: string): AboutPageContent {
+  const sections = asObjects(legacy.sections);
+  // Version 0 sections were {heading, content, image} paragraphs
+  const paragraphs = sections.filter((section) => section.heading !== undefined && !Array.isArray(section.items));
+  const structured = sections.filter((section) => Array.isArray(section.items));
+  const [intro, ...otherParagraphs] = paragraphs;
+
+  return {
+    version: PAGE_CONTENT_VERSION,
+    title: asString(legacy.title) || 'About Me',
+    summary: asString(legacy.summary) || asString(intro?.content) || body,
+    sections: [
+      ...structured.map((section) => ({
+        type: pick(section.type, ['experience', 'education', 'skills', 'achievements', 'custom'] as const, 'custom'),
+        title: asString(section.title),
+        items: asObjects(section.items).map((item) => ({
+          title: asString(item.title),
+          subtitle: asOptionalString(item.subtitle),
+          description: asOptionalString(item.description),
+          date: asOptionalString(item.date),
+          points: Array.isArray(item.points) ? asStrings(item.points) : undefined,
+        })),
+      })),
+      ...otherParagraphs.map((paragraph) => ({
+        type: 'custom' as const,
+        title: asString(paragraph.heading),
+        items: [{ title: asString(paragraph.heading), description: asOptionalString(paragraph.content) }],
+      })),
+    ],
+    photos: asImages(legacy.photos || paragraphs.map((paragraph) => paragraph.image)),
+  };
+}
+
+function migratePortfolio(legacy: Loose, body: string): PortfolioPageContent {
+  return {
+    version: PAGE_CONTENT_VERSION,
+    title: asString(legacy.title) || 'My Portfolio',
+    subtitle: asString(legacy.subtitle) || body,
+    // Version 0 projects also carried a numeric `id`, which is dropped
+    projects: asObjects(legacy.projects).map((project) => ({
+      title: asString(project.title),
+      description: asString(project.description),
+      image: asImages([project.image])?.[0],
+      technologies: asStrings(project.technologies),
+      date: asOptionalString(project.date),
+      githubUrl: asLink(project.githubUrl),
+      liveUrl: asLink(project.liveUrl),
+      highlights: Array.isArray(project.highlights) ? asStrings(project.highlights) : undefined,
+    })),
+  };
+}
+
+function migrateContact(legacy: Loose, body: string): ContactPageContent {
+  return {
+    version: PAGE_CONTENT_VERSION,
+    title: asString(legacy.title) || 'Get In Touch',
+    // Version 0 used `introduction` for the subtitle
+    subtitle: asString(legacy.subtitle) || asString(legacy.introduction) || body,
+    contactMethods: asObjects(legacy.contactMethods)
+      .filter((method) => asString(method.value))
+      .map((method) => ({
+        type: pick(
+          method.type,
+          ['email', 'phone', 'linkedin', 'github', 'twitter', 'location', 'other'] as const,
+          'other'
+        ),
+        label: asString(method.label) || asString(method.type) || 'Contact',
+        value: asString(method.value),
+        link: asLink(method.link),
+      })),
+    availability: asOptionalString(legacy.availability),
+    formEnabled: typeof legacy.formEnabled === 'boolean' ? legacy.formEnabled : undefined,
+  };
+}
+
+const MIGRATIONS: { [T in PageType]: (legacy: Loose, body: string) => PageContent<T> } = {
+  home: migrateHome,
+  about: migrateAbout,
+  portfolio: migratePortfolio,
+  contact: migrateContact,
+};
+
+/**
+ * Drop undefined properties so the result serializes like the original
+ */
+function compact<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Upgrade stored content to the current version
+ * Current content is returned unchanged (and unvalidated).
+ * @param pageType - Page the content belongs to
+ * @param value - Stored content: JSON string, parsed JSON or legacy HTML/text
+ */
+export function migratePageContent(pageType: PageType, value: unknown): unknown {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      // Legacy plain text or HTML content
+      parsed = value;
+    }
+  }
+
+  if (asObject(parsed).version === PAGE_CONTENT_VERSION) {
+    return parsed;
+  }
+
+  const body = typeof parsed === 'string' ? stripHtml(parsed) : '';
+  return compact(MIGRATIONS[pageType](asObject(parsed), body));
+}
+
+/**
+ * Read stored content, upgrading older versions
+ * @param pageType - Page the content belongs to
+ * @param value - Stored content: JSON string, parsed JSON or legacy HTML/text
+ * @throws PageContentError if the content cannot be brought into the current shape
+ */
+export function readPageContent<T extends PageType>(pageType: T, value: unknown): PageContent<T> {
+  const { content, errors } = validatePageContent(pageType, migratePageContent(pageType, value));
+  if (errors) {
+    throw new PageContentError(pageType, errors);
+  }
+  return content;
+}
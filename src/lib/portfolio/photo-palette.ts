@@ -0,0 +1,119 @@
+/**
+ * Photo Palettes
+ *
+ * Extracts the dominant colors of portfolio photos when they are uploaded
+ * (stored in user_portfolio_photos.dominant_colors) and turns the colors of
+ * a user's photos into a "match my photos" theme.
+ */
+
+import sharp from 'sharp';
+import { listUserPortfolioPhotos } from '@/lib/db/services';
+import { rgbToHex, type Rgb } from '@/lib/utils/color';
+import { themeFromPhotoColors, type PhotoColor, type ThemeTokens } from './themes';
+
+// Photos are scaled down to at most SAMPLE_SIZE x SAMPLE_SIZE pixels before clustering
+const SAMPLE_SIZE = 64;
+const PALETTE_SIZE = 6;
+const ITERATIONS = 10;
+// Seeds closer than this (RGB distance) are treated as the same color
+const MIN_SEED_DISTANCE = 48;
+
+function distance(a: Rgb, b: Rgb): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Initial cluster centers: the most common coarse colors, kept apart from each other
+ */
+function seedCenters(pixels: Rgb[], count: number): Rgb[] {
+  const bins = new Map<number, { total: Rgb; count: number }>();
+  for (const [r, g, b] of pixels) {
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bin = bins.get(key) || { total: [0, 0, 0] as Rgb, count: 0 };
+    bin.total[0] += r;
+    bin.total[1] += g;
+    bin.total[2] += b;
+    bin.count++;
+    bins.set(key, bin);
+  }
+
+  const centers: Rgb[] = [];
+  const ranked = [...bins.values()].sort((a, b) => b.count - a.count);
+  for (const bin of ranked) {
+    const center = bin.total.map((sum) => sum / bin.count) as Rgb;
+    if (centers.every((existing) => distance(existing, center) >= MIN_SEED_DISTANCE)) {
+      centers.push(center);
+    }
+    if (centers.length === count) break;
+  }
+  return centers;
+}
+
+/**
+ * Group pixels into at most `count` colors with k-means
+ */
+function clusterColors(pixels: Rgb[], count: number): PhotoColor[] {
+  let centers = seedCenters(pixels, count);
+  let sizes: number[] = [];
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const totals = centers.map(() => [0, 0, 0] as Rgb);
+    sizes = centers.map(() => 0);
+
+    for (const pixel of pixels) {
+      let nearest = 0;
+      for (let i = 1; i < centers.length; i++) {
+        if (distance(pixel, centers[i]) < distance(pixel, centers[nearest])) nearest = i;
+      }
+      totals[nearest][0] += pixel[0];
+      totals[nearest][1] += pixel[1];
+      totals[nearest][2] += pixel[2];
+      sizes[nearest]++;
+    }
+
+    centers = centers.map((center, i) =>
+      sizes[i] > 0 ? (totals[i].map((sum) => sum / sizes[i]) as Rgb) : center
+    );
+  }
+
+  return centers
+    .map((center, i) => ({ color: rgbToHex(center), share: Math.round((sizes[i] / pixels.length) * 1000) / 1000 }))
+    .filter((color) => color.share > 0)
+    .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Dominant colors of an image, most common first
+ * @throws Error if the image cannot be decoded
+ */
+export async function extractDominantColors(image: Buffer, count = PALETTE_SIZE): Promise<PhotoColor[]> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: Rgb[] = [];
+  for (let i = 0; i + 2 < data.length; i += info.channels) {
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return clusterColors(pixels, count);
+}
+
+/**
+ * "Match my photos" theme from the colors of a user's portfolio photos
+ * Every photo weighs the same, whatever its number of colors.
+ * @returns The theme, or null if none of the photos has extracted colors
+ */
+export async function getPhotoTheme(userId: string): Promise<ThemeTokens | null> {
+  const photos = (await listUserPortfolioPhotos(userId)).filter(
+    (photo) => photo.dominantColors && photo.dominantColors.length > 0
+  );
+
+  const colors = photos.flatMap((photo) =>
+    (photo.dominantColors || []).map((color) => ({ color: color.color, share: color.share / photos.length }))
+  );
+  return themeFromPhotoColors(colors);
+}
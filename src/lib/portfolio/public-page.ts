@@ -0,0 +1,224 @@
+/**
+ * Public Portfolio Pages
+ *
+ * Server-side loading for the pages under /p/{slug}/ (see ./urls) and on
+ * portfolio subdomains and custom domains (see ./hosts).
+ * Loaders are wrapped in React's `cache`, so the layout, generateMetadata and
+ * the page share their queries within a request.
+ */
+
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import {
+  ensurePortfolioSlug,
+  findGeneratedPortfolioById,
+  findGeneratedPortfolioBySlug,
+  findPortfolioPageByType,
+  findPortfolioSlugRedirect,
+  findUserById,
+  findVerifiedPortfolioDomain,
+  listUserPortfolioPhotos,
+} from '@/lib/db/services';
+import type { GeneratedPortfolio, PageType } from '@/lib/db/schema';
+import { PageContentError, readPageContent, type PageContent } from './page-content';
+import { DOMAIN_SEGMENT, hostPagePath, hostPageUrl } from './hosts';
+import { PREVIEW_COOKIE, canViewPortfolio } from './visibility';
+import { accessCookieName, canAccessPortfolio } from './access';
+import { pageTypeFromSegment, parsePortfolioPath, portfolioPageUrl, portfolioPath } from './urls';
+
+export interface PortfolioRoute {
+  portfolio: GeneratedPortfolio;
+  // Current slug of the portfolio
+  slug: string;
+  pageType: PageType;
+  // Subdomain or custom domain the page was requested on
+  host?: string;
+  // Canonical path when the request used an earlier slug or another spelling
+  redirectTo?: string;
+}
+
+export interface PublicPage<T extends PageType = PageType> {
+  id: string;
+  title: string;
+  content: PageContent<T>;
+  // Portfolio photos, or the photos stored in the content
+  photos: string[];
+}
+
+export interface PortfolioPerson {
+  name: string;
+  jobTitle?: string;
+  description?: string;
+  image?: string;
+  email?: string;
+  // Profile links (LinkedIn, GitHub, Twitter)
+  sameAs: string[];
+}
+
+/**
+ * Signed-in viewer, from the accessToken cookie
+ */
+export const getViewerId = cache(async (): Promise<string | null> => {
+  const token = (await cookies()).get('accessToken')?.value;
+  return token ? verifySessionAccessToken(token) : null;
+});
+
+/**
+ * Whether the viewer may see a portfolio: drafts only to the owner and through preview links
+ */
+export const isPortfolioVisible = cache(async (portfolio: GeneratedPortfolio): Promise<boolean> => {
+  const previewToken = (await cookies()).get(PREVIEW_COOKIE)?.value;
+  return canViewPortfolio(portfolio, await getViewerId(), previewToken);
+});
+
+/**
+ * Whether the viewer may open a visible portfolio: password-protected and
+ * invite-only portfolios need the viewer cookie set by unlocking them
+ */
+export const hasPortfolioAccess = cache(async (portfolio: GeneratedPortfolio): Promise<boolean> => {
+  const viewerToken = (await cookies()).get(accessCookieName(portfolio.id))?.value;
+  return canAccessPortfolio(portfolio, await getViewerId(), viewerToken);
+});
+
+/**
+ * Portfolio and page of a request on a portfolio host, rewritten by the middleware
+ * @param segments - Path on the host, e.g. ["about"]
+ */
+async function resolveDomainRoute(host: string, segments: string[]): Promise<PortfolioRoute | null> {
+  const pageType = segments.length === 0 ? 'home' : segments.length === 1 ? pageTypeFromSegment(segments[0]) : undefined;
+  if (!pageType) return null;
+
+  const domain = await findVerifiedPortfolioDomain(host.toLowerCase());
+  if (!domain) return null;
+  const portfolio = await findGeneratedPortfolioById(domain.portfolioId);
+  if (!portfolio) return null;
+
+  const path = `/${segments.join('/')}`;
+  const canonical = hostPagePath(pageType);
+  return {
+    portfolio,
+    slug: await ensurePortfolioSlug(portfolio),
+    pageType,
+    host: domain.hostname,
+    redirectTo: path === canonical ? undefined : canonical,
+  };
+}
+
+/**
+ * Portfolio and page for the path after `/p/`, e.g. "jane-doe/about"
+ * Earlier slugs (see portfolio_slug_redirects) resolve with a `redirectTo`.
+ * @returns The route, or null if no portfolio uses or used the slug
+ */
+export const resolvePortfolioRoute = cache(async (path: string): Promise<PortfolioRoute | null> => {
+  const [first, host, ...rest] = path.split('/');
+  if (first === DOMAIN_SEGMENT) {
+    return host ? resolveDomainRoute(host, rest) : null;
+  }
+
+  const parsed = parsePortfolioPath(path.split('/'));
+  if (!parsed) return null;
+
+  let portfolio = await findGeneratedPortfolioBySlug(parsed.slug);
+  if (!portfolio) {
+    const redirect = await findPortfolioSlugRedirect(parsed.slug);
+    portfolio = redirect ? await findGeneratedPortfolioById(redirect.portfolioId) : null;
+  }
+  if (!portfolio?.slug) return null;
+
+  const canonical = portfolioPath(portfolio.slug, parsed.pageType);
+  return {
+    portfolio,
+    slug: portfolio.slug,
+    pageType: parsed.pageType,
+    redirectTo: `/p/${path}` === canonical ? undefined : canonical,
+  };
+});
+
+/**
+ * Path of a page of the route's portfolio, on the host it was requested on
+ */
+export function routePagePath(route: PortfolioRoute, pageType: PageType = 'home'): string {
+  return route.host ? hostPagePath(pageType) : portfolioPath(route.slug, pageType);
+}
+
+/**
+ * Absolute URL of a page of the route's portfolio, on the host it was requested on
+ */
+export function routePageUrl(route: PortfolioRoute, pageType: PageType = 'home'): string {
+  return route.host ? hostPageUrl(route.host, pageType) : portfolioPageUrl(route.slug, pageType);
+}
+
+const findPhotoUrls = cache(async (userId: string): Promise<string[]> => {
+  const photos = await listUserPortfolioPhotos(userId);
+  return photos.map((photo) => photo.photoUrl);
+});
+
+/**
+ * Load a page of a public portfolio
+ * @returns The page, or null if the portfolio has no page of this type
+ * @throws PageContentError if the stored content cannot be read
+ */
+export const loadPublicPage = cache(
+  async <T extends PageType>(portfolio: GeneratedPortfolio, pageType: T): Promise<PublicPage<T> | null> => {
+    const page = await findPortfolioPageByType(portfolio.id, pageType);
+    if (!page) return null;
+
+    // Stored content may use an older schema version
+    const content = readPageContent(pageType, page.content);
+    const photoUrls = await findPhotoUrls(portfolio.userId);
+    const contentPhotos = 'photos' in content ? content.photos : undefined;
+
+    return {
+      id: page.id,
+      title: page.title,
+      content,
+      photos: photoUrls.length > 0 ? photoUrls : contentPhotos || [],
+    };
+  }
+);
+
+/**
+ * Read a page for metadata or share images; unreadable content is logged and skipped
+ */
+export async function loadPageQuietly<T extends PageType>(
+  portfolio: GeneratedPortfolio,
+  pageType: T
+): Promise<PublicPage<T> | null> {
+  try {
+    return await loadPublicPage(portfolio, pageType);
+  } catch (error) {
+    if (error instanceof PageContentError) {
+      console.warn(`Skipping unreadable ${pageType} page:`, error.message);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The person a portfolio is about, from the account and the home and contact pages
+ */
+export const loadPortfolioPerson = cache(async (portfolio: GeneratedPortfolio): Promise<PortfolioPerson> => {
+  const [user, home, contact] = await Promise.all([
+    findUserById(portfolio.userId),
+    loadPageQuietly(portfolio, 'home'),
+    loadPageQuietly(portfolio, 'contact'),
+  ]);
+
+  const methods = contact?.content.contactMethods || [];
+  const email = methods.find((method) => method.type === 'email')?.value;
+  const sameAs = methods
+    .filter((method) => ['linkedin', 'github', 'twitter'].includes(method.type))
+    .map((method) => method.link || method.value)
+    .filter((url) => /^https?:\/\//.test(url));
+
+  return {
+    name: user?.name || home?.content.heroTitle || 'Portfolio',
+    jobTitle: home?.content.heroSubtitle || undefined,
+    description: home?.content.heroDescription || undefined,
+    image: home?.photos[0] || user?.profilePhotoUrl || undefined,
+    email,
+    sameAs,
+  };
+});
@@ -0,0 +1,197 @@
+/**
+ * Portfolio Regeneration
+ *
+ * Regenerates the content of a whole portfolio or a single page from the
+ * stored resume, optionally with extra instructions. The theme is kept
+ * unless a new one is requested, and every run is recorded in
+ * portfolio_generations together with the prompt that was used.
+ */
+
+import {
+  generatePageContent,
+  generatePortfolioContent,
+  MAX_INSTRUCTIONS_LENGTH,
+  type GeneratedContent,
+  type GenerationDetails,
+  type ResumeData,
+  type UserPhotos,
+} from '@/lib/ai/portfolio-generator';
+import {
+  createPortfolioGeneration,
+  findGeneratedPortfolioById,
+  findPortfolioPageByType,
+  findPortfolioThemeByPortfolioId,
+  findResumeById,
+  findUserById,
+  listUserPortfolioPhotos,
+  setPortfolioTheme,
+  updatePortfolioPage,
+} from '@/lib/db/services';
+import type {
+  GeneratedPortfolio,
+  PageType,
+  PortfolioGeneration,
+  PortfolioPage,
+  PortfolioTheme,
+  Resume,
+  User,
+} from '@/lib/db/schema';
+import { generateTheme } from './themes';
+
+const PAGE_TYPES: PageType[] = ['home', 'about', 'portfolio', 'contact'];
+
+/**
+ * Generator input for a stored resume
+ */
+export function toResumeData(resume: Resume): ResumeData {
+  return {
+    resumeUrl: resume.storedLocation || resume.resumeUrl,
+    aiNotes: resume.aiNotes,
+    format: resume.format,
+    originalFilename: resume.originalFilename,
+    encryptionIv: resume.encryptionIv,
+    authTag: resume.authTag,
+  };
+}
+
+/**
+ * Photos used in generated content (profile + first 3 portfolio photos)
+ */
+export async function getGenerationPhotos(user: User): Promise<UserPhotos> {
+  const portfolioPhotos = await listUserPortfolioPhotos(user.id);
+  return {
+    profilePhoto: user.profilePhotoUrl || undefined,
+    portfolioPhotos: portfolioPhotos.slice(0, 3).map((photo) => photo.photoUrl),
+  };
+}
+
+/**
+ * Load a portfolio with its resume and owner, checking ownership
+ * @returns The records, or the HTTP status and message to respond with
+ */
+export async function loadOwnedPortfolio(
+  portfolioId: string,
+  userId: string
+): Promise<
+  | { portfolio: GeneratedPortfolio; resume: Resume; user: User; error?: undefined }
+  | { error: string; status: number }
+> {
+  const portfolio = await findGeneratedPortfolioById(portfolioId);
+  if (!portfolio) {
+    return { error: 'Portfolio not found', status: 404 };
+  }
+  if (portfolio.userId !== userId) {
+    return { error: 'Unauthorized access to this portfolio', status: 403 };
+  }
+
+  const [resume, user] = await Promise.all([findResumeById(portfolio.resumeId), findUserById(userId)]);
+  if (!resume) {
+    return { error: 'Resume not found', status: 404 };
+  }
+  if (!user) {
+    return { error: 'User not found', status: 404 };
+  }
+
+  return { portfolio, resume, user };
+}
+
+/**
+ * Regenerate a whole portfolio or one of its pages
+ * @param options.pageType - Page to regenerate; all pages when absent
+ * @param options.instructions - Extra instructions, e.g. "more formal"
+ * @param options.newTheme - Replace the theme with a random built-in preset instead of keeping it
+ * @throws Error if generation fails or a page is missing
+ */
+export async function regeneratePortfolio(options: {
+  portfolio: GeneratedPortfolio;
+  resume: Resume;
+  user: User;
+  pageType?: PageType;
+  instructions?: string;
+  newTheme?: boolean;
+}): Promise<{
+  pages: PortfolioPage[];
+  theme: PortfolioTheme | null;
+  generation: PortfolioGeneration;
+}> {
+  const { portfolio, pageType } = options;
+  const resumeData = toResumeData(options.resume);
+  const photos = await getGenerationPhotos(options.user);
+  const generationOptions = { instructions: options.instructions };
+
+  let generated: Partial<Record<PageType, GeneratedContent>>;
+  let details: GenerationDetails;
+
+  if (pageType) {
+    const { generation, ...page } = await generatePageContent(pageType, resumeData, photos, generationOptions);
+    generated = { [pageType]: page };
+    details = generation;
+  } else {
+    const { generation, ...pages } = await generatePortfolioContent(resumeData, photos, generationOptions);
+    generated = pages;
+    details = generation;
+  }
+
+  const pages: PortfolioPage[] = [];
+  for (const type of PAGE_TYPES) {
+    const content = generated[type];
+    if (!content) continue;
+
+    const existing = await findPortfolioPageByType(portfolio.id, type);
+    if (!existing) {
+      throw new Error(`Portfolio has no ${type} page`);
+    }
+
+    const updated = await updatePortfolioPage(
+      existing.id,
+      { title: content.title, content: content.content },
+      { source: 'regenerate', createdBy: options.user.id }
+    );
+    if (updated) {
+      pages.push(updated);
+    }
+  }
+
+  const theme = options.newTheme
+    ? await setPortfolioTheme(portfolio.id, generateTheme())
+    : await findPortfolioThemeByPortfolioId(portfolio.id);
+
+  const generation = await createPortfolioGeneration({
+    portfolioId: portfolio.id,
+    pageType,
+    instructions: details.instructions,
+    prompt: details.prompt,
+    provider: details.provider,
+    model: details.model,
+    themeChanged: Boolean(options.newTheme),
+  });
+
+  return { pages, theme, generation };
+}
+
+/**
+ * Validate a regenerate request body
+ * @returns The options, or an error message for a 400 response
+ */
+export function parseRegenerateRequest(
+  body: unknown
+):
+  | { portfolioId: string; instructions?: string; newTheme: boolean; error?: undefined }
+  | { error: string } {
+  const { portfolioId, instructions, newTheme } = (body || {}) as Record<string, unknown>;
+
+  if (typeof portfolioId !== 'string' || !portfolioId) {
+    return { error: 'Portfolio ID is required' };
+  }
+  if (instructions !== undefined && typeof instructions !== 'string') {
+    return { error: 'Instructions must be a string' };
+  }
+  if (typeof instructions === 'string' && instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+    return { error: `Instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters` };
+  }
+  if (newTheme !== undefined && typeof newTheme !== 'boolean') {
+    return { error: 'newTheme must be a boolean' };
+  }
+
+  return { portfolioId, instructions: instructions || undefined, newTheme: newTheme === true };
+}
@@ -0,0 +1,125 @@
+/**
+ * Portfolio Page Revisions
+ *
+ * Every write to a page's title or content is stored in
+ * portfolio_page_revisions (see updatePortfolioPage). This module compares
+ * two revisions field by field on the structured page content and loads
+ * pages for their owner.
+ */
+
+import {
+  findGeneratedPortfolioById,
+  findPortfolioPageById,
+} from '@/lib/db/services';
+import type { PortfolioPage, PortfolioPageRevision } from '@/lib/db/schema';
+import { readPageContent } from './page-content';
+
+export interface ContentChange {
+  // Dotted path into the revision, e.g. "content.highlights[0].title"
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: ContentChange[]
+): void {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ path, type: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, type: 'removed', before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      collectChanges(before[i], after[i], `${path}[${i}]`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path, type: 'changed', before, after });
+  }
+}
+
+/**
+ * Field-by-field differences between two values
+ * Objects are compared by key and arrays by index.
+ */
+export function diffContent(before: unknown, after: unknown): ContentChange[] {
+  const changes: ContentChange[] = [];
+  collectChanges(before, after, '', changes);
+  return changes;
+}
+
+/**
+ * Differences between two revisions of a page
+ * Content is upgraded to the current schema first so revisions saved
+ * under an older version compare by field rather than as one string.
+ */
+export function diffPageRevisions(
+  page: PortfolioPage,
+  from: PortfolioPageRevision,
+  to: PortfolioPageRevision
+): ContentChange[] {
+  const snapshot = (revision: PortfolioPageRevision) => ({
+    title: revision.title,
+    content: readRevisionContent(page, revision),
+  });
+  return diffContent(snapshot(from), snapshot(to));
+}
+
+/**
+ * Parsed content of a revision, or the raw string if it no longer validates
+ */
+function readRevisionContent(page: PortfolioPage, revision: PortfolioPageRevision): unknown {
+  try {
+    return readPageContent(page.pageType, revision.content);
+  } catch {
+    return revision.content;
+  }
+}
+
+/**
+ * Load a page, checking that its portfolio belongs to the user
+ * @returns The page, or the HTTP status and message to respond with
+ */
+export async function loadOwnedPage(
+  pageId: string,
+  userId: string
+): Promise<{ page: PortfolioPage; error?: undefined } | { error: string; status: number }> {
+  const page = await findPortfolioPageById(pageId);
+  if (!page) {
+    return { error: 'Page not found', status: 404 };
+  }
+
+  const portfolio = await findGeneratedPortfolioById(page.portfolioId);
+  if (!portfolio || portfolio.userId !== userId) {
+    return { error: 'Unauthorized access to this page', status: 403 };
+  }
+
+  return { page };
+}
@@ -0,0 +1,610 @@
+/**
+ * Portfolio Themes
+ *
+ * A theme is a set of structured tokens (palette, typography pair, layout
+ * variant, card style and light/dark handling) stored as JSON in
+ * portfolio_themes.tokens. The portfolio layout turns the tokens into CSS
+ * variables (see themeStyleSheet) that the pages read through the
+ * `theme-*` colors and the `theme-card` utility in globals.css.
+ *
+ * Themes saved before tokens existed only have gradient_css; resolveTheme
+ * converts those on read.
+ *
+ * Text must meet WCAG AA contrast (4.5:1) everywhere it is drawn: on the
+ * gradient, on translucent chips and inputs, and on solid cards. Presets and
+ * stored themes are adjusted automatically (ensureThemeContrast); custom
+ * themes that fall short are rejected (validateThemeTokens).
+ *
+ * This module has no server dependencies so the theme picker can build
+ * previews in the browser.
+ */
+
+import { validateJsonSchema, type JsonSchema } from '@/lib/utils/json-schema';
+import {
+  HEX_COLOR_PATTERN,
+  contrastRatio,
+  hexToHsl,
+  hexToRgb,
+  hslToHex,
+  mixColors,
+  relativeLuminance,
+  sampleGradient,
+} from '@/lib/utils/color';
+
+export const THEME_VERSION = 1;
+
+export type ColorScheme = 'light' | 'dark' | 'system';
+export type LayoutVariant = 'classic' | 'centered' | 'wide';
+export type CardStyle = 'glass' | 'solid' | 'outline';
+export type FontPairId = 'modern' | 'classic' | 'editorial' | 'technical' | 'friendly';
+
+export interface ThemePalette {
+  // Gradient stops of the page background
+  background: string[];
+  // Text drawn over the background and cards
+  text: string;
+  // Tint of cards, inputs and chips (drawn translucent)
+  surface: string;
+  // Primary buttons
+  accent: string;
+  accentText: string;
+  // Layer over the background that keeps text readable on light/dark gradients
+  overlay?: {
+    color: string;
+    opacity: number;
+  };
+}
+
+export interface ThemeTokens {
+  version: typeof THEME_VERSION;
+  // Preset the theme was created from, if any
+  preset?: string;
+  name: string;
+  gradientAngle: number;
+  palettes: {
+    light: ThemePalette;
+    dark: ThemePalette;
+  };
+  colorScheme: ColorScheme;
+  typography: FontPairId;
+  layout: LayoutVariant;
+  cardStyle: CardStyle;
+}
+
+export interface ThemePreset {
+  id: string;
+  name: string;
+  tokens: ThemeTokens;
+}
+
+export const FONT_PAIRS: Record<FontPairId, { label: string; heading: string; body: string }> = {
+  modern: {
+    label: 'Modern sans',
+    heading: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    body: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  },
+  classic: {
+    label: 'Serif headings',
+    heading: 'Georgia, Cambria, "Times New Roman", serif',
+    body: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial, sans-serif',
+  },
+  editorial: {
+    label: 'Editorial serif',
+    heading: '"Palatino Linotype", Palatino, "Book Antiqua", Georgia, serif',
+    body: 'Georgia, Cambria, "Times New Roman", serif',
+  },
+  technical: {
+    label: 'Monospace headings',
+    heading: 'ui-monospace, SFMono-Regular, Menlo, Consolas, "Liberation Mono", monospace',
+    body: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial, sans-serif',
+  },
+  friendly: {
+    label: 'Rounded sans',
+    heading: '"Trebuchet MS", "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+    body: '"Trebuchet MS", "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+  },
+};
+
+export const LAYOUT_VARIANTS: Record<LayoutVariant, { label: string; contentWidth: string }> = {
+  classic: { label: 'Classic', contentWidth: '80rem' },
+  centered: { label: 'Centered', contentWidth: '56rem' },
+  wide: { label: 'Wide', contentWidth: '96rem' },
+};
+
+export const CARD_STYLES: Record<CardStyle, { label: string }> = {
+  glass: { label: 'Frosted glass' },
+  solid: { label: 'Solid' },
+  outline: { label: 'Outline' },
+};
+
+// Base color the dark variant of a palette is shaded towards
+const DARK_BASE = '#0b1020';
+
+/**
+ * Dark variant of a light palette: the same hues shaded towards near-black
+ */
+export function darkPaletteFor(light: ThemePalette): ThemePalette {
+  return {
+    background: light.background.map((stop) => mixColors(stop, DARK_BASE, 0.65)),
+    text: '#f8fafc',
+    surface: '#ffffff',
+    accent: mixColors(light.background[0], '#ffffff', 0.75),
+    accentText: '#0f172a',
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Contrast
+// ----------------------------------------------------------------------------
+
+// WCAG 2.x AA for normal-size text
+export const MIN_TEXT_CONTRAST = 4.5;
+
+const LIGHT_TEXT = '#ffffff';
+const DARK_TEXT = '#111827';
+const MAX_OVERLAY_OPACITY = 0.8;
+// Strongest surface tint text is drawn on (chips and buttons use surface at 20%)
+const SURFACE_TINT = 0.2;
+// Share of the surface color in solid cards
+const SOLID_CARD_TINT = 0.12;
+
+export interface ContrastIssue {
+  palette: 'light' | 'dark';
+  element: 'text' | 'button';
+  foreground: string;
+  background: string;
+  ratio: number;
+}
+
+function applyOverlay(color: string, overlay: ThemePalette['overlay']): string {
+  return overlay ? mixColors(color, overlay.color, overlay.opacity) : color;
+}
+
+function solidCardColor(palette: ThemePalette): string {
+  return mixColors(applyOverlay(palette.background[0], palette.overlay), palette.surface, SOLID_CARD_TINT);
+}
+
+/**
+ * Colors text is drawn on: samples of the gradient (under the overlay),
+ * the same tinted by the surface, and solid cards
+ */
+function textBackdrops(palette: ThemePalette, cardStyle: CardStyle): string[] {
+  const samples = sampleGradient(palette.background).map((sample) => applyOverlay(sample, palette.overlay));
+  const backdrops = [...samples, ...samples.map((sample) => mixColors(sample, palette.surface, SURFACE_TINT))];
+  if (cardStyle === 'solid') {
+    backdrops.push(solidCardColor(palette));
+  }
+  return backdrops;
+}
+
+/**
+ * Backdrop with the lowest contrast against a foreground color
+ */
+function lowestContrast(foreground: string, backdrops: string[]): { ratio: number; background: string } {
+  return backdrops.reduce(
+    (lowest, background) => {
+      const ratio = contrastRatio(foreground, background);
+      return ratio < lowest.ratio ? { ratio, background } : lowest;
+    },
+    { ratio: Infinity, background: backdrops[0] }
+  );
+}
+
+/**
+ * Text and button colors of a palette that fall below MIN_TEXT_CONTRAST
+ */
+export function checkPaletteContrast(
+  palette: ThemePalette,
+  cardStyle: CardStyle
+): Array<Omit<ContrastIssue, 'palette'>> {
+  const issues: Array<Omit<ContrastIssue, 'palette'>> = [];
+
+  const text = lowestContrast(palette.text, textBackdrops(palette, cardStyle));
+  if (text.ratio < MIN_TEXT_CONTRAST) {
+    issues.push({ element: 'text', foreground: palette.text, ...text });
+  }
+
+  const button = contrastRatio(palette.accentText, palette.accent);
+  if (button < MIN_TEXT_CONTRAST) {
+    issues.push({ element: 'button', foreground: palette.accentText, background: palette.accent, ratio: button });
+  }
+
+  return issues;
+}
+
+/**
+ * Contrast issues of both palettes of a theme
+ */
+export function checkThemeContrast(theme: ThemeTokens): ContrastIssue[] {
+  return (['light', 'dark'] as const).flatMap((name) =>
+    checkPaletteContrast(theme.palettes[name], theme.cardStyle).map((issue) => ({ palette: name, ...issue }))
+  );
+}
+
+/**
+ * Make a palette meet MIN_TEXT_CONTRAST
+ * Switches the text to white or near-black when that is enough; otherwise
+ * darkens (or lightens) the background with an overlay until it passes.
+ */
+export function ensurePaletteContrast(palette: ThemePalette, cardStyle: CardStyle): ThemePalette {
+  const result: ThemePalette = { ...palette };
+
+  const candidates = [...new Set([palette.text, LIGHT_TEXT, DARK_TEXT])].map((text) => ({
+    text,
+    ratio: lowestContrast(text, textBackdrops(palette, cardStyle)).ratio,
+  }));
+  const passing = candidates.find((candidate) => candidate.ratio >= MIN_TEXT_CONTRAST);
+  result.text = passing ? passing.text : palette.text;
+
+  if (!passing) {
+    // Neither light nor dark text works on this gradient: keep the chosen
+    // text color and shade the background away from it
+    const color = relativeLuminance(result.text) > 0.5 ? '#000000' : '#ffffff';
+    let opacity = palette.overlay?.color === color ? palette.overlay.opacity : 0;
+    do {
+      opacity = Math.min(MAX_OVERLAY_OPACITY, Math.round((opacity + 0.05) * 100) / 100);
+      result.overlay = { color, opacity };
+    } while (
+      opacity < MAX_OVERLAY_OPACITY &&
+      lowestContrast(result.text, textBackdrops(result, cardStyle)).ratio < MIN_TEXT_CONTRAST
+    );
+  }
+
+  if (contrastRatio(result.accentText, result.accent) < MIN_TEXT_CONTRAST) {
+    result.accentText = contrastRatio(LIGHT_TEXT, result.accent) >= contrastRatio(DARK_TEXT, result.accent)
+      ? LIGHT_TEXT
+      : DARK_TEXT;
+    // Mid-tone accents: move the button color away from its text
+    const away = result.accentText === LIGHT_TEXT ? '#000000' : '#ffffff';
+    for (let step = 1; step <= 10 && contrastRatio(result.accentText, result.accent) < MIN_TEXT_CONTRAST; step++) {
+      result.accent = mixColors(palette.accent, away, step / 10);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Make both palettes of a theme meet MIN_TEXT_CONTRAST
+ */
+export function ensureThemeContrast(theme: ThemeTokens): ThemeTokens {
+  return {
+    ...theme,
+    palettes: {
+      light: ensurePaletteContrast(theme.palettes.light, theme.cardStyle),
+      dark: ensurePaletteContrast(theme.palettes.dark, theme.cardStyle),
+    },
+  };
+}
+
+/**
+ * Light palette around a background gradient, before contrast adjustment
+ */
+function basePalette(background: string[]): ThemePalette {
+  return {
+    background,
+    text: LIGHT_TEXT,
+    surface: '#ffffff',
+    accent: '#ffffff',
+    accentText: DARK_TEXT,
+  };
+}
+
+/**
+ * Theme in the default style around a custom background gradient
+ */
+function customTheme(name: string, background: string[], gradientAngle = 135): ThemeTokens {
+  const light = basePalette(background);
+  return ensureThemeContrast({
+    version: THEME_VERSION,
+    name,
+    gradientAngle,
+    palettes: { light, dark: darkPaletteFor(light) },
+    colorScheme: 'light',
+    typography: 'modern',
+    layout: 'classic',
+    cardStyle: 'glass',
+  });
+}
+
+function preset(
+  id: string,
+  name: string,
+  background: string[],
+  style: Pick<ThemeTokens, 'typography' | 'layout' | 'cardStyle'>
+): ThemePreset {
+  const light = basePalette(background);
+
+  return {
+    id,
+    name,
+    tokens: ensureThemeContrast({
+      version: THEME_VERSION,
+      preset: id,
+      name,
+      gradientAngle: 135,
+      palettes: { light, dark: darkPaletteFor(light) },
+      colorScheme: 'light',
+      ...style,
+    }),
+  };
+}
+
+/**
+ * Built-in themes; the first one is the default
+ */
+export const THEME_PRESETS: ThemePreset[] = [
+  preset('indigo-dusk', 'Indigo Dusk', ['#667eea', '#764ba2'], { typography: 'modern', layout: 'classic', cardStyle: 'glass' }),
+  preset('pink-sunset', 'Pink Sunset', ['#f093fb', '#f5576c'], { typography: 'friendly', layout: 'classic', cardStyle: 'glass' }),
+  preset('ocean', 'Ocean', ['#4facfe', '#00f2fe'], { typography: 'modern', layout: 'wide', cardStyle: 'glass' }),
+  preset('mint', 'Mint', ['#43e97b', '#38f9d7'], { typography: 'friendly', layout: 'centered', cardStyle: 'glass' }),
+  preset('citrus', 'Citrus', ['#fa709a', '#fee140'], { typography: 'friendly', layout: 'classic', cardStyle: 'solid' }),
+  preset('deep-sea', 'Deep Sea', ['#30cfd0', '#330867'], { typography: 'technical', layout: 'wide', cardStyle: 'outline' }),
+  preset('cotton-candy', 'Cotton Candy', ['#a8edea', '#fed6e3'], { typography: 'classic', layout: 'centered', cardStyle: 'glass' }),
+  preset('blush', 'Blush', ['#ff9a9e', '#fecfef'], { typography: 'editorial', layout: 'centered', cardStyle: 'glass' }),
+  preset('peach', 'Peach', ['#ffecd2', '#fcb69f'], { typography: 'editorial', layout: 'classic', cardStyle: 'solid' }),
+  preset('coral-sky', 'Coral Sky', ['#ff6e7f', '#bfe9ff'], { typography: 'modern', layout: 'classic', cardStyle: 'glass' }),
+  preset('lavender', 'Lavender', ['#e0c3fc', '#8ec5fc'], { typography: 'classic', layout: 'classic', cardStyle: 'outline' }),
+  preset('amber', 'Amber', ['#f8b500', '#fceabb'], { typography: 'technical', layout: 'classic', cardStyle: 'solid' }),
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0].tokens;
+
+/**
+ * Find a built-in theme by ID
+ */
+export function findThemePreset(id: string): ThemePreset | null {
+  return THEME_PRESETS.find((candidate) => candidate.id === id) || null;
+}
+
+/**
+ * Pick a random built-in theme for a new portfolio
+ */
+export function generateTheme(): ThemeTokens {
+  return structuredClone(THEME_PRESETS[Math.floor(Math.random() * THEME_PRESETS.length)].tokens);
+}
+
+// ----------------------------------------------------------------------------
+// Themes from photos
+// ----------------------------------------------------------------------------
+
+export interface PhotoColor {
+  color: string;
+  // Share of the photo's pixels closest to this color, 0..1
+  share: number;
+}
+
+function hueDistance(a: number, b: number): number {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+}
+
+/**
+ * Theme matching the dominant colors of the owner's photos
+ * The most common colorful tone becomes the first gradient stop and the
+ * strongest tone with a related hue the second (an analogous hue when there
+ * is none). Muted, very dark and very light tones such as backdrops and
+ * shadows rank lower. Text colors are then adjusted for contrast.
+ * @returns The theme, or null when there are no colors
+ */
+export function themeFromPhotoColors(colors: PhotoColor[]): ThemeTokens | null {
+  if (colors.length === 0) {
+    return null;
+  }
+
+  const tones = colors
+    .map(({ color, share }) => {
+      const [hue, saturation, lightness] = hexToHsl(color);
+      return { hue, saturation, lightness, score: share * (0.25 + saturation) * (1 - Math.abs(lightness - 0.5)) };
+    })
+    .sort((a, b) => b.score - a.score);
+  const [dominant, ...others] = tones;
+  const partner = others.find(
+    (tone) =>
+      tone.saturation >= 0.15 &&
+      hueDistance(tone.hue, dominant.hue) >= 20 &&
+      hueDistance(tone.hue, dominant.hue) <= 150
+  );
+
+  // Keep the stops vivid enough for a gradient and away from black and white;
+  // black-and-white photos get a muted slate instead of an arbitrary hue
+  const grayscale = dominant.saturation < 0.08;
+  const saturate = (value: number) => (grayscale ? 0.15 : Math.min(0.85, Math.max(0.4, value)));
+  const lighten = (value: number) => Math.min(0.65, Math.max(0.35, value));
+  const hue = grayscale ? 220 : dominant.hue;
+  const background = [
+    hslToHex(hue, saturate(dominant.saturation), lighten(dominant.lightness)),
+    partner
+      ? hslToHex(partner.hue, saturate(partner.saturation), lighten(partner.lightness))
+      : hslToHex(hue + 35, saturate(dominant.saturation), lighten(dominant.lightness + 0.08)),
+  ];
+
+  return customTheme('Matched to your photos', background);
+}
+
+// ----------------------------------------------------------------------------
+// Validation
+// ----------------------------------------------------------------------------
+
+const color: JsonSchema = { type: 'string', pattern: HEX_COLOR_PATTERN };
+
+const paletteSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    background: { type: 'array', items: color, minItems: 1, maxItems: 5 },
+    text: color,
+    surface: color,
+    accent: color,
+    accentText: color,
+    overlay: {
+      type: 'object',
+      properties: {
+        color,
+        opacity: { type: 'number', minimum: 0, maximum: MAX_OVERLAY_OPACITY },
+      },
+      required: ['color', 'opacity'],
+      additionalProperties: false,
+    },
+  },
+  required: ['background', 'text', 'surface', 'accent', 'accentText'],
+  additionalProperties: false,
+};
+
+export const THEME_TOKENS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    version: { const: THEME_VERSION },
+    preset: { type: 'string', maxLength: 100 },
+    name: { type: 'string', minLength: 1, maxLength: 100 },
+    gradientAngle: { type: 'integer', minimum: 0, maximum: 360 },
+    palettes: {
+      type: 'object',
+      properties: { light: paletteSchema, dark: paletteSchema },
+      required: ['light', 'dark'],
+      additionalProperties: false,
+    },
+    colorScheme: { enum: ['light', 'dark', 'system'] },
+    typography: { enum: Object.keys(FONT_PAIRS) },
+    layout: { enum: Object.keys(LAYOUT_VARIANTS) },
+    cardStyle: { enum: Object.keys(CARD_STYLES) },
+  },
+  required: ['version', 'name', 'gradientAngle', 'palettes', 'colorScheme', 'typography', 'layout', 'cardStyle'],
+  additionalProperties: false,
+};
+
+/**
+ * Validate theme tokens, e.g. a custom theme sent by the owner
+ * Every value ends up in a style sheet, so only the schema's formats are
+ * accepted, and text must meet MIN_TEXT_CONTRAST in both palettes.
+ * @returns The tokens, or the validation errors
+ */
+export function validateThemeTokens(
+  value: unknown
+): { theme: ThemeTokens; errors?: undefined } | { theme?: undefined; errors: string[] } {
+  const errors = validateJsonSchema(value, THEME_TOKENS_SCHEMA);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const issues = checkThemeContrast(value as ThemeTokens);
+  if (issues.length > 0) {
+    return {
+      errors: issues.map(
+        (issue) =>
+          `$.palettes.${issue.palette}: ${issue.element} color ${issue.foreground} on ${issue.background} ` +
+          `has contrast ${issue.ratio.toFixed(2)}:1, at least ${MIN_TEXT_CONTRAST}:1 is required`
+      ),
+    };
+  }
+  return { theme: value as ThemeTokens };
+}
+
+// ----------------------------------------------------------------------------
+// Legacy themes and CSS output
+// ----------------------------------------------------------------------------
+
+/**
+ * Tokens for a theme saved as a gradient CSS string only
+ * Known gradients map back to their preset; others keep their colors.
+ */
+export function themeFromGradientCss(gradientCss: string): ThemeTokens {
+  const stops = (gradientCss.match(/#[0-9a-fA-F]{6}\b/g) || []).map((stop) => stop.toLowerCase());
+  if (stops.length === 0) {
+    return structuredClone(DEFAULT_THEME);
+  }
+
+  const known = THEME_PRESETS.find((candidate) => candidate.tokens.palettes.light.background.join() === stops.join());
+  if (known) {
+    return structuredClone(known.tokens);
+  }
+
+  const angle = parseInt(gradientCss.match(/(\d+)deg/)?.[1] || '135', 10);
+  return customTheme('Custom', stops.slice(0, 5), Math.min(360, angle));
+}
+
+/**
+ * Tokens for a stored theme row (or the default theme when there is none)
+ * Themes stored before contrast was enforced are adjusted on read.
+ */
+export function resolveTheme(theme: { gradientCss: string; tokens?: ThemeTokens | null } | null): ThemeTokens {
+  if (!theme) {
+    return structuredClone(DEFAULT_THEME);
+  }
+  if (theme.tokens && validateJsonSchema(theme.tokens, THEME_TOKENS_SCHEMA).length === 0) {
+    return ensureThemeContrast(theme.tokens);
+  }
+  return themeFromGradientCss(theme.gradientCss);
+}
+
+/**
+ * CSS gradient for a palette's background
+ */
+export function themeBackgroundCss(palette: ThemePalette, angle = 135): string {
+  const stops = palette.background;
+  const positions = stops.map((stop, i) => `${stop} ${Math.round((i / Math.max(1, stops.length - 1)) * 100)}%`);
+  const gradient = stops.length === 1 ? stops[0] : `linear-gradient(${angle}deg, ${positions.join(', ')})`;
+  if (!palette.overlay) {
+    return gradient;
+  }
+
+  const overlay = rgba(palette.overlay.color, palette.overlay.opacity);
+  return `linear-gradient(${overlay}, ${overlay}), ${gradient}`;
+}
+
+function rgba(hex: string, alpha: number): string {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * CSS custom properties for one palette
+ */
+function paletteVariables(theme: ThemeTokens, palette: ThemePalette): Record<string, string> {
+  const card: Record<CardStyle, [string, string, string]> = {
+    glass: [rgba(palette.surface, 0.1), rgba(palette.surface, 0.2), 'blur(12px)'],
+    solid: [solidCardColor(palette), 'transparent', 'none'],
+    outline: ['transparent', rgba(palette.surface, 0.6), 'none'],
+  };
+  const [cardBg, cardBorder, cardFilter] = card[theme.cardStyle];
+
+  return {
+    '--theme-background': themeBackgroundCss(palette, theme.gradientAngle),
+    '--theme-text': palette.text,
+    '--theme-surface': palette.surface,
+    '--theme-accent': palette.accent,
+    '--theme-accent-text': palette.accentText,
+    '--theme-card-bg': cardBg,
+    '--theme-card-border': cardBorder,
+    '--theme-card-filter': cardFilter,
+  };
+}
+
+function declarations(variables: Record<string, string>): string {
+  return Object.entries(variables).map(([name, value]) => `${name}: ${value};`).join(' ');
+}
+
+/**
+ * Style sheet applying a theme to the elements matching `selector`
+ * With the "system" color scheme the dark palette is used when the
+ * visitor's device prefers dark mode.
+ */
+export function themeStyleSheet(theme: ThemeTokens, selector: string): string {
+  const fonts = FONT_PAIRS[theme.typography];
+  const shared = declarations({
+    '--theme-font-heading': fonts.heading,
+    '--theme-font-body': fonts.body,
+    '--theme-content-width': LAYOUT_VARIANTS[theme.layout].contentWidth,
+  });
+  const light = declarations(paletteVariables(theme, theme.palettes.light));
+  const dark = declarations(paletteVariables(theme, theme.palettes.dark));
+
+  if (theme.colorScheme === 'system') {
+    return [
+      `${selector} { ${shared} ${light} color-scheme: light dark; }`,
+      `@media (prefers-color-scheme: dark) { ${selector} { ${dark} } }`,
+    ].join('\n');
+  }
+
+  const scheme = theme.colorScheme === 'dark' ? dark : light;
+  return `${selector} { ${shared} ${scheme} color-scheme: ${theme.colorScheme}; }`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Portfolio URLs
+ *
+ * Public portfolio pages live under a vanity slug: `/p/{slug}` for the home
+ * page and `/p/{slug}/{about|projects|contact}` for the others. A slug is a
+ * handle such as `jane-doe`, optionally followed by a name for one of the
+ * owner's portfolios: `jane-doe/backend`. portfolio_pages.public_url is
+ * always built from the slug with portfolioPageUrl.
+ */
+
+import type { PageType } from '@/lib/db/schema';
+
+// URL segment of each page type; the home page has none
+export const PAGE_SEGMENTS: Record<PageType, string> = {
+  home: 'home',
+  about: 'about',
+  portfolio: 'projects',
+  contact: 'contact',
+};
+
+export const SLUG_MIN_LENGTH = 3;
+export const SLUG_MAX_LENGTH = 40;
+// Handle plus an optional portfolio name
+const MAX_SLUG_PARTS = 2;
+const SLUG_PART_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Page segments could not be told apart from slug parts, the rest are site routes or confusing
+export const RESERVED_SLUGS = new Set([
+  ...Object.values(PAGE_SEGMENTS),
+  'portfolio',
+  'p',
+  'api',
+  'admin',
+  'dashboard',
+  'family',
+  'personal',
+  'login',
+  'logout',
+  'register',
+  'settings',
+  'account',
+  'preview',
+  'edit',
+  'new',
+  'og',
+  'static',
+  'assets',
+  'images',
+  'help',
+  'support',
+  'www',
+  'root',
+  'null',
+  'undefined',
+]);
+
+/**
+ * Absolute base URL of the site, without a trailing slash
+ */
+export function getBaseUrl(): string {
+  return (process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/**
+ * Site-relative path of a portfolio page
+ */
+export function portfolioPath(slug: string, pageType: PageType = 'home'): string {
+  return pageType === 'home' ? `/p/${slug}` : `/p/${slug}/${PAGE_SEGMENTS[pageType]}`;
+}
+
+/**
+ * Absolute URL of a portfolio page, as stored in portfolio_pages.public_url
+ */
+export function portfolioPageUrl(slug: string, pageType: PageType = 'home'): string {
+  return `${getBaseUrl()}${portfolioPath(slug, pageType)}`;
+}
+
+/**
+ * Page type of a URL segment, e.g. "projects" -> "portfolio"
+ */
+export function pageTypeFromSegment(segment: string): PageType | undefined {
+  return (Object.keys(PAGE_SEGMENTS) as PageType[]).find((type) => PAGE_SEGMENTS[type] === segment.toLowerCase());
+}
+
+/**
+ * Split the segments after `/p/` into a slug and a page
+ * @returns null when the path cannot be a portfolio page
+ */
+export function parsePortfolioPath(segments: string[]): { slug: string; pageType: PageType } | null {
+  const parts = segments.map((segment) => segment.toLowerCase());
+  const pageType = pageTypeFromSegment(parts[parts.length - 1] || '');
+  const slugParts = pageType ? parts.slice(0, -1) : parts;
+
+  if (slugParts.length === 0 || slugParts.length > MAX_SLUG_PARTS) {
+    return null;
+  }
+  return { slug: slugParts.join('/'), pageType: pageType || 'home' };
+}
+
+/**
+ * Clean up user input: lowercase, no surrounding slashes or spaces
+ */
+export function normalizeSlug(input: string): string {
+  return input.trim().toLowerCase().replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Check a (normalized) slug against the format and reserved words
+ * @returns An error message, or null if the slug is valid
+ */
+export function validatePortfolioSlug(slug: string): string | null {
+  const parts = slug.split('/');
+  if (parts.length > MAX_SLUG_PARTS) {
+    return 'A URL can have at most two parts, e.g. jane-doe/backend';
+  }
+
+  for (const part of parts) {
+    if (part.length < SLUG_MIN_LENGTH || part.length > SLUG_MAX_LENGTH) {
+      return `Each part of the URL must be ${SLUG_MIN_LENGTH} to ${SLUG_MAX_LENGTH} characters`;
+    }
+    if (!SLUG_PART_PATTERN.test(part)) {
+      return 'Use lowercase letters, numbers and single hyphens, not at the start or end';
+    }
+    if (RESERVED_SLUGS.has(part)) {
+      return `"${part}" is reserved`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn a name into a valid single-part slug, e.g. "Zoë O'Brien" -> "zoe-obrien"
+ */
+export function slugify(text: string): string {
+  let slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/-+$/, '');
+
+  if (slug.length < SLUG_MIN_LENGTH || RESERVED_SLUGS.has(slug)) {
+    slug = slug ? `${slug}-portfolio` : 'my-portfolio';
+  }
+  return slug;
+}
@@ -0,0 +1,67 @@
+/**
+ * Portfolio Visibility
+ *
+ * Generated portfolios start out as drafts that only their owner can see.
+ * Publishing makes them public; unlisted portfolios are public too, but kept
+ * out of search engines. Before publishing, owners can share a draft through
+ * a preview link: a signed token that expires, exchanged for a cookie by
+ * GET /api/portfolio/preview.
+ */
+
+import type { GeneratedPortfolio, PortfolioVisibility } from '@/lib/db/schema';
+import { createPreviewToken, verifyPreviewToken } from '@/lib/security/jwt';
+import { getBaseUrl } from './urls';
+
+export const PORTFOLIO_VISIBILITIES: PortfolioVisibility[] = ['draft', 'published', 'unlisted'];
+
+// Cookie holding the preview token of the draft being previewed
+export const PREVIEW_COOKIE = 'portfolioPreview';
+export const DEFAULT_PREVIEW_HOURS = 72;
+export const MAX_PREVIEW_HOURS = 24 * 30;
+
+/**
+ * Preview links can be turned off with ENABLE_STAGING_PREVIEW=false
+ */
+export function isStagingPreviewEnabled(): boolean {
+  return process.env.ENABLE_STAGING_PREVIEW !== 'false';
+}
+
+/**
+ * Whether publishing needs the owner to confirm they reviewed the AI-generated
+ * content (REQUIRE_HUMAN_APPROVAL, on unless set to false)
+ */
+export function isHumanApprovalRequired(): boolean {
+  return process.env.REQUIRE_HUMAN_APPROVAL !== 'false';
+}
+
+/**
+ * Whether a viewer may see a portfolio
+ * Published and unlisted portfolios are visible to everyone, drafts to the
+ * owner and to holders of a valid preview token for the portfolio.
+ */
+export function canViewPortfolio(
+  portfolio: GeneratedPortfolio,
+  viewerId: string | null,
+  previewToken?: string
+): boolean {
+  if (portfolio.visibility !== 'draft' || viewerId === portfolio.userId) {
+    return true;
+  }
+  return Boolean(previewToken && isStagingPreviewEnabled() && verifyPreviewToken(previewToken) === portfolio.id);
+}
+
+/**
+ * Create a preview link for a portfolio
+ * @param hours - Lifetime of the link, at most MAX_PREVIEW_HOURS
+ */
+export function createPreviewLink(
+  portfolioId: string,
+  hours: number = DEFAULT_PREVIEW_HOURS
+): { url: string; expiresAt: Date } {
+  const seconds = Math.round(Math.min(Math.max(hours, 1), MAX_PREVIEW_HOURS) * 3600);
+  const token = createPreviewToken(portfolioId, seconds);
+  return {
+    url: `${getBaseUrl()}/api/portfolio/preview?token=${encodeURIComponent(token)}`,
+    expiresAt: new Date(Date.now() + seconds * 1000),
+  };
+}
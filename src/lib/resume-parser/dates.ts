@@ -0,0 +1,130 @@
+/**
+ * Resume Date Normalization
+ *
+ * Finds date ranges such as "Jan 2019 – Present", "03/2017 - 06/2019"
+ * or "2015 to 2019" and normalizes them:
+ * - Month + year  -> "YYYY-MM"
+ * - Year only     -> "YYYY"
+ * - Ongoing roles -> "Present"
+ */
+
+export const PRESENT = 'Present';
+
+export interface DateRange {
+  startDate: string;
+  endDate?: string;
+  // Position of the matched range in the input string
+  index: number;
+  length: number;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1,
+  feb: 2, february: 2,
+  mar: 3, march: 3,
+  apr: 4, april: 4,
+  may: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12,
+};
+
+const MONTH_NAME = '\\b(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const SEASON = '\\b(?:spring|summer|fall|autumn|winter)';
+const YEAR = '\\b(?:19|20)\\d{2}\\b';
+
+// A single date: "Jan 2019", "January, 2019", "01/2019", "2019-01", "Summer 2018", "2019"
+const SINGLE_DATE = `(?:${MONTH_NAME},?\\s+${YEAR}|${SEASON}\\s+${YEAR}|\\d{1,2}\\s*[/.]\\s*${YEAR}|${YEAR}\\s*[-/.]\\s*\\d{1,2}(?!\\d)|${YEAR})`;
+const ONGOING = '\\b(?:present|current(?:ly)?|now|today|ongoing|to date)';
+const RANGE_SEPARATOR = '\\s*(?:-|–|—|~|to|until|till|through)\\s*';
+
+const RANGE_PATTERN = new RegExp(
+  `(${SINGLE_DATE})(?:${RANGE_SEPARATOR}(${SINGLE_DATE}|${ONGOING}))?`,
+  'i'
+);
+
+/**
+ * Normalize a single date expression
+ * @param value - Raw date text, e.g. "Sept. 2019" or "03/2017"
+ * @returns Normalized date ("YYYY-MM", "YYYY" or "Present"), or null if not a date
+ */
+export function normalizeDate(value: string): string | null {
+  const text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (new RegExp(`^${ONGOING}$`, 'i').test(text)) {
+    return PRESENT;
+  }
+
+  let match = text.match(new RegExp(`^(${MONTH_NAME}),? (${YEAR})$`, 'i'));
+  if (match) {
+    const month = MONTHS[match[1].replace('.', '')];
+    return `${match[2]}-${String(month).padStart(2, '0')}`;
+  }
+
+  match = text.match(new RegExp(`^${SEASON} (${YEAR})$`, 'i'));
+  if (match) {
+    return match[1];
+  }
+
+  match = text.match(new RegExp(`^(\\d{1,2}) ?[/.] ?(${YEAR})$`));
+  if (match && Number(match[1]) >= 1 && Number(match[1]) <= 12) {
+    return `${match[2]}-${match[1].padStart(2, '0')}`;
+  }
+
+  match = text.match(new RegExp(`^(${YEAR}) ?[-/.] ?(\\d{1,2})$`));
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) {
+    return `${match[1]}-${match[2].padStart(2, '0')}`;
+  }
+
+  match = text.match(new RegExp(`^(${YEAR})$`));
+  if (match) {
+    return match[1];
+  }
+
+  return null;
+}
+
+/**
+ * Find and normalize the first date range in a line of text
+ * A lone date is returned as a range with only a start date.
+ * @param text - Line of resume text
+ * @returns Normalized range, or null if the line contains no date
+ */
+export function findDateRange(text: string): DateRange | null {
+  const match = RANGE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const startDate = normalizeDate(match[1]);
+  if (!startDate) {
+    return null;
+  }
+
+  const endDate = match[2] ? normalizeDate(match[2]) || undefined : undefined;
+
+  return {
+    startDate,
+    endDate,
+    index: match.index,
+    length: match[0].length,
+  };
+}
+
+/**
+ * Remove a matched date range from a line, cleaning up leftover separators
+ */
+export function stripDateRange(text: string, range: DateRange): string {
+  const without = text.slice(0, range.index) + text.slice(range.index + range.length);
+  return without
+    .replace(/\(\s*\)/g, '')
+    .replace(/\s*([|•·,])\s*\1\s*/g, ' $1 ')
+    .replace(/\s*[|,•·–—-]\s*$/, '')
+    .replace(/^\s*[|,•·–—-]\s*/, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
@@ -0,0 +1,153 @@
+/**
+ * DOCX Text Extraction
+ *
+ * Converts Word documents to plain text with mammoth.
+ * The document is converted to HTML first so that paragraphs, list items
+ * and table rows keep their structure (a raw text dump flattens them).
+ */
+
+import mammoth from 'mammoth';
+import { ResumeParseError } from './errors';
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+interface TableCell {
+  lines: string[];
+}
+
+/**
+ * Decode the HTML entities mammoth emits
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert mammoth HTML output to plain text
+ * - Paragraphs and headings become lines, headings are preceded by a blank line
+ * - List items become "• item" lines, indented by nesting depth
+ * - Table rows with single-line cells are joined with " | ",
+ *   layout tables (multi-paragraph cells) are read cell by cell
+ */
+function docxHtmlToText(html: string): string {
+  const output: string[] = [];
+  const tokens = html.match(/<[^>]+>|[^<]+/g) || [];
+
+  let buffer = '';
+  let listDepth = 0;
+  let row: TableCell[] | null = null;
+  let cell: TableCell | null = null;
+
+  const pushLine = (line: string) => {
+    if (!line.trim()) return;
+    if (cell) {
+      cell.lines.push(line);
+    } else {
+      output.push(line);
+    }
+  };
+
+  const flushBuffer = (prefix = '') => {
+    const text = buffer.replace(/\s+/g, ' ').trim();
+    if (text) pushLine(prefix + text);
+    buffer = '';
+  };
+
+  for (const token of tokens) {
+    if (!token.startsWith('<')) {
+      buffer += decodeEntities(token);
+      continue;
+    }
+
+    const match = token.match(/^<(\/?)([a-z0-9]+)/i);
+    if (!match) continue;
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+
+    if (tag === 'br') {
+      flushBuffer();
+    } else if (BLOCK_TAGS.has(tag)) {
+      if (!closing && tag.startsWith('h') && !cell && output.length > 0) {
+        output.push('');
+      }
+      flushBuffer();
+    } else if (tag === 'ul' || tag === 'ol') {
+      flushBuffer(listDepth > 0 ? `${'  '.repeat(listDepth - 1)}• ` : '');
+      listDepth += closing ? -1 : 1;
+      listDepth = Math.max(0, listDepth);
+    } else if (tag === 'li') {
+      flushBuffer(`${'  '.repeat(Math.max(0, listDepth - 1))}• `);
+    } else if (tag === 'tr') {
+      if (closing && row) {
+        const cells = row.filter((c) => c.lines.length > 0);
+        if (cells.every((c) => c.lines.length === 1)) {
+          pushLine(cells.map((c) => c.lines[0]).join(' | '));
+        } else {
+          cells.forEach((c) => c.lines.forEach((line) => output.push(line)));
+        }
+        row = null;
+      } else if (!closing) {
+        row = [];
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      flushBuffer();
+      if (closing) {
+        cell = null;
+      } else {
+        cell = { lines: [] };
+        row?.push(cell);
+      }
+    } else if (tag === 'table') {
+      flushBuffer();
+      if (output.length > 0 && output[output.length - 1] !== '') {
+        output.push('');
+      }
+    }
+  }
+  flushBuffer();
+
+  return output
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract structured plain text from a DOCX file
+ * @param buffer - DOCX file buffer
+ * @returns Extracted plain text
+ */
+export async function extractDocxText(buffer: Buffer): Promise<string> {
+  let html: string;
+
+  try {
+    const result = await mammoth.convertToHtml(
+      { buffer },
+      {
+        // Resumes only need text; skip base64-encoding embedded photos
+        convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+        ignoreEmptyParagraphs: true,
+      }
+    );
+    html = result.value;
+  } catch (error) {
+    throw new ResumeParseError('INVALID_DOCUMENT', 'The uploaded file is not a readable DOCX document', {
+      cause: error,
+    });
+  }
+
+  const text = docxHtmlToText(html);
+  if (!text) {
+    throw new ResumeParseError('EMPTY_DOCUMENT', 'The uploaded document does not contain any text');
+  }
+
+  return text;
+}
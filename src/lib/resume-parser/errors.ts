@@ -0,0 +1,58 @@
+/**
+ * Resume parser errors
+ * Typed errors so API routes can tell the user why a file could not be read
+ */
+
+export type ResumeParseErrorCode =
+  | 'ENCRYPTED_PDF'
+  | 'SCANNED_PDF'
+  | 'EMPTY_DOCUMENT'
+  | 'INVALID_DOCUMENT'
+  | 'UNSUPPORTED_FORMAT';
+
+/**
+ * Base error for all resume parsing failures
+ */
+export class ResumeParseError extends Error {
+  readonly code: ResumeParseErrorCode;
+
+  constructor(code: ResumeParseErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ResumeParseError';
+    this.code = code;
+  }
+}
+
+/**
+ * PDF is password protected and cannot be opened
+ */
+export class EncryptedPdfError extends ResumeParseError {
+  constructor(options?: { cause?: unknown }) {
+    super(
+      'ENCRYPTED_PDF',
+      'This PDF is password protected. Please upload an unlocked copy.',
+      options
+    );
+    this.name = 'EncryptedPdfError';
+  }
+}
+
+/**
+ * PDF only contains images (e.g. a scanned paper resume) and no text layer
+ */
+export class ScannedPdfError extends ResumeParseError {
+  constructor() {
+    super(
+      'SCANNED_PDF',
+      'This PDF appears to be a scanned image with no selectable text. Please upload a text-based PDF or DOCX.'
+    );
+    this.name = 'ScannedPdfError';
+  }
+}
+
+/**
+ * Check if an error is a resume parse error
+ */
+export function isResumeParseError(error: unknown): error is ResumeParseError {
+  return error instanceof ResumeParseError;
+}
@@ -0,0 +1,670 @@
+/**
+ * Section Field Extraction
+ *
+ * Turns the lines of each resume section into the structured entries of
+ * ParsedResume (work experience, education, skills, projects, ...).
+ * Entries are found by grouping header lines, description lines and bullet
+ * highlights; dates are normalized with ./dates.
+ */
+
+import type { ParsedResume, ResumeFieldConfidence, SourceSpan } from './types';
+import { findDateRange, stripDateRange, type DateRange } from './dates';
+import { isBulletLine, stripBullet, type ResumeLine } from './sections';
+
+type WorkExperience = ParsedResume['workExperience'][number];
+type Education = ParsedResume['education'][number];
+type Project = NonNullable<ParsedResume['projects']>[number];
+type Certification = NonNullable<ParsedResume['certifications']>[number];
+type Language = NonNullable<ParsedResume['languages']>[number];
+
+/**
+ * A group of lines describing one entry (a job, a degree, a project)
+ */
+export interface EntryBlock {
+  header: ResumeLine[];
+  body: ResumeLine[];
+  bullets: ResumeLine[];
+  dates?: DateRange & { line: ResumeLine };
+}
+
+// Lines longer than this (or ending in a full stop) are treated as prose, not entry headers
+const MAX_HEADER_LENGTH = 90;
+
+const TITLE_KEYWORDS = /\b(engineer|developer|programmer|manager|director|lead|head|intern|internship|analyst|consultant|designer|architect|scientist|specialist|administrator|officer|coordinator|vp|vice president|president|founder|co-founder|cto|ceo|cfo|coo|owner|associate|assistant|teacher|lecturer|professor|researcher|research assistant|technician|representative|supervisor|advisor|strategist|editor|writer|accountant|nurse|physician|doctor|attorney|paralegal|trainee|fellow|contractor|freelancer|freelance|sre|devops|qa|tester|product owner|scrum master)s?\b/i;
+
+// Company name endings ("Acme Corp", "Globex Inc.")
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|sa|se|bv|nv|plc|pvt|group|technologies|technology|labs|solutions|systems|software|studio|studios|agency|consulting|partners|bank|holdings|ventures|foundation|university|college|institute|hospital)\b\.?$/i;
+
+const LOCATION_PATTERN = /^(remote|hybrid|on-?site|[A-Z][A-Za-z.'-]+(?:\s[A-Z][A-Za-z.'-]+)*,\s*(?:[A-Z]{2}|[A-Z][a-z]+(?:\s[A-Z][a-z]+)*))$/;
+
+const INSTITUTION_KEYWORDS = /\b(university|universit[äe]t|universit[ée]|college|institute|institut|school|academy|polytechnic|conservatory|seminary)\b/i;
+
+const DEGREE_PATTERN = /^((?:bachelor|master|doctor|associate)(?:'?s)?(?:\s+(?:degree\s+)?of\s+(?:science|arts|engineering|business administration|fine arts|technology|laws|philosophy|education|commerce|applied science))?|ph\.?\s?d\.?|mba|m\.?b\.?a\.?|b\.?\s?sc?\.?|m\.?\s?sc?\.?|b\.?\s?a\.?|m\.?\s?a\.?|b\.?\s?eng\.?|m\.?\s?eng\.?|b\.?\s?tech\.?|m\.?\s?tech\.?|b\.?\s?e\.?|m\.?\s?e\.?|b\.?\s?com\.?|m\.?\s?com\.?|high school diploma|diploma|certificate)(?![a-z])\.?\s*(?:(?:in|of|,|-|–|—)\s+)?(.*)$/i;
+
+// Separators between fields on an entry header line
+const HEADER_SEPARATOR = /\s+[|•·]\s+|\s+[–—-]\s+|\s+@\s+|\s+at\s+|\t+|\s{3,}/;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s,;|)]+|\b(?:github|gitlab|bitbucket)\.(?:com|org)\/[^\s,;|)]+/gi;
+
+/**
+ * A parsed value with the confidence of each of its fields, keyed by path
+ * relative to the value ("company", "highlights.0"; "" for the value itself)
+ */
+export interface ScoredEntry<T> {
+  value: T;
+  fields: ResumeFieldConfidence;
+}
+
+// Confidence by how a field was identified
+export const CONFIDENCE: Record<'pattern' | 'keyword' | 'position' | 'guess', number> = {
+  // Unambiguous pattern: a date range, "University", a degree, a bullet
+  pattern: 0.9,
+  // Keyword or label match: a job title word, "Tech Stack:"
+  keyword: 0.75,
+  // Inferred from its place in the entry ("the part after the title")
+  position: 0.5,
+  // Leftover text with nothing else to go on
+  guess: 0.3,
+};
+
+/**
+ * Record the confidence of a field, skipping empty values
+ */
+function recordField(
+  fields: ResumeFieldConfidence,
+  key: string,
+  value: string | undefined,
+  confidence: number,
+  source?: SourceSpan
+): void {
+  if (value) {
+    fields[key] = source ? { confidence, source } : { confidence };
+  }
+}
+
+/**
+ * Record the start/end date confidence of an entry
+ * A full range is more trustworthy than a lone year.
+ */
+function recordDates(fields: ResumeFieldConfidence, block: EntryBlock): void {
+  if (!block.dates) return;
+
+  const source = dateSpan(block.dates.line, block.dates);
+  const confidence = block.dates.endDate ? CONFIDENCE.pattern : CONFIDENCE.keyword;
+  recordField(fields, 'startDate', block.dates.startDate, confidence, source);
+  recordField(fields, 'endDate', block.dates.endDate, confidence, source);
+}
+
+/**
+ * Span of a date range found in a line
+ */
+function dateSpan(line: ResumeLine, range: DateRange): SourceSpan {
+  return { start: line.start + range.index, end: line.start + range.index + range.length };
+}
+
+/**
+ * Span covering a run of lines
+ */
+function spanOf(lines: ResumeLine[]): SourceSpan | undefined {
+  if (lines.length === 0) return undefined;
+  return { start: lines[0].start, end: lines[lines.length - 1].end };
+}
+
+/**
+ * Find where a value appears in the given lines
+ * Whitespace may differ (values are whitespace-normalized), case is ignored.
+ */
+export function locateValue(value: string | undefined, lines: ResumeLine[]): SourceSpan | undefined {
+  if (!value) return undefined;
+
+  const pattern = new RegExp(
+    value.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'),
+    'i'
+  );
+  for (const line of lines) {
+    const match = pattern.exec(line.text);
+    if (match) {
+      return { start: line.start + match.index, end: line.start + match.index + match[0].length };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a line reads like prose rather than an entry header
+ */
+function isProse(text: string): boolean {
+  return text.length > MAX_HEADER_LENGTH || /[.!?]$/.test(text);
+}
+
+/**
+ * Check whether a line continues the previous bullet (wrapped PDF/DOCX line)
+ */
+function isContinuation(previous: ResumeLine, text: string): boolean {
+  return /^[a-z(]/.test(text) || /(?:[,;:&/-]|\band|\bor|\bthe|\bof|\bwith|\bfor|\bto)$/i.test(previous.text);
+}
+
+/**
+ * Merge a wrapped line into the previous line
+ */
+function mergeLines(first: ResumeLine, second: ResumeLine, text: string): ResumeLine {
+  return { text: `${first.text} ${text}`, start: first.start, end: second.end };
+}
+
+/**
+ * Group section lines into entry blocks
+ * A new entry starts when a header-like line follows bullets or prose,
+ * or when a second dated line appears within the current entry.
+ */
+export function groupEntries(lines: ResumeLine[]): EntryBlock[] {
+  const blocks: EntryBlock[] = [];
+  let current: EntryBlock | null = null;
+  let sawBreak = false;
+
+  for (const line of lines) {
+    if (line.text === '') {
+      sawBreak = true;
+      continue;
+    }
+
+    if (isBulletLine(line.text)) {
+      if (!current) {
+        current = { header: [], body: [], bullets: [] };
+        blocks.push(current);
+      }
+      const text = stripBullet(line.text);
+      current.bullets.push({ text, start: line.end - text.length, end: line.end });
+      sawBreak = false;
+      continue;
+    }
+
+    // Wrapped bullet or prose line
+    const lastBullet: ResumeLine | undefined = current?.bullets[current.bullets.length - 1];
+    if (current && lastBullet && !sawBreak && isContinuation(lastBullet, line.text)) {
+      current.bullets[current.bullets.length - 1] = mergeLines(lastBullet, line, line.text);
+      continue;
+    }
+
+    const range = findDateRange(line.text);
+    const prose = isProse(line.text) && !range;
+
+    if (current && prose && current.bullets.length === 0) {
+      current.body.push(line);
+      sawBreak = false;
+      continue;
+    }
+
+    const startsNew: boolean =
+      !current ||
+      current.bullets.length > 0 ||
+      (current.body.length > 0 && !prose) ||
+      (!!range && !!current.dates) ||
+      (sawBreak && !!current.dates);
+
+    if (startsNew || !current) {
+      current = { header: [], body: [], bullets: [] };
+      blocks.push(current);
+    }
+
+    if (prose) {
+      current.body.push(line);
+    } else {
+      current.header.push(line);
+      if (range && !current.dates) {
+        current.dates = { ...range, line };
+      }
+    }
+    sawBreak = false;
+  }
+
+  return blocks;
+}
+
+/**
+ * Split entry header lines into their individual fields, dates removed
+ */
+function headerParts(block: EntryBlock, splitCommas = false): string[] {
+  const parts: string[] = [];
+
+  for (const line of block.header) {
+    let text = line.text;
+    if (block.dates && block.dates.line === line) {
+      text = stripDateRange(text, block.dates);
+    }
+    text = text.replace(URL_PATTERN, '').replace(/[()]/g, ' ');
+
+    for (const part of text.split(HEADER_SEPARATOR)) {
+      const pieces = splitCommas ? part.split(/\s*,\s*/) : [part];
+      for (const piece of pieces) {
+        const cleaned = piece
+          .replace(/\s+,/g, ',')
+          .replace(/\s+/g, ' ')
+          .replace(/^[\s,|•·–—-]+|[\s,|•·–—-]+$/g, '');
+        if (cleaned) parts.push(cleaned);
+      }
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Split "Senior Engineer, Acme Corp" style parts into title and company
+ */
+function splitTitleAndCompany(part: string): [string, string] | null {
+  const match = part.match(/^(.+?),\s*(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, first, second] = match;
+  if (TITLE_KEYWORDS.test(first) && !COMPANY_SUFFIXES.test(first)) {
+    return [first, second];
+  }
+  if (TITLE_KEYWORDS.test(second) && !COMPANY_SUFFIXES.test(second)) {
+    return [second, first];
+  }
+  return null;
+}
+
+/**
+ * Parse work experience entries
+ */
+export function parseExperience(lines: ResumeLine[]): ScoredEntry<WorkExperience>[] {
+  return groupEntries(lines)
+    .map((block) => {
+      let position = '';
+      let company = '';
+      let location: string | undefined;
+      let positionConfidence = CONFIDENCE.guess;
+      let companyConfidence = CONFIDENCE.guess;
+      const remaining: string[] = [];
+
+      for (let part of headerParts(block)) {
+        // "Zalando SE, Berlin, Germany": split off a trailing location
+        const trailing = part.match(/^(.+?),\s*([^,]+,[^,]+|remote|hybrid)$/i);
+        if (!location && trailing && LOCATION_PATTERN.test(trailing[2].trim())) {
+          location = trailing[2].trim();
+          part = trailing[1];
+        }
+
+        const split = splitTitleAndCompany(part);
+        if (split && !position && !company) {
+          [position, company] = split;
+          positionConfidence = CONFIDENCE.keyword;
+          companyConfidence = COMPANY_SUFFIXES.test(company) ? CONFIDENCE.pattern : CONFIDENCE.keyword;
+        } else if (!location && LOCATION_PATTERN.test(part) && (position || company || remaining.length)) {
+          location = part;
+        } else if (!position && TITLE_KEYWORDS.test(part) && !COMPANY_SUFFIXES.test(part)) {
+          position = part;
+          positionConfidence = CONFIDENCE.keyword;
+        } else {
+          remaining.push(part);
+        }
+      }
+
+      if (!company && remaining.length > 0) {
+        company = remaining.shift() as string;
+        companyConfidence = COMPANY_SUFFIXES.test(company)
+          ? CONFIDENCE.pattern
+          : position ? CONFIDENCE.position : CONFIDENCE.guess;
+      }
+      if (!position && remaining.length > 0) {
+        position = remaining.shift() as string;
+        positionConfidence = CONFIDENCE.guess;
+      }
+
+      const value: WorkExperience = {
+        company,
+        position,
+        startDate: block.dates?.startDate || '',
+        endDate: block.dates?.endDate,
+        location,
+        description: block.body.map((line) => line.text).join(' '),
+        highlights: block.bullets.map((line) => line.text),
+      };
+
+      const fields: ResumeFieldConfidence = {};
+      recordField(fields, 'company', company, companyConfidence, locateValue(company, block.header));
+      recordField(fields, 'position', position, positionConfidence, locateValue(position, block.header));
+      recordDates(fields, block);
+      recordField(fields, 'location', location, CONFIDENCE.keyword, locateValue(location, block.header));
+      recordField(fields, 'description', value.description, CONFIDENCE.keyword, spanOf(block.body));
+      block.bullets.forEach((line, index) => {
+        recordField(fields, `highlights.${index}`, line.text, CONFIDENCE.pattern, spanOf([line]));
+      });
+
+      return { value, fields };
+    })
+    .filter((entry) => entry.value.company || entry.value.position);
+}
+
+/**
+ * Parse education entries
+ */
+export function parseEducation(lines: ResumeLine[]): ScoredEntry<Education>[] {
+  return groupEntries(lines)
+    .map((block) => {
+      let degree = '';
+      let field = '';
+      let institution = '';
+      let location: string | undefined;
+      let gpa: string | undefined;
+      let fieldConfidence = CONFIDENCE.keyword;
+      let institutionConfidence = CONFIDENCE.pattern;
+      const remaining: string[] = [];
+      const allLines = [...block.header, ...block.body, ...block.bullets];
+
+      const allText = allLines.map((line) => line.text).join(' ');
+      const gpaMatch = allText.match(/\b(?:GPA|CGPA|Grade)\b[:\s]*([0-9]+(?:\.[0-9]+)?(?:\s*\/\s*[0-9]+(?:\.[0-9]+)?)?)/i);
+      if (gpaMatch) {
+        gpa = gpaMatch[1].replace(/\s+/g, '');
+      }
+
+      for (const part of headerParts(block, true)) {
+        if (/\b(?:GPA|CGPA)\b/i.test(part)) continue;
+
+        const degreeMatch = !degree ? part.match(DEGREE_PATTERN) : null;
+        if (degreeMatch) {
+          degree = degreeMatch[1].trim();
+          field = degreeMatch[2].trim();
+        } else if (!institution && INSTITUTION_KEYWORDS.test(part)) {
+          institution = part;
+        } else if (!location && /^(?:[A-Z]{2}|remote)$/i.test(part) === false && LOCATION_PATTERN.test(part) && institution) {
+          location = part;
+        } else {
+          remaining.push(part);
+        }
+      }
+
+      if (degree && !field && remaining.length > 0 && !INSTITUTION_KEYWORDS.test(remaining[0])) {
+        field = remaining.shift() as string;
+        fieldConfidence = CONFIDENCE.position;
+      }
+      if (!institution && remaining.length > 0) {
+        institution = remaining.shift() as string;
+        institutionConfidence = degree ? CONFIDENCE.position : CONFIDENCE.guess;
+      }
+      if (!location && remaining.length > 0) {
+        // "Cambridge, MA" split by commas ends up as two trailing parts
+        const trailing = remaining.join(', ');
+        if (LOCATION_PATTERN.test(trailing)) {
+          location = trailing;
+        }
+      }
+
+      const value: Education = {
+        institution,
+        degree,
+        field,
+        startDate: block.dates?.endDate ? block.dates.startDate : block.dates?.startDate || '',
+        endDate: block.dates?.endDate,
+        location,
+        gpa,
+      };
+
+      const fields: ResumeFieldConfidence = {};
+      recordField(fields, 'institution', institution, institutionConfidence, locateValue(institution, block.header));
+      recordField(fields, 'degree', degree, CONFIDENCE.pattern, locateValue(degree, block.header));
+      recordField(fields, 'field', field, fieldConfidence, locateValue(field, block.header));
+      recordDates(fields, block);
+      recordField(fields, 'location', location, CONFIDENCE.position, locateValue(location, block.header));
+      recordField(fields, 'gpa', gpa, CONFIDENCE.pattern, locateValue(gpaMatch?.[1], allLines));
+
+      return { value, fields };
+    })
+    .filter((entry) => entry.value.institution || entry.value.degree);
+}
+
+/**
+ * Parse a skills section into a de-duplicated list
+ * Category labels ("Languages: ...", "Tools - ...") are dropped
+ */
+export function parseSkills(lines: ResumeLine[]): ScoredEntry<string>[] {
+  const skills: ScoredEntry<string>[] = [];
+  const seen = new Set<string>();
+
+  for (const line of lines) {
+    if (!line.text) continue;
+
+    const text = stripBullet(line.text).replace(/^[A-Za-z &/]{2,30}\s*[:–—]\s+/, '');
+
+    for (const item of text.split(/\s*[,;|•·]\s*|\s{2,}|\s+\/\s+|\s+and\s+/)) {
+      const skill = item.replace(/^[\s-]+|[\s.]+$/g, '');
+      if (!skill || skill.length > 40 || skill.split(/\s+/).length > 4) continue;
+
+      const key = skill.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        // Short items are almost always skill names; longer ones may be sentence fragments
+        const confidence = skill.split(/\s+/).length <= 2 ? CONFIDENCE.pattern : CONFIDENCE.keyword;
+        const fields: ResumeFieldConfidence = {};
+        recordField(fields, '', skill, confidence, locateValue(skill, [line]));
+        skills.push({ value: skill, fields });
+      }
+    }
+  }
+
+  return skills;
+}
+
+/**
+ * Split a comma separated technology list
+ */
+function splitTechnologies(text: string): string[] {
+  return text
+    .split(/\s*[,;|•·]\s*|\s+\/\s+/)
+    .map((tech) => tech.replace(/^[\s-]+|[\s.]+$/g, ''))
+    .filter((tech) => tech && tech.length <= 40);
+}
+
+/**
+ * Parse project entries
+ */
+export function parseProjects(lines: ResumeLine[]): ScoredEntry<Project>[] {
+  const techLabel = /^(?:technologies|tech(?:nology)? stack|stack|tools|built with|tech)\s*[:–—-]\s*(.+)$/i;
+
+  return groupEntries(lines)
+    .map((block) => {
+      const allLines = [...block.header, ...block.body, ...block.bullets];
+      const urls = allLines.flatMap((line) => line.text.match(URL_PATTERN) || []);
+      const normalizeUrl = (url: string) => (/^https?:\/\//i.test(url) ? url : `https://${url}`);
+      const repository = urls.find((url) => /(?:github|gitlab|bitbucket)\./i.test(url));
+      const url = urls.find((candidate) => candidate !== repository);
+
+      let technologies: string[] = [];
+      let technologiesConfidence = CONFIDENCE.keyword;
+      const descriptionParts: string[] = [];
+      const descriptionLines: ResumeLine[] = [];
+
+      const isTechLine = (line: ResumeLine) => {
+        const match = line.text.match(techLabel);
+        if (match) technologies.push(...splitTechnologies(match[1]));
+        return !!match;
+      };
+
+      const headerLines = block.header.filter((line) => !isTechLine(line));
+      const body = block.body.filter((line) => !isTechLine(line));
+      const bullets = block.bullets.filter((line) => !isTechLine(line));
+
+      const [nameLine, ...otherHeaderLines] = headerLines;
+      let name = '';
+
+      if (nameLine) {
+        const text = nameLine.text.replace(URL_PATTERN, '');
+        const parenthesized = text.match(/\(([^)]+)\)/);
+        if (parenthesized && technologies.length === 0 && parenthesized[1].includes(',')) {
+          technologies = splitTechnologies(parenthesized[1]);
+          technologiesConfidence = CONFIDENCE.position;
+        }
+
+        const [first, ...rest] = text
+          .replace(/\([^)]*\)/g, '')
+          .split(/\s+[|•·–—-]\s+|:\s+/)
+          .map((part) => part.trim())
+          .filter(Boolean);
+        name = first || '';
+
+        for (const part of rest) {
+          if (technologies.length === 0 && part.includes(',') && !isProse(part)) {
+            technologies = splitTechnologies(part);
+            technologiesConfidence = CONFIDENCE.position;
+          } else {
+            descriptionParts.push(part);
+          }
+        }
+      }
+
+      descriptionParts.push(...otherHeaderLines.map((line) => line.text.replace(URL_PATTERN, '').trim()));
+      descriptionParts.push(...body.map((line) => line.text));
+      descriptionLines.push(...otherHeaderLines, ...body);
+      if (descriptionParts.length === 0) {
+        descriptionParts.push(...bullets.map((line) => line.text));
+        descriptionLines.push(...bullets);
+      }
+
+      const value: Project = {
+        name: name.replace(/[\s,|–—-]+$/, ''),
+        description: descriptionParts.filter(Boolean).join(' '),
+        technologies,
+        url: url ? normalizeUrl(url) : undefined,
+        repository: repository ? normalizeUrl(repository) : undefined,
+      };
+
+      const fields: ResumeFieldConfidence = {};
+      recordField(fields, 'name', value.name, CONFIDENCE.keyword, locateValue(value.name, headerLines));
+      recordField(fields, 'description', value.description, CONFIDENCE.keyword, spanOf(descriptionLines));
+      technologies.forEach((tech, index) => {
+        recordField(fields, `technologies.${index}`, tech, technologiesConfidence, locateValue(tech, allLines));
+      });
+      recordField(fields, 'url', url, CONFIDENCE.pattern, locateValue(url, allLines));
+      recordField(fields, 'repository', repository, CONFIDENCE.pattern, locateValue(repository, allLines));
+
+      return { value, fields };
+    })
+    .filter((project) => project.value.name);
+}
+
+/**
+ * Parse certifications, one per line
+ * e.g. "AWS Certified Solutions Architect – Amazon Web Services, 2021"
+ */
+export function parseCertifications(lines: ResumeLine[]): ScoredEntry<Certification>[] {
+  return lines
+    .filter((line) => line.text)
+    .map((line) => {
+      let text = stripBullet(line.text);
+      const urls = text.match(URL_PATTERN) || [];
+      text = text.replace(URL_PATTERN, '');
+
+      const range = findDateRange(text);
+      if (range) {
+        text = stripDateRange(text, range);
+      }
+
+      const parts = text
+        .split(/\s+[|•·–—-]\s+|\s*,\s*|\s*\(\s*|\s*\)\s*|\s+(?:by|from|issued by)\s+/i)
+        .map((part) => part.trim())
+        .filter(Boolean);
+
+      const value: Certification = {
+        name: parts[0] || '',
+        issuer: parts[1] || '',
+        date: range?.startDate || '',
+        url: urls[0] ? (/^https?:\/\//i.test(urls[0]) ? urls[0] : `https://${urls[0]}`) : undefined,
+      };
+
+      const fields: ResumeFieldConfidence = {};
+      recordField(fields, 'name', value.name, CONFIDENCE.keyword, locateValue(value.name, [line]));
+      recordField(fields, 'issuer', value.issuer, CONFIDENCE.position, locateValue(value.issuer, [line]));
+      const dateRange = findDateRange(line.text);
+      recordField(fields, 'date', value.date, CONFIDENCE.pattern, dateRange ? dateSpan(line, dateRange) : undefined);
+      recordField(fields, 'url', urls[0], CONFIDENCE.pattern, locateValue(urls[0], [line]));
+
+      return { value, fields };
+    })
+    .filter((certification) => certification.value.name);
+}
+
+/**
+ * Parse spoken languages
+ * e.g. "English (Native), German – B2, French: Basic"
+ */
+export function parseLanguages(lines: ResumeLine[]): ScoredEntry<Language>[] {
+  const languages: ScoredEntry<Language>[] = [];
+
+  for (const line of lines) {
+    if (!line.text) continue;
+
+    for (const item of stripBullet(line.text).split(/\s*[,;|•·]\s*/)) {
+      const match = item.match(/^([A-Za-z][A-Za-z ]*?)\s*(?:\(([^)]+)\)|[:–—-]\s*(.+))?$/);
+      if (!match) continue;
+
+      const value: Language = {
+        language: match[1].trim(),
+        proficiency: (match[2] || match[3] || '').trim(),
+      };
+
+      const fields: ResumeFieldConfidence = {};
+      const itemSpan = locateValue(item, [line]);
+      const itemLine = itemSpan ? [{ text: item, ...itemSpan }] : [line];
+      recordField(fields, 'language', value.language, CONFIDENCE.pattern, locateValue(value.language, itemLine));
+      recordField(fields, 'proficiency', value.proficiency, CONFIDENCE.keyword, locateValue(value.proficiency, itemLine));
+      languages.push({ value, fields });
+    }
+  }
+
+  return languages;
+}
+
+/**
+ * Join summary lines, keeping paragraph breaks
+ */
+export function parseSummary(lines: ResumeLine[]): ScoredEntry<string> {
+  const value = lines
+    .map((line) => line.text)
+    .join('\n')
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+  const fields: ResumeFieldConfidence = {};
+  recordField(fields, '', value, CONFIDENCE.pattern, spanOf(lines));
+  return { value, fields };
+}
+
+/**
+ * Find the candidate's location in the header lines ("Berlin, Germany")
+ */
+export function findHeaderLocation(lines: ResumeLine[]): string | undefined {
+  for (const line of lines) {
+    for (const part of line.text.split(/\s*[|•·]\s*|\s{2,}|\s+[–—-]\s+/)) {
+      const cleaned = part.replace(/^(?:location|address)\s*:\s*/i, '').trim();
+      if (/@|\d{3}|https?:|www\.|linkedin|github/i.test(cleaned)) continue;
+      if (LOCATION_PATTERN.test(cleaned) && !/^(remote|hybrid|on-?site)$/i.test(cleaned)) {
+        return cleaned;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find a personal website in the header lines (anything but LinkedIn/GitHub)
+ */
+export function findHeaderWebsite(lines: ResumeLine[]): string | undefined {
+  for (const line of lines) {
+    for (const url of line.text.match(URL_PATTERN) || []) {
+      if (/linkedin\.com|github\.com|gitlab\.com|bitbucket\.org/i.test(url)) continue;
+      return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+    }
+    // Bare domains ("janedoe.dev"), skipping e-mail addresses and profile links
+    const domains = line.text.match(/(?<![@\w.\/-])[a-z0-9-]+\.(?:dev|io|me|com|net|org|site|tech|design|app)(?![\w.@-])(?:\/[^\s|,]*)?/gi) || [];
+    const domain = domains.find((candidate) => !/linkedin|github|gitlab|bitbucket/i.test(candidate));
+    if (domain) {
+      return `https://${domain}`;
+    }
+  }
+  return undefined;
+}
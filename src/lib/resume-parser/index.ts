@@ -4,73 +4,99 @@
  * Extracts structured data from resume files (PDF, DOCX, TXT, MD)
  * Uses pattern matching and AI/ML for intelligent extraction
  * 
- * Note: This is a template implementation. For production:
- * - Use specialized libraries like pdf-parse, mammoth, or docx
- * - Integrate with AI services (OpenAI, Anthropic) for better parsing
- * - Add support for various resume formats and languages
+ * PDF text is extracted with pdf.js (column-aware, see ./pdf.ts) and DOCX
+ * text with mammoth (see ./docx.ts); both feed parseResumeText, which
+ * splits the text into sections and extracts structured entries from each.
+ *
+ * A local ONNX token classifier (see ./ner.ts) refines names, companies,
+ * dates and skills when a compatible model is installed.
+ *
+ * parseResumeWithAI sends the text to the configured LLM provider for
+ * schema-constrained extraction and falls back to the heuristic parser.
  */
 
-export interface ParsedResume {
-  personal: {
-    name: string;
-    email: string;
-    phone?: string;
-    location?: string;
-    website?: string;
-    linkedin?: string;
-    github?: string;
-  };
-  summary?: string;
-  workExperience: Array<{
-    company: string;
-    position: string;
-    startDate: string;
-    endDate?: string;
-    location?: string;
-    description: string;
-    highlights: string[];
-  }>;
-  education: Array<{
-    institution: string;
-    degree: string;
-    field: string;
-    startDate: string;
-    endDate?: string;
-    location?: string;
-    gpa?: string;
-  }>;
-  skills: string[];
-  projects?: Array<{
-    name: string;
-    description: string;
-    technologies: string[];
-    url?: string;
-    repository?: string;
-  }>;
-  certifications?: Array<{
-    name: string;
-    issuer: string;
-    date: string;
-    url?: string;
-  }>;
-  languages?: Array<{
-    language: string;
-    proficiency: string;
-  }>;
+import { extractPdfText } from './pdf';
+import { extractDocxText } from './docx';
+import { ResumeParseError } from './errors';
+import { segmentSections, type ResumeLine, type SectionType } from './sections';
+import {
+  CONFIDENCE,
+  findHeaderLocation,
+  locateValue,
+  findHeaderWebsite,
+  parseCertifications,
+  parseEducation,
+  parseExperience,
+  parseLanguages,
+  parseProjects,
+  parseSkills,
+  parseSummary,
+  type ScoredEntry,
+} from './fields';
+import { getLLMProvider, type LLMProvider } from '@/lib/ai/providers';
+import { mergeResumeEntities, tagResumeEntities } from './ner';
+import { PARSED_RESUME_SCHEMA, validateResumeData } from './schema';
+import type {
+  ParsedResume,
+  ParsedResumeWithConfidence,
+  ResumeFieldConfidence,
+  SourceSpan,
+} from './types';
+
+export {
+  ResumeParseError,
+  EncryptedPdfError,
+  ScannedPdfError,
+  isResumeParseError,
+} from './errors';
+export type { ResumeParseErrorCode } from './errors';
+export { PARSED_RESUME_SCHEMA, validateResumeData } from './schema';
+export { tagResumeEntities, mergeResumeEntities, resetResumeTagger } from './ner';
+export type { ResumeEntity, ResumeEntityType } from './ner';
+export type {
+  ParsedResume,
+  ParsedResumeWithConfidence,
+  ResumeFieldConfidence,
+  FieldConfidence,
+  SourceSpan,
+} from './types';
+
+/**
+ * Blank out inline markdown formatting (emphasis, links, code)
+ * Markers are replaced by spaces so character offsets still match the original text.
+ * Headings and list markers are left for the section segmenter.
+ */
+function stripMarkdown(text: string): string {
+  const blank = (markup: string) => ' '.repeat(markup.length);
+  return text
+    .replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) => ` ${label}  ${url} `)
+    .replace(/\*\*|__|`/g, blank)
+    .replace(/(^|\s)[*_](?=\S)|(?<=\S)[*_](?=\s|$|[,.;:])/gm, (markup) => markup.replace(/[*_]/, ' '));
 }
 
 /**
- * Parse resume from text content
+ * Span of a regex match in the resume text
+ */
+function matchSpan(match: RegExpMatchArray): SourceSpan {
+  const start = match.index ?? 0;
+  return { start, end: start + match[0].length };
+}
+
+/**
+ * Parse resume from text content, scoring every extracted field
+ * The text is segmented into sections by their headings, then each
+ * section is parsed into structured entries (see ./sections, ./fields).
+ * Each field gets a confidence (0-1) and the character span it was read
+ * from, so low-confidence values can be flagged for review. When the local
+ * ONNX entity tagger is available its predictions are merged in (see ./ner).
  * @param text - Resume text content
  * @param fileType - File type (pdf, docx, txt, md)
- * @returns Parsed resume data
+ * @returns Parsed resume data with per-field confidence
  */
-export async function parseResumeText(
+export async function parseResumeTextWithConfidence(
   text: string,
   fileType: string
-): Promise<ParsedResume> {
-  // Basic pattern matching (improve with AI/ML in production)
-  
+): Promise<ParsedResumeWithConfidence> {
   const result: ParsedResume = {
     personal: {
       name: '',
@@ -80,59 +106,170 @@ export async function parseResumeText(
     education: [],
     skills: [],
   };
+  const fields: ResumeFieldConfidence = {};
+  
+  // Merge the field scores of parsed entries under their path ("workExperience.0")
+  const addFields = (prefix: string, entryFields: ResumeFieldConfidence) => {
+    for (const [key, field] of Object.entries(entryFields)) {
+      fields[key ? `${prefix}.${key}` : prefix] = field;
+    }
+  };
+  const addEntries = <T>(path: string, entries: ScoredEntry<T>[]): T[] => {
+    entries.forEach((entry, index) => addFields(`${path}.${index}`, entry.fields));
+    return entries.map((entry) => entry.value);
+  };
   
   // Extract email
   const emailMatch = text.match(/[\w.-]+@[\w.-]+\.\w+/);
   if (emailMatch) {
     result.personal.email = emailMatch[0];
+    fields['personal.email'] = { confidence: CONFIDENCE.pattern, source: matchSpan(emailMatch) };
   }
   
   // Extract phone
   const phoneMatch = text.match(/(\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/);
   if (phoneMatch) {
     result.personal.phone = phoneMatch[0];
+    fields['personal.phone'] = { confidence: CONFIDENCE.keyword, source: matchSpan(phoneMatch) };
   }
   
   // Extract LinkedIn
   const linkedinMatch = text.match(/linkedin\.com\/in\/[\w-]+/i);
   if (linkedinMatch) {
     result.personal.linkedin = `https://${linkedinMatch[0]}`;
+    fields['personal.linkedin'] = { confidence: CONFIDENCE.pattern, source: matchSpan(linkedinMatch) };
   }
   
   // Extract GitHub
   const githubMatch = text.match(/github\.com\/[\w-]+/i);
   if (githubMatch) {
     result.personal.github = `https://${githubMatch[0]}`;
+    fields['personal.github'] = { confidence: CONFIDENCE.pattern, source: matchSpan(githubMatch) };
   }
   
-  // Extract name (usually the first line or large text)
-  const lines = text.split('\n').filter(line => line.trim());
-  if (lines.length > 0) {
-    result.personal.name = lines[0].trim();
+  const source = fileType === 'md' ? stripMarkdown(text) : text;
+  const sections = segmentSections(source);
+  const header = sections.find((section) => section.type === 'header')?.lines || [];
+  
+  // Name is the first header line that is not contact details
+  const nameLine = header.find(
+    (line) => line.text && !/@|https?:|www\.|\d{3}/.test(line.text) && line.text.split(/\s+/).length <= 6
+  );
+  // "Jane Doe | Senior Engineer" keeps only the name
+  result.personal.name = (nameLine || header[0])?.text
+    .replace(/^#+\s*/, '')
+    .split(/\s+[|•·–—-]\s+/)[0]
+    .trim() || '';
+  if (result.personal.name) {
+    // A short capitalized first line is almost certainly the name
+    const looksLikeName = /^(?:[A-Z][\p{L}'.-]*\s+){1,3}[A-Z][\p{L}'.-]*$/u.test(result.personal.name);
+    const confidence = !nameLine
+      ? CONFIDENCE.guess
+      : looksLikeName
+        ? nameLine === header[0] ? CONFIDENCE.pattern : CONFIDENCE.keyword
+        : CONFIDENCE.position;
+    fields['personal.name'] = {
+      confidence,
+      source: locateValue(result.personal.name, [nameLine || header[0]]),
+    };
   }
   
-  // TODO: Implement more sophisticated parsing
-  // - Use section headers (Experience, Education, Skills, etc.)
-  // - Extract dates and format them consistently
-  // - Parse job descriptions and responsibilities
-  // - Identify skills from context
-  // - Use AI/ML for better accuracy
+  result.personal.location = findHeaderLocation(header);
+  if (result.personal.location) {
+    fields['personal.location'] = {
+      confidence: CONFIDENCE.keyword,
+      source: locateValue(result.personal.location, header),
+    };
+  }
+  
+  result.personal.website = findHeaderWebsite(header);
+  if (result.personal.website) {
+    fields['personal.website'] = {
+      confidence: CONFIDENCE.keyword,
+      source: locateValue(result.personal.website.replace(/^https:\/\//, ''), header),
+    };
+  }
   
-  return result;
+  // Sections of the same type (e.g. a split "Experience" on a two-column page) are merged,
+  // separated by a paragraph break
+  const linesOf = (type: SectionType): ResumeLine[] =>
+    sections
+      .filter((section) => section.type === type)
+      .flatMap((section) => [{ text: '', start: section.lines[0]?.start ?? 0, end: section.lines[0]?.start ?? 0 }, ...section.lines])
+      .slice(1);
+  
+  const summary = parseSummary(linesOf('summary'));
+  if (summary.value) {
+    result.summary = summary.value;
+    addFields('summary', summary.fields);
+  }
+  
+  result.workExperience = addEntries('workExperience', parseExperience(linesOf('experience')));
+  result.education = addEntries('education', parseEducation(linesOf('education')));
+  result.skills = addEntries('skills', parseSkills(linesOf('skills')));
+  
+  const projects = addEntries('projects', parseProjects(linesOf('projects')));
+  if (projects.length > 0) {
+    result.projects = projects;
+  }
+  
+  const certifications = addEntries('certifications', parseCertifications(linesOf('certifications')));
+  if (certifications.length > 0) {
+    result.certifications = certifications;
+  }
+  
+  const languages = addEntries('languages', parseLanguages(linesOf('languages')));
+  if (languages.length > 0) {
+    result.languages = languages;
+  }
+  
+  // Refine with the local entity tagger (no-op when the model is unavailable)
+  const parsed = { resume: result, fields };
+  mergeResumeEntities(parsed, await tagResumeEntities(source));
+  
+  return parsed;
+}
+
+/**
+ * Parse resume from text content
+ * @param text - Resume text content
+ * @param fileType - File type (pdf, docx, txt, md)
+ * @returns Parsed resume data
+ */
+export async function parseResumeText(
+  text: string,
+  fileType: string
+): Promise<ParsedResume> {
+  const { resume } = await parseResumeTextWithConfidence(text, fileType);
+  return resume;
+}
+
+/**
+ * List the fields a user should review, least confident first
+ * @param fields - Field confidences from parseResumeTextWithConfidence
+ * @param threshold - Fields below this confidence are returned (default 0.6)
+ * @returns Field paths, e.g. ["workExperience.1.company", "personal.name"]
+ */
+export function getLowConfidenceFields(
+  fields: ResumeFieldConfidence,
+  threshold = 0.6
+): string[] {
+  return Object.entries(fields)
+    .filter(([, field]) => field.confidence < threshold)
+    .sort(([, a], [, b]) => a.confidence - b.confidence)
+    .map(([path]) => path);
 }
 
 /**
  * Parse PDF resume
  * @param buffer - PDF file buffer
  * @returns Parsed resume data
+ * @throws EncryptedPdfError if the PDF is password protected
+ * @throws ScannedPdfError if the PDF only contains scanned images
  */
 export async function parsePdfResume(buffer: Buffer): Promise<ParsedResume> {
-  // TODO: Implement PDF parsing
-  // import pdf from 'pdf-parse';
-  // const data = await pdf(buffer);
-  // return parseResumeText(data.text, 'pdf');
-  
-  throw new Error('PDF parsing not implemented. Install pdf-parse library.');
+  const text = await extractPdfText(buffer);
+  return parseResumeText(text, 'pdf');
 }
 
 /**
@@ -141,12 +278,8 @@ export async function parsePdfResume(buffer: Buffer): Promise<ParsedResume> {
  * @returns Parsed resume data
  */
 export async function parseDocxResume(buffer: Buffer): Promise<ParsedResume> {
-  // TODO: Implement DOCX parsing
-  // import mammoth from 'mammoth';
-  // const result = await mammoth.extractRawText({ buffer });
-  // return parseResumeText(result.value, 'docx');
-  
-  throw new Error('DOCX parsing not implemented. Install mammoth library.');
+  const text = await extractDocxText(buffer);
+  return parseResumeText(text, 'docx');
 }
 
 /**
@@ -170,38 +303,56 @@ export async function parseMarkdownResume(buffer: Buffer): Promise<ParsedResume>
 }
 
 /**
- * Main resume parser
- * Routes to appropriate parser based on file type
+ * Extract plain text from a resume file
  * @param buffer - Resume file buffer
  * @param fileType - File type (pdf, docx, txt, md)
- * @returns Parsed resume data
+ * @returns Resume text
+ * @throws ResumeParseError for unsupported, encrypted or scanned files
  */
-export async function parseResume(
+export async function extractResumeText(
   buffer: Buffer,
   fileType: string
-): Promise<ParsedResume> {
-  const type = fileType.toLowerCase();
-  
-  switch (type) {
+): Promise<string> {
+  switch (fileType.toLowerCase()) {
     case 'pdf':
-      return parsePdfResume(buffer);
-    
+      return extractPdfText(buffer);
+
     case 'docx':
+      return extractDocxText(buffer);
+
+    // Word 97-2003 files are not zip packages; the DOCX reader cannot open them
     case 'doc':
-      return parseDocxResume(buffer);
-    
+      throw new ResumeParseError(
+        'UNSUPPORTED_FORMAT',
+        'Word 97-2003 (.doc) files are not supported. Please save the resume as .docx or PDF.'
+      );
+
     case 'txt':
-      return parseTextResume(buffer);
-    
     case 'md':
     case 'markdown':
-      return parseMarkdownResume(buffer);
-    
+      return buffer.toString('utf-8');
+
     default:
-      throw new Error(`Unsupported file type: ${fileType}`);
+      throw new ResumeParseError('UNSUPPORTED_FORMAT', `Unsupported file type: ${fileType}`);
   }
 }
 
+/**
+ * Main resume parser
+ * Routes to appropriate parser based on file type
+ * @param buffer - Resume file buffer
+ * @param fileType - File type (pdf, docx, txt, md)
+ * @returns Parsed resume data
+ */
+export async function parseResume(
+  buffer: Buffer,
+  fileType: string
+): Promise<ParsedResume> {
+  const type = fileType.toLowerCase();
+  const text = await extractResumeText(buffer, type);
+  return parseResumeText(text, type === 'markdown' ? 'md' : type);
+}
+
 /**
  * Validate parsed resume data
  * Ensures all required fields are present
@@ -220,38 +371,55 @@ export function validateParsedResume(resume: ParsedResume): boolean {
   return true;
 }
 
+// Longest resume text sent to a model, in characters (about 5k tokens)
+const MAX_AI_INPUT_LENGTH = 20000;
+
+const AI_SYSTEM_PROMPT = [
+  'You are a resume parser. Extract structured data from the resume text provided by the user.',
+  'Only use information present in the resume; never invent employers, dates or skills.',
+  'Write dates as "YYYY-MM" when the month is known, "YYYY" otherwise, and "Present" for ongoing roles.',
+  'Use null for optional fields that are not in the resume and empty arrays for missing lists.',
+].join(' ');
+
 /**
- * Use AI to parse resume (OpenAI, Anthropic, etc.)
+ * Use an LLM to parse resume text
+ * The provider is selected by LLM_PROVIDER (see src/lib/ai/providers).
+ * The model output is validated against PARSED_RESUME_SCHEMA; when no
+ * provider is configured, the request fails or the output is invalid,
+ * the heuristic parser result is returned instead.
  * @param text - Resume text content
+ * @param options.provider - Provider to use instead of the configured one
  * @returns Parsed resume data
  */
-export async function parseResumeWithAI(text: string): Promise<ParsedResume> {
-  // TODO: Implement AI parsing
-  // Example with OpenAI:
-  /*
-  import OpenAI from 'openai';
-  
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-  
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4',
-    messages: [
-      {
-        role: 'system',
-        content: 'You are a resume parser. Extract structured data from resumes and return it as JSON.',
-      },
-      {
-        role: 'user',
-        content: `Parse this resume and extract: personal info, work experience, education, skills, projects, certifications.\n\n${text}`,
-      },
-    ],
-    response_format: { type: 'json_object' },
-  });
-  
-  return JSON.parse(response.choices[0].message.content);
-  */
-  
-  throw new Error('AI parsing not implemented. Configure OpenAI or similar service.');
+export async function parseResumeWithAI(
+  text: string,
+  options: { provider?: LLMProvider | null } = {}
+): Promise<ParsedResume> {
+  const provider = options.provider === undefined ? getLLMProvider() : options.provider;
+  if (!provider) {
+    return parseResumeText(text, 'txt');
+  }
+
+  try {
+    const output = await provider.generateJson({
+      system: AI_SYSTEM_PROMPT,
+      prompt: text.slice(0, MAX_AI_INPUT_LENGTH),
+      schema: PARSED_RESUME_SCHEMA,
+      schemaName: 'parsed_resume',
+    });
+
+    const { resume, errors } = validateResumeData(output);
+    if (resume) {
+      return resume;
+    }
+
+    console.warn(
+      `AI resume parsing (${provider.name}) returned invalid output, using heuristic parser:`,
+      errors.slice(0, 5)
+    );
+  } catch (error) {
+    console.error(`AI resume parsing (${provider.name}) failed, using heuristic parser:`, error);
+  }
+
+  return parseResumeText(text, 'txt');
 }
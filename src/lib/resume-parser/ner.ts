@@ -0,0 +1,398 @@
+/**
+ * Resume Entity Tagging (local ONNX model)
+ *
+ * Runs a BERT-style token classification model on the CPU with
+ * onnxruntime-node to tag names, organizations, dates and skills.
+ * The model, its vocabulary and label list live in RESUME_NER_MODEL_DIR
+ * (default: ./models); see models/README.md for the input/output contract.
+ *
+ * Tagging is optional: when onnxruntime-node is not installed, the files
+ * are missing or the model does not match the contract, a warning is logged
+ * once, tagResumeEntities returns no entities and the heuristic parser
+ * result is used unchanged.
+ */
+
+import { access, readFile } from 'fs/promises';
+import path from 'path';
+import type { InferenceSession, Tensor } from 'onnxruntime-node';
+import { CONFIDENCE } from './fields';
+import type { ParsedResumeWithConfidence, SourceSpan } from './types';
+import { parseVocab, wordPieceTokenize, type WordPieceToken, type WordPieceVocab } from './wordpiece';
+
+export type ResumeEntityType = 'name' | 'organization' | 'date' | 'skill';
+
+/**
+ * A tagged span of resume text
+ */
+export interface ResumeEntity {
+  type: ResumeEntityType;
+  text: string;
+  start: number;
+  end: number;
+  // Mean probability of the entity's tokens (0-1)
+  score: number;
+}
+
+interface ResumeTagger {
+  session: InferenceSession;
+  Tensor: typeof Tensor;
+  vocab: WordPieceVocab;
+  labels: string[];
+  // Tokens per model call, including [CLS] and [SEP]
+  sequenceLength: number;
+  // Fixed-shape models need every sequence padded to sequenceLength
+  fixedLength: boolean;
+  hasTokenTypeIds: boolean;
+}
+
+interface TaggedWord {
+  type: ResumeEntityType | null;
+  // "I-" label, i.e. continues the previous entity
+  inside: boolean;
+  wordIndex: number;
+  start: number;
+  end: number;
+  probability: number;
+}
+
+// Window size for models with a dynamic sequence dimension
+const DEFAULT_SEQUENCE_LENGTH = 256;
+
+// Entities below this score are not merged into the parse result
+const MIN_ENTITY_SCORE = 0.6;
+
+// Label suffix (after "B-"/"I-") to entity type
+const LABEL_TYPES: Record<string, ResumeEntityType> = {
+  NAME: 'name',
+  PER: 'name',
+  PERSON: 'name',
+  ORG: 'organization',
+  ORGANIZATION: 'organization',
+  COMPANY: 'organization',
+  DATE: 'date',
+  SKILL: 'skill',
+};
+
+let taggerPromise: Promise<ResumeTagger | null> | null = null;
+
+/**
+ * Get tagger configuration from environment
+ */
+function getTaggerConfig(): { enabled: boolean; modelDir: string } {
+  return {
+    enabled: process.env.RESUME_NER_ENABLED !== 'false',
+    modelDir: process.env.RESUME_NER_MODEL_DIR || path.join(process.cwd(), 'models'),
+  };
+}
+
+/**
+ * Parse the label list: a JSON array, or a Hugging Face config with id2label
+ */
+function parseLabels(contents: string): string[] {
+  const data = JSON.parse(contents);
+  if (Array.isArray(data)) {
+    return data.map(String);
+  }
+
+  const id2label = data?.id2label as Record<string, string> | undefined;
+  if (!id2label) {
+    throw new Error('labels.json must be an array or contain id2label');
+  }
+  return Object.entries(id2label)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, label]) => label);
+}
+
+/**
+ * Load the model and check it against the contract
+ * @returns Tagger, or null when tagging is disabled or unavailable
+ */
+async function loadTagger(): Promise<ResumeTagger | null> {
+  const config = getTaggerConfig();
+  if (!config.enabled) {
+    return null;
+  }
+
+  const file = (name: string) => path.join(config.modelDir, name);
+  let vocabText: string;
+  let labelsText: string;
+  try {
+    [vocabText, labelsText] = await Promise.all([
+      readFile(file('vocab.txt'), 'utf-8'),
+      readFile(file('labels.json'), 'utf-8'),
+    ]);
+  } catch {
+    // Without vocabulary and labels the model output cannot be interpreted
+    const missing = [];
+    for (const name of ['model.onnx', 'vocab.txt', 'labels.json']) {
+      if (!(await fileExists(file(name)))) missing.push(name);
+    }
+    console.warn(
+      `Resume entity tagging disabled, ${config.modelDir} is missing ${missing.join(', ') || 'readable vocab.txt and labels.json'}`
+    );
+    return null;
+  }
+
+  try {
+    const ort = await import('onnxruntime-node');
+    const session = await ort.InferenceSession.create(file('model.onnx'), {
+      executionProviders: ['cpu'],
+      graphOptimizationLevel: 'all',
+    });
+
+    const vocab = parseVocab(vocabText);
+    const labels = parseLabels(labelsText);
+
+    for (const input of ['input_ids', 'attention_mask']) {
+      if (!session.inputNames.includes(input)) {
+        throw new Error(`model has no ${input} input`);
+      }
+    }
+    if (!session.outputNames.includes('logits')) {
+      throw new Error('model has no logits output');
+    }
+
+    // Check output shape [batch, sequence, labels] where the runtime reports it
+    const logits = session.outputMetadata.find((meta) => meta.name === 'logits');
+    if (logits?.isTensor) {
+      const labelCount = logits.shape[2];
+      if (logits.shape.length !== 3) {
+        throw new Error(`logits must be [batch, sequence, labels], got [${logits.shape.join(', ')}]`);
+      }
+      if (typeof labelCount === 'number' && labelCount !== labels.length) {
+        throw new Error(`model predicts ${labelCount} labels but labels.json lists ${labels.length}`);
+      }
+    }
+
+    const inputIds = session.inputMetadata.find((meta) => meta.name === 'input_ids');
+    const fixedLength = inputIds?.isTensor && typeof inputIds.shape[1] === 'number' ? inputIds.shape[1] : null;
+
+    return {
+      session,
+      Tensor: ort.Tensor,
+      vocab,
+      labels,
+      sequenceLength: fixedLength || DEFAULT_SEQUENCE_LENGTH,
+      fixedLength: fixedLength !== null,
+      hasTokenTypeIds: session.inputNames.includes('token_type_ids'),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Models exported with external weights need model.onnx.data next to model.onnx
+    const hint = /external data/i.test(message) ? ' (copy model.onnx.data next to model.onnx)' : '';
+    console.warn(`Resume entity tagging disabled, the ONNX model could not be loaded${hint}:`, message);
+    return null;
+  }
+}
+
+/**
+ * Check whether a model file exists
+ */
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the shared tagger, loading it on first use
+ * The load is attempted once per process, so an unusable model directory
+ * logs a single warning.
+ */
+function getTagger(): Promise<ResumeTagger | null> {
+  if (!taggerPromise) {
+    taggerPromise = loadTagger();
+  }
+  return taggerPromise;
+}
+
+/**
+ * Forget the loaded tagger so the next call reloads the model directory
+ * (after RESUME_NER_MODEL_DIR or the model files change)
+ */
+export function resetResumeTagger(): void {
+  taggerPromise = null;
+}
+
+/**
+ * Run the model on one window of tokens
+ * @returns Per token: label index and its probability
+ */
+async function classifyWindow(
+  tagger: ResumeTagger,
+  tokens: WordPieceToken[]
+): Promise<Array<{ label: number; probability: number }>> {
+  const length = tagger.fixedLength ? tagger.sequenceLength : tokens.length + 2;
+  const ids = new BigInt64Array(length).fill(BigInt(tagger.vocab.padId));
+  const mask = new BigInt64Array(length);
+
+  ids[0] = BigInt(tagger.vocab.clsId);
+  tokens.forEach((token, index) => {
+    ids[index + 1] = BigInt(token.id);
+  });
+  ids[tokens.length + 1] = BigInt(tagger.vocab.sepId);
+  mask.fill(BigInt(1), 0, tokens.length + 2);
+
+  const feeds: Record<string, Tensor> = {
+    input_ids: new tagger.Tensor('int64', ids, [1, length]),
+    attention_mask: new tagger.Tensor('int64', mask, [1, length]),
+  };
+  if (tagger.hasTokenTypeIds) {
+    feeds.token_type_ids = new tagger.Tensor('int64', new BigInt64Array(length), [1, length]);
+  }
+
+  const output = await tagger.session.run(feeds);
+  const logits = output.logits.data as Float32Array;
+  const labelCount = tagger.labels.length;
+
+  // Skip [CLS]; softmax over each token's logits
+  return tokens.map((_, index) => {
+    const row = logits.subarray((index + 1) * labelCount, (index + 2) * labelCount);
+    const max = Math.max(...row);
+    const exps = Array.from(row, (value) => Math.exp(value - max));
+    const sum = exps.reduce((total, value) => total + value, 0);
+    const label = exps.indexOf(Math.max(...exps));
+    return { label, probability: exps[label] / sum };
+  });
+}
+
+/**
+ * Tag names, organizations, dates and skills in resume text
+ * @param text - Resume text content
+ * @returns Entities in document order; empty when the model is unavailable
+ */
+export async function tagResumeEntities(text: string): Promise<ResumeEntity[]> {
+  const tagger = await getTagger();
+  if (!tagger || !text.trim()) {
+    return [];
+  }
+
+  const tokens = wordPieceTokenize(text, tagger.vocab);
+  const windowSize = tagger.sequenceLength - 2;
+
+  // Label each word by its first sub-token (the usual token classification convention)
+  const words: TaggedWord[] = [];
+  for (let offset = 0; offset < tokens.length; offset += windowSize) {
+    const window = tokens.slice(offset, offset + windowSize);
+    const predictions = await classifyWindow(tagger, window);
+
+    window.forEach((token, index) => {
+      const previous = words[words.length - 1];
+      if (previous && previous.wordIndex === token.wordIndex) {
+        previous.end = token.end;
+        return;
+      }
+
+      const label = tagger.labels[predictions[index].label] || 'O';
+      const [, prefix, suffix] = label.match(/^(?:([BI])-)?(.+)$/) || [];
+      words.push({
+        type: LABEL_TYPES[suffix?.toUpperCase()] || null,
+        inside: prefix === 'I',
+        wordIndex: token.wordIndex,
+        start: token.start,
+        end: token.end,
+        probability: predictions[index].probability,
+      });
+    });
+  }
+
+  // Group B-/I- runs of the same type into entities
+  const entities: ResumeEntity[] = [];
+  let current: { type: ResumeEntityType; start: number; end: number; probabilities: number[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      const score = current.probabilities.reduce((total, value) => total + value, 0) / current.probabilities.length;
+      entities.push({ type: current.type, text: text.slice(current.start, current.end), start: current.start, end: current.end, score });
+      current = null;
+    }
+  };
+
+  for (const word of words) {
+    if (!word.type) {
+      flush();
+    } else if (current && word.inside && current.type === word.type) {
+      current.end = word.end;
+      current.probabilities.push(word.probability);
+    } else {
+      flush();
+      current = { type: word.type, start: word.start, end: word.end, probabilities: [word.probability] };
+    }
+  }
+  flush();
+
+  return entities;
+}
+
+/**
+ * Check whether two spans overlap
+ */
+function overlaps(span: SourceSpan | undefined, entity: ResumeEntity): boolean {
+  return !!span && entity.start < span.end && span.start < entity.end;
+}
+
+/**
+ * Merge tagged entities into a heuristic parse result
+ * - A confidently tagged name replaces a weak heuristic name
+ * - An organization tagged on a job's header line replaces a weak company guess
+ * - Dates and skills confirmed by the model get the model's confidence
+ * - Tagged skills missing from the skills list are appended
+ * @param parsed - Result of parseResumeTextWithConfidence (updated in place)
+ * @param entities - Entities from tagResumeEntities
+ */
+export function mergeResumeEntities(parsed: ParsedResumeWithConfidence, entities: ResumeEntity[]): void {
+  const { resume, fields } = parsed;
+  const confident = entities.filter((entity) => entity.score >= MIN_ENTITY_SCORE);
+
+  const name = confident.find((entity) => entity.type === 'name');
+  const nameField = fields['personal.name'];
+  if (name && (!nameField || nameField.confidence < name.score)) {
+    resume.personal.name = name.text;
+    fields['personal.name'] = { confidence: name.score, source: { start: name.start, end: name.end } };
+  }
+
+  resume.workExperience.forEach((job, index) => {
+    const company = fields[`workExperience.${index}.company`];
+    const position = fields[`workExperience.${index}.position`];
+    const organization = confident.find(
+      (entity) => entity.type === 'organization' && (overlaps(company?.source, entity) || overlaps(position?.source, entity))
+    );
+    if (!organization || (company && company.confidence >= organization.score)) return;
+
+    // The heuristic may have put the company in the position slot
+    if (overlaps(position?.source, organization) && company) {
+      job.position = job.company;
+      fields[`workExperience.${index}.position`] = company;
+    }
+    job.company = organization.text;
+    fields[`workExperience.${index}.company`] = {
+      confidence: organization.score,
+      source: { start: organization.start, end: organization.end },
+    };
+  });
+
+  for (const [key, field] of Object.entries(fields)) {
+    if (!/\.(?:startDate|endDate|date)$/.test(key)) continue;
+    const date = confident.find((entity) => entity.type === 'date' && overlaps(field.source, entity));
+    if (date && date.score > field.confidence) {
+      field.confidence = date.score;
+    }
+  }
+
+  const known = new Map(resume.skills.map((skill, index) => [skill.toLowerCase(), index]));
+  for (const skill of confident.filter((entity) => entity.type === 'skill')) {
+    const source = { start: skill.start, end: skill.end };
+    const index = known.get(skill.text.toLowerCase());
+
+    if (index === undefined) {
+      known.set(skill.text.toLowerCase(), resume.skills.length);
+      fields[`skills.${resume.skills.length}`] = { confidence: Math.min(skill.score, CONFIDENCE.keyword), source };
+      resume.skills.push(skill.text);
+    } else if (fields[`skills.${index}`] && fields[`skills.${index}`].confidence < skill.score) {
+      fields[`skills.${index}`].confidence = skill.score;
+    }
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * PDF Text Extraction
+ *
+ * Extracts reading-order text from PDF resumes using pdf.js.
+ * Text items are grouped into lines by their baseline, and pages with a
+ * sidebar or two-column layout are split at the column gutter so each
+ * column is read top to bottom instead of being interleaved line by line.
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { EncryptedPdfError, ResumeParseError, ScannedPdfError } from './errors';
+
+// Minimum number of non-whitespace characters for a PDF to count as text-based
+const MIN_TEXT_CHARACTERS = 20;
+
+// Number of horizontal buckets used to look for a column gutter
+const GUTTER_BUCKETS = 100;
+
+// Gutter search is limited to the middle of the page (fraction of page width)
+const GUTTER_SEARCH_START = 0.2;
+const GUTTER_SEARCH_END = 0.8;
+
+// A column needs at least this many lines on each side of the gutter
+const MIN_COLUMN_LINES = 3;
+
+interface PositionedItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TextLine {
+  items: PositionedItem[];
+  y: number;
+  height: number;
+  minX: number;
+  maxX: number;
+}
+
+/**
+ * Group text items into lines sharing (roughly) the same baseline
+ */
+function groupIntoLines(items: PositionedItem[]): TextLine[] {
+  // PDF coordinates grow upwards, so sort top of page first
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: TextLine[] = [];
+
+  for (const item of sorted) {
+    const current = lines[lines.length - 1];
+    const tolerance = Math.max(item.height, current?.height || 0) * 0.5 || 2;
+
+    if (current && Math.abs(current.y - item.y) <= tolerance) {
+      current.items.push(item);
+      current.height = Math.max(current.height, item.height);
+      current.minX = Math.min(current.minX, item.x);
+      current.maxX = Math.max(current.maxX, item.x + item.width);
+    } else {
+      lines.push({
+        items: [item],
+        y: item.y,
+        height: item.height,
+        minX: item.x,
+        maxX: item.x + item.width,
+      });
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+  }
+
+  return lines;
+}
+
+/**
+ * Join the items of one line, inserting spaces where glyph runs are apart
+ */
+function lineToText(items: PositionedItem[]): string {
+  let text = '';
+  let previousEnd: number | null = null;
+
+  for (const item of items) {
+    if (previousEnd !== null) {
+      const gap = item.x - previousEnd;
+      const needsSpace = !text.endsWith(' ') && !item.text.startsWith(' ');
+      if (needsSpace && gap > item.height * 0.15) {
+        text += ' ';
+      }
+    }
+    text += item.text;
+    previousEnd = item.x + item.width;
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find an empty vertical band in the middle of the page separating two columns
+ * @returns Gutter x position, or null for single-column pages
+ */
+function findColumnGutter(lines: TextLine[], pageWidth: number): number | null {
+  if (lines.length < MIN_COLUMN_LINES * 2 || pageWidth <= 0) {
+    return null;
+  }
+
+  const bucketWidth = pageWidth / GUTTER_BUCKETS;
+  const coverage = new Array<number>(GUTTER_BUCKETS).fill(0);
+
+  for (const line of lines) {
+    const covered = new Set<number>();
+    for (const item of line.items) {
+      if (!item.text.trim()) continue;
+      const start = Math.max(0, Math.floor(item.x / bucketWidth));
+      const end = Math.min(GUTTER_BUCKETS - 1, Math.floor((item.x + item.width) / bucketWidth));
+      for (let bucket = start; bucket <= end; bucket++) {
+        covered.add(bucket);
+      }
+    }
+    covered.forEach((bucket) => coverage[bucket]++);
+  }
+
+  // Allow a few full-width lines (name, headline) to cross the gutter
+  const maxCrossingLines = Math.max(1, Math.floor(lines.length * 0.1));
+  const searchStart = Math.floor(GUTTER_BUCKETS * GUTTER_SEARCH_START);
+  const searchEnd = Math.ceil(GUTTER_BUCKETS * GUTTER_SEARCH_END);
+
+  let best: { start: number; end: number } | null = null;
+  let runStart: number | null = null;
+
+  for (let bucket = searchStart; bucket <= searchEnd; bucket++) {
+    const isGap = bucket < searchEnd && coverage[bucket] <= maxCrossingLines;
+    if (isGap && runStart === null) {
+      runStart = bucket;
+    } else if (!isGap && runStart !== null) {
+      if (!best || bucket - runStart > best.end - best.start) {
+        best = { start: runStart, end: bucket };
+      }
+      runStart = null;
+    }
+  }
+
+  if (!best || best.end - best.start < 2) {
+    return null;
+  }
+
+  const gutter = ((best.start + best.end) / 2) * bucketWidth;
+  const leftLines = lines.filter((line) => line.minX < gutter).length;
+  const rightLines = lines.filter((line) => line.maxX > gutter).length;
+
+  if (leftLines < MIN_COLUMN_LINES || rightLines < MIN_COLUMN_LINES) {
+    return null;
+  }
+
+  // Right-aligned dates in a single-column resume also leave an empty band,
+  // but they always share a baseline with text on the left. Real columns have
+  // lines of their own on the right side.
+  const rightOnlyLines = lines.filter((line) => line.minX >= gutter).length;
+  const pairedLines = lines.filter((line) => line.minX < gutter && line.maxX > gutter).length;
+  if (rightOnlyLines < MIN_COLUMN_LINES && pairedLines > rightLines / 2) {
+    return null;
+  }
+
+  return gutter;
+}
+
+/**
+ * Render lines to text, adding a blank line where there is a large vertical gap
+ */
+function linesToText(lines: TextLine[]): string[] {
+  const output: string[] = [];
+  let previous: TextLine | null = null;
+
+  for (const line of lines) {
+    const text = lineToText(line.items);
+    if (!text) continue;
+
+    if (previous && previous.y - line.y > Math.max(previous.height, line.height) * 1.8) {
+      output.push('');
+    }
+    output.push(text);
+    previous = line;
+  }
+
+  return output;
+}
+
+/**
+ * Build a line from the items of one column, re-deriving its baseline
+ * (lines from both columns may have been merged when baselines were close)
+ */
+function toColumnLine(items: PositionedItem[]): TextLine {
+  return {
+    items,
+    y: Math.max(...items.map((item) => item.y)),
+    height: Math.max(...items.map((item) => item.height)),
+    minX: Math.min(...items.map((item) => item.x)),
+    maxX: Math.max(...items.map((item) => item.x + item.width)),
+  };
+}
+
+/**
+ * Convert the text items of a single page into reading-order text
+ */
+function layoutPageText(items: PositionedItem[], pageWidth: number): string {
+  const lines = groupIntoLines(items.filter((item) => item.text.length > 0));
+  const gutter = findColumnGutter(lines, pageWidth);
+
+  if (gutter === null) {
+    return linesToText(lines).join('\n');
+  }
+
+  // Lines crossing the gutter (e.g. the header) break the page into bands;
+  // within each band the left column is read before the right column
+  const output: string[] = [];
+  let band: TextLine[] = [];
+
+  const flushBand = () => {
+    if (band.length === 0) return;
+    const left: TextLine[] = [];
+    const right: TextLine[] = [];
+
+    for (const line of band) {
+      const leftItems = line.items.filter((item) => item.x + item.width / 2 < gutter);
+      const rightItems = line.items.filter((item) => item.x + item.width / 2 >= gutter);
+      if (leftItems.length > 0) left.push(toColumnLine(leftItems));
+      if (rightItems.length > 0) right.push(toColumnLine(rightItems));
+    }
+
+    output.push(...linesToText(left));
+    if (left.length > 0 && right.length > 0) output.push('');
+    output.push(...linesToText(right));
+    band = [];
+  };
+
+  for (const line of lines) {
+    const crossesGutter = line.items.some(
+      (item) => item.text.trim() && item.x < gutter && item.x + item.width > gutter
+    );
+
+    if (crossesGutter) {
+      flushBand();
+      output.push(lineToText(line.items), '');
+    } else {
+      band.push(line);
+    }
+  }
+  flushBand();
+
+  return output.join('\n');
+}
+
+/**
+ * Check whether a page draws images (used to tell scanned PDFs from empty ones)
+ */
+async function pageHasImages(
+  page: { getOperatorList: () => Promise<{ fnArray: number[] }> },
+  imageOps: number[]
+): Promise<boolean> {
+  const operatorList = await page.getOperatorList();
+  return operatorList.fnArray.some((fn) => imageOps.includes(fn));
+}
+
+/**
+ * Extract reading-order text from a PDF file
+ * @param buffer - PDF file buffer
+ * @returns Extracted plain text, pages separated by blank lines
+ * @throws EncryptedPdfError if the PDF is password protected
+ * @throws ScannedPdfError if the PDF has no text layer
+ */
+export async function extractPdfText(buffer: Buffer): Promise<string> {
+  const { getDocument, OPS } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  let document;
+  try {
+    document = await getDocument({
+      data: new Uint8Array(buffer),
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0,
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new EncryptedPdfError({ cause: error });
+    }
+    throw new ResumeParseError('INVALID_DOCUMENT', 'The uploaded file is not a readable PDF', {
+      cause: error,
+    });
+  }
+
+  try {
+    const pages: string[] = [];
+    let hasImages = false;
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items = content.items
+        .filter((item): item is TextItem => 'str' in item)
+        .map((item) => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+        }));
+
+      const pageText = layoutPageText(items, viewport.width);
+      if (pageText.trim()) {
+        pages.push(pageText);
+      } else if (!hasImages) {
+        hasImages = await pageHasImages(page, [
+          OPS.paintImageXObject,
+          OPS.paintInlineImageXObject,
+          OPS.paintImageMaskXObject,
+        ]);
+      }
+
+      page.cleanup();
+    }
+
+    const text = pages.join('\n\n');
+    if (text.replace(/\s/g, '').length < MIN_TEXT_CHARACTERS) {
+      if (hasImages) {
+        throw new ScannedPdfError();
+      }
+      throw new ResumeParseError('EMPTY_DOCUMENT', 'The uploaded PDF does not contain any text');
+    }
+
+    return text;
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * ParsedResume JSON Schema
+ *
+ * Sent to LLM providers to constrain their output, and used to validate
+ * what comes back. The schema follows the strict structured-output rules
+ * (every property required, no additional properties), so optional
+ * ParsedResume fields are nullable here and dropped after validation.
+ */
+
+import { validateJsonSchema, type JsonSchema } from '@/lib/utils/json-schema';
+import { normalizeDate } from './dates';
+import type { ParsedResume } from './types';
+
+const string: JsonSchema = { type: 'string' };
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+const stringArray: JsonSchema = { type: 'array', items: string };
+
+/**
+ * Object schema with every property required and nothing else allowed
+ */
+function strictObject(properties: Record<string, JsonSchema>): JsonSchema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+function nullableArrayOf(items: JsonSchema): JsonSchema {
+  return { type: ['array', 'null'], items };
+}
+
+export const PARSED_RESUME_SCHEMA: JsonSchema = strictObject({
+  personal: strictObject({
+    name: string,
+    email: string,
+    phone: nullableString,
+    location: nullableString,
+    website: nullableString,
+    linkedin: nullableString,
+    github: nullableString,
+  }),
+  summary: nullableString,
+  workExperience: {
+    type: 'array',
+    items: strictObject({
+      company: string,
+      position: string,
+      startDate: string,
+      endDate: nullableString,
+      location: nullableString,
+      description: string,
+      highlights: stringArray,
+    }),
+  },
+  education: {
+    type: 'array',
+    items: strictObject({
+      institution: string,
+      degree: string,
+      field: string,
+      startDate: string,
+      endDate: nullableString,
+      location: nullableString,
+      gpa: nullableString,
+    }),
+  },
+  skills: stringArray,
+  projects: nullableArrayOf(
+    strictObject({
+      name: string,
+      description: string,
+      technologies: stringArray,
+      url: nullableString,
+      repository: nullableString,
+    })
+  ),
+  certifications: nullableArrayOf(
+    strictObject({
+      name: string,
+      issuer: string,
+      date: string,
+      url: nullableString,
+    })
+  ),
+  languages: nullableArrayOf(
+    strictObject({
+      language: string,
+      proficiency: string,
+    })
+  ),
+});
+
+/**
+ * Fill in nullable properties a model left out
+ * Providers without strict schema enforcement (tool use, local models)
+ * often omit empty optional fields instead of sending null.
+ */
+function fillMissingNullables(value: unknown, schema: JsonSchema): unknown {
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item) => fillMissingNullables(item, schema.items as JsonSchema));
+  }
+  if (value && typeof value === 'object' && schema.properties) {
+    const filled: Record<string, unknown> = { ...value };
+    for (const [key, property] of Object.entries(schema.properties as Record<string, JsonSchema>)) {
+      const nullable = Array.isArray(property.type) && property.type.includes('null');
+      if (filled[key] === undefined && nullable) {
+        filled[key] = null;
+      } else if (filled[key] !== undefined) {
+        filled[key] = fillMissingNullables(filled[key], property);
+      }
+    }
+    return filled;
+  }
+  return value;
+}
+
+/**
+ * Recursively drop null values (optional fields the model left empty)
+ */
+function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(dropNulls);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== null)
+        .map(([key, item]) => [key, dropNulls(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Bring model-written dates into the parser's format ("YYYY-MM", "YYYY", "Present")
+ * Dates the normalizer does not understand are kept as written.
+ */
+function normalizeDates(resume: ParsedResume): ParsedResume {
+  const normalize = (date: string | undefined) => (date ? normalizeDate(date) || date : date);
+
+  for (const entry of [...resume.workExperience, ...resume.education]) {
+    entry.startDate = normalize(entry.startDate) || '';
+    entry.endDate = normalize(entry.endDate);
+  }
+  for (const certification of resume.certifications || []) {
+    certification.date = normalize(certification.date) || '';
+  }
+
+  return resume;
+}
+
+/**
+ * Validate untrusted data (e.g. LLM output) as a ParsedResume
+ * @param value - Parsed JSON value
+ * @returns The resume, or the validation errors
+ */
+export function validateResumeData(
+  value: unknown
+): { resume: ParsedResume; errors?: undefined } | { resume?: undefined; errors: string[] } {
+  const filled = fillMissingNullables(value, PARSED_RESUME_SCHEMA);
+  const errors = validateJsonSchema(filled, PARSED_RESUME_SCHEMA);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { resume: normalizeDates(dropNulls(filled) as ParsedResume) };
+}
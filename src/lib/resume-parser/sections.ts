@@ -0,0 +1,208 @@
+/**
+ * Resume Section Segmenter
+ *
+ * Splits resume text into sections (Experience, Education, Skills, ...)
+ * by recognizing heading lines in their common variants, including
+ * upper-case headings, "Heading:" labels and markdown "## Heading".
+ * Every line keeps its character offset in the original text.
+ */
+
+export type SectionType =
+  | 'header'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'projects'
+  | 'certifications'
+  | 'languages'
+  | 'other';
+
+export interface ResumeLine {
+  text: string;
+  // Character offset of the (trimmed) line in the original text
+  start: number;
+  end: number;
+}
+
+export interface ResumeSection {
+  type: SectionType;
+  heading?: ResumeLine;
+  lines: ResumeLine[];
+}
+
+// Heading variants per section, compared after normalization (lower case, no punctuation)
+const SECTION_HEADINGS: Record<Exclude<SectionType, 'header' | 'other'>, string[]> = {
+  summary: [
+    'summary', 'professional summary', 'career summary', 'executive summary',
+    'profile', 'professional profile', 'about', 'about me', 'objective',
+    'career objective', 'overview', 'introduction',
+  ],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'relevant experience',
+    'employment', 'employment history', 'work history', 'career history',
+    'professional background', 'positions held', 'experience and employment',
+  ],
+  education: [
+    'education', 'academic background', 'academic history', 'academics',
+    'education and training', 'educational background', 'qualifications',
+    'academic qualifications',
+  ],
+  skills: [
+    'skills', 'technical skills', 'core skills', 'key skills', 'core competencies',
+    'competencies', 'areas of expertise', 'expertise', 'technologies',
+    'tech stack', 'tools and technologies', 'skills and tools', 'skill set', 'skillset',
+  ],
+  projects: [
+    'projects', 'personal projects', 'selected projects', 'key projects',
+    'side projects', 'academic projects', 'open source', 'open source projects',
+    'portfolio',
+  ],
+  certifications: [
+    'certifications', 'certificates', 'certification', 'licenses',
+    'licenses and certifications', 'licences and certifications',
+    'professional certifications', 'courses and certifications', 'training',
+  ],
+  languages: [
+    'languages', 'language skills', 'spoken languages', 'language proficiency',
+  ],
+};
+
+const HEADING_LOOKUP = new Map<string, SectionType>();
+for (const [type, variants] of Object.entries(SECTION_HEADINGS)) {
+  for (const variant of variants) {
+    HEADING_LOOKUP.set(variant, type as SectionType);
+  }
+}
+
+// Longest heading we consider, in characters
+const MAX_HEADING_LENGTH = 40;
+
+const BULLET_PATTERN = /^\s*(?:[•·▪●◦‣○■□➢➤►✓✔*>–—-]|\d{1,2}[.)])\s+/;
+
+/**
+ * Normalize a candidate heading line for lookup
+ */
+function normalizeHeading(text: string): string {
+  return text
+    .replace(/^#+\s*/, '')
+    .replace(/[*_=~`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[:|—–-]+\s*$/, '')
+    .replace(/[^a-z\s]/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Detect whether a line is a section heading
+ * @returns The section type, or null for regular lines
+ */
+export function detectSectionHeading(text: string): SectionType | null {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH || isBulletLine(trimmed)) {
+    return null;
+  }
+
+  const normalized = normalizeHeading(trimmed);
+  const type = HEADING_LOOKUP.get(normalized);
+  if (type) {
+    return type;
+  }
+
+  // Spaced-out headings like "E X P E R I E N C E"
+  if (/^([A-Za-z] ){3,}[A-Za-z]$/.test(trimmed)) {
+    return HEADING_LOOKUP.get(trimmed.replace(/ /g, '').toLowerCase()) || null;
+  }
+
+  return null;
+}
+
+/**
+ * Check if a line is a bullet point
+ */
+export function isBulletLine(text: string): boolean {
+  return BULLET_PATTERN.test(text);
+}
+
+/**
+ * Remove the bullet marker from a line
+ */
+export function stripBullet(text: string): string {
+  return text.replace(BULLET_PATTERN, '').trim();
+}
+
+/**
+ * Split text into trimmed lines with their offsets, skipping blank lines
+ * but recording them as paragraph breaks (empty text)
+ */
+export function splitLines(text: string): ResumeLine[] {
+  const lines: ResumeLine[] = [];
+  let offset = 0;
+
+  for (const raw of text.split('\n')) {
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    const start = offset + leading;
+    lines.push({ text: trimmed, start, end: start + trimmed.length });
+    offset += raw.length + 1;
+  }
+
+  // Collapse consecutive blank lines into one paragraph break
+  return lines.filter(
+    (line, index) => line.text !== '' || (index > 0 && lines[index - 1].text !== '')
+  );
+}
+
+/**
+ * Segment resume text into sections
+ * Lines before the first recognized heading form the 'header' section
+ * (name and contact details). A "Heading: content" line starts the section
+ * and keeps the content as its first line.
+ * @param text - Resume text content
+ * @returns Sections in document order
+ */
+export function segmentSections(text: string): ResumeSection[] {
+  const sections: ResumeSection[] = [{ type: 'header', lines: [] }];
+
+  for (const line of splitLines(text)) {
+    const current = sections[sections.length - 1];
+    const type = detectSectionHeading(line.text);
+
+    if (type) {
+      sections.push({ type, heading: line, lines: [] });
+      continue;
+    }
+
+    // Inline label: "Skills: TypeScript, Go, SQL"
+    // Inside a skills section labels are skill categories ("Languages: Go, Rust"),
+    // and within a job or project they are entry details ("Technologies: ...")
+    // unless separated from the entry by a blank line
+    const inline = line.text.match(/^([A-Za-z &]{3,30}):\s*(\S.*)$/);
+    const inlineType = inline ? detectSectionHeading(inline[1]) : null;
+    const previous = current.lines[current.lines.length - 1];
+    const inEntry = (current.type === 'experience' || current.type === 'projects') && !!previous?.text;
+    if (inline && inlineType && inlineType !== current.type && current.type !== 'skills' && !inEntry) {
+      const contentOffset = line.text.indexOf(inline[2]);
+      sections.push({
+        type: inlineType,
+        heading: { text: inline[1], start: line.start, end: line.start + inline[1].length },
+        lines: [{ text: inline[2], start: line.start + contentOffset, end: line.end }],
+      });
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+
+  // Drop leading/trailing paragraph breaks inside each section
+  for (const section of sections) {
+    while (section.lines.length && section.lines[0].text === '') section.lines.shift();
+    while (section.lines.length && section.lines[section.lines.length - 1].text === '') {
+      section.lines.pop();
+    }
+  }
+
+  return sections.filter((section) => section.lines.length > 0 || section.heading);
+}
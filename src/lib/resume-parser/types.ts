@@ -0,0 +1,84 @@
+/**
+ * Resume parser types
+ */
+
+export interface ParsedResume {
+  personal: {
+    name: string;
+    email: string;
+    phone?: string;
+    location?: string;
+    website?: string;
+    linkedin?: string;
+    github?: string;
+  };
+  summary?: string;
+  workExperience: Array<{
+    company: string;
+    position: string;
+    startDate: string;
+    endDate?: string;
+    location?: string;
+    description: string;
+    highlights: string[];
+  }>;
+  education: Array<{
+    institution: string;
+    degree: string;
+    field: string;
+    startDate: string;
+    endDate?: string;
+    location?: string;
+    gpa?: string;
+  }>;
+  skills: string[];
+  projects?: Array<{
+    name: string;
+    description: string;
+    technologies: string[];
+    url?: string;
+    repository?: string;
+  }>;
+  certifications?: Array<{
+    name: string;
+    issuer: string;
+    date: string;
+    url?: string;
+  }>;
+  languages?: Array<{
+    language: string;
+    proficiency: string;
+  }>;
+}
+
+/**
+ * Character range of a value in the original resume text (end exclusive)
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * How sure the parser is about a single extracted field
+ */
+export interface FieldConfidence {
+  // 0 (guess) to 1 (certain)
+  confidence: number;
+  // Where the value was read from; absent for values assembled from several places
+  source?: SourceSpan;
+}
+
+/**
+ * Field confidences keyed by the field's path in ParsedResume,
+ * e.g. "personal.name", "workExperience.0.company" or "skills.3"
+ */
+export type ResumeFieldConfidence = Record<string, FieldConfidence>;
+
+/**
+ * Parsed resume together with per-field confidence and provenance
+ */
+export interface ParsedResumeWithConfidence {
+  resume: ParsedResume;
+  fields: ResumeFieldConfidence;
+}
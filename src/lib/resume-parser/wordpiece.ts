@@ -0,0 +1,164 @@
+/**
+ * BERT WordPiece Tokenizer
+ *
+ * Re-implements the uncased BERT tokenizer (basic tokenization followed by
+ * greedy longest-match WordPiece) and keeps the character offset of every
+ * token in the original text, so model predictions can be mapped back.
+ */
+
+export interface WordPieceToken {
+  id: number;
+  piece: string;
+  // Index of the word (basic token) this piece belongs to
+  wordIndex: number;
+  // Character range in the original text
+  start: number;
+  end: number;
+}
+
+export interface WordPieceVocab {
+  ids: Map<string, number>;
+  unkId: number;
+  clsId: number;
+  sepId: number;
+  padId: number;
+}
+
+// BERT skips words longer than this and emits [UNK]
+const MAX_WORD_LENGTH = 100;
+
+/**
+ * Parse a vocab.txt file (one token per line, id = line number)
+ * @throws Error if a required special token is missing
+ */
+export function parseVocab(contents: string): WordPieceVocab {
+  const ids = new Map<string, number>();
+  contents.split(/\r?\n/).forEach((token, index) => {
+    if (token && !ids.has(token)) ids.set(token, index);
+  });
+
+  const special = (token: string) => {
+    const id = ids.get(token);
+    if (id === undefined) {
+      throw new Error(`Vocabulary is missing the ${token} token`);
+    }
+    return id;
+  };
+
+  return {
+    ids,
+    unkId: special('[UNK]'),
+    clsId: special('[CLS]'),
+    sepId: special('[SEP]'),
+    padId: special('[PAD]'),
+  };
+}
+
+/**
+ * BERT treats all non-alphanumeric ASCII and Unicode punctuation as punctuation
+ */
+function isPunctuation(char: string): boolean {
+  const code = char.charCodeAt(0);
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64) || (code >= 91 && code <= 96) || (code >= 123 && code <= 126)) {
+    return true;
+  }
+  return /\p{P}/u.test(char);
+}
+
+/**
+ * CJK ideographs are tokenized one character at a time
+ */
+function isCjk(char: string): boolean {
+  return /\p{Script=Han}/u.test(char);
+}
+
+/**
+ * Lower-case and strip accents (BERT uncased normalization)
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+}
+
+/**
+ * Split text into words and punctuation with their offsets
+ */
+function basicTokenize(text: string): Array<{ text: string; start: number; end: number }> {
+  const words: Array<{ text: string; start: number; end: number }> = [];
+  let start = -1;
+
+  const flush = (end: number) => {
+    if (start >= 0) {
+      words.push({ text: text.slice(start, end), start, end });
+      start = -1;
+    }
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const code = char.charCodeAt(0);
+
+    if (/\s/.test(char) || code === 0 || code === 0xfffd || /\p{Cc}/u.test(char)) {
+      flush(index);
+    } else if (isPunctuation(char) || isCjk(char)) {
+      flush(index);
+      words.push({ text: char, start: index, end: index + 1 });
+    } else if (start < 0) {
+      start = index;
+    }
+  }
+  flush(text.length);
+
+  return words;
+}
+
+/**
+ * Tokenize text into WordPiece tokens (without [CLS]/[SEP])
+ */
+export function wordPieceTokenize(text: string, vocab: WordPieceVocab): WordPieceToken[] {
+  const tokens: WordPieceToken[] = [];
+
+  basicTokenize(text).forEach((word, wordIndex) => {
+    const normalized = normalizeWord(word.text);
+    // Offsets of sub-pieces are only exact when normalization kept the length
+    const exactOffsets = normalized.length === word.text.length;
+    const pieceSpan = (from: number, to: number) =>
+      exactOffsets ? { start: word.start + from, end: word.start + to } : { start: word.start, end: word.end };
+
+    if (normalized.length > MAX_WORD_LENGTH) {
+      tokens.push({ id: vocab.unkId, piece: '[UNK]', wordIndex, start: word.start, end: word.end });
+      return;
+    }
+
+    const pieces: WordPieceToken[] = [];
+    let from = 0;
+
+    while (from < normalized.length) {
+      let to = normalized.length;
+      let match: { id: number; piece: string } | null = null;
+
+      while (from < to) {
+        const piece = (from > 0 ? '##' : '') + normalized.slice(from, to);
+        const id = vocab.ids.get(piece);
+        if (id !== undefined) {
+          match = { id, piece };
+          break;
+        }
+        to--;
+      }
+
+      if (!match) {
+        // One unknown piece makes the whole word unknown
+        pieces.length = 0;
+        pieces.push({ id: vocab.unkId, piece: '[UNK]', wordIndex, start: word.start, end: word.end });
+        break;
+      }
+
+      pieces.push({ ...match, wordIndex, ...pieceSpan(from, to) });
+      from = to;
+    }
+
+    tokens.push(...pieces);
+  });
+
+  return tokens;
+}
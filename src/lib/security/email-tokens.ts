@@ -0,0 +1,91 @@
+/**
+ * Email verification and password reset
+ *
+ * Both send a link with a random token. Only the token's SHA-256 hash is
+ * stored (user_tokens); a token works once, until it expires, and sending
+ * a new link replaces the previous one.
+ */
+
+import {
+  consumeUserToken,
+  createUserToken,
+  findUserById,
+  markUserEmailVerified,
+  resetUserPassword,
+} from '@/lib/db/services';
+import type { User } from '@/lib/db/schema';
+import { passwordResetEmail, sendMail, verificationEmail } from '@/lib/mail';
+import { getBaseUrl } from '@/lib/portfolio/urls';
+import { generateResetToken, generateVerificationToken, hashPassword, hashToken } from './auth';
+
+export const EMAIL_VERIFICATION_LIFETIME = 24 * 60 * 60;
+export const PASSWORD_RESET_LIFETIME = 60 * 60;
+
+/**
+ * Whether users must verify their email before signing in (REQUIRE_EMAIL_VERIFICATION)
+ */
+export function isEmailVerificationRequired(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+/**
+ * Email a link that verifies the user's address
+ * @throws MailTransportError if the email could not be sent
+ */
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const token = generateVerificationToken();
+  await createUserToken({
+    userId: user.id,
+    purpose: 'verify_email',
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_LIFETIME * 1000),
+  });
+
+  const url = `${getBaseUrl()}/verify-email?token=${token}`;
+  await sendMail(verificationEmail(user.email, url, EMAIL_VERIFICATION_LIFETIME / 3600));
+}
+
+/**
+ * Email a link to choose a new password
+ * @throws MailTransportError if the email could not be sent
+ */
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  const token = generateResetToken();
+  await createUserToken({
+    userId: user.id,
+    purpose: 'reset_password',
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_LIFETIME * 1000),
+  });
+
+  const url = `${getBaseUrl()}/reset-password?token=${token}`;
+  await sendMail(passwordResetEmail(user.email, url, PASSWORD_RESET_LIFETIME / 60));
+}
+
+/**
+ * Verify an email address with the token of a verification link
+ * @returns The verified user, or null if the link is invalid, used, expired
+ * or was sent to an address the user no longer has
+ */
+export async function verifyEmail(token: string): Promise<User | null> {
+  const claimed = await consumeUserToken('verify_email', hashToken(token));
+  return claimed ? markUserEmailVerified(claimed.userId, claimed.email) : null;
+}
+
+/**
+ * Set a new password with the token of a reset link, signing out every session
+ * @returns The user, or null if the link is invalid, used, expired or was
+ * sent to an address the user no longer has
+ */
+export async function resetPassword(token: string, password: string): Promise<User | null> {
+  const claimed = await consumeUserToken('reset_password', hashToken(token));
+  const user = claimed ? await findUserById(claimed.userId) : null;
+  if (!claimed || !user || user.email !== claimed.email) {
+    return null;
+  }
+
+  await resetUserPassword(user.id, await hashPassword(password));
+  return user;
+}
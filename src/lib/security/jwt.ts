@@ -5,7 +5,7 @@
 
 import crypto from 'crypto';
 
-interface JWTPayload {
+export interface JWTPayload {
   sub: string; // User ID (subject)
   email?: string;
   role?: string; // User role
@@ -26,6 +26,10 @@ interface JWTHeader {
   typ: string;
 }
 
+// Token lifetimes in seconds
+export const ACCESS_TOKEN_LIFETIME = 3600; // 1 hour
+export const REFRESH_TOKEN_LIFETIME = 604800; // 7 days
+
 /**
  * Get JWT secret from environment
  */
@@ -75,14 +79,15 @@ function base64UrlDecode(data: string): string {
  * Sign a JWT token
  * @param payload - Token payload
  * @param expiresIn - Expiration time in seconds (default: 24 hours)
+ * @param now - Issue time in seconds since the epoch (default: now)
  * @returns JWT token
  */
 export function signJWT(
   payload: JWTPayloadInput,
-  expiresIn: number = 86400 // 24 hours
+  expiresIn: number = 86400, // 24 hours
+  now: number = Math.floor(Date.now() / 1000)
 ): string {
   const secret = getJWTSecret();
-  const now = Math.floor(Date.now() / 1000);
   
   const header: JWTHeader = {
     alg: 'HS256',
@@ -178,24 +183,55 @@ export function decodeJWT(token: string): JWTPayload | null {
  * @param userId - User ID
  * @param email - User email
  * @param role - User role (optional)
+ * @param sessionId - Session the token was issued for (optional)
  * @returns Access token
  */
-export function createAccessToken(userId: string, email: string, role?: string): string {
+export function createAccessToken(userId: string, email: string, role?: string, sessionId?: string): string {
   return signJWT(
-    { sub: userId, email, role, type: 'access' },
-    3600 // 1 hour
+    { sub: userId, email, role, sid: sessionId, type: 'access' },
+    ACCESS_TOKEN_LIFETIME
   );
 }
 
 /**
  * Create a refresh token (long-lived)
+ * Each token is unique (`jti`), so a rotated token never matches its successor.
  * @param userId - User ID
+ * @param sessionId - Session the token belongs to
  * @returns Refresh token
  */
-export function createRefreshToken(userId: string): string {
+export function createRefreshToken(userId: string, sessionId: string): string {
   return signJWT(
-    { sub: userId, type: 'refresh' },
-    604800 // 7 days
+    { sub: userId, sid: sessionId, jti: crypto.randomBytes(16).toString('hex'), type: 'refresh' },
+    REFRESH_TOKEN_LIFETIME
+  );
+}
+
+/**
+ * Create the refresh token that replaces another one on rotation
+ * The token is derived from the replaced token and the rotation time (whole
+ * seconds), so the same successor can be issued again without storing it.
+ * @param previousToken - Refresh token being replaced
+ * @param userId - User ID
+ * @param sessionId - Session the token belongs to
+ * @param rotatedAt - Rotation time
+ * @returns Refresh token
+ */
+export function createSuccessorRefreshToken(
+  previousToken: string,
+  userId: string,
+  sessionId: string,
+  rotatedAt: Date
+): string {
+  const jti = crypto
+    .createHmac('sha256', getJWTSecret())
+    .update(`refresh-successor:${previousToken}`)
+    .digest('hex')
+    .slice(0, 32);
+  return signJWT(
+    { sub: userId, sid: sessionId, jti, type: 'refresh' },
+    REFRESH_TOKEN_LIFETIME,
+    Math.floor(rotatedAt.getTime() / 1000)
   );
 }
 
@@ -232,14 +268,136 @@ export function getAccessTokenPayload(token: string): JWTPayload | null {
 /**
  * Verify refresh token
  * @param token - Refresh token
- * @returns User ID if valid, null otherwise
+ * @returns User ID and session ID if valid, null otherwise
  */
-export function verifyRefreshToken(token: string): string | null {
+export function verifyRefreshToken(token: string): { userId: string; sessionId: string } | null {
   const payload = verifyJWT(token);
   
-  if (!payload || payload.type !== 'refresh') {
+  if (!payload || payload.type !== 'refresh' || typeof payload.sid !== 'string') {
+    return null;
+  }
+  
+  return { userId: payload.sub, sessionId: payload.sid };
+}
+
+/**
+ * Create a preview token for a portfolio that is not public yet
+ * @param portfolioId - Portfolio ID
+ * @param expiresIn - Lifetime in seconds
+ * @returns Preview token
+ */
+export function createPreviewToken(portfolioId: string, expiresIn: number): string {
+  return signJWT({ sub: portfolioId, type: 'preview' }, expiresIn);
+}
+
+/**
+ * Verify preview token
+ * @param token - Preview token
+ * @returns Portfolio ID if valid, null otherwise
+ */
+export function verifyPreviewToken(token: string): string | null {
+  const payload = verifyJWT(token);
+  
+  if (!payload || payload.type !== 'preview') {
     return null;
   }
   
   return payload.sub;
 }
+
+/**
+ * Create a viewer token for a password-protected or invite-only portfolio
+ * @param portfolioId - Portfolio ID
+ * @param accessVersion - Access version of the portfolio; changes invalidate the token
+ * @param expiresIn - Lifetime in seconds
+ * @returns Viewer token
+ */
+export function createPortfolioAccessToken(
+  portfolioId: string,
+  accessVersion: number,
+  expiresIn: number
+): string {
+  return signJWT({ sub: portfolioId, type: 'portfolio_access', ver: accessVersion }, expiresIn);
+}
+
+/**
+ * Verify viewer token
+ * @param token - Viewer token
+ * @returns Portfolio ID and access version if valid, null otherwise
+ */
+export function verifyPortfolioAccessToken(
+  token: string
+): { portfolioId: string; accessVersion: number } | null {
+  const payload = verifyJWT(token);
+  
+  if (!payload || payload.type !== 'portfolio_access' || typeof payload.ver !== 'number') {
+    return null;
+  }
+  
+  return { portfolioId: payload.sub, accessVersion: payload.ver };
+}
+
+/**
+ * Create the state token of an OAuth sign-in, kept in a cookie until the provider redirects back
+ * @param provider - OAuth provider
+ * @param data - State sent to the provider, PKCE code verifier and page to return to
+ * @param expiresIn - Lifetime in seconds
+ * @returns State token
+ */
+export function createOAuthStateToken(
+  provider: string,
+  data: { state: string; codeVerifier: string; from: string },
+  expiresIn: number
+): string {
+  return signJWT({ sub: provider, type: 'oauth_state', ...data }, expiresIn);
+}
+
+/**
+ * Verify OAuth state token
+ * @param token - State token
+ * @returns Provider, state, code verifier and return path if valid, null otherwise
+ */
+export function verifyOAuthStateToken(
+  token: string
+): { provider: string; state: string; codeVerifier: string; from: string } | null {
+  const payload = verifyJWT(token);
+  
+  if (
+    !payload ||
+    payload.type !== 'oauth_state' ||
+    typeof payload.state !== 'string' ||
+    typeof payload.codeVerifier !== 'string' ||
+    typeof payload.from !== 'string'
+  ) {
+    return null;
+  }
+  
+  return { provider: payload.sub, state: payload.state, codeVerifier: payload.codeVerifier, from: payload.from };
+}
+
+/**
+ * Create the pre-auth token of a sign-in that still needs its second factor
+ * It proves the password was correct, but grants no access by itself.
+ * @param userId - User ID
+ * @param stage - 'verify' for a code of the user's authenticator, 'enroll' if the user must set one up first
+ * @param expiresIn - Lifetime in seconds
+ * @returns Pre-auth token
+ */
+export function createPreAuthToken(userId: string, stage: 'verify' | 'enroll', expiresIn: number): string {
+  return signJWT({ sub: userId, type: 'pre_auth', stage }, expiresIn);
+}
+
+/**
+ * Verify pre-auth token
+ * @param token - Pre-auth token
+ * @returns User ID and stage if valid, null otherwise
+ */
+export function verifyPreAuthToken(token: string): { userId: string; stage: 'verify' | 'enroll' } | null {
+  const payload = verifyJWT(token);
+  
+  if (!payload || payload.type !== 'pre_auth' || (payload.stage !== 'verify' && payload.stage !== 'enroll')) {
+    return null;
+  }
+  
+  return { userId: payload.sub, stage: payload.stage };
+}
@@ -0,0 +1,317 @@
+/**
+ * OAuth sign-in with GitHub and Google
+ *
+ * Authorization code flow with PKCE: GET /api/auth/oauth/{provider} sends
+ * the browser to the provider with a random `state` and a code challenge,
+ * keeping both secrets in a short-lived signed cookie. The provider
+ * redirects to /api/auth/callback/{provider}, which checks the state,
+ * exchanges the code with the verifier and reads the account's profile.
+ * Accounts are matched by linked identity first, then by verified email.
+ *
+ * Provider endpoints can be pointed elsewhere through environment variables
+ * (e.g. GITHUB_OAUTH_TOKEN_URL), so the flow runs against a local fake
+ * OAuth server in development and tests.
+ */
+
+import crypto from 'crypto';
+import {
+  createUser,
+  findUserByEmail,
+  findUserById,
+  findUserIdentity,
+  linkUserIdentity,
+} from '@/lib/db/services';
+import type { OAuthProvider, User } from '@/lib/db/schema';
+import { getBaseUrl } from '@/lib/portfolio/urls';
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ['github', 'google'];
+// Cookie holding the state token while the user is at the provider
+export const OAUTH_STATE_COOKIE = 'oauthState';
+export const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Provider names shown to users
+const PROVIDER_NAMES: Record<OAuthProvider, string> = {
+  github: 'GitHub',
+  google: 'Google',
+};
+
+interface ProviderConfig {
+  clientId?: string;
+  clientSecret?: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scope: string;
+}
+
+/**
+ * Profile of the provider account
+ */
+export interface OAuthProfile {
+  providerUserId: string;
+  email: string | null;
+  // Whether the provider verified the user owns the email
+  emailVerified: boolean;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+/**
+ * Error raised when talking to a provider fails
+ */
+export class OAuthError extends Error {
+  readonly provider: OAuthProvider;
+
+  constructor(provider: OAuthProvider, message: string, options?: { cause?: unknown }) {
+    super(`[${provider}] ${message}`, { cause: options?.cause });
+    this.name = 'OAuthError';
+    this.provider = provider;
+  }
+}
+
+function providerConfig(provider: OAuthProvider): ProviderConfig {
+  if (provider === 'github') {
+    return {
+      clientId: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET,
+      authorizeUrl: process.env.GITHUB_OAUTH_AUTHORIZE_URL || 'https://github.com/login/oauth/authorize',
+      tokenUrl: process.env.GITHUB_OAUTH_TOKEN_URL || 'https://github.com/login/oauth/access_token',
+      scope: 'read:user user:email',
+    };
+  }
+  return {
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    authorizeUrl: process.env.GOOGLE_OAUTH_AUTHORIZE_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+    scope: 'openid email profile',
+  };
+}
+
+function githubApiUrl(path: string): string {
+  return `${(process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '')}${path}`;
+}
+
+function googleUserInfoUrl(): string {
+  return process.env.GOOGLE_USERINFO_URL || 'https://openidconnect.googleapis.com/v1/userinfo';
+}
+
+export function isOAuthProvider(value: string): value is OAuthProvider {
+  return (OAUTH_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Whether the client ID and secret of a provider are set
+ */
+export function isOAuthProviderConfigured(provider: OAuthProvider): boolean {
+  const { clientId, clientSecret } = providerConfig(provider);
+  return Boolean(clientId && clientSecret);
+}
+
+/**
+ * Callback URL registered with the provider
+ */
+export function oauthRedirectUri(provider: OAuthProvider): string {
+  return `${getBaseUrl()}/api/auth/callback/${provider}`;
+}
+
+/**
+ * Start a sign-in: the provider URL to send the browser to, with the state and PKCE verifier to keep
+ */
+export function createAuthorizationRequest(provider: OAuthProvider): {
+  url: string;
+  state: string;
+  codeVerifier: string;
+} {
+  const config = providerConfig(provider);
+  const state = crypto.randomBytes(16).toString('base64url');
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const url = new URL(config.authorizeUrl);
+  url.searchParams.set('client_id', config.clientId || '');
+  url.searchParams.set('redirect_uri', oauthRedirectUri(provider));
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', config.scope);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (provider === 'google') {
+    url.searchParams.set('prompt', 'select_account');
+  }
+
+  return { url: url.toString(), state, codeVerifier };
+}
+
+/**
+ * Compare the state returned by the provider with the one sent, in constant time
+ */
+export function isSameState(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+async function requestJson(provider: OAuthProvider, url: string, init: RequestInit): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new OAuthError(provider, `Request to ${url} failed`, { cause: error });
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data || typeof data !== 'object') {
+    throw new OAuthError(provider, `HTTP ${response.status} from ${url}`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Exchange the authorization code for a provider access token
+ * @throws OAuthError if the provider rejects the code or verifier
+ */
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const config = providerConfig(provider);
+  const data = await requestJson(provider, config.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: oauthRedirectUri(provider),
+      client_id: config.clientId || '',
+      client_secret: config.clientSecret || '',
+    }).toString(),
+  });
+
+  // GitHub answers errors with 200 and an `error` field
+  if (typeof data.access_token !== 'string') {
+    throw new OAuthError(provider, `Token exchange failed: ${String(data.error || 'no access token')}`);
+  }
+  return data.access_token;
+}
+
+/**
+ * Read the profile of the provider account
+ * @throws OAuthError if the provider does not return one
+ */
+export async function fetchOAuthProfile(provider: OAuthProvider, accessToken: string): Promise<OAuthProfile> {
+  const headers = { Authorization: `Bearer ${accessToken}` };
+
+  if (provider === 'google') {
+    const info = await requestJson(provider, googleUserInfoUrl(), { headers });
+    if (typeof info.sub !== 'string') {
+      throw new OAuthError(provider, 'Profile has no account ID');
+    }
+    return {
+      providerUserId: info.sub,
+      email: typeof info.email === 'string' ? info.email : null,
+      emailVerified: info.email_verified === true,
+      name: typeof info.name === 'string' ? info.name : null,
+      avatarUrl: typeof info.picture === 'string' ? info.picture : null,
+    };
+  }
+
+  const user = await requestJson(provider, githubApiUrl('/user'), { headers });
+  if (typeof user.id !== 'number' && typeof user.id !== 'string') {
+    throw new OAuthError(provider, 'Profile has no account ID');
+  }
+
+  // The public profile email may be unverified; the primary verified address is what counts
+  const emails = await requestJson(provider, githubApiUrl('/user/emails'), { headers })
+    .then((data) => (Array.isArray(data) ? data : []))
+    .catch(() => []);
+  const primary = (emails as Array<{ email?: string; primary?: boolean; verified?: boolean }>)
+    .find((entry) => entry.primary && entry.verified && entry.email);
+
+  return {
+    providerUserId: String(user.id),
+    email: primary?.email || null,
+    emailVerified: Boolean(primary),
+    name: typeof user.name === 'string' ? user.name : typeof user.login === 'string' ? user.login : null,
+    avatarUrl: typeof user.avatar_url === 'string' ? user.avatar_url : null,
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string }).code === '23505';
+}
+
+/**
+ * Find or create the user of a provider account
+ * Accounts already linked sign in directly; otherwise the verified email
+ * links the account to an existing user, or a new user is created.
+ * @returns The user, or the HTTP status and message to respond with
+ */
+export async function resolveOAuthUser(
+  provider: OAuthProvider,
+  profile: OAuthProfile
+): Promise<{ user: User; error?: undefined } | { error: string; status: number }> {
+  const identity = await findUserIdentity(provider, profile.providerUserId);
+  let user = identity ? await findUserById(identity.userId) : null;
+
+  if (!user) {
+    if (!profile.email || !profile.emailVerified) {
+      return { error: 'Your account has no verified email address', status: 400 };
+    }
+
+    const email = profile.email.trim().toLowerCase();
+    const existing = await findUserByEmail(email);
+    if (existing && !existing.isActive) {
+      return { error: 'Account is deactivated', status: 403 };
+    }
+
+    user = existing;
+    if (!user) {
+      try {
+        user = await createUser({
+          email,
+          name: profile.name || undefined,
+          profilePhotoUrl: profile.avatarUrl || undefined,
+          role: 'user',
+          emailVerified: true,
+          isActive: true,
+        });
+      } catch (error) {
+        // A concurrent sign-in created the user in the meantime
+        user = isUniqueViolation(error) ? await findUserByEmail(email) : null;
+        if (!user) {
+          throw error;
+        }
+      }
+    }
+
+    try {
+      await linkUserIdentity(user, { provider, providerUserId: profile.providerUserId, email });
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+      // Either a concurrent sign-in linked this account already, or the
+      // user has another account of the provider linked
+      const linked = await findUserIdentity(provider, profile.providerUserId);
+      if (linked?.userId !== user.id) {
+        return {
+          error: `This account is already linked to another ${PROVIDER_NAMES[provider]} login`,
+          status: 409,
+        };
+      }
+    }
+  }
+
+  if (!user.isActive) {
+    return { error: 'Account is deactivated', status: 403 };
+  }
+  return { user };
+}
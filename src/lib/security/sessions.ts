@@ -0,0 +1,211 @@
+/**
+ * Sessions
+ *
+ * Every sign-in starts a session (sessions table). The refresh token names
+ * its session and only the hash of the current token is stored; every
+ * refresh replaces it with a new one. A refresh token that was already
+ * replaced can only be a copy, so presenting it revokes the session for
+ * whoever holds the newer token as well.
+ *
+ * The exception is a short grace window after each rotation: tabs that
+ * refresh at the same time all send the same token, so for a few seconds
+ * the replaced token gets the token that replaced it instead of revoking
+ * the session. The successor is derived from the replaced token and the
+ * rotation time (createSuccessorRefreshToken), so it can be issued again
+ * without being stored.
+ */
+
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import {
+  createSession,
+  findSessionById,
+  findUserById,
+  revokeSession,
+  rotateSessionToken,
+} from '@/lib/db/services';
+import type { Session, User } from '@/lib/db/schema';
+import { getAuditMetadata } from '@/lib/middleware/auth';
+import { hashToken } from './auth';
+import { hasTwoFactor, isTwoFactorRequired } from './two-factor';
+import {
+  ACCESS_TOKEN_LIFETIME,
+  REFRESH_TOKEN_LIFETIME,
+  createAccessToken,
+  createRefreshToken,
+  createSuccessorRefreshToken,
+  verifyRefreshToken,
+} from './jwt';
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+function issueTokens(user: User, sessionId: string): SessionTokens {
+  return {
+    sessionId,
+    accessToken: createAccessToken(user.id, user.email, user.role, sessionId),
+    refreshToken: createRefreshToken(user.id, sessionId),
+  };
+}
+
+// Seconds a replaced refresh token still gets its successor
+const ROTATION_GRACE_PERIOD = 10;
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_LIFETIME * 1000);
+}
+
+/**
+ * Start a session for a user who just signed in
+ */
+export async function startSession(user: User, request: NextRequest): Promise<SessionTokens> {
+  const tokens = issueTokens(user, crypto.randomUUID());
+  const { ipAddress, userAgent } = getAuditMetadata(request);
+
+  await createSession({
+    id: tokens.sessionId,
+    userId: user.id,
+    tokenHash: hashToken(tokens.refreshToken),
+    ipAddress,
+    userAgent,
+    expiresAt: refreshExpiry(),
+  });
+  return tokens;
+}
+
+/**
+ * The refresh token that replaced the given one, while the grace window is open
+ */
+function rotatedSuccessor(session: Session, refreshToken: string): string | null {
+  if (session.previousTokenHash !== hashToken(refreshToken) || !session.rotatedAt) {
+    return null;
+  }
+  const rotatedAt = new Date(session.rotatedAt);
+  if (Date.now() - rotatedAt.getTime() > ROTATION_GRACE_PERIOD * 1000) {
+    return null;
+  }
+
+  const successor = createSuccessorRefreshToken(refreshToken, session.userId, session.id, rotatedAt);
+  return hashToken(successor) === session.tokenHash ? successor : null;
+}
+
+/**
+ * Exchange a refresh token for new tokens, rotating the session's refresh token
+ * A token replaced within the last few seconds gets the same successor as
+ * the request that replaced it, with a new access token.
+ * @returns The new tokens, or the HTTP status and message to respond with
+ */
+export async function refreshSession(
+  refreshToken: string,
+  request: NextRequest
+): Promise<{ tokens: SessionTokens; user: User; error?: undefined } | { error: string; status: number }> {
+  const claims = verifyRefreshToken(refreshToken);
+  const session = claims ? await findSessionById(claims.sessionId) : null;
+  if (!claims || !session || session.userId !== claims.userId) {
+    return { error: 'Invalid or expired refresh token', status: 401 };
+  }
+  if (session.revokedAt || new Date(session.expiresAt) <= new Date()) {
+    return { error: 'Session has ended, please sign in again', status: 401 };
+  }
+
+  const tokenHash = hashToken(refreshToken);
+  let successor = session.tokenHash === tokenHash ? null : rotatedSuccessor(session, refreshToken);
+  if (session.tokenHash !== tokenHash && !successor) {
+    await revokeSession(session.id, 'reuse_detected');
+    console.warn(`Refresh token reuse detected, revoked session ${session.id} of user ${session.userId}`);
+    return { error: 'Session has ended, please sign in again', status: 401 };
+  }
+
+  const user = await findUserById(session.userId);
+  if (!user || !user.isActive) {
+    await revokeSession(session.id, 'deactivated');
+    return { error: 'Account is deactivated', status: 403 };
+  }
+  // Sessions from before the role required two-factor authentication end
+  if (isTwoFactorRequired(user) && !(await hasTwoFactor(user.id))) {
+    await revokeSession(session.id, 'two_factor_required');
+    return { error: 'Two-factor authentication is required, please sign in again', status: 401 };
+  }
+
+  if (successor) {
+    return { tokens: { ...issueTokens(user, session.id), refreshToken: successor }, user };
+  }
+
+  // Whole seconds, the precision of the successor token's issue time
+  const rotatedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const tokens = {
+    ...issueTokens(user, session.id),
+    refreshToken: createSuccessorRefreshToken(refreshToken, user.id, session.id, rotatedAt),
+  };
+  const { ipAddress, userAgent } = getAuditMetadata(request);
+  const rotated = await rotateSessionToken(session.id, tokenHash, {
+    tokenHash: hashToken(tokens.refreshToken),
+    rotatedAt,
+    expiresAt: refreshExpiry(),
+    ipAddress,
+    userAgent,
+  });
+  if (!rotated) {
+    // Another request used the same token first; if it just rotated it, share its token
+    const current = await findSessionById(session.id);
+    successor = current && !current.revokedAt ? rotatedSuccessor(current, refreshToken) : null;
+    if (successor) {
+      return { tokens: { ...tokens, refreshToken: successor }, user };
+    }
+
+    await revokeSession(session.id, 'reuse_detected');
+    console.warn(`Refresh token reuse detected, revoked session ${session.id} of user ${session.userId}`);
+    return { error: 'Session has ended, please sign in again', status: 401 };
+  }
+
+  return { tokens, user };
+}
+
+/**
+ * Revoke the session of a refresh token, if it is still valid
+ */
+export async function endSession(refreshToken: string): Promise<void> {
+  const claims = verifyRefreshToken(refreshToken);
+  if (claims) {
+    await revokeSession(claims.sessionId, 'logout');
+  }
+}
+
+/**
+ * Page to go to after signing in; only paths on this site, so links cannot send users elsewhere
+ */
+export function safeReturnPath(from: string | null): string {
+  return from && from.startsWith('/') && !from.startsWith('//') && !from.startsWith('/\\') ? from : '/dashboard';
+}
+
+/**
+ * Set the access and refresh token cookies
+ */
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  response.cookies.set('accessToken', tokens.accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: ACCESS_TOKEN_LIFETIME,
+    path: '/',
+  });
+
+  response.cookies.set('refreshToken', tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: REFRESH_TOKEN_LIFETIME,
+    path: '/',
+  });
+}
+
+/**
+ * Clear the access and refresh token cookies
+ */
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.delete('accessToken');
+  response.cookies.delete('refreshToken');
+}
@@ -0,0 +1,124 @@
+/**
+ * Time-based one-time passwords (RFC 6238)
+ *
+ * 6-digit codes from HMAC-SHA1 over 30-second time steps (RFC 4226),
+ * which is what Google Authenticator, 1Password, Authy and others expect.
+ * Secrets are shared with the app as base32 (RFC 4648).
+ */
+
+import crypto from 'crypto';
+
+export const TOTP_PERIOD = 30;
+export const TOTP_DIGITS = 6;
+// Codes of the previous and next step are accepted too, for clock drift
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * @throws Error on characters outside the alphabet
+ */
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(output);
+}
+
+/**
+ * Generate a random secret (160 bits, as recommended by RFC 4226)
+ * @returns Base32 encoded secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Time step of a moment
+ */
+export function totpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Code of a time step (HOTP with the step as counter)
+ * @param secret - Base32 encoded secret
+ * @param digits - Code length; the examples of RFC 6238 Appendix B use 8
+ */
+export function totpCode(secret: string, step: number, digits: number = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Check a code against the steps around a moment
+ * @returns The step the code belongs to, or null if it does not match.
+ * Callers must reject steps at or before the last one used, so a code
+ * cannot be replayed.
+ */
+export function verifyTotpCode(secret: string, code: string, time: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = totpStep(time);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URL authenticator apps read from the QR code
+ * @param issuer - Shown by the app above the account name
+ * @param account - Usually the user's email
+ */
+export function totpUri(secret: string, issuer: string, account: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`;
+}
@@ -0,0 +1,239 @@
+/**
+ * Two-factor authentication
+ *
+ * Users can add an authenticator app (TOTP, RFC 6238). Its secret is stored
+ * encrypted and only enabled once a first code confirms the app has it.
+ * Enabling it hands out single-use recovery codes, stored as hashes, for
+ * signing in without the app.
+ *
+ * Signing in then takes two steps: after the password (or OAuth) step the
+ * browser gets a short-lived pre-auth token instead of a session, and
+ * trades it for one with a code. With REQUIRE_TWO_FACTOR_FOR_ADMINS=true,
+ * admins and superusers without an authenticator set one up in that step.
+ */
+
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeRecoveryCode,
+  countUnusedRecoveryCodes,
+  enableTwoFactor,
+  findUserById,
+  findUserTwoFactor,
+  recordTwoFactorStep,
+  replaceRecoveryCodes,
+  saveTwoFactorSecret,
+} from '@/lib/db/services';
+import type { User } from '@/lib/db/schema';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { qrCodeSvg } from '@/lib/utils/qrcode';
+import { hashToken } from './auth';
+import { decryptText, encryptText } from './encryption';
+import { createPreAuthToken, verifyAccessToken, verifyPreAuthToken } from './jwt';
+import { generateTotpSecret, totpUri, verifyTotpCode } from './totp';
+
+export type SecondFactorStage = 'verify' | 'enroll';
+
+// Cookie holding the pre-auth token between the two sign-in steps
+export const PRE_AUTH_COOKIE = 'preAuthToken';
+export const PRE_AUTH_LIFETIME = 5 * 60;
+export const RECOVERY_CODE_COUNT = 10;
+
+const PRE_AUTH_COOKIE_PATH = '/api/auth';
+const TOTP_ISSUER = 'Professional Portfolio';
+// Roles REQUIRE_TWO_FACTOR_FOR_ADMINS applies to
+const TWO_FACTOR_ROLES = ['admin', 'superuser'];
+// No 0/o, 1/l/i, so codes can be typed from paper
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * Whether the user's role must use two-factor authentication (REQUIRE_TWO_FACTOR_FOR_ADMINS)
+ */
+export function isTwoFactorRequired(user: User): boolean {
+  return process.env.REQUIRE_TWO_FACTOR_FOR_ADMINS === 'true' && TWO_FACTOR_ROLES.includes(user.role);
+}
+
+/**
+ * Whether the user has a confirmed authenticator
+ */
+export async function hasTwoFactor(userId: string): Promise<boolean> {
+  const settings = await findUserTwoFactor(userId);
+  return Boolean(settings?.enabledAt);
+}
+
+/**
+ * Second sign-in step the user needs after the password or OAuth step
+ * @returns 'verify' for a code, 'enroll' to set up a required authenticator, null for none
+ */
+export async function secondFactorStage(user: User): Promise<SecondFactorStage | null> {
+  if (await hasTwoFactor(user.id)) return 'verify';
+  return isTwoFactorRequired(user) ? 'enroll' : null;
+}
+
+/**
+ * Set the pre-auth cookie of a sign-in that waits for its second step
+ */
+export function setPreAuthCookie(response: NextResponse, userId: string, stage: SecondFactorStage): void {
+  response.cookies.set(PRE_AUTH_COOKIE, createPreAuthToken(userId, stage, PRE_AUTH_LIFETIME), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: PRE_AUTH_LIFETIME,
+    path: PRE_AUTH_COOKIE_PATH,
+  });
+}
+
+export function clearPreAuthCookie(response: NextResponse): void {
+  response.cookies.delete({ name: PRE_AUTH_COOKIE, path: PRE_AUTH_COOKIE_PATH });
+}
+
+/**
+ * User ID of the pre-auth cookie or the access token, if valid
+ * Code checks are rate limited per user, so guesses from many addresses still count together.
+ */
+export async function twoFactorRateLimitUserId(request: NextRequest): Promise<string | undefined> {
+  const preAuthToken = request.cookies.get(PRE_AUTH_COOKIE)?.value;
+  const accessToken = request.cookies.get('accessToken')?.value;
+  return (
+    (preAuthToken && verifyPreAuthToken(preAuthToken)?.userId) ||
+    (accessToken && verifyAccessToken(accessToken)) ||
+    undefined
+  );
+}
+
+/**
+ * User of a request to the two-factor routes
+ * Signed-in users use their access token. The second sign-in step uses the
+ * pre-auth cookie, which only counts for the given stage.
+ * @returns The user and whether the pre-auth cookie identified them, or the HTTP status and message to respond with
+ */
+export async function authenticateTwoFactorRequest(
+  request: NextRequest,
+  preAuthStage?: SecondFactorStage
+): Promise<{ user: User; preAuth: boolean; error?: undefined } | { error: string; status: number }> {
+  const accessToken = request.cookies.get('accessToken')?.value;
+  const preAuthToken = request.cookies.get(PRE_AUTH_COOKIE)?.value;
+
+  let userId: string | null = null;
+  let preAuth = false;
+  const claims = preAuthStage && preAuthToken ? verifyPreAuthToken(preAuthToken) : null;
+  if (claims && claims.stage === preAuthStage) {
+    userId = claims.userId;
+    preAuth = true;
+  } else if (accessToken) {
+    userId = await verifySessionAccessToken(accessToken);
+  }
+
+  if (!userId) {
+    return accessToken || preAuthToken
+      ? { error: 'Invalid or expired token', status: 401 }
+      : { error: 'Authentication required', status: 401 };
+  }
+
+  const user = await findUserById(userId);
+  if (!user || !user.isActive) {
+    return { error: 'Account is deactivated', status: 403 };
+  }
+  return { user, preAuth };
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[^a-z0-9]/g, ''));
+}
+
+/**
+ * Generate a new set of recovery codes
+ * @returns The codes to show the user once, and the hashes to store
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(
+      { length: 10 },
+      () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+    ).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Start setting up an authenticator, replacing an unfinished setup
+ * @returns The secret with its otpauth:// URL and QR code (SVG data URL), or null if two-factor authentication is already enabled
+ */
+export async function startEnrollment(
+  user: User
+): Promise<{ secret: string; otpauthUrl: string; qrCode: string } | null> {
+  const secret = generateTotpSecret();
+  const saved = await saveTwoFactorSecret(user.id, encryptText(secret));
+  if (!saved) {
+    return null;
+  }
+
+  const otpauthUrl = totpUri(secret, TOTP_ISSUER, user.email);
+  const qrCode = `data:image/svg+xml;base64,${Buffer.from(qrCodeSvg(otpauthUrl)).toString('base64')}`;
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Finish the setup with a code from the authenticator
+ * @returns The recovery codes, or null if the code is wrong or no setup is pending
+ */
+export async function confirmEnrollment(user: User, code: string): Promise<string[] | null> {
+  const settings = await findUserTwoFactor(user.id);
+  if (!settings || settings.enabledAt) {
+    return null;
+  }
+
+  const step = verifyTotpCode(decryptText(settings.secretEncrypted), code);
+  if (step === null) {
+    return null;
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  return (await enableTwoFactor(user.id, step, hashes)) ? codes : null;
+}
+
+/**
+ * Check a code from the authenticator, or a recovery code
+ * A code is accepted once; recovery codes are used up.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  const settings = await findUserTwoFactor(userId);
+  if (!settings?.enabledAt) {
+    return false;
+  }
+
+  if (input.recoveryCode) {
+    return consumeRecoveryCode(userId, hashRecoveryCode(input.recoveryCode));
+  }
+
+  const step = input.code ? verifyTotpCode(decryptText(settings.secretEncrypted), input.code) : null;
+  return step !== null && recordTwoFactorStep(userId, step);
+}
+
+/**
+ * Replace the recovery codes of a user
+ * @returns The new codes, to show the user once
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await replaceRecoveryCodes(userId, hashes);
+  return codes;
+}
+
+/**
+ * Two-factor status of a user, as shown in the account settings
+ */
+export async function twoFactorStatus(
+  user: User
+): Promise<{ enabled: boolean; required: boolean; recoveryCodesLeft: number }> {
+  const enabled = await hasTwoFactor(user.id);
+  return {
+    enabled,
+    required: isTwoFactorRequired(user),
+    recoveryCodesLeft: enabled ? await countUnusedRecoveryCodes(user.id) : 0,
+  };
+}
@@ -1,19 +1,32 @@
 /**
- * Storage utilities for file uploads (S3/GCS)
+ * Storage utilities for file uploads (S3/GCS, local disk for development)
  * Handles encrypted file storage with presigned URLs
  */
 
+import { promises as fs } from 'fs';
+import path from 'path';
+
+type StorageProvider = 's3' | 'gcs' | 'local';
+
 interface StorageConfig {
-  provider: 's3' | 'gcs';
+  provider: StorageProvider;
   bucket: string;
   region?: string;
 }
 
+const LOCAL_SCHEME = 'local://';
+
 /**
  * Get storage configuration from environment
+ * The provider defaults to s3. The local provider (opt-in, for development)
+ * needs no bucket; files go to STORAGE_LOCAL_DIR.
  */
 function getStorageConfig(): StorageConfig {
-  const provider = (process.env.STORAGE_PROVIDER || 's3') as 's3' | 'gcs';
+  const provider = (process.env.STORAGE_PROVIDER || 's3') as StorageProvider;
+  if (provider === 'local') {
+    return { provider, bucket: getLocalStorageDir() };
+  }
+
   const bucket = process.env.S3_BUCKET || process.env.GCS_BUCKET;
   
   if (!bucket) {
@@ -27,6 +40,26 @@ function getStorageConfig(): StorageConfig {
   };
 }
 
+/**
+ * Directory used by the local storage provider
+ */
+function getLocalStorageDir(): string {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || './storage');
+}
+
+/**
+ * Resolve a local:// location to a path inside the storage directory
+ * @throws Error if the location escapes the storage directory
+ */
+function resolveLocalPath(location: string): string {
+  const root = getLocalStorageDir();
+  const filePath = path.resolve(root, location.slice(LOCAL_SCHEME.length));
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error('Invalid storage location');
+  }
+  return filePath;
+}
+
 /**
  * Upload encrypted file to storage
  * Note: This is a placeholder. Implement with actual AWS SDK or GCS client
@@ -42,6 +75,14 @@ export async function uploadEncryptedFile(
 ): Promise<string> {
   const config = getStorageConfig();
   const key = `users/${userId}/files/${fileName}`;
+
+  if (config.provider === 'local') {
+    const location = `${LOCAL_SCHEME}${key}`;
+    const filePath = resolveLocalPath(location);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, encryptedData);
+    return location;
+  }
   
   // TODO: Implement actual upload using AWS SDK or GCS client
   // For S3:
@@ -68,6 +109,10 @@ export async function uploadEncryptedFile(
 export async function downloadEncryptedFile(
   location: string
 ): Promise<Buffer> {
+  if (location.startsWith(LOCAL_SCHEME)) {
+    return fs.readFile(resolveLocalPath(location));
+  }
+
   // TODO: Implement actual download using AWS SDK or GCS client
   // For S3:
   /*
@@ -97,6 +142,11 @@ export async function downloadEncryptedFile(
  * @param location - Storage location URL
  */
 export async function deleteFile(location: string): Promise<void> {
+  if (location.startsWith(LOCAL_SCHEME)) {
+    await fs.rm(resolveLocalPath(location), { force: true });
+    return;
+  }
+
   // TODO: Implement actual deletion using AWS SDK or GCS client
   // For S3:
   /*
@@ -0,0 +1,124 @@
+/**
+ * Color helpers
+ * Colors are 6-digit hex strings (`#rrggbb`), the format used by theme tokens.
+ */
+
+export type Rgb = [number, number, number];
+
+export const HEX_COLOR_PATTERN = '^#[0-9a-fA-F]{6}$';
+
+/**
+ * Check that a value is a 6-digit hex color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && new RegExp(HEX_COLOR_PATTERN).test(value);
+}
+
+/**
+ * Parse `#rgb` or `#rrggbb`
+ * @throws Error if the value is not a hex color
+ */
+export function hexToRgb(hex: string): Rgb {
+  let digits = hex.replace(/^#/, '');
+  if (/^[0-9a-fA-F]{3}$/.test(digits)) {
+    digits = digits.split('').map((digit) => digit + digit).join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(digits)) {
+    throw new Error(`Invalid hex color: ${hex}`);
+  }
+  return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16)) as Rgb;
+}
+
+/**
+ * Format an RGB triple as `#rrggbb`
+ */
+export function rgbToHex([r, g, b]: Rgb): string {
+  const channel = (value: number) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+  return `#${channel(r)}${channel(g)}${channel(b)}`;
+}
+
+/**
+ * Mix two colors
+ * @param amount - Share of `to` in the result, 0..1
+ */
+export function mixColors(from: string, to: string, amount: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return rgbToHex([0, 1, 2].map((i) => a[i] + (b[i] - a[i]) * amount) as Rgb);
+}
+
+/**
+ * WCAG 2.x relative luminance of a color
+ */
+export function relativeLuminance(hex: string): number {
+  const [r, g, b] = hexToRgb(hex).map((value) => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG 2.x contrast ratio between two colors, from 1 to 21
+ */
+export function contrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Colors along a gradient: every stop plus evenly spaced points between stops
+ * @param between - Points sampled between each pair of stops
+ */
+export function sampleGradient(stops: string[], between = 3): string[] {
+  const samples: string[] = [];
+  stops.forEach((stop, i) => {
+    samples.push(stop);
+    const next = stops[i + 1];
+    if (!next) return;
+    for (let step = 1; step <= between; step++) {
+      samples.push(mixColors(stop, next, step / (between + 1)));
+    }
+  });
+  return samples;
+}
+
+/**
+ * Convert a color to HSL (hue 0..360, saturation and lightness 0..1)
+ */
+export function hexToHsl(hex: string): [number, number, number] {
+  const [r, g, b] = hexToRgb(hex).map((value) => value / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) {
+    return [0, 0, lightness];
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  return [(hue * 60 + 360) % 360, saturation, lightness];
+}
+
+/**
+ * Convert HSL (hue 0..360, saturation and lightness 0..1) to a hex color
+ */
+export function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const [r, g, b] =
+    h < 1 ? [chroma, x, 0] :
+    h < 2 ? [x, chroma, 0] :
+    h < 3 ? [0, chroma, x] :
+    h < 4 ? [0, x, chroma] :
+    h < 5 ? [x, 0, chroma] :
+    [chroma, 0, x];
+  const m = lightness - chroma / 2;
+  return rgbToHex([r, g, b].map((channel) => (channel + m) * 255) as Rgb);
+}
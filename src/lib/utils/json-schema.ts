@@ -0,0 +1,111 @@
+/**
+ * Minimal JSON Schema validator
+ * Validates untrusted JSON (model output, request bodies) against the
+ * subset of JSON Schema used in this codebase:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * minLength, maxLength, minItems, maxItems, minimum, maximum, pattern
+ */
+
+/**
+ * A JSON Schema object
+ */
+export type JsonSchema = Record<string, unknown>;
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Get the JSON type of a value
+ */
+function typeOf(value: unknown): JsonType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+    return typeof value as JsonType;
+  }
+  return 'undefined';
+}
+
+/**
+ * Validate a value against a schema
+ * @param value - Value to validate
+ * @param schema - JSON schema
+ * @param path - Path of the value, used in error messages
+ * @returns Error messages; empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const allowed = (Array.isArray(schema.type) ? schema.type : [schema.type]) as JsonType[];
+    // Integers are numbers too
+    const matches = allowed.includes(actual as JsonType) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) {
+      return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: does not match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+    for (const key of (schema.required || []) as string[]) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
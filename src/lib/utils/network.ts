@@ -0,0 +1,72 @@
+/**
+ * Network address helpers
+ * Used before the server fetches a URL it did not choose itself, so such
+ * requests cannot reach internal services or cloud metadata endpoints.
+ */
+
+import { promises as dns } from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved ranges
+const NON_PUBLIC = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * Whether an IP address is reachable on the public internet
+ * IPv4-mapped IPv6 addresses written with a dotted IPv4 part (::ffff:8.8.8.8)
+ * count as that IPv4 address; other mapped and translated forms are rejected.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return !NON_PUBLIC.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    const mapped = address.toLowerCase().match(/^::ffff:(.*)$/);
+    if (mapped) {
+      return net.isIP(mapped[1]) === 4 && isPublicAddress(mapped[1]);
+    }
+    return !NON_PUBLIC.check(address, 'ipv6');
+  }
+  return false;
+}
+
+/**
+ * Check that a hostname only resolves to public addresses
+ * @throws Error if it does not resolve, or resolves to a non-public address
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (addresses.length === 0 || blocked) {
+    throw new Error(`${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`);
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * QR code encoder (ISO/IEC 18004)
+ *
+ * Encodes text in byte mode with error correction level M, picking the
+ * smallest version (1-15) that fits. Enough for otpauth:// URLs, so the
+ * two-factor secret never leaves the server to be drawn by a third party.
+ */
+
+export interface QrCode {
+  // Modules per side
+  size: number;
+  // modules[y][x] is true for dark modules
+  modules: boolean[][];
+}
+
+// Level M per version: error correction codewords per block, and [blocks, data codewords] per group
+const VERSIONS: Array<{ ecPerBlock: number; groups: Array<[number, number]> }> = [
+  { ecPerBlock: 10, groups: [[1, 16]] },
+  { ecPerBlock: 16, groups: [[1, 28]] },
+  { ecPerBlock: 26, groups: [[1, 44]] },
+  { ecPerBlock: 18, groups: [[2, 32]] },
+  { ecPerBlock: 24, groups: [[2, 43]] },
+  { ecPerBlock: 16, groups: [[4, 27]] },
+  { ecPerBlock: 18, groups: [[4, 31]] },
+  { ecPerBlock: 22, groups: [[2, 38], [2, 39]] },
+  { ecPerBlock: 22, groups: [[3, 36], [2, 37]] },
+  { ecPerBlock: 26, groups: [[4, 43], [1, 44]] },
+  { ecPerBlock: 30, groups: [[1, 50], [4, 51]] },
+  { ecPerBlock: 22, groups: [[6, 36], [2, 37]] },
+  { ecPerBlock: 22, groups: [[8, 37], [1, 38]] },
+  { ecPerBlock: 24, groups: [[4, 40], [5, 41]] },
+  { ecPerBlock: 24, groups: [[5, 41], [5, 42]] },
+];
+
+// Centers of the alignment patterns per version
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+  [6, 30, 54],
+  [6, 32, 58],
+  [6, 34, 62],
+  [6, 26, 46, 66],
+  [6, 26, 48, 70],
+];
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function dataCodewords(version: number): number {
+  return VERSIONS[version - 1].groups.reduce((sum, [blocks, size]) => sum + blocks * size, 0);
+}
+
+// ----------------------------------------------------------------------------
+// Reed-Solomon error correction over GF(256)
+// ----------------------------------------------------------------------------
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// ----------------------------------------------------------------------------
+// Codewords
+// ----------------------------------------------------------------------------
+
+/**
+ * Data codewords (mode, length, bytes and padding) followed by error correction, interleaved by block
+ */
+function encodeCodewords(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  const capacity = dataCodewords(version) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const { ecPerBlock, groups } = VERSIONS[version - 1];
+  const divisor = reedSolomonDivisor(ecPerBlock);
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (const [count, size] of groups) {
+    for (let i = 0; i < count; i++) {
+      blocks.push(data.slice(offset, offset + size));
+      offset += size;
+    }
+  }
+  const ecBlocks = blocks.map((block) => reedSolomonRemainder(block, divisor));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map((block) => block.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    ecBlocks.forEach((block) => result.push(block[i]));
+  }
+  return result;
+}
+
+// ----------------------------------------------------------------------------
+// Matrix
+// ----------------------------------------------------------------------------
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    const { size } = this;
+
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = ALIGNMENT_POSITIONS[this.version - 1];
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        // The corners with finder patterns have no alignment pattern
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the bits are drawn once the mask is chosen
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  /**
+   * Draw the error correction level (M) and mask, with their BCH code, in both copies
+   */
+  drawFormatBits(mask: number): void {
+    const { size } = this;
+    const data = mask; // Level M is 0b00
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  /**
+   * Place the codewords in the zigzag order, two columns at a time from the bottom right
+   */
+  drawCodewords(codewords: number[]): void {
+    const { size } = this;
+    let index = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (!this.reserved[y][x] && index < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Flip the data modules selected by a mask; applying it twice undoes it
+   */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score of the current modules; the mask with the lowest one is used
+   */
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+    let dark = 0;
+
+    const lines: boolean[][] = [];
+    for (let i = 0; i < size; i++) {
+      lines.push(modules[i]);
+      lines.push(modules.map((row) => row[i]));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+
+      // Patterns that look like a finder pattern
+      const text = line.map((module) => (module ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let i = text.indexOf(pattern); i >= 0; i = text.indexOf(pattern, i + 1)) {
+          score += 40;
+        }
+      }
+    }
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++;
+        if (
+          x < size - 1 &&
+          y < size - 1 &&
+          modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] &&
+          modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+
+    const percent = (dark * 100) / (size * size);
+    return score + Math.floor(Math.abs(percent - 50) / 5) * 10;
+  }
+}
+
+/**
+ * Encode text as a QR code
+ * @throws Error if the text does not fit in version 15
+ */
+export function encodeQrCode(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  const version = VERSIONS.findIndex((_, i) => {
+    const lengthBits = i + 1 < 10 ? 8 : 16;
+    return 4 + lengthBits + bytes.length * 8 <= dataCodewords(i + 1) * 8;
+  }) + 1;
+  if (version === 0) {
+    throw new Error(`Text too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawCodewords(encodeCodewords(bytes, version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { size: matrix.size, modules: matrix.modules };
+}
+
+/**
+ * Render text as a QR code SVG image
+ * @param margin - Light modules around the code; scanners expect at least 4
+ */
+export function qrCodeSvg(text: string, margin = 4): string {
+  const { size, modules } = encodeQrCode(text);
+  const path: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+
+  const extent = size + margin * 2;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#fff"/><path d="${path.join('')}" fill="#000"/></svg>`
+  );
+}
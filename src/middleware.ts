@@ -1,16 +1,41 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getAccessTokenPayloadEdge } from '@/lib/security/jwt-edge';
+import { domainRoutePath, isDomainRoutePath, portfolioHostOf } from '@/lib/portfolio/hosts';
 
 // Routes that require authentication
 const protectedRoutes = ['/family', '/dashboard'];
 
 // Routes that are completely public (no auth needed)
-const publicRoutes = ['/', '/personal', '/login', '/register', '/contact'];
+const publicRoutes = [
+  '/',
+  '/personal',
+  '/login',
+  '/register',
+  '/verify-email',
+  '/forgot-password',
+  '/reset-password',
+  '/contact',
+];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  // Subdomains and custom domains show a portfolio; the pages check the host is verified
+  const portfolioHost = portfolioHostOf(request.headers.get('host'));
+  if (portfolioHost) {
+    // API routes (contact form, share images) work on every host
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.next();
+    }
+    return NextResponse.rewrite(new URL(domainRoutePath(portfolioHost, pathname), request.url));
+  }
+
+  // Domain routes are only reachable through their host
+  if (isDomainRoutePath(pathname)) {
+    return new NextResponse(null, { status: 404 });
+  }
+
   // Check if the route is protected (starts with /family or /dashboard)
   const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route));
 
@@ -43,6 +68,13 @@ export async function middleware(request: NextRequest) {
   if (isProtectedRoute) {
     const accessToken = request.cookies.get('accessToken')?.value;
 
+    // Expired access tokens are renewed with the refresh token, which comes back here
+    if (!accessToken && request.cookies.has('refreshToken')) {
+      const refreshUrl = new URL('/api/auth/refresh', request.url);
+      refreshUrl.searchParams.set('from', pathname);
+      return NextResponse.redirect(refreshUrl);
+    }
+
     if (!accessToken) {
       // Redirect to login with return URL
       const loginUrl = new URL('/login', request.url);
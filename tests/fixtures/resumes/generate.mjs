@@ -0,0 +1,304 @@
+/**
+ * Generate the resume fixtures used by tests/resume-extract.test.ts
+ * Run: node tests/fixtures/resumes/generate.mjs
+ *
+ * The files are written by hand (PDF objects, a stored ZIP for DOCX), so
+ * the script needs no dependencies and its output is reproducible.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import zlib from 'zlib';
+
+const OUTPUT_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+// Escape a PDF string; \225 is the bullet in WinAnsiEncoding
+function pdfString(text) {
+  return `(${text.replace(/[\\()]/g, '\\$&').replace(/•/g, '\\225')})`;
+}
+
+// Content stream drawing each [x, y, size, text] with Helvetica
+function textContent(lines) {
+  return lines.map(([x, y, size, text]) => `BT /F1 ${size} Tf ${x} ${y} Td ${pdfString(text)} Tj ET`).join('\n');
+}
+
+/**
+ * Build a one-page US Letter PDF
+ * @param content - Page content stream
+ * @param options.image - Add a 1x1 image XObject named /Im1
+ * @param options.encrypt - Encrypt with a user password (RC4, 40 bit)
+ */
+function buildPdf(content, { image = false, encrypt = null } = {}) {
+  const id = crypto.createHash('md5').update(content).digest();
+  const security = encrypt ? standardSecurity(encrypt.userPassword, encrypt.ownerPassword, id) : null;
+  const stream = (number, data) => {
+    const bytes = security ? rc4(objectKey(security.key, number), Buffer.from(data, 'latin1')) : Buffer.from(data, 'latin1');
+    return Buffer.concat([Buffer.from(`<< /Length ${bytes.length} >>\nstream\n`), bytes, Buffer.from('\nendstream')]);
+  };
+
+  const resources = image
+    ? '<< /Font << /F1 4 0 R >> /XObject << /Im1 6 0 R >> >>'
+    : '<< /Font << /F1 4 0 R >> >>';
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources ${resources} /Contents 5 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    stream(5, content),
+  ];
+  if (image) {
+    const pixel = security ? rc4(objectKey(security.key, 6), Buffer.from([0x80])) : Buffer.from([0x80]);
+    objects.push(
+      Buffer.concat([
+        Buffer.from('<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8 /Length 1 >>\nstream\n'),
+        pixel,
+        Buffer.from('\nendstream'),
+      ])
+    );
+  }
+  if (security) {
+    objects.push(`<< /Filter /Standard /V 1 /R 2 /O <${security.owner.toString('hex')}> /U <${security.user.toString('hex')}> /P ${security.permissions} >>`);
+  }
+
+  const chunks = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets = [];
+  let length = chunks[0].length;
+  objects.forEach((object, index) => {
+    const body = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), Buffer.from(object), Buffer.from('\nendobj\n')]);
+    offsets.push(length);
+    chunks.push(body);
+    length += body.length;
+  });
+
+  const xref = [`xref\n0 ${objects.length + 1}\n`, '0000000000 65535 f \n', ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)];
+  const encryptRef = security ? ` /Encrypt ${objects.length} 0 R` : '';
+  chunks.push(
+    Buffer.from(
+      `${xref.join('')}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${encryptRef} /ID [<${id.toString('hex')}> <${id.toString('hex')}>] >>\nstartxref\n${length}\n%%EOF\n`
+    )
+  );
+  return Buffer.concat(chunks);
+}
+
+// Password padding of the standard security handler
+const PASSWORD_PADDING = Buffer.from('28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a', 'hex');
+
+function padPassword(password) {
+  return Buffer.concat([Buffer.from(password, 'latin1'), PASSWORD_PADDING]).subarray(0, 32);
+}
+
+function rc4(key, data) {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) % 256;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) % 256;
+    j = (j + s[i]) % 256;
+    [s[i], s[j]] = [s[j], s[i]];
+    output[n] = data[n] ^ s[(s[i] + s[j]) % 256];
+  }
+  return output;
+}
+
+// Revision 2 (40-bit RC4) O, U and file key
+function standardSecurity(userPassword, ownerPassword, id) {
+  const permissions = -4;
+  const ownerKey = crypto.createHash('md5').update(padPassword(ownerPassword)).digest().subarray(0, 5);
+  const owner = rc4(ownerKey, padPassword(userPassword));
+
+  const p = Buffer.alloc(4);
+  p.writeInt32LE(permissions);
+  const key = crypto.createHash('md5').update(Buffer.concat([padPassword(userPassword), owner, p, id])).digest().subarray(0, 5);
+  return { key, owner, user: rc4(key, PASSWORD_PADDING), permissions };
+}
+
+function objectKey(key, number) {
+  const suffix = Buffer.from([number & 0xff, (number >> 8) & 0xff, (number >> 16) & 0xff, 0, 0]);
+  return crypto.createHash('md5').update(Buffer.concat([key, suffix])).digest().subarray(0, key.length + 5);
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+// ZIP archive with stored (uncompressed) entries
+function buildZip(files) {
+  const local = [];
+  const central = [];
+  let offset = 0;
+
+  for (const [name, contents] of Object.entries(files)) {
+    const data = Buffer.from(contents);
+    const fileName = Buffer.from(name);
+    const crc = zlib.crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(fileName.length, 26);
+    local.push(header, fileName, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, fileName);
+
+    offset += header.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, directory, end]);
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function escapeXml(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function paragraph(text, { style, level } = {}) {
+  const properties = [
+    style ? `<w:pStyle w:val="${style}"/>` : '',
+    level !== undefined ? `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>` : '',
+  ].join('');
+  const run = text ? `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>` : '';
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${run}</w:p>`;
+}
+
+function table(rows) {
+  const cells = (row) => row.map((lines) => `<w:tc>${[lines].flat().map((line) => paragraph(line)).join('')}</w:tc>`).join('');
+  return `<w:tbl>${rows.map((row) => `<w:tr>${cells(row)}</w:tr>`).join('')}</w:tbl>`;
+}
+
+function buildDocx(body) {
+  const level = (ilvl) => `<w:lvl w:ilvl="${ilvl}"><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/></w:lvl>`;
+  return buildZip({
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+      '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>',
+    'word/_rels/document.xml.rels':
+      '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+      '</Relationships>',
+    'word/styles.xml':
+      `<?xml version="1.0" encoding="UTF-8"?><w:styles ${W}>` +
+      '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>' +
+      '</w:styles>',
+    'word/numbering.xml':
+      `<?xml version="1.0" encoding="UTF-8"?><w:numbering ${W}>` +
+      `<w:abstractNum w:abstractNumId="0">${level(0)}${level(1)}</w:abstractNum>` +
+      '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>' +
+      '</w:numbering>',
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}</w:body></w:document>`,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const fixtures = {
+  // Single column with right-aligned dates and a bullet list
+  'single-column.pdf': buildPdf(
+    textContent([
+      [50, 740, 18, 'Jane Doe'],
+      [50, 720, 11, 'jane@example.com'],
+      [50, 690, 13, 'Experience'],
+      [50, 672, 11, 'Senior Engineer, Acme Corp'],
+      [480, 672, 11, '2020 - 2023'],
+      [60, 658, 11, '• Built billing APIs'],
+      [60, 644, 11, '• Led a team of four'],
+      [50, 630, 11, 'Engineer, Globex'],
+      [480, 630, 11, '2017 - 2020'],
+    ])
+  ),
+
+  // Full-width header over a sidebar and a main column whose lines sit between the sidebar's
+  'two-column.pdf': buildPdf(
+    textContent([
+      [50, 740, 18, 'Jane Doe - Senior Software Engineer'],
+      [50, 700, 12, 'Skills'],
+      [250, 707, 12, 'Experience'],
+      [50, 686, 11, 'TypeScript'],
+      [250, 693, 11, 'Senior Engineer at Acme Corp, 2020 - 2023'],
+      [50, 672, 11, 'PostgreSQL'],
+      [250, 679, 11, 'Built billing APIs serving two million customers'],
+      [50, 658, 11, 'Kubernetes'],
+      [250, 665, 11, 'Engineer at Globex, 2017 - 2020'],
+      [250, 651, 11, 'Ran the data platform for analytics and reporting'],
+    ])
+  ),
+
+  // A scanned page: an image and no text layer
+  'image-only.pdf': buildPdf('q 500 0 0 700 50 50 cm /Im1 Do Q', { image: true }),
+
+  // No text and no images
+  'blank.pdf': buildPdf(''),
+
+  // Opens only with the password "secret"
+  'encrypted.pdf': buildPdf(textContent([[50, 740, 18, 'Jane Doe']]), {
+    encrypt: { userPassword: 'secret', ownerPassword: 'owner' },
+  }),
+
+  // Headings, a nested list, a data table and a two-column layout table
+  'resume.docx': buildDocx(
+    [
+      paragraph('Jane Doe'),
+      paragraph('jane@example.com'),
+      paragraph('Experience', { style: 'Heading1' }),
+      paragraph('Senior Engineer, Acme Corp'),
+      paragraph('Built billing APIs', { level: 0 }),
+      paragraph('Stripe and PostgreSQL', { level: 1 }),
+      paragraph('Led a team of four', { level: 0 }),
+      paragraph('Education', { style: 'Heading1' }),
+      table([
+        ['Degree', 'School', 'Year'],
+        ['BSc Computer Science', 'State University', '2016'],
+      ]),
+      paragraph('Details', { style: 'Heading1' }),
+      table([[['Skills', 'TypeScript', 'Go'], ['Languages', 'English', 'German']]]),
+    ].join('')
+  ),
+
+  // Only empty paragraphs
+  'blank.docx': buildDocx(paragraph('') + paragraph('')),
+};
+
+for (const [name, contents] of Object.entries(fixtures)) {
+  fs.writeFileSync(path.join(OUTPUT_DIR, name), contents);
+  console.log(`Wrote ${name} (${contents.length} bytes)`);
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared setup of the tests
+ * Run with: npm test
+ *
+ * Tests that need PostgreSQL run against DB_URL and are skipped without it;
+ * they create their own users with random emails, so any development
+ * database works.
+ */
+
+import crypto from 'crypto';
+
+// Reason to skip database tests, or false to run them
+export const skipWithoutDatabase = process.env.DB_URL ? false : 'DB_URL is not set';
+
+/**
+ * Secrets the security modules need, unless the environment sets them
+ */
+export function useTestSecrets(): void {
+  process.env.JWT_SECRET ||= crypto.randomBytes(32).toString('hex');
+  process.env.ENCRYPTION_KEY ||= crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Email address no other test run uses
+ */
+export function uniqueEmail(name: string): string {
+  return `${name}-${crypto.randomUUID()}@example.com`;
+}
+
+type FetchHandler = (url: string, init?: RequestInit) => Response | Promise<Response> | undefined;
+
+/**
+ * Answer requests of the code under test with a handler instead of the network
+ * Requests the handler returns nothing for fail, so tests never reach the internet.
+ * @returns Function restoring the real fetch
+ */
+export function stubFetch(handler: FetchHandler): () => void {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const response = await handler(url, init);
+    if (!response) {
+      throw new Error(`Unexpected request to ${url}`);
+    }
+    return response;
+  }) as typeof fetch;
+  return () => {
+    globalThis.fetch = realFetch;
+  };
+}
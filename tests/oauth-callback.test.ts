@@ -0,0 +1,361 @@
+/**
+ * OAuth callback: signing in with a provider account, linking it by email
+ * The GitHub and Google endpoints are served by a local fake provider.
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { after, before, describe, it, mock } from 'node:test';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/auth/callback/[provider]/route';
+import { closePool, getClient, query } from '@/lib/db/connection';
+import { initializeDatabase } from '@/lib/db/init';
+import {
+  countUnusedRecoveryCodes,
+  createSession,
+  createUser,
+  deleteUser,
+  enableTwoFactor,
+  findSessionById,
+  findUserByEmail,
+  findUserById,
+  findUserIdentity,
+  findUserTwoFactor,
+  listUserIdentities,
+  saveTwoFactorSecret,
+} from '@/lib/db/services';
+import type { OAuthProvider } from '@/lib/db/schema';
+import { hashToken } from '@/lib/security/auth';
+import { createOAuthStateToken } from '@/lib/security/jwt';
+import { OAUTH_STATE_COOKIE, resolveOAuthUser, type OAuthProfile } from '@/lib/security/oauth';
+import { skipWithoutDatabase, uniqueEmail, useTestSecrets } from './helpers';
+
+const PROVIDER_TOKEN = 'provider-token';
+
+/**
+ * Fake GitHub and Google: the token endpoints hand out PROVIDER_TOKEN for
+ * any code, the profile endpoints answer with `accounts` for that token
+ */
+class FakeProvider {
+  // Response bodies of the profile endpoints, by path
+  accounts: Record<string, unknown> = {};
+  // Bodies of the token requests, by path
+  tokenRequests: Record<string, URLSearchParams[]> = {};
+  private server = http.createServer((request, response) => this.handle(request, response));
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    process.env.GITHUB_OAUTH_TOKEN_URL = `${this.url}/github/token`;
+    process.env.GITHUB_API_URL = `${this.url}/github/api`;
+    process.env.GOOGLE_OAUTH_TOKEN_URL = `${this.url}/google/token`;
+    process.env.GOOGLE_USERINFO_URL = `${this.url}/google/userinfo`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const path = request.url || '/';
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+
+    if (request.method === 'POST' && path.endsWith('/token')) {
+      let body = '';
+      for await (const chunk of request) {
+        body += chunk;
+      }
+      (this.tokenRequests[path] ||= []).push(new URLSearchParams(body));
+      return send(200, { access_token: PROVIDER_TOKEN, token_type: 'bearer' });
+    }
+
+    if (request.headers.authorization !== `Bearer ${PROVIDER_TOKEN}`) {
+      return send(401, { message: 'Bad credentials' });
+    }
+    if (!(path in this.accounts)) {
+      return send(404, { message: 'Not Found' });
+    }
+    send(200, this.accounts[path]);
+  }
+}
+
+/**
+ * Callback request of a sign-in started from /dashboard/settings
+ */
+function callbackRequest(provider: OAuthProvider, state = 'state-1'): NextRequest {
+  const stateToken = createOAuthStateToken(
+    provider,
+    { state: 'state-1', codeVerifier: 'verifier-1', from: '/dashboard/settings' },
+    600
+  );
+  return new NextRequest(`http://localhost:3000/api/auth/callback/${provider}?code=code-1&state=${state}`, {
+    headers: { cookie: `${OAUTH_STATE_COOKIE}=${stateToken}` },
+  });
+}
+
+function signIn(provider: OAuthProvider, state?: string) {
+  return GET(callbackRequest(provider, state), { params: Promise.resolve({ provider }) });
+}
+
+describe('GET /api/auth/callback/{provider}', { skip: skipWithoutDatabase }, () => {
+  const provider = new FakeProvider();
+  const userIds: string[] = [];
+
+  before(async () => {
+    useTestSecrets();
+    process.env.GOOGLE_CLIENT_ID = 'client-id';
+    process.env.GOOGLE_CLIENT_SECRET = 'client-secret';
+    process.env.GITHUB_CLIENT_ID = 'client-id';
+    process.env.GITHUB_CLIENT_SECRET = 'client-secret';
+    await provider.start();
+    assert.ok(await initializeDatabase());
+  });
+
+  after(async () => {
+    await provider.stop();
+    for (const userId of userIds) {
+      await deleteUser(userId);
+    }
+    await closePool();
+  });
+
+  /**
+   * Google account with the given verified email
+   */
+  function useGoogleAccount(email: string): void {
+    provider.accounts = {
+      '/google/userinfo': { sub: crypto.randomUUID(), email, email_verified: true, name: 'Owner' },
+    };
+  }
+
+  /**
+   * GitHub account with the given email addresses
+   * @returns The account ID
+   */
+  function useGitHubAccount(emails: Array<{ email: string; primary: boolean; verified: boolean }>): number {
+    const id = crypto.randomInt(1, 2 ** 47);
+    provider.accounts = {
+      '/github/api/user': { id, login: 'octocat', name: null, email: emails[0]?.email, avatar_url: null },
+      '/github/api/user/emails': emails,
+    };
+    return id;
+  }
+
+  it('takes over an unverified account registered with the email from whoever registered it', async () => {
+    const email = uniqueEmail('victim');
+    // Someone else registered the email first and set up a session and 2FA
+    const squatter = await createUser({ email, passwordHash: 'squatter-hash', emailVerified: false });
+    userIds.push(squatter.id);
+    const session = await createSession({
+      id: crypto.randomUUID(),
+      userId: squatter.id,
+      tokenHash: hashToken(crypto.randomUUID()),
+      expiresAt: new Date(Date.now() + 3600 * 1000),
+    });
+    await saveTwoFactorSecret(squatter.id, 'encrypted-secret');
+    await enableTwoFactor(squatter.id, 1, [hashToken('code-1'), hashToken('code-2')]);
+
+    useGoogleAccount(email);
+    const response = await signIn('google');
+
+    // The owner of the email is signed in, without the squatter's second factor
+    assert.equal(response.status, 307);
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/dashboard/settings');
+    assert.ok(response.cookies.get('accessToken')?.value);
+    assert.ok(response.cookies.get('refreshToken')?.value);
+    const [tokenRequest] = provider.tokenRequests['/google/token'];
+    assert.equal(tokenRequest.get('code'), 'code-1');
+    assert.equal(tokenRequest.get('code_verifier'), 'verifier-1');
+
+    const user = await findUserById(squatter.id);
+    assert.equal(user?.emailVerified, true);
+    assert.equal(user?.passwordHash, null);
+    assert.equal((await listUserIdentities(squatter.id)).length, 1);
+
+    const revoked = await findSessionById(session.id);
+    assert.ok(revoked?.revokedAt);
+    assert.equal(revoked?.revokedReason, 'account_linked');
+    assert.equal(await findUserTwoFactor(squatter.id), null);
+    assert.equal(await countUnusedRecoveryCodes(squatter.id), 0);
+  });
+
+  it('keeps the sessions of a verified account it links to', async () => {
+    const email = uniqueEmail('verified');
+    const owner = await createUser({ email, passwordHash: 'owner-hash', emailVerified: true });
+    userIds.push(owner.id);
+    const session = await createSession({
+      id: crypto.randomUUID(),
+      userId: owner.id,
+      tokenHash: hashToken(crypto.randomUUID()),
+      expiresAt: new Date(Date.now() + 3600 * 1000),
+    });
+
+    useGoogleAccount(email);
+    const response = await signIn('google');
+
+    assert.equal(response.status, 307);
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/dashboard/settings');
+    assert.equal((await findUserById(owner.id))?.passwordHash, 'owner-hash');
+    assert.equal((await findSessionById(session.id))?.revokedAt, null);
+  });
+
+  it('creates a GitHub user with the primary verified email, not the profile email', async () => {
+    const primary = uniqueEmail('github-primary');
+    const id = useGitHubAccount([
+      { email: uniqueEmail('github-public'), primary: false, verified: true },
+      { email: primary, primary: true, verified: true },
+    ]);
+
+    const response = await signIn('github');
+
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/dashboard/settings');
+    assert.ok(response.cookies.get('accessToken')?.value);
+    assert.equal(provider.tokenRequests['/github/token'].at(-1)?.get('code_verifier'), 'verifier-1');
+
+    const user = await findUserByEmail(primary);
+    assert.ok(user);
+    userIds.push(user.id);
+    assert.equal(user.name, 'octocat');
+    assert.equal(user.emailVerified, true);
+    assert.equal((await findUserIdentity('github', String(id)))?.userId, user.id);
+  });
+
+  it('rejects a GitHub account whose primary email is unverified', async () => {
+    const primary = uniqueEmail('github-unverified');
+    const secondary = uniqueEmail('github-secondary');
+    useGitHubAccount([
+      { email: primary, primary: true, verified: false },
+      { email: secondary, primary: false, verified: true },
+    ]);
+
+    const response = await signIn('github');
+
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/login?error=oauth_no_email');
+    assert.equal(response.cookies.get('accessToken'), undefined);
+    assert.equal(await findUserByEmail(primary), null);
+    assert.equal(await findUserByEmail(secondary), null);
+  });
+
+  it('refuses a second GitHub account for a user who has one linked', async () => {
+    const email = uniqueEmail('github-second');
+    useGitHubAccount([{ email, primary: true, verified: true }]);
+    await signIn('github');
+    const user = await findUserByEmail(email);
+    assert.ok(user);
+    userIds.push(user.id);
+
+    useGitHubAccount([{ email, primary: true, verified: true }]);
+    const error = mock.method(console, 'error', () => {});
+    let response;
+    try {
+      response = await signIn('github');
+    } finally {
+      error.mock.restore();
+    }
+
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/login?error=oauth_already_linked');
+    assert.equal((await listUserIdentities(user.id)).length, 1);
+  });
+
+  it('fails the sign-in when the profile request fails', async () => {
+    provider.accounts = {};
+    const error = mock.method(console, 'error', () => {});
+    let response;
+    try {
+      response = await signIn('github');
+    } finally {
+      error.mock.restore();
+    }
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/login?error=oauth_failed');
+  });
+
+  it('rejects a state that does not match the cookie', async () => {
+    const requests = Object.values(provider.tokenRequests).flat().length;
+    const response = await signIn('google', 'other');
+    assert.equal(response.headers.get('location'), 'http://localhost:3000/login?error=oauth_state');
+    assert.equal(Object.values(provider.tokenRequests).flat().length, requests);
+  });
+});
+
+describe('resolveOAuthUser', { skip: skipWithoutDatabase }, () => {
+  const emails: string[] = [];
+
+  before(async () => {
+    assert.ok(await initializeDatabase());
+  });
+
+  after(async () => {
+    for (const email of emails) {
+      const user = await findUserByEmail(email);
+      if (user) {
+        await deleteUser(user.id);
+      }
+    }
+    await closePool();
+  });
+
+  function githubProfile(email: string): OAuthProfile {
+    return { providerUserId: crypto.randomUUID(), email, emailVerified: true, name: 'Owner', avatarUrl: null };
+  }
+
+  it('refuses a second account of a provider for the same user', async () => {
+    const email = uniqueEmail('second-account');
+    emails.push(email);
+
+    const first = await resolveOAuthUser('github', githubProfile(email));
+    assert.ok(first.error === undefined);
+
+    const error = mock.method(console, 'error', () => {});
+    try {
+      assert.deepEqual(await resolveOAuthUser('github', githubProfile(email)), {
+        error: 'This account is already linked to another GitHub login',
+        status: 409,
+      });
+    } finally {
+      error.mock.restore();
+    }
+    assert.equal((await listUserIdentities(first.user.id)).length, 1);
+  });
+
+  it('signs in the user a concurrent sign-in of the account created', async () => {
+    const email = uniqueEmail('concurrent');
+    emails.push(email);
+    const profile = githubProfile(email);
+
+    // The other sign-in has created the user and linked the account, but not committed yet
+    const other = await getClient();
+    await other.query('BEGIN');
+    const userId = crypto.randomUUID();
+    await other.query('INSERT INTO users (id, email, email_verified, created_at) VALUES ($1, $2, TRUE, NOW())', [userId, email]);
+    await other.query(
+      `INSERT INTO user_identities (id, user_id, provider, provider_user_id, email, created_at, last_used_at)
+      VALUES ($1, $2, 'github', $3, $4, NOW(), NOW())`,
+      [crypto.randomUUID(), userId, profile.providerUserId, email]
+    );
+
+    const error = mock.method(console, 'error', () => {});
+    try {
+      const resolving = resolveOAuthUser('github', profile);
+      // Commit once this sign-in waits on the email's unique index
+      while (!(await query("SELECT 1 FROM pg_stat_activity WHERE wait_event_type = 'Lock'")).length) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      await other.query('COMMIT');
+
+      const resolved = await resolving;
+      assert.ok(resolved.error === undefined);
+      assert.equal(resolved.user.id, userId);
+    } finally {
+      error.mock.restore();
+      other.release();
+    }
+    assert.equal((await listUserIdentities(userId)).length, 1);
+  });
+});
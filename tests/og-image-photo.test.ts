@@ -0,0 +1,117 @@
+/**
+ * Share image photos: only from this site's public directory or allowed hosts
+ * Requests are stubbed; the hosts are IP addresses, so nothing is resolved.
+ */
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import sharp from 'sharp';
+import { loadPhoto } from '@/lib/portfolio/og-image';
+import { isPublicAddress } from '@/lib/utils/network';
+import { stubFetch } from './helpers';
+
+// A public address, allowed below
+const PHOTO_HOST = '93.184.215.14';
+
+describe('isPublicAddress', () => {
+  it('rejects loopback, private, link-local and mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.0.0.8', '172.16.4.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', '::ffff:a00:1']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+});
+
+describe('loadPhoto', () => {
+  const cwd = process.cwd();
+  let tmp: string;
+  let png: Buffer;
+
+  before(async () => {
+    process.env.SHARE_IMAGE_PHOTO_HOSTS = `${PHOTO_HOST},127.0.0.1`;
+    png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#336699' } }).png().toBuffer();
+    // Paths on the site are read from ./public
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'og-photo-'));
+    await fs.mkdir(path.join(tmp, 'public', 'uploads'), { recursive: true });
+    await fs.writeFile(path.join(tmp, 'public', 'uploads', 'me.png'), png);
+    await fs.writeFile(path.join(tmp, 'secret.txt'), 'not a photo');
+    process.chdir(tmp);
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.rm(tmp, { recursive: true, force: true });
+    delete process.env.SHARE_IMAGE_PHOTO_HOSTS;
+  });
+
+  it('reads paths on this site from the public directory without a request', async () => {
+    const restore = stubFetch(() => undefined);
+    try {
+      assert.match((await loadPhoto('/uploads/me.png')) || '', /^data:image\/png;base64,/);
+      assert.equal(await loadPhoto('/../secret.txt'), null);
+      assert.equal(await loadPhoto('/api/portfolio/list'), null);
+    } finally {
+      restore();
+    }
+  });
+
+  it('never requests hosts that are not allowed, private or over plain HTTP', async () => {
+    const requested: string[] = [];
+    const restore = stubFetch((url) => {
+      requested.push(url);
+      return undefined;
+    });
+    try {
+      assert.equal(await loadPhoto('http://169.254.169.254/latest/meta-data/'), null);
+      assert.equal(await loadPhoto('https://internal.example.com/photo.png'), null);
+      assert.equal(await loadPhoto(`http://${PHOTO_HOST}/photo.png`), null);
+      // Allowed, but a loopback address
+      assert.equal(await loadPhoto('https://127.0.0.1/photo.png'), null);
+      assert.deepEqual(requested, []);
+    } finally {
+      restore();
+    }
+  });
+
+  it('loads photos from allowed hosts and rejects oversized or redirected ones', async () => {
+    const restore = stubFetch((url) => {
+      const { pathname } = new URL(url);
+      if (pathname === '/ok.png') {
+        return new Response(new Uint8Array(png), { headers: { 'content-type': 'image/png' } });
+      }
+      if (pathname === '/declared-large.png') {
+        return new Response(new Uint8Array(png), { headers: { 'content-length': String(50 * 1024 * 1024) } });
+      }
+      if (pathname === '/streamed-large.png') {
+        // No content-length; 6 MB in 1 MB chunks
+        let sent = 0;
+        return new Response(new ReadableStream({
+          pull(controller) {
+            if (sent++ === 6) controller.close();
+            else controller.enqueue(new Uint8Array(1024 * 1024));
+          },
+        }));
+      }
+      if (pathname === '/redirect.png') {
+        return new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/' } });
+      }
+      return undefined;
+    });
+    try {
+      assert.match((await loadPhoto(`https://${PHOTO_HOST}/ok.png`)) || '', /^data:image\/png;base64,/);
+      assert.equal(await loadPhoto(`https://${PHOTO_HOST}/declared-large.png`), null);
+      assert.equal(await loadPhoto(`https://${PHOTO_HOST}/streamed-large.png`), null);
+      assert.equal(await loadPhoto(`https://${PHOTO_HOST}/redirect.png`), null);
+    } finally {
+      restore();
+    }
+  });
+});
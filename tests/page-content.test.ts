@@ -0,0 +1,44 @@
+/**
+ * Portfolio page content: image URLs in the schema and in migrated content
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PAGE_CONTENT_VERSION, readPageContent, validatePageContent } from '@/lib/portfolio/page-content';
+
+function homeContent(photos: string[]) {
+  return {
+    version: PAGE_CONTENT_VERSION,
+    heroTitle: 'Jane Doe',
+    heroSubtitle: 'Senior Engineer',
+    heroDescription: 'Builds billing APIs',
+    highlights: [],
+    featuredSkills: [],
+    photos,
+  };
+}
+
+describe('validatePageContent', () => {
+  it('accepts web URLs and site paths as images', () => {
+    const content = homeContent(['https://cdn.example.com/a.png', 'http://cdn.example.com/b.png', '/uploads/c.png']);
+    assert.deepEqual(validatePageContent('home', content), { content });
+  });
+
+  it('rejects protocol-relative and other image URLs', () => {
+    for (const url of ['//evil.example/x.png', 'javascript:alert(1)', 'data:image/png;base64,AAAA']) {
+      assert.deepEqual(validatePageContent('home', homeContent([url])), {
+        errors: ['$.photos[0]: does not match ^(https?://|/(?!/))'],
+      });
+    }
+  });
+});
+
+describe('readPageContent', () => {
+  it('drops protocol-relative images from legacy content', () => {
+    const content = readPageContent('home', {
+      hero: { name: 'Jane Doe', tagline: 'Senior Engineer', description: 'Builds billing APIs' },
+      photos: ['//evil.example/x.png', '/uploads/c.png'],
+    });
+    assert.deepEqual(content.photos, ['/uploads/c.png']);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Custom domain verification against a stubbed TXT resolver
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { closePool } from '@/lib/db/connection';
+import { initializeDatabase } from '@/lib/db/init';
+import {
+  createGeneratedPortfolio,
+  createPortfolioDomain,
+  createResume,
+  createUser,
+  deleteUser,
+} from '@/lib/db/services';
+import type { PortfolioDomain, User } from '@/lib/db/schema';
+import { checkDomainVerification, setTxtResolver, verifyPortfolioDomain } from '@/lib/portfolio/domains';
+import { skipWithoutDatabase, uniqueEmail } from './helpers';
+
+/**
+ * Resolver answering with fixed TXT records per name; other names have none
+ */
+function useTxtRecords(records: Record<string, string[][]>): void {
+  setTxtResolver(async (name) => {
+    if (records[name]) {
+      return records[name];
+    }
+    throw Object.assign(new Error(`queryTxt ENODATA ${name}`), { code: 'ENODATA' });
+  });
+}
+
+function customDomain(hostname: string, verificationToken: string): PortfolioDomain {
+  return {
+    id: crypto.randomUUID(),
+    portfolioId: crypto.randomUUID(),
+    hostname,
+    kind: 'custom',
+    status: 'pending',
+    verificationToken,
+    createdAt: new Date(),
+  };
+}
+
+describe('checkDomainVerification', () => {
+  const domain = customDomain('janedoe.com', 'abc123');
+  const name = '_portfolio-verification.janedoe.com';
+
+  afterEach(() => {
+    setTxtResolver(null);
+  });
+
+  it('accepts the record among other TXT records', async () => {
+    useTxtRecords({ [name]: [['v=spf1 -all'], ['portfolio-verification=abc123']] });
+    assert.equal(await checkDomainVerification(domain), null);
+  });
+
+  it('joins a record split across several strings', async () => {
+    useTxtRecords({ [name]: [['portfolio-verif', 'ication=abc', '123']] });
+    assert.equal(await checkDomainVerification(domain), null);
+  });
+
+  it('reports a missing or different record', async () => {
+    useTxtRecords({});
+    assert.equal(await checkDomainVerification(domain), `No TXT record found at ${name}`);
+
+    useTxtRecords({ [name]: [['portfolio-verification=other']] });
+    assert.equal(
+      await checkDomainVerification(domain),
+      `The TXT record at ${name} does not contain portfolio-verification=abc123`
+    );
+  });
+
+  it('reports lookup failures as temporary', async () => {
+    setTxtResolver(async () => {
+      throw Object.assign(new Error('queryTxt ESERVFAIL'), { code: 'ESERVFAIL' });
+    });
+    assert.equal(await checkDomainVerification(domain), 'DNS lookup failed (ESERVFAIL), try again later');
+  });
+});
+
+describe('verifyPortfolioDomain', { skip: skipWithoutDatabase }, () => {
+  let user: User;
+  let portfolioIds: string[];
+
+  before(async () => {
+    assert.ok(await initializeDatabase());
+    user = await createUser({ email: uniqueEmail('domains'), passwordHash: 'hash', emailVerified: true });
+    portfolioIds = [];
+    for (const file of ['first.pdf', 'second.pdf']) {
+      const resume = await createResume({ userId: user.id, resumeUrl: `local://${file}`, originalFilename: file });
+      portfolioIds.push((await createGeneratedPortfolio({ resumeId: resume.id, userId: user.id })).id);
+    }
+  });
+
+  after(async () => {
+    setTxtResolver(null);
+    await deleteUser(user.id);
+    await closePool();
+  });
+
+  it('verifies a domain with its record, fails one claimed by another portfolio', async () => {
+    const hostname = `${crypto.randomUUID()}.example.com`;
+    const name = `_portfolio-verification.${hostname}`;
+    const [first, second] = await Promise.all(
+      portfolioIds.map((portfolioId) =>
+        createPortfolioDomain({
+          portfolioId,
+          hostname,
+          kind: 'custom',
+          status: 'pending',
+          verificationToken: crypto.randomBytes(16).toString('hex'),
+        })
+      )
+    );
+
+    useTxtRecords({});
+    const missing = await verifyPortfolioDomain(first);
+    assert.equal(missing.status, 'failed');
+    assert.equal(missing.lastError, `No TXT record found at ${name}`);
+
+    useTxtRecords({ [name]: [[`portfolio-verification=${first.verificationToken}`]] });
+    const verified = await verifyPortfolioDomain(first);
+    assert.equal(verified.status, 'verified');
+    assert.equal(verified.lastError, null);
+    assert.ok(verified.verifiedAt);
+
+    // The second portfolio proves control too, but the domain is taken
+    useTxtRecords({ [name]: [[`portfolio-verification=${second.verificationToken}`]] });
+    const claimed = await verifyPortfolioDomain(second);
+    assert.equal(claimed.status, 'failed');
+    assert.equal(claimed.lastError, 'This domain is already in use by another portfolio');
+
+    // Removing the record takes the verified domain offline
+    useTxtRecords({});
+    assert.equal((await verifyPortfolioDomain(verified)).status, 'failed');
+  });
+});
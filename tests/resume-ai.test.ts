@@ -0,0 +1,104 @@
+/**
+ * AI resume parsing with the fake provider: unusable model output falls
+ * back to the heuristic parser, valid output is used as is
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { createFakeProvider } from '@/lib/ai/providers';
+import { parseJsonText } from '@/lib/ai/providers/http';
+import { parseResumeText, parseResumeWithAI, type ParsedResume } from '@/lib/resume-parser';
+
+const RESUME_TEXT = [
+  'Jane Doe',
+  'jane@example.com',
+  '',
+  'Experience',
+  'Senior Engineer',
+  'Acme Corp',
+  'Jan 2020 - Present',
+  '- Built billing APIs',
+  '',
+  'Skills',
+  'TypeScript, PostgreSQL',
+].join('\n');
+
+const MODEL_RESUME = {
+  personal: { name: 'Jane Doe', email: 'jane@example.com', phone: null, location: 'Berlin', website: null, linkedin: null, github: null },
+  summary: null,
+  workExperience: [
+    {
+      company: 'Acme Corp',
+      position: 'Senior Engineer',
+      startDate: 'Jan 2020',
+      endDate: 'Present',
+      location: null,
+      description: 'Payments team',
+      highlights: ['Built billing APIs'],
+    },
+  ],
+  education: [],
+  skills: ['TypeScript', 'PostgreSQL'],
+  projects: [],
+  certifications: [],
+};
+
+describe('parseResumeWithAI', () => {
+  let warn: ReturnType<typeof mock.method>;
+  let error: ReturnType<typeof mock.method>;
+
+  beforeEach(() => {
+    warn = mock.method(console, 'warn', () => {});
+    error = mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('falls back to the heuristic parser on invalid JSON, then uses valid output', async () => {
+    const outputs = [
+      // What a provider does with a reply that is not JSON
+      () => parseJsonText('fake', 'Here is the resume: {"personal": {'),
+      // JSON that does not match the schema
+      () => ({ personal: { name: 'Jane Doe' }, skills: 'TypeScript' }),
+      () => MODEL_RESUME,
+    ];
+    const provider = createFakeProvider(() => outputs.shift()!());
+    const heuristic = await parseResumeText(RESUME_TEXT, 'txt');
+
+    assert.deepEqual(await parseResumeWithAI(RESUME_TEXT, { provider }), heuristic);
+    assert.match(String(error.mock.calls[0].arguments[1]), /Model output was not valid JSON/);
+    assert.deepEqual(await parseResumeWithAI(RESUME_TEXT, { provider }), heuristic);
+    assert.ok(warn.mock.calls.some((call) => /fake\) returned invalid output/.test(String(call.arguments[0]))));
+    assert.equal(heuristic.personal.name, 'Jane Doe');
+    assert.equal(heuristic.personal.email, 'jane@example.com');
+
+    const expected: ParsedResume = {
+      personal: { name: 'Jane Doe', email: 'jane@example.com', location: 'Berlin' },
+      workExperience: [
+        {
+          company: 'Acme Corp',
+          position: 'Senior Engineer',
+          startDate: '2020-01',
+          endDate: 'Present',
+          description: 'Payments team',
+          highlights: ['Built billing APIs'],
+        },
+      ],
+      education: [],
+      skills: ['TypeScript', 'PostgreSQL'],
+      projects: [],
+      certifications: [],
+    };
+    assert.deepEqual(await parseResumeWithAI(RESUME_TEXT, { provider }), expected);
+
+    assert.equal(provider.requests.length, 3);
+    assert.equal(provider.requests[0].schemaName, 'parsed_resume');
+    assert.equal(provider.requests[0].prompt, RESUME_TEXT);
+  });
+
+  it('uses the heuristic parser without a provider', async () => {
+    assert.deepEqual(await parseResumeWithAI(RESUME_TEXT, { provider: null }), await parseResumeText(RESUME_TEXT, 'txt'));
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Resume text extraction from the PDF and DOCX fixtures
+ * Regenerate the fixtures with: node tests/fixtures/resumes/generate.mjs
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { extractResumeText } from '@/lib/resume-parser';
+import { extractDocxText } from '@/lib/resume-parser/docx';
+import { extractPdfText } from '@/lib/resume-parser/pdf';
+
+function fixture(name: string): Buffer {
+  return readFileSync(path.join(__dirname, 'fixtures', 'resumes', name));
+}
+
+describe('extractPdfText', () => {
+  it('keeps right-aligned dates on their line and bullets in order', async () => {
+    assert.equal(
+      await extractPdfText(fixture('single-column.pdf')),
+      [
+        'Jane Doe',
+        'jane@example.com',
+        '',
+        'Experience',
+        'Senior Engineer, Acme Corp 2020 - 2023',
+        '• Built billing APIs',
+        '• Led a team of four',
+        'Engineer, Globex 2017 - 2020',
+      ].join('\n')
+    );
+  });
+
+  it('reads a sidebar before the main column instead of interleaving them', async () => {
+    assert.equal(
+      await extractPdfText(fixture('two-column.pdf')),
+      [
+        'Jane Doe - Senior Software Engineer',
+        '',
+        'Skills',
+        'TypeScript',
+        'PostgreSQL',
+        'Kubernetes',
+        '',
+        'Experience',
+        'Senior Engineer at Acme Corp, 2020 - 2023',
+        'Built billing APIs serving two million customers',
+        'Engineer at Globex, 2017 - 2020',
+        'Ran the data platform for analytics and reporting',
+      ].join('\n')
+    );
+  });
+
+  it('rejects scanned, blank, encrypted and broken PDFs with their codes', async () => {
+    await assert.rejects(extractPdfText(fixture('image-only.pdf')), { name: 'ScannedPdfError', code: 'SCANNED_PDF' });
+    await assert.rejects(extractPdfText(fixture('blank.pdf')), { name: 'ResumeParseError', code: 'EMPTY_DOCUMENT' });
+    await assert.rejects(extractPdfText(fixture('encrypted.pdf')), { name: 'EncryptedPdfError', code: 'ENCRYPTED_PDF' });
+    await assert.rejects(extractPdfText(Buffer.from('not a pdf')), { code: 'INVALID_DOCUMENT' });
+  });
+});
+
+describe('extractDocxText', () => {
+  it('keeps headings, nested lists and tables', async () => {
+    assert.equal(
+      await extractDocxText(fixture('resume.docx')),
+      [
+        'Jane Doe',
+        'jane@example.com',
+        '',
+        'Experience',
+        'Senior Engineer, Acme Corp',
+        '• Built billing APIs',
+        '  • Stripe and PostgreSQL',
+        '• Led a team of four',
+        '',
+        'Education',
+        '',
+        'Degree | School | Year',
+        'BSc Computer Science | State University | 2016',
+        '',
+        'Details',
+        '',
+        'Skills',
+        'TypeScript',
+        'Go',
+        'Languages',
+        'English',
+        'German',
+      ].join('\n')
+    );
+  });
+
+  it('rejects blank and broken documents with their codes', async () => {
+    await assert.rejects(extractDocxText(fixture('blank.docx')), { code: 'EMPTY_DOCUMENT' });
+    await assert.rejects(extractDocxText(Buffer.from('not a docx')), { code: 'INVALID_DOCUMENT' });
+  });
+});
+
+describe('extractResumeText', () => {
+  it('routes by file type and rejects unknown types', async () => {
+    assert.match(await extractResumeText(fixture('resume.docx'), 'DOCX'), /^Jane Doe\n/);
+    assert.equal(await extractResumeText(Buffer.from('# Jane Doe'), 'md'), '# Jane Doe');
+    await assert.rejects(extractResumeText(Buffer.from(''), 'rtf'), { code: 'UNSUPPORTED_FORMAT' });
+  });
+
+  it('asks for a .docx or PDF instead of a Word 97-2003 file', async () => {
+    await assert.rejects(extractResumeText(fixture('resume.docx'), 'doc'), {
+      name: 'ResumeParseError',
+      code: 'UNSUPPORTED_FORMAT',
+      message: /Please save the resume as \.docx or PDF/,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Resume entity tagging: a tiny model run end to end, and the heuristic
+ * fallback (with one warning) when the model directory is unusable
+ */
+
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { resetResumeTagger, tagResumeEntities } from '@/lib/resume-parser/ner';
+
+const VOCAB = ['[PAD]', '[UNK]', '[CLS]', '[SEP]', 'jane', 'doe', 'worked', 'at', 'acme', 'with', 'type', '##script'];
+const LABELS = ['O', 'B-PER', 'I-PER', 'B-ORG', 'B-SKILL'];
+
+// Label each vocabulary token predicts
+const TOKEN_LABELS: Record<string, string> = {
+  jane: 'B-PER',
+  doe: 'I-PER',
+  acme: 'B-ORG',
+  type: 'B-SKILL',
+  '##script': 'B-SKILL',
+};
+
+/**
+ * Protocol buffer field encoders, enough to write an ONNX model
+ */
+function varint(value: number): Buffer {
+  const bytes = [];
+  do {
+    let byte = value % 128;
+    value = Math.floor(value / 128);
+    if (value > 0) byte |= 128;
+    bytes.push(byte);
+  } while (value > 0);
+  return Buffer.from(bytes);
+}
+
+function intField(field: number, value: number): Buffer {
+  return Buffer.concat([varint(field * 8), varint(value)]);
+}
+
+function bytesField(field: number, value: Buffer | string): Buffer {
+  const bytes = Buffer.from(value);
+  return Buffer.concat([varint(field * 8 + 2), varint(bytes.length), bytes]);
+}
+
+/**
+ * ONNX tensor value info; string dims are symbolic
+ */
+function valueInfo(name: string, elemType: number, dims: Array<number | string>): Buffer {
+  const shape = Buffer.concat(
+    dims.map((dim) => bytesField(1, typeof dim === 'number' ? intField(1, dim) : bytesField(2, dim)))
+  );
+  const tensorType = Buffer.concat([intField(1, elemType), bytesField(2, shape)]);
+  return Buffer.concat([bytesField(1, name), bytesField(2, bytesField(1, tensorType))]);
+}
+
+/**
+ * Token classifier that looks each token's logits up in a table:
+ * logits = Gather(table, input_ids), shape [1, sequence, labels]
+ */
+function buildModel(): Buffer {
+  const FLOAT = 1;
+  const INT64 = 7;
+  const table = new Float32Array(VOCAB.length * LABELS.length);
+  VOCAB.forEach((token, row) => {
+    table[row * LABELS.length + LABELS.indexOf(TOKEN_LABELS[token] || 'O')] = 5;
+  });
+
+  const initializer = Buffer.concat([
+    intField(1, VOCAB.length),
+    intField(1, LABELS.length),
+    intField(2, FLOAT),
+    bytesField(8, 'table'),
+    bytesField(9, Buffer.from(table.buffer)),
+  ]);
+  const node = Buffer.concat([bytesField(1, 'table'), bytesField(1, 'input_ids'), bytesField(2, 'logits'), bytesField(4, 'Gather')]);
+  const graph = Buffer.concat([
+    bytesField(1, node),
+    bytesField(2, 'lookup'),
+    bytesField(5, initializer),
+    bytesField(11, valueInfo('input_ids', INT64, [1, 'sequence'])),
+    bytesField(11, valueInfo('attention_mask', INT64, [1, 'sequence'])),
+    bytesField(12, valueInfo('logits', FLOAT, [1, 'sequence', LABELS.length])),
+  ]);
+  return Buffer.concat([intField(1, 8), bytesField(7, graph), bytesField(8, intField(2, 13))]);
+}
+
+describe('tagResumeEntities', () => {
+  let tmp: string;
+  let warn: ReturnType<typeof mock.method>;
+
+  before(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'resume-ner-'));
+  });
+
+  after(async () => {
+    await fs.rm(tmp, { recursive: true, force: true });
+    delete process.env.RESUME_NER_MODEL_DIR;
+  });
+
+  beforeEach(() => {
+    resetResumeTagger();
+    warn = mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    warn.mock.restore();
+  });
+
+  /**
+   * Model directory with the given files
+   */
+  async function modelDir(name: string, files: Record<string, Buffer | string>): Promise<string> {
+    const dir = path.join(tmp, name);
+    await fs.mkdir(dir);
+    for (const [file, contents] of Object.entries(files)) {
+      await fs.writeFile(path.join(dir, file), contents);
+    }
+    process.env.RESUME_NER_MODEL_DIR = dir;
+    return dir;
+  }
+
+  it('tags names, organizations and skills with a token classification model', async () => {
+    await modelDir('tiny', { 'model.onnx': buildModel(), 'vocab.txt': VOCAB.join('\n'), 'labels.json': JSON.stringify(LABELS) });
+
+    const text = 'Jane Doe\nWorked at ACME with TypeScript';
+    const entities = await tagResumeEntities(text);
+
+    assert.deepEqual(
+      entities.map(({ type, text, start, end }) => ({ type, text, start, end })),
+      [
+        { type: 'name', text: 'Jane Doe', start: 0, end: 8 },
+        { type: 'organization', text: 'ACME', start: 19, end: 23 },
+        { type: 'skill', text: 'TypeScript', start: 29, end: 39 },
+      ]
+    );
+    assert.ok(entities.every((entity) => entity.score > 0.9));
+    assert.equal(warn.mock.callCount(), 0);
+  });
+
+  it('falls back with one warning when vocab.txt and labels.json are missing', async () => {
+    const dir = await modelDir('incomplete', { 'model.onnx': buildModel() });
+
+    assert.deepEqual(await tagResumeEntities('Jane Doe'), []);
+    assert.deepEqual(await tagResumeEntities('Jane Doe'), []);
+
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal(warn.mock.calls[0].arguments[0], `Resume entity tagging disabled, ${dir} is missing vocab.txt, labels.json`);
+  });
+
+  it('falls back with one warning when the shipped model lacks its external data', async () => {
+    await modelDir('shipped', {
+      'model.onnx': await fs.readFile(path.join(process.cwd(), 'models', 'model.onnx')),
+      'vocab.txt': VOCAB.join('\n'),
+      'labels.json': JSON.stringify(LABELS),
+    });
+
+    const results = await Promise.all([tagResumeEntities('Jane Doe'), tagResumeEntities('Acme')]);
+
+    assert.deepEqual(results, [[], []]);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /copy model\.onnx\.data next to model\.onnx/);
+  });
+
+  it('does nothing when tagging is disabled', async () => {
+    process.env.RESUME_NER_ENABLED = 'false';
+    try {
+      assert.deepEqual(await tagResumeEntities('Jane Doe'), []);
+      assert.equal(warn.mock.callCount(), 0);
+    } finally {
+      delete process.env.RESUME_NER_ENABLED;
+    }
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Access tokens stop working once their session is signed out
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { NextRequest } from 'next/server';
+import { DELETE } from '@/app/api/auth/sessions/[sessionId]/route';
+import { GET as listPortfolios } from '@/app/api/portfolio/list/route';
+import { closePool } from '@/lib/db/connection';
+import { initializeDatabase } from '@/lib/db/init';
+import { createUser, deleteUser, resetUserPassword, revokeUserSessions } from '@/lib/db/services';
+import type { User } from '@/lib/db/schema';
+import { verifySessionAccessToken } from '@/lib/middleware/auth';
+import { createAccessToken } from '@/lib/security/jwt';
+import { startSession } from '@/lib/security/sessions';
+import { skipWithoutDatabase, uniqueEmail, useTestSecrets } from './helpers';
+
+function requestWith(url: string, accessToken: string, method = 'GET'): NextRequest {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    headers: { cookie: `accessToken=${accessToken}`, 'user-agent': 'test' },
+  });
+}
+
+describe('session access tokens', { skip: skipWithoutDatabase }, () => {
+  let user: User;
+
+  before(async () => {
+    useTestSecrets();
+    assert.ok(await initializeDatabase());
+    user = await createUser({ email: uniqueEmail('sessions'), passwordHash: 'hash', emailVerified: true });
+  });
+
+  after(async () => {
+    await deleteUser(user.id);
+    await closePool();
+  });
+
+  it('accepts tokens of active sessions only', async () => {
+    const tokens = await startSession(user, requestWith('/api/auth/login', ''));
+    assert.equal(await verifySessionAccessToken(tokens.accessToken), user.id);
+
+    // Tokens without a session, or of another user's session, do not count
+    assert.equal(await verifySessionAccessToken(createAccessToken(user.id, user.email, 'user')), null);
+    assert.equal(
+      await verifySessionAccessToken(createAccessToken('someone-else', user.email, 'user', tokens.sessionId)),
+      null
+    );
+
+    await revokeUserSessions(user.id, 'logout_all');
+    assert.equal(await verifySessionAccessToken(tokens.accessToken), null);
+  });
+
+  it('rejects the access token of a device signed out from another one', async () => {
+    const laptop = await startSession(user, requestWith('/api/auth/login', ''));
+    const phone = await startSession(user, requestWith('/api/auth/login', ''));
+
+    assert.equal((await listPortfolios(requestWith('/api/portfolio/list', phone.accessToken))).status, 200);
+
+    const response = await DELETE(
+      requestWith(`/api/auth/sessions/${phone.sessionId}`, laptop.accessToken, 'DELETE'),
+      { params: Promise.resolve({ sessionId: phone.sessionId }) }
+    );
+    assert.equal(response.status, 200);
+
+    assert.equal((await listPortfolios(requestWith('/api/portfolio/list', phone.accessToken))).status, 401);
+    assert.equal((await listPortfolios(requestWith('/api/portfolio/list', laptop.accessToken))).status, 200);
+  });
+
+  it('rejects every access token after a password reset', async () => {
+    const tokens = await startSession(user, requestWith('/api/auth/login', ''));
+    await resetUserPassword(user.id, 'new-hash');
+    assert.equal((await listPortfolios(requestWith('/api/portfolio/list', tokens.accessToken))).status, 401);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Refresh token rotation: concurrent refreshes share one successor, later
+ * reuse of a replaced token ends the session
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { NextRequest } from 'next/server';
+import { closePool, query } from '@/lib/db/connection';
+import { initializeDatabase } from '@/lib/db/init';
+import { createUser, deleteUser, findSessionById } from '@/lib/db/services';
+import type { User } from '@/lib/db/schema';
+import { refreshSession, startSession, type SessionTokens } from '@/lib/security/sessions';
+import { skipWithoutDatabase, uniqueEmail, useTestSecrets } from './helpers';
+
+function refreshRequest(): NextRequest {
+  return new NextRequest('http://localhost:3000/api/auth/refresh', { method: 'POST', headers: { 'user-agent': 'test' } });
+}
+
+/**
+ * Refresh a token, failing the test on an error
+ */
+async function refresh(refreshToken: string): Promise<SessionTokens> {
+  const result = await refreshSession(refreshToken, refreshRequest());
+  if (result.error !== undefined) {
+    assert.fail(result.error);
+  }
+  return result.tokens;
+}
+
+describe('refreshSession', { skip: skipWithoutDatabase }, () => {
+  let user: User;
+
+  before(async () => {
+    useTestSecrets();
+    assert.ok(await initializeDatabase());
+    user = await createUser({ email: uniqueEmail('refresh'), passwordHash: 'hash', emailVerified: true });
+  });
+
+  after(async () => {
+    await deleteUser(user.id);
+    await closePool();
+  });
+
+  it('gives concurrent refreshes of one token the same successor', async () => {
+    const { refreshToken, sessionId } = await startSession(user, refreshRequest());
+
+    const [first, second] = await Promise.all([refresh(refreshToken), refresh(refreshToken)]);
+    assert.notEqual(first.refreshToken, refreshToken);
+    assert.equal(second.refreshToken, first.refreshToken);
+    assert.equal((await findSessionById(sessionId))?.revokedAt, null);
+
+    // The successor is re-created for the second request, not read back from the row
+    const [row] = await query<Record<string, unknown>>('SELECT * FROM sessions WHERE id = $1', [sessionId]);
+    assert.ok(!('successorTokenEncrypted' in row));
+    assert.ok(!Object.values(row).some((value) => typeof value === 'string' && value.includes(first.refreshToken)));
+
+    // The shared successor rotates as usual
+    assert.notEqual((await refresh(first.refreshToken)).refreshToken, first.refreshToken);
+  });
+
+  it('gives a token refreshed moments ago the current token', async () => {
+    const { refreshToken } = await startSession(user, refreshRequest());
+    const first = await refresh(refreshToken);
+
+    assert.equal((await refresh(refreshToken)).refreshToken, first.refreshToken);
+  });
+
+  it('revokes the session when a replaced token comes back after the grace window', async () => {
+    const { refreshToken, sessionId } = await startSession(user, refreshRequest());
+    await refresh(refreshToken);
+    await query("UPDATE sessions SET rotated_at = rotated_at - INTERVAL '1 minute' WHERE id = $1", [sessionId]);
+
+    const reused = await refreshSession(refreshToken, refreshRequest());
+    assert.deepEqual(reused, { error: 'Session has ended, please sign in again', status: 401 });
+    assert.equal((await findSessionById(sessionId))?.revokedReason, 'reuse_detected');
+  });
+
+  it('revokes the session when a token older than the previous one comes back', async () => {
+    const { refreshToken, sessionId } = await startSession(user, refreshRequest());
+    const first = await refresh(refreshToken);
+    await refresh(first.refreshToken);
+
+    assert.equal((await refreshSession(refreshToken, refreshRequest())).error, 'Session has ended, please sign in again');
+    assert.equal((await findSessionById(sessionId))?.revokedReason, 'reuse_detected');
+  });
+});